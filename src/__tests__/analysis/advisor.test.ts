@@ -0,0 +1,112 @@
+/**
+ * Tests for analysis/advisor.ts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import BN from 'bn.js';
+import { ActionAdvisor } from '../../lib/analysis/advisor';
+
+// Parse "As Kd 2c" into card indices
+const cards = (hand: string): number[] =>
+  hand.split(' ').map(code => 'hdcs'.indexOf(code[1]) * 13 + '23456789TJQKA'.indexOf(code[0]));
+
+describe('ActionAdvisor', () => {
+  describe('Advise', () => {
+    it('should report pot odds as the equity needed to call', () => {
+      const advice = ActionAdvisor.advise({
+        equity: 50,
+        pot: new BN(300),
+        callAmount: new BN(100),
+      });
+
+      expect(advice.potOdds).toBe(25);
+    });
+
+    it('should call when equity beats pot odds', () => {
+      const advice = ActionAdvisor.advise({
+        equity: 30,
+        pot: new BN(300),
+        callAmount: new BN(100),
+      });
+
+      expect(advice.ev.call).toBeCloseTo(0.3 * 400 - 100);
+      expect(advice.bestAction).toBe('call');
+    });
+
+    it('should fold when equity is below pot odds', () => {
+      const advice = ActionAdvisor.advise({
+        equity: 20,
+        pot: new BN(300),
+        callAmount: new BN(100),
+      });
+
+      expect(advice.ev.call).toBeLessThan(0);
+      expect(advice.bestAction).toBe('fold');
+    });
+
+    it('should check when there is nothing to call', () => {
+      const advice = ActionAdvisor.advise({
+        equity: 20,
+        pot: new BN(300),
+        callAmount: new BN(0),
+      });
+
+      expect(advice.potOdds).toBe(0);
+      expect(advice.bestAction).toBe('check');
+    });
+
+    it('should raise with strong equity', () => {
+      const advice = ActionAdvisor.advise({
+        equity: 80,
+        pot: new BN(300),
+        callAmount: new BN(100),
+        raiseAmount: new BN(300),
+      });
+
+      // Called: pot 300 + 300 + 200 from the opponent
+      expect(advice.ev.raise).toBeCloseTo(0.8 * 800 - 300);
+      expect(advice.bestAction).toBe('raise');
+    });
+
+    it('should count fold equity when raising', () => {
+      const advice = ActionAdvisor.advise({
+        equity: 0,
+        pot: new BN(300),
+        callAmount: new BN(100),
+        raiseAmount: new BN(300),
+        foldEquity: 0.5,
+      });
+
+      expect(advice.ev.raise).toBeCloseTo(0.5 * 300 - 0.5 * 300);
+    });
+  });
+
+  describe('Estimate Equity', () => {
+    it('should lose equity against a tighter range', () => {
+      const options = { holeCards: cards('Ah 9d'), iterations: 4000, seed: 5 };
+      const vsAny = ActionAdvisor.estimateEquity(options);
+      const vsTight = ActionAdvisor.estimateEquity({ ...options, opponentRange: 10 });
+
+      expect(vsTight).toBeLessThan(vsAny);
+    });
+
+    it('should lose equity against more opponents', () => {
+      const options = { holeCards: cards('Qh Qd'), iterations: 4000, seed: 5 };
+      const headsUp = ActionAdvisor.estimateEquity(options);
+      const multiway = ActionAdvisor.estimateEquity({ ...options, opponents: 3 });
+
+      expect(multiway).toBeLessThan(headsUp);
+    });
+
+    it('should accept range notation for the opponent', () => {
+      const equity = ActionAdvisor.estimateEquity({
+        holeCards: cards('Kh Kd'),
+        opponentRange: 'AA',
+        iterations: 4000,
+        seed: 5,
+      });
+
+      expect(equity).toBeLessThan(25);
+    });
+  });
+});
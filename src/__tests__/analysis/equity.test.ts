@@ -0,0 +1,136 @@
+/**
+ * Tests for analysis/equity.ts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { EquityCalculator } from '../../lib/analysis/equity';
+import { PokerError } from '../../lib/shared/errors';
+
+// Parse "As Kd 2c" into card indices
+const cards = (hand: string): number[] =>
+  hand.split(' ').map(code => 'hdcs'.indexOf(code[1]) * 13 + '23456789TJQKA'.indexOf(code[0]));
+
+describe('EquityCalculator', () => {
+  describe('Exact Enumeration', () => {
+    it('should settle a complete board with one run-out', () => {
+      const result = EquityCalculator.calculate({
+        holeCards: [cards('Ah Ad'), cards('Kh Kd')],
+        communityCards: cards('2c 7d 9s Jc 3h'),
+      });
+
+      expect(result.exact).toBe(true);
+      expect(result.boards).toBe(1);
+      expect(result.seats[0]).toEqual({ win: 100, tie: 0, lose: 0, equity: 100 });
+      expect(result.seats[1]).toEqual({ win: 0, tie: 0, lose: 100, equity: 0 });
+    });
+
+    it('should count outs on the turn', () => {
+      const result = EquityCalculator.calculate({
+        holeCards: [cards('Ah As'), cards('Kh Ks')],
+        communityCards: cards('2c 7d 9s Kd'),
+      });
+
+      // Two aces left among 44 unseen cards
+      expect(result.exact).toBe(true);
+      expect(result.boards).toBe(44);
+      expect(result.seats[0].win).toBeCloseTo((2 / 44) * 100);
+      expect(result.seats[1].win).toBeCloseTo((42 / 44) * 100);
+    });
+
+    it('should enumerate every turn and river from the flop', () => {
+      const result = EquityCalculator.calculate({
+        holeCards: [cards('Ah Kh'), cards('Qc Qd')],
+        communityCards: cards('2h 7h Jc'),
+      });
+
+      expect(result.exact).toBe(true);
+      expect(result.boards).toBe(990);
+    });
+
+    it('should split equity when the board plays', () => {
+      const result = EquityCalculator.calculate({
+        holeCards: [cards('2c 3d'), cards('4c 5d'), cards('6c 7d')],
+        communityCards: cards('As Ks Qs Js Ts'),
+      });
+
+      for (const seat of result.seats) {
+        expect(seat.tie).toBe(100);
+        expect(seat.equity).toBeCloseTo(100 / 3);
+      }
+    });
+  });
+
+  describe('Monte Carlo Simulation', () => {
+    it('should estimate aces against kings preflop', () => {
+      const result = EquityCalculator.calculate({
+        holeCards: [cards('Ah As'), cards('Kd Kc')],
+        iterations: 20000,
+        seed: 42,
+      });
+
+      expect(result.exact).toBe(false);
+      expect(result.boards).toBe(20000);
+      expect(result.seats[0].equity).toBeGreaterThan(80);
+      expect(result.seats[0].equity).toBeLessThan(84);
+    });
+
+    it('should sample unknown opponent hands', () => {
+      const result = EquityCalculator.calculate({
+        holeCards: [cards('Ah As'), null],
+        iterations: 10000,
+        seed: 7,
+      });
+
+      expect(result.exact).toBe(false);
+      expect(result.seats[0].equity).toBeGreaterThan(83);
+      expect(result.seats[0].equity).toBeLessThan(87);
+    });
+
+    it('should repeat results for the same seed', () => {
+      const options = { holeCards: [cards('Ah Kh'), null, null], iterations: 2000, seed: 99 };
+      expect(EquityCalculator.calculate(options)).toEqual(EquityCalculator.calculate(options));
+    });
+
+    it('should keep equity summing to 100', () => {
+      const result = EquityCalculator.calculate({
+        holeCards: [cards('9h 9d'), cards('Ac Kc'), null],
+        communityCards: cards('9c Tc 2s'),
+        iterations: 2000,
+        seed: 3,
+      });
+
+      const total = result.seats.reduce((sum, seat) => sum + seat.equity, 0);
+      expect(total).toBeCloseTo(100);
+    });
+  });
+
+  describe('Validation', () => {
+    it('should reject duplicate cards', () => {
+      expect(() =>
+        EquityCalculator.calculate({
+          holeCards: [cards('Ah As'), cards('Ah Kd')],
+        })
+      ).toThrow(PokerError);
+    });
+
+    it('should reject invalid card indices', () => {
+      expect(() =>
+        EquityCalculator.calculate({
+          holeCards: [[0, 52], cards('Kh Kd')],
+        })
+      ).toThrow(PokerError);
+    });
+
+    it('should require at least two seats', () => {
+      expect(() => EquityCalculator.calculate({ holeCards: [cards('Ah As')] })).toThrow();
+    });
+  });
+
+  describe('Count Boards', () => {
+    it('should count run-outs', () => {
+      expect(EquityCalculator.countBoards(48, 5)).toBe(1712304);
+      expect(EquityCalculator.countBoards(45, 2)).toBe(990);
+      expect(EquityCalculator.countBoards(44, 0)).toBe(1);
+    });
+  });
+});
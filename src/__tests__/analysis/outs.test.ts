@@ -0,0 +1,107 @@
+/**
+ * Tests for analysis/outs.ts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { OutsAnalyzer } from '../../lib/analysis/outs';
+import { HandRank } from '../../lib/shared/types';
+
+// Parse "As Kd 2c" into card indices
+const cards = (hand: string): number[] =>
+  hand.split(' ').map(code => 'hdcs'.indexOf(code[1]) * 13 + '23456789TJQKA'.indexOf(code[0]));
+
+const drawTypes = (hole: string, board: string) =>
+  OutsAnalyzer.analyze(cards(hole), cards(board)).draws.map(draw => draw.type);
+
+describe('OutsAnalyzer', () => {
+  describe('Draws', () => {
+    it('should find a flush draw with nine outs', () => {
+      const analysis = OutsAnalyzer.analyze(cards('Ah 9h'), cards('Kh 5h 2c'));
+      const flush = analysis.draws.find(draw => draw.type === 'flush');
+
+      expect(analysis.madeHand?.rank).toBe(HandRank.HighCard);
+      expect(flush?.outs).toHaveLength(9);
+      // Nine hearts plus three aces and three nines; board pairs do not count
+      expect(analysis.outs).toHaveLength(15);
+    });
+
+    it('should find an open-ended straight draw', () => {
+      const analysis = OutsAnalyzer.analyze(cards('8h 7d'), cards('6c 5s Kh'));
+      const draw = analysis.draws.find(d => d.type === 'open-ended');
+
+      expect(draw?.outs).toHaveLength(8);
+    });
+
+    it('should tell a double gutshot from an open-ended draw', () => {
+      const analysis = OutsAnalyzer.analyze(cards('9h 7d'), cards('5c Js 8h'));
+
+      expect(analysis.draws.map(d => d.type)).toEqual(['double-gutshot']);
+      expect(analysis.draws[0].outs).toHaveLength(8);
+    });
+
+    it('should count 2-3-4-5 as open-ended with the ace below', () => {
+      expect(drawTypes('2h 3d', '4c 5s Kh')).toContain('open-ended');
+      expect(drawTypes('Ah 2d', '3c 4s Kh')).toContain('gutshot');
+    });
+
+    it('should find a gutshot', () => {
+      const analysis = OutsAnalyzer.analyze(cards('9h 7d'), cards('6c 5s Kh'));
+      const draw = analysis.draws.find(d => d.type === 'gutshot');
+
+      expect(draw?.outs).toEqual(cards('8h 8d 8c 8s'));
+    });
+
+    it('should find backdoor draws on the flop only', () => {
+      expect(drawTypes('Ah 9h', 'Kh 7d 2c')).toContain('backdoor-flush');
+      expect(drawTypes('9h 8d', 'Tc 2s Kh')).toContain('backdoor-straight');
+      expect(drawTypes('Ah 9h', 'Kh 7d 2c 3s')).not.toContain('backdoor-flush');
+    });
+
+    it('should ignore draws that are only on the board', () => {
+      expect(drawTypes('2c 3d', '9h 8h 7h 6s')).toEqual([]);
+    });
+
+    it('should not report a flush draw once the flush is made', () => {
+      expect(drawTypes('Ah 9h', 'Kh 5h 2h')).not.toContain('flush');
+    });
+  });
+
+  describe('Outs', () => {
+    it('should count outs to improve a made hand', () => {
+      // Two pair improves to a full house with four cards
+      const analysis = OutsAnalyzer.analyze(cards('Kc Qd'), cards('Kh Qs 4c'));
+      expect(analysis.madeHand?.rank).toBe(HandRank.TwoPair);
+      expect(analysis.outs).toHaveLength(4);
+    });
+
+    it('should have nothing to analyze preflop or on the river', () => {
+      const preflop = OutsAnalyzer.analyze(cards('Ah Kh'), []);
+      expect(preflop.madeHand).toBeNull();
+      expect(preflop.outs).toEqual([]);
+
+      const river = OutsAnalyzer.analyze(cards('Ah Kh'), cards('2h 7h Jh 3d 9s'));
+      expect(river.madeHand?.rank).toBe(HandRank.Flush);
+      expect(river.cardsToCome).toBe(0);
+      expect(river.draws).toEqual([]);
+    });
+
+    it('should reject duplicate cards', () => {
+      expect(() => OutsAnalyzer.analyze(cards('Ah Kh'), cards('Ah 7d 2c'))).toThrow();
+    });
+  });
+
+  describe('Probabilities', () => {
+    it('should apply the rule of four on the flop', () => {
+      const odds = OutsAnalyzer.getProbabilities(9, 47, 2);
+      expect(odds.ruleOfTwoFour).toBe(36);
+      expect(odds.nextCard).toBeCloseTo((9 / 47) * 100);
+      expect(odds.byRiver).toBeCloseTo((1 - (38 / 47) * (37 / 46)) * 100);
+    });
+
+    it('should apply the rule of two on the turn', () => {
+      const odds = OutsAnalyzer.getProbabilities(9, 46, 1);
+      expect(odds.ruleOfTwoFour).toBe(18);
+      expect(odds.byRiver).toBeCloseTo((9 / 46) * 100);
+    });
+  });
+});
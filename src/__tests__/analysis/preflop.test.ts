@@ -0,0 +1,177 @@
+/**
+ * Tests for analysis/preflop.ts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { StartingHandTable, PreflopStrategy, ChartAction } from '../../lib/analysis/preflop';
+import { STARTING_HAND_EQUITIES } from '../../lib/analysis/starting-hands';
+
+// Parse "As Kd 2c" into card indices
+const cards = (hand: string): number[] =>
+  hand.split(' ').map(code => 'hdcs'.indexOf(code[1]) * 13 + '23456789TJQKA'.indexOf(code[0]));
+
+const countActions = (chart: Record<string, ChartAction>, actions: ChartAction[]) =>
+  Object.values(chart).filter(action => actions.includes(action)).length;
+
+describe('StartingHandTable', () => {
+  describe('Get Hands', () => {
+    it('should list all 169 hands covering 1326 combos', () => {
+      const hands = StartingHandTable.getHands();
+
+      expect(hands).toHaveLength(169);
+      expect(hands.reduce((sum, hand) => sum + hand.combos.length, 0)).toBe(1326);
+      expect(hands[hands.length - 1].percentile).toBeCloseTo(100);
+    });
+
+    it('should rank aces first and weak offsuit hands last', () => {
+      const hands = StartingHandTable.getHands();
+
+      expect(hands[0].name).toBe('AA');
+      expect(hands[0].rank).toBe(1);
+      expect(hands[1].name).toBe('KK');
+      expect(StartingHandTable.getHand('72o')!.rank).toBeGreaterThan(155);
+    });
+
+    it('should rank suited hands above the same ranks offsuit', () => {
+      for (const name of ['AK', 'KQ', 'T9', '54']) {
+        const suited = StartingHandTable.getHand(`${name}s`)!;
+        const offsuit = StartingHandTable.getHand(`${name}o`)!;
+        expect(suited.equity).toBeGreaterThan(offsuit.equity);
+      }
+    });
+
+    it('should match the equities computed with the evaluator', () => {
+      const computed = StartingHandTable.computeEquities();
+
+      expect(computed.map(([name]) => name)).toEqual(STARTING_HAND_EQUITIES.map(([name]) => name));
+      computed.forEach(([, equity], i) => {
+        expect(STARTING_HAND_EQUITIES[i][1]).toBeCloseTo(equity, 2);
+      });
+    });
+
+    it('should count combos per hand class', () => {
+      expect(StartingHandTable.getHand('QQ')!.combos).toHaveLength(6);
+      expect(StartingHandTable.getHand('AKs')!.combos).toHaveLength(4);
+      expect(StartingHandTable.getHand('AKo')!.combos).toHaveLength(12);
+    });
+  });
+
+  describe('Get Hand Name', () => {
+    it('should name pairs, suited and offsuit hands', () => {
+      expect(StartingHandTable.getHandName(...(cards('Ah As') as [number, number]))).toBe('AA');
+      expect(StartingHandTable.getHandName(...(cards('Kh Ah') as [number, number]))).toBe('AKs');
+      expect(StartingHandTable.getHandName(...(cards('7c 2d') as [number, number]))).toBe('72o');
+    });
+  });
+
+  describe('Get Top Range', () => {
+    it('should take the strongest hands first', () => {
+      const top = StartingHandTable.getTopRange(1);
+      expect(top).toEqual(expect.arrayContaining(StartingHandTable.getHand('AA')!.combos));
+      expect(top.length).toBeLessThan(40);
+    });
+
+    it('should cover every combo at 100% and none at 0%', () => {
+      expect(StartingHandTable.getTopRange(100)).toHaveLength(1326);
+      expect(StartingHandTable.getTopRange(0)).toHaveLength(0);
+    });
+  });
+});
+
+describe('PreflopStrategy', () => {
+  describe('Positions', () => {
+    it('should list positions for 2-6 handed tables', () => {
+      expect(PreflopStrategy.getPositions(2)).toEqual(['BTN', 'BB']);
+      expect(PreflopStrategy.getPositions(3)).toEqual(['BTN', 'SB', 'BB']);
+      expect(PreflopStrategy.getPositions(6)).toEqual(['UTG', 'HJ', 'CO', 'BTN', 'SB', 'BB']);
+    });
+
+    it('should map seats relative to the dealer', () => {
+      expect(PreflopStrategy.getPosition(0, 6)).toBe('BTN');
+      expect(PreflopStrategy.getPosition(3, 6)).toBe('UTG');
+      expect(PreflopStrategy.getPosition(5, 6)).toBe('CO');
+      expect(PreflopStrategy.getPosition(1, 2)).toBe('BB');
+    });
+
+    it('should map PlayerStateManager position names', () => {
+      expect(PreflopStrategy.fromPositionName('Dealer', 6)).toBe('BTN');
+      expect(PreflopStrategy.fromPositionName('Position 3', 6)).toBe('UTG');
+      expect(PreflopStrategy.fromPositionName('Cutoff', 5)).toBe('CO');
+      expect(PreflopStrategy.fromPositionName('Dealer (Small Blind)', 2)).toBe('BTN');
+      expect(PreflopStrategy.fromPositionName('Big Blind', 2)).toBe('BB');
+      expect(PreflopStrategy.fromPositionName('Unknown', 6)).toBeNull();
+    });
+
+    it('should reject unsupported table sizes', () => {
+      expect(() => PreflopStrategy.getPositions(7)).toThrow();
+      expect(() => PreflopStrategy.getPositions(1)).toThrow();
+    });
+  });
+
+  describe('Charts', () => {
+    it('should always play aces aggressively and fold 72o early', () => {
+      for (const playerCount of [2, 3, 4, 5, 6]) {
+        for (const position of PreflopStrategy.getPositions(playerCount)) {
+          if (position !== 'BB') {
+            expect(PreflopStrategy.getAction('AA', position, playerCount)).toBe('raise');
+          }
+          expect(PreflopStrategy.getAction('AA', position, playerCount, true)).toBe('three-bet');
+        }
+      }
+      expect(PreflopStrategy.getAction('72o', 'UTG', 6)).toBe('fold');
+      expect(PreflopStrategy.getAction('72o', 'UTG', 6, true)).toBe('fold');
+    });
+
+    it('should keep opening and facing-a-raise actions in separate charts', () => {
+      for (const position of PreflopStrategy.getPositions(6)) {
+        const opening = PreflopStrategy.getChart(position, 6);
+        const facingRaise = PreflopStrategy.getChart(position, 6, true);
+
+        expect(countActions(opening, ['three-bet', 'call'])).toBe(0);
+        expect(countActions(facingRaise, ['raise', 'check'])).toBe(0);
+        expect(countActions(facingRaise, ['call'])).toBeGreaterThan(0);
+      }
+    });
+
+    it('should call a raise with opening hands outside the 3-bet range', () => {
+      // A hand in the button's opening range, just past its 3-bet range
+      const hand = StartingHandTable.getHands().find(h => h.percentile > 8 && h.percentile <= 20)!;
+
+      expect(PreflopStrategy.getAction(hand.name, 'BTN', 6)).toBe('raise');
+      expect(PreflopStrategy.getAction(hand.name, 'BTN', 6, true)).toBe('call');
+    });
+
+    it('should open wider in later positions', () => {
+      const utg = PreflopStrategy.getChart('UTG', 6);
+      const btn = PreflopStrategy.getChart('BTN', 6);
+
+      expect(countActions(btn, ['raise', 'three-bet'])).toBeGreaterThan(
+        countActions(utg, ['raise', 'three-bet'])
+      );
+    });
+
+    it('should open wider heads-up than six-handed on the button', () => {
+      const headsUp = PreflopStrategy.getChart('BTN', 2);
+      const sixHanded = PreflopStrategy.getChart('BTN', 6);
+
+      expect(countActions(headsUp, ['raise', 'three-bet'])).toBeGreaterThan(
+        countActions(sixHanded, ['raise', 'three-bet'])
+      );
+    });
+
+    it('should defend the big blind by calling, never by opening', () => {
+      const unopened = PreflopStrategy.getChart('BB', 6);
+      const facingRaise = PreflopStrategy.getChart('BB', 6, true);
+
+      expect(countActions(unopened, ['raise', 'fold'])).toBe(0);
+      expect(countActions(unopened, ['check'])).toBe(169);
+      expect(countActions(facingRaise, ['call'])).toBeGreaterThan(0);
+    });
+
+    it('should reject positions not at the table', () => {
+      expect(() => PreflopStrategy.getAction('AA', 'UTG', 4)).toThrow();
+      expect(() => PreflopStrategy.getAction('AA', 'UTG', 4, true)).toThrow();
+      expect(() => PreflopStrategy.getAction('AX', 'BTN', 6)).toThrow();
+    });
+  });
+});
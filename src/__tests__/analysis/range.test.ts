@@ -0,0 +1,103 @@
+/**
+ * Tests for analysis/range.ts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { HandRange } from '../../lib/analysis/range';
+
+// Parse "As Kd 2c" into card indices
+const cards = (hand: string): number[] =>
+  hand.split(' ').map(code => 'hdcs'.indexOf(code[1]) * 13 + '23456789TJQKA'.indexOf(code[0]));
+
+const count = (notation: string) => HandRange.parse(notation).length;
+
+describe('HandRange', () => {
+  describe('Parse', () => {
+    it('should expand pairs', () => {
+      expect(count('QQ')).toBe(6);
+      expect(count('QQ+')).toBe(18);
+      expect(count('22-55')).toBe(24);
+      expect(count('55-22')).toBe(24);
+    });
+
+    it('should expand suited, offsuit and any non-pairs', () => {
+      expect(count('AKs')).toBe(4);
+      expect(count('AKo')).toBe(12);
+      expect(count('AK')).toBe(16);
+      expect(count('KA')).toBe(16);
+    });
+
+    it('should expand plus and dash ranges by kicker', () => {
+      expect(count('A2s+')).toBe(48);
+      expect(count('KTo+')).toBe(36);
+      expect(count('A2s-A5s')).toBe(16);
+    });
+
+    it('should parse specific combos', () => {
+      const range = HandRange.parse('AhKh');
+      expect(range).toEqual([{ cards: cards('Kh Ah'), weight: 1 }]);
+    });
+
+    it('should combine tokens without duplicates', () => {
+      expect(count('AKs, QQ+, A2s-A5s, 76o')).toBe(4 + 18 + 16 + 12);
+      expect(count('AK AKs')).toBe(16);
+    });
+
+    it('should apply weights, keeping the last weight for a combo', () => {
+      const range = HandRange.parse('AK:0.5, AKs');
+      expect(HandRange.countCombos(range)).toBe(12 * 0.5 + 4);
+    });
+
+    it('should drop zero-weight combos', () => {
+      expect(count('QQ+, KK:0')).toBe(12);
+    });
+
+    it('should reject invalid tokens and weights', () => {
+      expect(() => HandRange.parse('AX')).toThrow('Invalid range token');
+      expect(() => HandRange.parse('AhAh')).toThrow('Invalid range token');
+      expect(() => HandRange.parse('A2s-K5s')).toThrow('Invalid range token');
+      expect(() => HandRange.parse('AK:2')).toThrow('Invalid range weight');
+    });
+  });
+
+  describe('Card Removal', () => {
+    it('should remove combos blocked by known cards', () => {
+      const range = HandRange.removeCards(HandRange.parse('AA'), cards('Ah'));
+      expect(range).toHaveLength(3);
+    });
+  });
+
+  describe('Range Equity', () => {
+    it('should favour overpairs against a small pair range', () => {
+      const result = HandRange.calculateEquity(
+        [HandRange.parse('QQ+'), HandRange.parse('22-44')],
+        { iterations: 5000, seed: 11 }
+      );
+
+      expect(result.seats[0].equity).toBeGreaterThan(75);
+      expect(result.seats[0].equity + result.seats[1].equity).toBeCloseTo(100);
+    });
+
+    it('should respect card removal from the board', () => {
+      // Only KK is left for the first range, and it has a set
+      const result = HandRange.calculateEquity(
+        [HandRange.parse('AA, KK'), HandRange.parse('QQ')],
+        { communityCards: cards('Ah Ad Kc 7s 2d'), iterations: 500, seed: 1 }
+      );
+
+      expect(result.seats[0].equity).toBe(100);
+    });
+
+    it('should sample combos in proportion to weight', () => {
+      const board = cards('Ks 8d 5c 3h 2s');
+      const weighted = HandRange.calculateEquity(
+        [HandRange.parse('AA:0.1, 77'), HandRange.parse('QQ')],
+        { communityCards: board, iterations: 4000, seed: 2 }
+      );
+
+      // AA (wins) is 1/10 as likely per combo as 77 (loses)
+      expect(weighted.seats[0].equity).toBeGreaterThan(5);
+      expect(weighted.seats[0].equity).toBeLessThan(15);
+    });
+  });
+});
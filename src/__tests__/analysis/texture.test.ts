@@ -0,0 +1,73 @@
+/**
+ * Tests for analysis/texture.ts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { BoardTexture } from '../../lib/analysis/texture';
+
+// Parse "As Kd 2c" into card indices
+const cards = (hand: string): number[] =>
+  hand.split(' ').map(code => 'hdcs'.indexOf(code[1]) * 13 + '23456789TJQKA'.indexOf(code[0]));
+
+const classify = (board: string) => BoardTexture.classify(cards(board));
+
+describe('BoardTexture', () => {
+  describe('Classify', () => {
+    it('should classify suit distribution', () => {
+      expect(classify('Kh 8h 3h').suitedness).toBe('monotone');
+      expect(classify('Kh 8h 3d').suitedness).toBe('two-tone');
+      expect(classify('Kh 8d 3c').suitedness).toBe('rainbow');
+    });
+
+    it('should detect paired and trips boards', () => {
+      expect(classify('Kh Kd 3c').paired).toBe(true);
+      expect(classify('Kh Kd 3c').trips).toBe(false);
+      expect(classify('Kh Kd Kc').trips).toBe(true);
+      expect(classify('Kh Qd 3c').paired).toBe(false);
+    });
+
+    it('should detect connected boards, including the wheel', () => {
+      expect(classify('9h 8d 7c').connected).toBe(true);
+      expect(classify('Ah 3d 5c').connected).toBe(true);
+      expect(classify('Kh 8d 3c').connected).toBe(false);
+    });
+
+    it('should classify board height', () => {
+      expect(classify('Ah Kd 7c').height).toBe('high');
+      expect(classify('Jh 6d 2c').height).toBe('middle');
+      expect(classify('8h 5d 2c').height).toBe('low');
+    });
+
+    it('should score wet boards above dry boards', () => {
+      const wet = classify('Jh Th 9d');
+      const dry = classify('Kh 7d 2c');
+
+      expect(wet.wetness).toBe('wet');
+      expect(dry.wetness).toBe('dry');
+      expect(wet.score).toBeGreaterThan(dry.score);
+    });
+
+    it('should build display labels', () => {
+      expect(classify('Kh Kd 3c').labels).toEqual(['Paired', 'Rainbow', 'High', 'Dry']);
+      expect(classify('Jh Th 9h').labels).toEqual(['Monotone', 'Connected', 'High', 'Wet']);
+    });
+
+    it('should classify turn and river boards', () => {
+      expect(classify('Kh 8d 3c 2s').suitedness).toBe('rainbow');
+      // Two of a suit no longer draws to a flush on the river
+      expect(classify('Kh 8h Qc 2s 5d').score).toBeLessThan(classify('Kh 8h Qc 2s').score);
+    });
+
+    it('should reject boards without a flop', () => {
+      expect(() => BoardTexture.classify(cards('Kh 8d'))).toThrow();
+      expect(() => BoardTexture.classify([0, 1, 52])).toThrow();
+    });
+  });
+
+  describe('Get Bucket', () => {
+    it('should produce stable bucket keys', () => {
+      expect(BoardTexture.getBucket(cards('Jh Th 9d'))).toBe('two-tone:unpaired:connected:high');
+      expect(BoardTexture.getBucket(cards('Jd Ts 9d'))).toBe('two-tone:unpaired:connected:high');
+    });
+  });
+});
@@ -4,9 +4,117 @@
  */
 
 import { describe, it, expect } from '@jest/globals';
+import { PublicKey } from '@solana/web3.js';
+import BN from 'bn.js';
+import { PotManager } from '../../lib/betting/pot-manager';
+import {
+  AnteType,
+  BettingStructure,
+  Game,
+  GameConfig,
+  GameStage,
+  PlayerState,
+  PlayerStatus,
+  StraddleType,
+} from '../../lib/shared/types';
 
 describe('Pot Manager', () => {
   it('should be tested in integration tests', () => {
     expect(true).toBe(true);
   });
 });
+
+describe('PotManager Forced Bets', () => {
+  const createGame = (config: Partial<GameConfig>, playerCount = 4): Game => ({
+    authority: PublicKey.unique(),
+    gameId: new BN(1),
+    stage: GameStage.Waiting,
+    smallBlind: new BN(10),
+    bigBlind: new BN(20),
+    minBuyIn: new BN(1000),
+    maxBuyIn: new BN(10000),
+    maxPlayers: 6,
+    playerCount,
+    players: Array.from({ length: 6 }, () => PublicKey.unique()),
+    activePlayers: Array(6).fill(false),
+    dealerPosition: 0,
+    currentPlayerIndex: 0,
+    pot: new BN(0),
+    currentBet: new BN(0),
+    playersActed: Array(6).fill(false),
+    communityCards: [0, 0, 0, 0, 0],
+    communityCardsRevealed: 0,
+    encryptedDeck: Array(32).fill(0),
+    deckInitialized: false,
+    startedAt: new BN(0),
+    lastActionAt: new BN(0),
+    shuffleSessionId: Array(32).fill(0),
+    bump: 0,
+    config: { bettingStructure: BettingStructure.NoLimit, ...config },
+  });
+
+  const summary = (game: Game) =>
+    PotManager.getForcedBets(game).map(bet => `${bet.kind}:${bet.seat}:${bet.amount.toString()}`);
+
+  it('should post just the blinds by default', () => {
+    expect(summary(createGame({}))).toEqual(['smallBlind:1:10', 'bigBlind:2:20']);
+  });
+
+  it('should take a dead ante from every player', () => {
+    const game = createGame({ ante: new BN(5) });
+    const bets = PotManager.getForcedBets(game);
+
+    expect(bets.filter(bet => bet.kind === 'ante').map(bet => bet.seat)).toEqual([0, 1, 2, 3]);
+    expect(bets.filter(bet => bet.kind === 'ante').every(bet => !bet.live)).toBe(true);
+    expect(PotManager.getAnteTotal(game).toNumber()).toBe(20);
+  });
+
+  it('should take a big blind ante once from the big blind', () => {
+    const game = createGame({ ante: new BN(20), anteType: AnteType.BigBlind });
+
+    expect(summary(game)).toEqual(['ante:2:20', 'smallBlind:1:10', 'bigBlind:2:20']);
+    expect(PotManager.getAnteTotal(game).toNumber()).toBe(20);
+  });
+
+  it('should post the straddle after the blinds', () => {
+    const game = createGame({ straddle: StraddleType.UnderTheGun });
+    expect(summary(game)).toEqual(['smallBlind:1:10', 'bigBlind:2:20', 'straddle:3:40']);
+  });
+});
+
+describe('PotManager Showdown Pots', () => {
+  const createPlayerState = (seatIndex: number, totalBet: number, hasFolded = false): PlayerState => ({
+    player: PublicKey.unique(),
+    game: PublicKey.unique(),
+    seatIndex,
+    status: hasFolded ? PlayerStatus.Folded : PlayerStatus.Active,
+    chipStack: new BN(0),
+    currentBet: new BN(0),
+    totalBetThisHand: new BN(totalBet),
+    encryptedHoleCards: [0, 0],
+    hasCards: !hasFolded,
+    hasFolded,
+    isAllIn: false,
+    joinedAt: new BN(0),
+    lastActionAt: new BN(0),
+    bump: 0,
+  });
+
+  const summary = (playerStates: PlayerState[]) =>
+    PotManager.calculateShowdownPots(playerStates).map(pot => `${pot.amount.toString()}:${pot.eligiblePlayers.join(',')}`);
+
+  it('should split the pots at each all-in', () => {
+    expect(summary([createPlayerState(0, 50), createPlayerState(1, 100), createPlayerState(2, 100)]))
+      .toEqual(['150:0,1,2', '100:1,2']);
+  });
+
+  it('should count folded chips in the pots they reached without making the player eligible', () => {
+    expect(summary([createPlayerState(0, 50), createPlayerState(1, 100), createPlayerState(2, 100, true)]))
+      .toEqual(['150:0,1', '100:1']);
+  });
+
+  it('should add folded chips above the largest stake to the last pot', () => {
+    expect(summary([createPlayerState(0, 50), createPlayerState(1, 100), createPlayerState(2, 200, true)]))
+      .toEqual(['150:0,1', '200:1']);
+  });
+});
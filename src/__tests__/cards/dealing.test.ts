@@ -4,9 +4,18 @@
  */
 
 import { describe, it, expect } from '@jest/globals';
+import { CardDealer } from '../../lib/cards/dealing';
 
 describe('Card Dealing', () => {
   it('should be tested in card integration tests', () => {
     expect(true).toBe(true);
   });
+
+  it('should deal four hole cards per player for Omaha', () => {
+    const { holeCards, communityCards, remainingDeck } = CardDealer.dealGame(3, undefined, 4);
+
+    expect(holeCards.every(hand => hand.length === 4)).toBe(true);
+    expect(communityCards).toHaveLength(5);
+    expect(remainingDeck).toHaveLength(52 - 12 - 5);
+  });
 });
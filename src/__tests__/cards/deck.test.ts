@@ -35,6 +35,26 @@ describe('DeckManager', () => {
     });
   });
 
+  describe('Short Deck', () => {
+    it('should leave out the twos through fives', () => {
+      const deck = DeckManager.createDeck(true);
+
+      expect(deck).toHaveLength(36);
+      expect(deck.every(card => card.value >= 6)).toBe(true);
+      expect(DeckManager.getCardsByRank(deck, Rank.Six)).toHaveLength(4);
+    });
+
+    it('should keep standard card indices', () => {
+      const indices = DeckManager.getCardIndices(true);
+
+      expect(indices).toHaveLength(36);
+      expect(indices[0]).toBe(4);
+      expect(indices.map(index => DeckManager.decodeCard(index)!.value)).toEqual(
+        DeckManager.createDeck(true).map(card => card.value)
+      );
+    });
+  });
+
   describe('Card Encoding/Decoding', () => {
     it('should encode and decode cards correctly', () => {
       const deck = DeckManager.createDeck();
@@ -0,0 +1,232 @@
+/**
+ * Tests for cards/evaluator.ts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { Card, DeckManager } from '../../lib/cards/deck';
+import { HandEvaluator, HandRank } from '../../lib/cards/evaluator';
+
+// Parse "As Kd 2c" into cards
+const cards = (hand: string): Card[] =>
+  hand.split(' ').map(code => {
+    const rankIndex = '23456789TJQKA'.indexOf(code[0]);
+    const suitIndex = 'hdcs'.indexOf(code[1]);
+    return DeckManager.decodeCard(suitIndex * 13 + rankIndex)!;
+  });
+
+const evaluate = (hand: string) => HandEvaluator.evaluateHand(cards(hand));
+
+const compare = (hand1: string, hand2: string) =>
+  HandEvaluator.compareHands(evaluate(hand1), evaluate(hand2));
+
+describe('HandEvaluator', () => {
+  describe('Hand Categories', () => {
+    const cases: [string, HandRank, number[]][] = [
+      ['As Ks Qs Js Ts', HandRank.RoyalFlush, [9, 14]],
+      ['9h 8h 7h 6h 5h', HandRank.StraightFlush, [8, 9]],
+      ['5d 4d 3d 2d Ad', HandRank.StraightFlush, [8, 5]],
+      ['7c 7d 7h 7s Kd', HandRank.FourOfAKind, [7, 7, 13]],
+      ['Jc Jd Jh 4s 4d', HandRank.FullHouse, [6, 11, 4]],
+      ['Ah Jh 9h 6h 2h', HandRank.Flush, [5, 14, 11, 9, 6, 2]],
+      ['Tc 9d 8h 7s 6d', HandRank.Straight, [4, 10]],
+      ['5c 4d 3h 2s Ad', HandRank.Straight, [4, 5]],
+      ['Qc Qd Qh 9s 3d', HandRank.ThreeOfAKind, [3, 12, 9, 3]],
+      ['Kc Kd 6h 6s 2d', HandRank.TwoPair, [2, 13, 6, 2]],
+      ['8c 8d Ah 5s 3d', HandRank.OnePair, [1, 8, 14, 5, 3]],
+      ['Ac Jd 8h 5s 3d', HandRank.HighCard, [0, 14, 11, 8, 5, 3]],
+    ];
+
+    it.each(cases)('should classify %s', (hand, rank, key) => {
+      const result = evaluate(hand);
+      expect(result.rank).toBe(rank);
+      expect(result.key).toEqual(key);
+      expect(result.rankName).toBe(HandRank[rank]);
+    });
+
+    it('should order categories from high card to royal flush', () => {
+      const ordered = cases.map(([hand]) => evaluate(hand)).reverse();
+      for (let i = 1; i < ordered.length; i++) {
+        expect(HandEvaluator.compareHands(ordered[i], ordered[i - 1])).toBeGreaterThanOrEqual(0);
+      }
+    });
+
+    it('should not treat A-K-Q-J-T of mixed suits as a flush', () => {
+      expect(evaluate('As Kd Qs Js Ts').rank).toBe(HandRank.Straight);
+    });
+
+    it('should not wrap straights around the ace', () => {
+      expect(evaluate('Qs Kd Ah 2c 3d').rank).toBe(HandRank.HighCard);
+    });
+
+    it('should reject fewer than five cards', () => {
+      expect(() => evaluate('As Kd Qh Jc')).toThrow();
+    });
+  });
+
+  describe('Tie Breaking', () => {
+    it('should rank the wheel below a six-high straight', () => {
+      expect(compare('5c 4d 3h 2s Ad', '6c 5d 4h 3s 2d')).toBe(-1);
+    });
+
+    it('should rank a steel wheel below a six-high straight flush', () => {
+      expect(compare('5d 4d 3d 2d Ad', '6h 5h 4h 3h 2h')).toBe(-1);
+    });
+
+    it('should compare quads by quad rank, then kicker', () => {
+      expect(compare('9c 9d 9h 9s 2d', '8c 8d 8h 8s Ad')).toBe(1);
+      expect(compare('9c 9d 9h 9s Kd', '9c 9d 9h 9s Qd')).toBe(1);
+    });
+
+    it('should compare full houses by trips, then pair', () => {
+      expect(compare('Tc Td Th 2s 2d', '9c 9d 9h As Ad')).toBe(1);
+      expect(compare('Tc Td Th 5s 5d', 'Tc Td Th 4s 4d')).toBe(1);
+    });
+
+    it('should compare flushes card by card', () => {
+      expect(compare('Ah Jh 9h 6h 3h', 'Ad Jd 9d 6d 2d')).toBe(1);
+      expect(compare('Kh Qh 9h 6h 3h', 'Ad 5d 4d 3d 7d')).toBe(-1);
+    });
+
+    it('should compare trips by trip rank, then kickers', () => {
+      expect(compare('7c 7d 7h Ks 2d', '7c 7d 7h Qs Jd')).toBe(1);
+      expect(compare('7c 7d 7h Ks 3d', '7c 7d 7h Ks 2d')).toBe(1);
+    });
+
+    it('should compare two pair by high pair, low pair, then kicker', () => {
+      expect(compare('Ac Ad 2h 2s 3d', 'Kc Kd Qh Qs Jd')).toBe(1);
+      expect(compare('Ac Ad 5h 5s 3d', 'Ac Ad 4h 4s Kd')).toBe(1);
+      expect(compare('Ac Ad 5h 5s Kd', 'Ah As 5c 5d Qd')).toBe(1);
+    });
+
+    it('should compare pairs by pair rank, then each kicker', () => {
+      expect(compare('3c 3d Ah Ks Qd', '2c 2d Ah Ks Qd')).toBe(1);
+      expect(compare('Jc Jd Ah 9s 4d', 'Jh Js Ah 9c 3d')).toBe(1);
+      expect(compare('Jc Jd Ah 9s 4d', 'Jh Js Ad 9c 4c')).toBe(0);
+    });
+
+    it('should compare high card hands down to the last card', () => {
+      expect(compare('Ac Jd 8h 5s 3d', 'Ah Jc 8d 5c 2d')).toBe(1);
+      expect(compare('Ac Jd 8h 5s 3d', 'Ah Jc 8d 5c 3h')).toBe(0);
+    });
+
+    it('should treat identical ranks in different suits as a tie', () => {
+      expect(compare('Ah Kh Qh Jh Th', 'As Ks Qs Js Ts')).toBe(0);
+      expect(compare('9c 8d 7h 6s 5d', '9d 8c 7s 6h 5c')).toBe(0);
+    });
+
+    it('should keep value ordering consistent with key ordering', () => {
+      const weaker = evaluate('Kc Kd Qh Qs Jd');
+      const stronger = evaluate('Ac Ad 2h 2s 3d');
+      expect(stronger.value).toBeGreaterThan(weaker.value);
+    });
+  });
+
+  describe('Best Hand From Seven Cards', () => {
+    it('should find the best five cards', () => {
+      const result = evaluate('Ah Kh 2c 7d Qh Jh Th');
+      expect(result.rank).toBe(HandRank.RoyalFlush);
+    });
+
+    it('should prefer a full house over trips with a high kicker', () => {
+      const result = evaluate('9d 9c 9h 7d 7c Ah 2s');
+      expect(result.rank).toBe(HandRank.FullHouse);
+      expect(result.key).toEqual([6, 9, 7]);
+    });
+
+    it('should choose the higher full house with two sets of trips', () => {
+      expect(evaluate('9d 9c 9h 7d 7c 7h 2s').key).toEqual([6, 9, 7]);
+    });
+
+    it('should choose the best two pair and kicker from three pairs', () => {
+      expect(evaluate('Kd Kc 8h 8d 4c 4h 2s').key).toEqual([2, 13, 8, 4]);
+      expect(evaluate('Kd Kc 8h 8d 4c 4h Qs').key).toEqual([2, 13, 8, 12]);
+    });
+
+    it('should play the highest straight available', () => {
+      expect(evaluate('Ad 2c 3h 4d 5c 6h Ks').key).toEqual([4, 6]);
+    });
+
+    it('should play the highest five flush cards', () => {
+      expect(evaluate('Ah 9h 7h 5h 3h 2h Kd').key).toEqual([5, 14, 9, 7, 5, 3]);
+    });
+
+    it('should let the board play when hole cards do not improve it', () => {
+      expect(compare('2c 3d As Ks Qs Js Ts', '4c 5d As Ks Qs Js Ts')).toBe(0);
+    });
+
+    it('should break kickers using hole cards', () => {
+      expect(compare('Kc 3d Ah Ad 8s 6c 2h', 'Qc 3h Ah Ad 8s 6c 2h')).toBe(1);
+    });
+
+    it('should order the best hand cards by significance', () => {
+      const result = evaluate('2d 9c Kh Kd 9h 4s 3c');
+      expect(result.cards.map(card => card.value)).toEqual([13, 13, 9, 9, 4]);
+    });
+
+    it('should order wheel cards with the ace last', () => {
+      const result = evaluate('Ad 2c 3h 4d 5c Jh 9s');
+      expect(result.cards.map(card => card.value)).toEqual([5, 4, 3, 2, 14]);
+    });
+  });
+
+  describe('Omaha Hands', () => {
+    const omaha = (hole: string, board: string) => HandEvaluator.evaluateOmahaHand(cards(hole), cards(board));
+
+    it('should need two suited hole cards for a flush', () => {
+      const result = omaha('Ah Kd Qc Jd', '2h 5h 8h 9h Th');
+      expect(result.rank).toBe(HandRank.Straight);
+      expect(result.key).toEqual([4, 12]);
+    });
+
+    it('should play only three cards from the board', () => {
+      const result = omaha('2c 3d 4h 5s', 'Ac Ad Ah As Kd');
+      expect(result.rank).toBe(HandRank.ThreeOfAKind);
+      expect(result.key).toEqual([3, 14, 5, 4]);
+    });
+
+    it('should use only two cards from the hand', () => {
+      expect(omaha('9c 9d 9h 2s', 'Kd 7c 4s 3h 2d').key).toEqual([1, 9, 13, 7, 4]);
+    });
+
+    it('should evaluate before the river', () => {
+      expect(omaha('Ah Kh 2c 3d', 'Qh Jh Th').rank).toBe(HandRank.RoyalFlush);
+    });
+
+    it('should reject a board with fewer than three cards', () => {
+      expect(() => omaha('Ah Kh 2c 3d', 'Qh Jh')).toThrow();
+    });
+  });
+
+  describe('Short Deck Hands', () => {
+    const shortDeck = (hand: string) => HandEvaluator.evaluateShortDeckHand(cards(hand));
+
+    it('should play A-6-7-8-9 as a nine-high straight', () => {
+      const result = shortDeck('Ac 6d 7h 8s 9d');
+      expect(result.rank).toBe(HandRank.Straight);
+      expect(result.key).toEqual([4, 9]);
+      expect(result.cards.map(card => card.value)).toEqual([9, 8, 7, 6, 14]);
+      expect(evaluate('Ac 6d 7h 8s 9d').rank).toBe(HandRank.HighCard);
+    });
+
+    it('should rank a flush above a full house', () => {
+      const flush = shortDeck('Ah Jh 9h 7h 6h');
+      const fullHouse = shortDeck('Kc Kd Kh Qs Qd');
+
+      expect(flush.rank).toBe(HandRank.Flush);
+      expect(HandEvaluator.compareHands(flush, fullHouse)).toBe(1);
+      expect(compare('Ah Jh 9h 7h 6h', 'Kc Kd Kh Qs Qd')).toBe(-1);
+    });
+
+    it('should pick the flush over a full house from seven cards', () => {
+      expect(shortDeck('Ah Jh 9h 9c 9d 6h 7h').rank).toBe(HandRank.Flush);
+    });
+  });
+
+  describe('Key Comparison', () => {
+    it('should compare keys lexicographically', () => {
+      expect(HandEvaluator.compareKeys([1, 8, 14], [1, 8, 13])).toBe(1);
+      expect(HandEvaluator.compareKeys([1, 8, 13], [1, 8, 14])).toBe(-1);
+      expect(HandEvaluator.compareKeys([4, 5], [4, 5])).toBe(0);
+    });
+  });
+});
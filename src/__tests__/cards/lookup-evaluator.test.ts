@@ -0,0 +1,101 @@
+/**
+ * Tests for cards/lookup-evaluator.ts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { DeckManager } from '../../lib/cards/deck';
+import { HandEvaluator, HandRank } from '../../lib/cards/evaluator';
+import { LookupEvaluator } from '../../lib/cards/lookup-evaluator';
+
+// Parse "As Kd 2c" into card indices
+const indices = (hand: string): number[] =>
+  hand.split(' ').map(code => 'hdcs'.indexOf(code[1]) * 13 + '23456789TJQKA'.indexOf(code[0]));
+
+// Deterministic PRNG so failures are reproducible
+const createRandom = (seed: number) => () => {
+  seed = (seed * 1103515245 + 12345) % 2147483648;
+  return seed / 2147483648;
+};
+
+const randomHands = (count: number, size: number, seed: number): number[][] => {
+  const random = createRandom(seed);
+  const hands: number[][] = [];
+
+  for (let h = 0; h < count; h++) {
+    const deck = Array.from({ length: 52 }, (_, i) => i);
+    for (let i = 0; i < size; i++) {
+      const j = i + Math.floor(random() * (52 - i));
+      [deck[i], deck[j]] = [deck[j], deck[i]];
+    }
+    hands.push(deck.slice(0, size));
+  }
+
+  return hands;
+};
+
+const referenceValue = (hand: number[]): number =>
+  HandEvaluator.evaluateHand(hand.map(index => DeckManager.decodeCard(index)!)).value;
+
+describe('LookupEvaluator', () => {
+  describe('Hand Categories', () => {
+    const cases: [string, HandRank][] = [
+      ['As Ks Qs Js Ts 2d 3c', HandRank.RoyalFlush],
+      ['5d 4d 3d 2d Ad Kc', HandRank.StraightFlush],
+      ['7c 7d 7h 7s Kd', HandRank.FourOfAKind],
+      ['Jc Jd Jh 4s 4d 4h 2c', HandRank.FullHouse],
+      ['Ah Jh 9h 6h 2h 2c 2d', HandRank.Flush],
+      ['5c 4d 3h 2s Ad', HandRank.Straight],
+      ['Qc Qd Qh 9s 3d 2c', HandRank.ThreeOfAKind],
+      ['Kc Kd 6h 6s 2d 2c Ah', HandRank.TwoPair],
+      ['8c 8d Ah 5s 3d', HandRank.OnePair],
+      ['Ac Jd 8h 5s 3d 2c 9h', HandRank.HighCard],
+    ];
+
+    it.each(cases)('should classify %s', (hand, rank) => {
+      const value = LookupEvaluator.evaluate(indices(hand));
+      expect(LookupEvaluator.getHandRank(value)).toBe(rank);
+      expect(value).toBe(referenceValue(indices(hand)));
+    });
+
+    it('should compare hands by index', () => {
+      expect(LookupEvaluator.compare(indices('5c 4d 3h 2s Ad'), indices('6c 5d 4h 3s 2d'))).toBe(-1);
+      expect(LookupEvaluator.compare(indices('Ah Kh Qh Jh Th'), indices('As Ks Qs Js Ts'))).toBe(0);
+      expect(LookupEvaluator.compare(indices('9d 9c 9h 7d 7c Ah 2s'), indices('9d 9c 9h Ad Kc 7h 2s'))).toBe(1);
+    });
+
+    it('should reject invalid input', () => {
+      expect(() => LookupEvaluator.evaluate(indices('As Kd Qh Jc'))).toThrow();
+      expect(() => LookupEvaluator.evaluate([0, 1, 2, 3, 52])).toThrow();
+      expect(() => LookupEvaluator.evaluate([0, 1, 2, 3, 4, 5, 6, 7])).toThrow();
+      expect(() => LookupEvaluator.evaluate([0, 1, 2, 3, 3])).toThrow('Duplicate card index: 3');
+      expect(() => LookupEvaluator.evaluate(indices('As Kd Qh Jc As 2d'))).toThrow();
+    });
+  });
+
+  describe('Agreement With HandEvaluator', () => {
+    it.each([5, 6, 7])('should match the reference evaluator on random %i-card hands', (size) => {
+      for (const hand of randomHands(2000, size, size * 7919)) {
+        expect(LookupEvaluator.evaluate(hand)).toBe(referenceValue(hand));
+      }
+    });
+  });
+
+  describe('Benchmark', () => {
+    // Loose bound: the lookup evaluator is typically ~50x faster, so this
+    // only fails if it stops being faster at all
+    it('should evaluate 7-card hands faster than HandEvaluator', () => {
+      const hands = randomHands(2000, 7, 42);
+      LookupEvaluator.evaluate(hands[0]); // build tables outside the timed loop
+
+      const lookupStart = performance.now();
+      for (const hand of hands) LookupEvaluator.evaluate(hand);
+      const lookupTime = performance.now() - lookupStart;
+
+      const referenceStart = performance.now();
+      for (const hand of hands) referenceValue(hand);
+      const referenceTime = performance.now() - referenceStart;
+
+      expect(lookupTime).toBeLessThan(referenceTime);
+    });
+  });
+});
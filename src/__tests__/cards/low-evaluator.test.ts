@@ -0,0 +1,71 @@
+/**
+ * Tests for cards/low-evaluator.ts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { Card, DeckManager } from '../../lib/cards/deck';
+import { LowEvaluator } from '../../lib/cards/low-evaluator';
+
+// Parse "As Kd 2c" into cards
+const cards = (hand: string): Card[] =>
+  hand.split(' ').map(code => {
+    const rankIndex = '23456789TJQKA'.indexOf(code[0]);
+    const suitIndex = 'hdcs'.indexOf(code[1]);
+    return DeckManager.decodeCard(suitIndex * 13 + rankIndex)!;
+  });
+
+const low = (hand: string) => LowEvaluator.evaluateLow(cards(hand));
+
+describe('LowEvaluator', () => {
+  describe('Any Five Cards', () => {
+    it('should find an eight-or-better low with the ace low', () => {
+      const result = low('8c 6d 4h 2s Ad Kc Qh');
+      expect(result!.values).toEqual([8, 6, 4, 2, 1]);
+      expect(result!.description).toBe('8-6-4-2-A');
+    });
+
+    it('should not qualify with a nine', () => {
+      expect(low('9c 6d 4h 2s Ad')).toBeNull();
+    });
+
+    it('should skip paired cards', () => {
+      expect(low('7c 7d 4h 2s Ad 3c')!.values).toEqual([7, 4, 3, 2, 1]);
+      expect(low('7c 7d 4h 2s Ad')).toBeNull();
+    });
+
+    it('should ignore straights and flushes', () => {
+      expect(low('5h 4h 3h 2h Ah')!.values).toEqual([5, 4, 3, 2, 1]);
+    });
+
+    it('should compare lows from the highest card down', () => {
+      const better = low('7c 5d 4h 2s Ad')!;
+      const worse = low('7c 6d 3h 2s Ad')!;
+
+      expect(LowEvaluator.compareLows(better, worse)).toBe(1);
+      expect(LowEvaluator.compareLows(worse, better)).toBe(-1);
+      expect(LowEvaluator.compareLows(better, low('7h 5c 4d 2h Ac')!)).toBe(0);
+    });
+  });
+
+  describe('Omaha Lows', () => {
+    const omahaLow = (hole: string, board: string) =>
+      LowEvaluator.evaluateOmahaLow(cards(hole), cards(board));
+
+    it('should use exactly two hole cards', () => {
+      expect(omahaLow('Ac 2d 3h Ks', '4c 5d Kh Qs Jd')).toBeNull();
+      expect(omahaLow('Ac 2d 3h Ks', '4c 5d 8h Qs Jd')!.values).toEqual([8, 5, 4, 2, 1]);
+    });
+
+    it('should need three low cards on the board', () => {
+      expect(omahaLow('Ac 2d 3h 4s', '7c 8d Kh Qs Jd')).toBeNull();
+    });
+
+    it('should play the best two hole cards for low', () => {
+      expect(omahaLow('Ac 2d 7h 8s', '3c 6d 8h Qs Jd')!.values).toEqual([8, 6, 3, 2, 1]);
+    });
+
+    it('should count a board card pairing a hole card as counterfeit', () => {
+      expect(omahaLow('Ac 2d Kh Ks', '2c 6d 7h Qs Jd')).toBeNull();
+    });
+  });
+});
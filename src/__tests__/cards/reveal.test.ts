@@ -0,0 +1,78 @@
+/**
+ * Tests for cards/reveal.ts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { Card, DeckManager } from '../../lib/cards/deck';
+import { CardReveal } from '../../lib/cards/reveal';
+
+// Parse "As Kd 2c" into cards
+const cards = (hand: string): Card[] =>
+  hand.split(' ').map(code => {
+    const rankIndex = '23456789TJQKA'.indexOf(code[0]);
+    const suitIndex = 'hdcs'.indexOf(code[1]);
+    return DeckManager.decodeCard(suitIndex * 13 + rankIndex)!;
+  });
+
+describe('CardReveal', () => {
+  describe('Determine Winners', () => {
+    it('should award the pot to the better kicker', () => {
+      const board = cards('Ah Ad 8s 6c 2h');
+      const reveals = CardReveal.revealHands(
+        [cards('Kc 3d'), cards('Qc 3h')],
+        board,
+        [0, 1]
+      );
+
+      expect(CardReveal.determineWinners(reveals)).toEqual([0]);
+    });
+
+    it('should split when kickers do not play', () => {
+      const board = cards('Ah Ad As Kc Kd');
+      const reveals = CardReveal.revealHands(
+        [cards('2c 3d'), cards('Qc Jh'), cards('4c 5h')],
+        board,
+        [0, 1, 2]
+      );
+
+      expect(CardReveal.determineWinners(reveals)).toEqual([0, 1, 2]);
+    });
+
+    it('should rank a six-high straight above the wheel', () => {
+      const board = cards('2c 3d 4h 5s Kd');
+      const reveals = CardReveal.revealHands(
+        [cards('Ac Qh'), cards('6c 7h')],
+        board,
+        [0, 1]
+      );
+
+      expect(CardReveal.determineWinners(reveals)).toEqual([1]);
+    });
+
+    it('should only reveal active players', () => {
+      const board = cards('Ah Ad 8s 6c 2h');
+      const reveals = CardReveal.revealHands(
+        [cards('Kc 3d'), cards('Qc 3h'), cards('Ac 8h')],
+        board,
+        [0, 1]
+      );
+
+      expect(reveals.length).toBe(2);
+      expect(CardReveal.getPlayerReveal(reveals, 2)).toBeUndefined();
+    });
+  });
+
+  describe('Sort By Strength', () => {
+    it('should sort reveals best first', () => {
+      const board = cards('Jh Td 8s 6c 2h');
+      const reveals = CardReveal.revealHands(
+        [cards('3c 4d'), cards('Jc Jd'), cards('9c 7h')],
+        board,
+        [0, 1, 2]
+      );
+
+      const sorted = CardReveal.sortByHandStrength(reveals);
+      expect(sorted.map(r => r.playerIndex)).toEqual([2, 1, 0]);
+    });
+  });
+});
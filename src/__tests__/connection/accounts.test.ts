@@ -0,0 +1,108 @@
+/**
+ * Tests for connection/accounts.ts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { PublicKey } from '@solana/web3.js';
+import BN from 'bn.js';
+import { AccountDecoder, RawGameAccount, RawPlayerStateAccount } from '../../lib/connection/accounts';
+import { GameStage, PlayerStatus } from '../../lib/shared/types';
+
+// Synthetic account data laid out as the program stores it (discriminator,
+// then Borsh fields): a heads-up game on the flop. No cluster was reachable
+// to capture real accounts; swap in the base64 data of
+// `solana account <address> --output json` once there is one.
+const GAME_DATA = Buffer.from(
+  'G1qmfUpkeRIBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQcAAAAAAAAAAgoAAAAAAAAA' +
+  'FAAAAAAAAADoAwAAAAAAAIgTAAAAAAAABgICAgICAgICAgICAgICAgICAgICAgICAgICAgICAgIC' +
+  'AgMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAwMDAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA' +
+  'AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA' +
+  'AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAABAQAAAAAAAbgL' +
+  'AAAAAAAAAAAAAAAAAAABAAAAAAAADRoAAAMAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA' +
+  'AAEA8VNlAAAAADzxU2UAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAD+',
+  'base64'
+);
+
+// ...and the all-in player in seat 0, built the same way
+const PLAYER_STATE_DATA = Buffer.from(
+  'OAM8Vq4Q9MMCAgICAgICAgICAgICAgICAgICAgICAgICAgICAgICAgkJCQkJCQkJCQkJCQkJCQkJCQkJCQkJCQkJCQkJCQkJAAMAAAAAAAAAAAAAAAAAAAAA3AUAAAAAAAAMGQEAAQDxU2UAAAAAHvFTZQAAAAD9',
+  'base64'
+);
+
+const key = (byte: number) => new PublicKey(Buffer.alloc(32, byte));
+
+describe('AccountDecoder', () => {
+  describe('Game Accounts', () => {
+    it('should decode game account bytes', () => {
+      const game = AccountDecoder.decodeGameData(GAME_DATA);
+
+      expect(game.stage).toBe(GameStage.Flop);
+      expect(game.authority.equals(key(1))).toBe(true);
+      expect(game.gameId).toBeInstanceOf(BN);
+      expect(game.gameId.toNumber()).toBe(7);
+      expect(game.smallBlind.toNumber()).toBe(10);
+      expect(game.bigBlind.toNumber()).toBe(20);
+      expect(game.pot.toNumber()).toBe(3000);
+      expect(game.playerCount).toBe(2);
+      expect(game.players[1].equals(key(3))).toBe(true);
+      expect(game.activePlayers).toEqual([true, true, false, false, false, false]);
+      expect(game.communityCards).toEqual([0, 13, 26, 0, 0]);
+      expect(game.communityCardsRevealed).toBe(3);
+      expect(game.deckInitialized).toBe(true);
+      expect(game.bump).toBe(254);
+    });
+
+    it('should decode a game account from Anchor', () => {
+      const raw = {
+        ...AccountDecoder.decodeGameData(GAME_DATA),
+        stage: { preFlop: {} },
+      } as unknown as RawGameAccount;
+
+      expect(AccountDecoder.decodeGame(raw).stage).toBe(GameStage.PreFlop);
+    });
+
+    it('should reject unknown stages', () => {
+      const raw = {
+        ...AccountDecoder.decodeGameData(GAME_DATA),
+        stage: { overtime: {} },
+      } as unknown as RawGameAccount;
+
+      expect(() => AccountDecoder.decodeGame(raw)).toThrow('Unknown GameStage variant');
+    });
+
+    it('should reject player state data', () => {
+      expect(() => AccountDecoder.decodeGameData(PLAYER_STATE_DATA)).toThrow();
+    });
+  });
+
+  describe('Player State Accounts', () => {
+    it('should decode player state account bytes', () => {
+      const playerState = AccountDecoder.decodePlayerStateData(PLAYER_STATE_DATA);
+
+      expect(playerState.status).toBe(PlayerStatus.AllIn);
+      expect(playerState.player.equals(key(2))).toBe(true);
+      expect(playerState.game.equals(key(9))).toBe(true);
+      expect(playerState.seatIndex).toBe(0);
+      expect(playerState.chipStack.isZero()).toBe(true);
+      expect(playerState.totalBetThisHand.toNumber()).toBe(1500);
+      expect(playerState.encryptedHoleCards).toEqual([12, 25]);
+      expect(playerState.isAllIn).toBe(true);
+      expect(playerState.joinedAt.toNumber()).toBe(1700000000);
+    });
+
+    it('should decode every account of a query', () => {
+      const raw = {
+        ...AccountDecoder.decodePlayerStateData(PLAYER_STATE_DATA),
+        status: { folded: {} },
+      } as unknown as RawPlayerStateAccount;
+      const decoded = AccountDecoder.decodeAll(
+        [{ publicKey: key(4), account: raw }],
+        account => AccountDecoder.decodePlayerState(account)
+      );
+
+      expect(decoded).toHaveLength(1);
+      expect(decoded[0].publicKey.equals(key(4))).toBe(true);
+      expect(decoded[0].account.status).toBe(PlayerStatus.Folded);
+    });
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Tests for connection/endpoints.ts
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { Connection, PublicKey } from '@solana/web3.js';
+import { EndpointHealth, RpcEndpointPool } from '../../lib/connection/endpoints';
+
+/**
+ * Stand-in RPC node with a scripted slot and failure
+ */
+class FakeEndpoint {
+  slot = 1000;
+  failWith: string | null = null;
+  requests = 0;
+  accountListeners = new Map<number, unknown[]>();
+  private nextId = 0;
+
+  constructor(readonly rpcEndpoint: string) {}
+
+  async getSlot() {
+    return this.answer(this.slot);
+  }
+
+  async getBalance() {
+    return this.answer(5000);
+  }
+
+  onAccountChange(...args: unknown[]) {
+    const id = this.nextId++;
+    this.accountListeners.set(id, args);
+    return id;
+  }
+
+  async removeAccountChangeListener(id: number) {
+    this.accountListeners.delete(id);
+  }
+
+  private answer<T>(value: T): T {
+    this.requests++;
+    if (this.failWith) throw new Error(this.failWith);
+    return value;
+  }
+}
+
+describe('RpcEndpointPool', () => {
+  let primary: FakeEndpoint;
+  let fallback: FakeEndpoint;
+  let pool: RpcEndpointPool;
+  let failovers: EndpointHealth[];
+
+  const active = () => pool.getSnapshot().find(endpoint => endpoint.active)?.label;
+
+  beforeEach(() => {
+    primary = new FakeEndpoint('https://primary.example/?api-key=secret');
+    fallback = new FakeEndpoint('https://fallback.example');
+    const fakes = [primary, fallback];
+    pool = new RpcEndpointPool(
+      fakes.map(fake => ({ http: fake.rpcEndpoint })),
+      {
+        createConnection: endpoint =>
+          fakes.find(fake => fake.rpcEndpoint === endpoint.http) as unknown as Connection,
+        healthCheckTimeoutMs: 50,
+      }
+    );
+    failovers = [];
+    pool.onFailover(endpoint => failovers.push(endpoint));
+  });
+
+  it('should send requests to the first endpoint', async () => {
+    expect(await pool.connection.getBalance(PublicKey.unique())).toBe(5000);
+    expect(primary.requests).toBe(1);
+    expect(fallback.requests).toBe(0);
+    expect(pool.connection.rpcEndpoint).toBe(primary.rpcEndpoint);
+  });
+
+  it('should label endpoints by host only', () => {
+    expect(pool.getSnapshot().map(endpoint => endpoint.label)).toEqual(['primary.example', 'fallback.example']);
+  });
+
+  it('should retry rate-limited requests on the next endpoint and fail over', async () => {
+    primary.failWith = '429 Too Many Requests: {"error":"rate limited"}';
+
+    expect(await pool.connection.getBalance(PublicKey.unique())).toBe(5000);
+
+    expect(fallback.requests).toBe(1);
+    expect(active()).toBe('fallback.example');
+    expect(pool.getActiveEndpoint()).toBe(fallback.rpcEndpoint);
+    expect(failovers.map(endpoint => endpoint.label)).toEqual(['fallback.example']);
+    expect(pool.getSnapshot()[0]).toMatchObject({ healthy: false, errorRate: 1 });
+  });
+
+  it('should not retry requests the endpoint refused', async () => {
+    primary.failWith = 'failed to get balance: Invalid param';
+
+    await expect(pool.connection.getBalance(PublicKey.unique())).rejects.toThrow('Invalid param');
+    expect(fallback.requests).toBe(0);
+    expect(active()).toBe('primary.example');
+  });
+
+  it('should throw the last error when every endpoint is down', async () => {
+    primary.failWith = 'fetch failed';
+    fallback.failWith = '503 Service Unavailable';
+
+    await expect(pool.connection.getBalance(PublicKey.unique())).rejects.toThrow('503 Service Unavailable');
+  });
+
+  it('should fail over from a lagging endpoint and return once it catches up', async () => {
+    primary.slot = 900;
+    await pool.checkHealth();
+
+    expect(pool.getSnapshot()[0]).toMatchObject({ slot: 900, slotLag: 100, healthy: false });
+    expect(active()).toBe('fallback.example');
+
+    primary.slot = 1000;
+    await pool.checkHealth();
+
+    expect(pool.getSnapshot()[0]).toMatchObject({ slotLag: 0, healthy: true });
+    expect(active()).toBe('primary.example');
+    expect(failovers.map(endpoint => endpoint.label)).toEqual(['fallback.example', 'primary.example']);
+  });
+
+  it('should fail over from an unreachable endpoint', async () => {
+    primary.failWith = 'fetch failed';
+    await pool.checkHealth();
+
+    const [health] = pool.getSnapshot();
+    expect(health.healthy).toBe(false);
+    expect(health.latencyMs).toBeNull();
+    expect(health.lastError).toBe('fetch failed');
+    expect(active()).toBe('fallback.example');
+  });
+
+  it('should move account subscriptions to the active endpoint', async () => {
+    const callback = () => {};
+    const id = pool.connection.onAccountChange(PublicKey.unique(), callback);
+    expect(primary.accountListeners.size).toBe(1);
+
+    primary.failWith = 'fetch failed';
+    await pool.checkHealth();
+
+    expect(primary.accountListeners.size).toBe(0);
+    expect([...fallback.accountListeners.values()][0][1]).toBe(callback);
+
+    await pool.connection.removeAccountChangeListener(id);
+    expect(fallback.accountListeners.size).toBe(0);
+  });
+
+  it('should notify listeners when health changes', async () => {
+    let changes = 0;
+    const unsubscribe = pool.subscribe(() => changes++);
+    const before = pool.getSnapshot();
+
+    await pool.checkHealth();
+    unsubscribe();
+
+    expect(changes).toBeGreaterThan(0);
+    expect(pool.getSnapshot()).not.toBe(before);
+    expect(pool.getSnapshot().every(endpoint => endpoint.latencyMs !== null)).toBe(true);
+  });
+
+  it('should tell endpoint failures from request failures', () => {
+    expect(RpcEndpointPool.isEndpointError(new Error('429 Too Many Requests'))).toBe(true);
+    expect(RpcEndpointPool.isEndpointError(new Error('TypeError: Failed to fetch'))).toBe(true);
+    expect(RpcEndpointPool.isEndpointError(new Error('connect ECONNREFUSED 127.0.0.1:8899'))).toBe(true);
+    expect(RpcEndpointPool.isEndpointError(new Error('Transaction simulation failed'))).toBe(false);
+  });
+});
@@ -0,0 +1,20 @@
+/**
+ * Tests for arcium_poker.ts (the IDL type generated from arcium_poker.json)
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { Idl } from '@coral-xyz/anchor';
+import { convertIdlToCamelCase } from '@coral-xyz/anchor/dist/cjs/idl';
+import idl from '../../arcium_poker.json';
+
+describe('ArciumPoker IDL type', () => {
+  it('should match the IDL it was generated from', () => {
+    // Regenerate with `anchor idl type -o src/arcium_poker.ts src/arcium_poker.json`
+    const source = readFileSync(join(__dirname, '../../arcium_poker.ts'), 'utf8');
+    const body = source.slice(source.indexOf('= {') + 2).trim().replace(/;$/, '');
+
+    expect(JSON.parse(body)).toEqual(convertIdlToCamelCase(idl as Idl));
+  });
+});
@@ -0,0 +1,303 @@
+/**
+ * Tests for connection/local-program.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { PublicKey, SystemProgram } from '@solana/web3.js';
+import BN from 'bn.js';
+import { LocalProgram, LocalStorageLike } from '../../lib/connection/local-program';
+import { LocalWalletAdapter } from '../../lib/connection/local-wallet';
+import { ProgramClient } from '../../lib/connection/program';
+import { deriveGamePDA, derivePlayerStatePDA } from '../../lib/shared/utils';
+import { GameStage, BettingStructure } from '../../lib/shared/types';
+
+class MemoryStorage implements LocalStorageLike {
+  private items = new Map<string, string>();
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+}
+
+const GAME_ID = new BN(7);
+
+describe('LocalProgram', () => {
+  let program: LocalProgram;
+  let storage: MemoryStorage;
+  const authority = PublicKey.unique();
+  const alice = PublicKey.unique();
+  const bob = PublicKey.unique();
+  const [gamePDA] = deriveGamePDA(authority, GAME_ID);
+
+  const createGame = () =>
+    program.methods
+      .initializeGame(GAME_ID, new BN(10), new BN(20), new BN(1000), new BN(5000), 6)
+      .accounts({ authority, systemProgram: SystemProgram.programId })
+      .rpc();
+
+  const join = (player: PublicKey, buyIn = 1000) =>
+    program.methods
+      .joinGame(new BN(buyIn))
+      .accounts({ game: gamePDA, player })
+      .rpc();
+
+  const start = () =>
+    program.methods
+      .startGame([Array(32).fill(1), Array(32).fill(2)])
+      .accounts({ game: gamePDA, authority })
+      .remainingAccounts()
+      .rpc();
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    program = new LocalProgram({ storage, now: () => 1000 });
+  });
+
+  describe('Initialize and Join', () => {
+    it('should create a game at its PDA', async () => {
+      await createGame();
+
+      const game = await program.account.game.fetch(gamePDA);
+      expect(game.stage).toEqual({ waiting: {} });
+      expect((game.authority as PublicKey).equals(authority)).toBe(true);
+      expect((game.bigBlind as BN).toNumber()).toBe(20);
+    });
+
+    it('should seat players in join order', async () => {
+      await createGame();
+      await join(alice);
+      await join(bob, 2000);
+
+      const [bobStatePDA] = derivePlayerStatePDA(gamePDA, bob);
+      const bobState = await program.account.playerState.fetch(bobStatePDA);
+      expect(bobState.seatIndex).toBe(1);
+      expect((bobState.chipStack as BN).toNumber()).toBe(2000);
+      expect(bobState.status).toEqual({ waiting: {} });
+      expect((await program.account.game.fetch(gamePDA)).playerCount).toBe(2);
+    });
+
+    it('should reject invalid instructions without changing state', async () => {
+      await createGame();
+
+      await expect(join(alice, 10)).rejects.toThrow();
+      await expect(createGame()).rejects.toThrow('Game already exists');
+      await expect(program.methods.unknownInstruction().rpc()).rejects.toThrow();
+      expect((await program.account.game.fetch(gamePDA)).playerCount).toBe(0);
+    });
+
+    it('should keep the table rules on the game', async () => {
+      await program.methods
+        .initializeGame(GAME_ID, null, null, null, null, null, { bettingStructure: BettingStructure.FixedLimit })
+        .accounts({ authority })
+        .rpc();
+
+      const game = program.getGame(gamePDA)!;
+      expect(game.config!.bettingStructure).toBe(BettingStructure.FixedLimit);
+      expect(game.config!.bigBet!.toNumber()).toBe(40);
+      expect(new LocalProgram({ storage }).getGame(gamePDA)!.config!.smallBet!.toNumber()).toBe(20);
+    });
+
+    it('should throw when fetching a missing account', async () => {
+      await expect(program.account.game.fetch(PublicKey.unique())).rejects.toThrow();
+      expect(await program.account.game.fetchNullable(PublicKey.unique())).toBeNull();
+    });
+  });
+
+  describe('Playing', () => {
+    beforeEach(async () => {
+      await createGame();
+      await join(alice);
+      await join(bob);
+    });
+
+    it('should start the hand and post blinds', async () => {
+      await start();
+
+      const game = await program.account.game.fetch(gamePDA);
+      expect(game.stage).toEqual({ preFlop: {} });
+      expect((game.pot as BN).toNumber()).toBe(30);
+      expect(program.getPlayerStates(gamePDA).every(ps => ps.hasCards)).toBe(true);
+    });
+
+    it('should apply player actions through the method builders', async () => {
+      await start();
+      const game = program.getGame(gamePDA)!;
+      const current = game.players[game.currentPlayerIndex];
+
+      await program.methods
+        .playerAction({ fold: {} })
+        .accounts({ game: gamePDA, player: current })
+        .rpc();
+
+      await program.methods.advanceStage().accounts({ game: gamePDA }).rpc();
+      expect(program.getGame(gamePDA)!.stage).toBe(GameStage.Showdown);
+
+      await program.methods.executeShowdown().accounts({ game: gamePDA }).rpc();
+      expect(program.getGame(gamePDA)!.stage).toBe(GameStage.Finished);
+      const total = program.getPlayerStates(gamePDA)
+        .reduce((sum, ps) => sum + ps.chipStack.toNumber(), 0);
+      expect(total).toBe(2000);
+    });
+
+    it('should reject actions out of turn', async () => {
+      await start();
+      const game = program.getGame(gamePDA)!;
+      const waiting = game.players[1 - game.currentPlayerIndex];
+
+      await expect(
+        program.methods.playerCall().accounts({ game: gamePDA, player: waiting }).rpc()
+      ).rejects.toThrow();
+    });
+  });
+
+  describe('Account Queries', () => {
+    it('should filter player states by game', async () => {
+      await createGame();
+      await join(alice);
+
+      const otherAuthority = PublicKey.unique();
+      await program.methods
+        .initializeGame(GAME_ID, null, null, null, null, null)
+        .accounts({ authority: otherAuthority })
+        .rpc();
+      const [otherPDA] = deriveGamePDA(otherAuthority, GAME_ID);
+      await program.methods.joinGame(new BN(1000)).accounts({ game: otherPDA, player: bob }).rpc();
+
+      const states = await program.account.playerState.all([
+        { memcmp: { offset: 40, bytes: gamePDA.toBase58() } },
+      ]);
+      expect(states).toHaveLength(1);
+      expect((states[0].account.player as PublicKey).equals(alice)).toBe(true);
+      expect(await program.account.game.all()).toHaveLength(2);
+    });
+  });
+
+  describe('Subscriptions', () => {
+    it('should notify game subscribers until unsubscribed', async () => {
+      await createGame();
+      const seen: number[] = [];
+      const id = program.account.game.subscribe(gamePDA)
+        .on('change', account => seen.push(account.playerCount as number));
+
+      await join(alice);
+      await program.account.game.unsubscribe(id);
+      await join(bob);
+
+      expect(seen).toEqual([1]);
+    });
+  });
+
+  describe('Persistence', () => {
+    it('should restore tables from storage', async () => {
+      await createGame();
+      await join(alice);
+
+      const restored = new LocalProgram({ storage });
+      const game = await restored.account.game.fetch(gamePDA);
+      expect(game.playerCount).toBe(1);
+      expect((game.minBuyIn as BN).toNumber()).toBe(1000);
+      expect(restored.getPlayerStates(gamePDA)[0].player.equals(alice)).toBe(true);
+    });
+
+    it('should clear all tables', async () => {
+      await createGame();
+      program.clear();
+
+      expect(await program.account.game.all()).toHaveLength(0);
+      expect(new LocalProgram({ storage }).getGame(gamePDA)).toBeNull();
+    });
+  });
+});
+
+describe('ProgramClient local mode', () => {
+  afterEach(() => {
+    ProgramClient.reset();
+  });
+
+  it('should serve reads from the local program', async () => {
+    const program = ProgramClient.initializeLocal();
+    const authority = PublicKey.unique();
+    await program.methods
+      .initializeGame(GAME_ID, null, null, null, null, null)
+      .accounts({ authority })
+      .rpc();
+
+    const [gamePDA] = ProgramClient.deriveGamePDA(authority, GAME_ID);
+    const game = await ProgramClient.fetchGame(gamePDA);
+    expect(ProgramClient.isLocal()).toBe(true);
+    expect(game.stage).toBe(GameStage.Waiting);
+    expect(await ProgramClient.fetchPlayerStatesByGame(gamePDA)).toHaveLength(0);
+  });
+
+  it('should cancel player state subscriptions', async () => {
+    const program = ProgramClient.initializeLocal();
+    const authority = PublicKey.unique();
+    const player = PublicKey.unique();
+    await program.methods
+      .initializeGame(GAME_ID, null, null, null, null, null)
+      .accounts({ authority })
+      .rpc();
+    const [gamePDA] = ProgramClient.deriveGamePDA(authority, GAME_ID);
+    await program.methods.joinGame(new BN(1000)).accounts({ game: gamePDA, player }).rpc();
+
+    const [playerStatePDA] = ProgramClient.derivePlayerStatePDA(gamePDA, player);
+    const seen: [number, number][] = [];
+    const id = ProgramClient.subscribeToPlayerState(playerStatePDA, (playerState, slot) => {
+      seen.push([playerState.chipStack.toNumber(), slot]);
+    });
+
+    await program.methods.leaveGame().accounts({ game: gamePDA, player }).rpc();
+    await program.methods.joinGame(new BN(2000)).accounts({ game: gamePDA, player }).rpc();
+    await ProgramClient.unsubscribe(id);
+    await program.methods.leaveGame().accounts({ game: gamePDA, player }).rpc();
+    await program.methods.joinGame(new BN(3000)).accounts({ game: gamePDA, player }).rpc();
+
+    expect(seen).toEqual([[2000, 4]]);
+    expect(await ProgramClient.getSlot()).toBe(6);
+  });
+
+  it('should cancel subscriptions on reset', async () => {
+    const program = ProgramClient.initializeLocal();
+    const authority = PublicKey.unique();
+    const player = PublicKey.unique();
+    await program.methods
+      .initializeGame(GAME_ID, null, null, null, null, null)
+      .accounts({ authority })
+      .rpc();
+    const [gamePDA] = ProgramClient.deriveGamePDA(authority, GAME_ID);
+
+    const seen: number[] = [];
+    ProgramClient.subscribeToGame(gamePDA, (_game, slot) => seen.push(slot));
+    ProgramClient.reset();
+    await program.methods.joinGame(new BN(1000)).accounts({ game: gamePDA, player }).rpc();
+
+    expect(seen).toEqual([]);
+  });
+});
+
+describe('LocalWalletAdapter', () => {
+  it('should give each local player a stable identity', async () => {
+    const [first, second] = LocalWalletAdapter.createAdapters(2);
+    await first.connect();
+    await second.connect();
+
+    const again = new LocalWalletAdapter(0);
+    await again.connect();
+
+    expect(first.name).toBe('Local Player 1');
+    expect(first.publicKey!.equals(second.publicKey!)).toBe(false);
+    expect(first.publicKey!.equals(again.publicKey!)).toBe(true);
+  });
+
+  it('should drop the public key on disconnect', async () => {
+    const adapter = new LocalWalletAdapter(0);
+    await adapter.connect();
+    await adapter.disconnect();
+
+    expect(adapter.publicKey).toBeNull();
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * Tests for connection/transaction.ts
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import {
+  ComputeBudgetInstruction,
+  ComputeBudgetProgram,
+  Keypair,
+  PublicKey,
+  SignatureStatus,
+  Transaction,
+  TransactionInstruction,
+} from '@solana/web3.js';
+import bs58 from 'bs58';
+import {
+  PipelineConnection,
+  TransactionFailedError,
+  TransactionPipeline,
+  TransactionStatusEvent,
+} from '../../lib/connection/transaction';
+import {
+  DEFAULT_COMPUTE_UNIT_LIMIT,
+  MAX_PRIORITY_FEE_MICROLAMPORTS,
+} from '../../lib/shared/constants';
+import { ErrorCode, parseAnchorError } from '../../lib/shared/errors';
+
+/**
+ * In-memory RPC node: blockhashes stay valid for 10 blocks, and the block
+ * height and signature statuses are scripted per test
+ */
+class FakeConnection {
+  blockHeight = 100;
+  fees: number[] | null = [];
+  unitsConsumed: number | null = 50000;
+  sent: Transaction[] = [];
+  // Called on every status poll with the signature and the poll count
+  status: (signature: string, poll: number) => SignatureStatus | null = () => null;
+  private polls = 0;
+
+  async getRecentPrioritizationFees() {
+    if (!this.fees) throw new Error('Method not found');
+    return this.fees.map((prioritizationFee, slot) => ({ slot, prioritizationFee }));
+  }
+
+  async simulateTransaction() {
+    if (this.unitsConsumed === null) throw new Error('Simulation failed');
+    return { context: { slot: 1 }, value: { err: null, logs: [], unitsConsumed: this.unitsConsumed } };
+  }
+
+  async getLatestBlockhash() {
+    return { blockhash: PublicKey.unique().toBase58(), lastValidBlockHeight: this.blockHeight + 10 };
+  }
+
+  async getBlockHeight() {
+    return this.blockHeight;
+  }
+
+  async sendRawTransaction(raw: Buffer) {
+    const transaction = Transaction.from(raw);
+    this.sent.push(transaction);
+    return bs58.encode(transaction.signature!);
+  }
+
+  async getSignatureStatuses([signature]: string[]) {
+    return { context: { slot: 1 }, value: [this.status(signature, ++this.polls)] };
+  }
+}
+
+const landed = (slot: number, confirmationStatus: SignatureStatus['confirmationStatus']): SignatureStatus => ({
+  slot,
+  confirmations: 0,
+  err: null,
+  confirmationStatus,
+});
+
+describe('TransactionPipeline', () => {
+  const payer = Keypair.generate();
+  const game = PublicKey.unique();
+  const instruction = new TransactionInstruction({
+    programId: PublicKey.unique(),
+    keys: [{ pubkey: game, isSigner: false, isWritable: true }],
+    data: Buffer.from([1]),
+  });
+
+  let connection: FakeConnection;
+  let events: TransactionStatusEvent[];
+
+  const send = (maxBlockhashRefreshes?: number) =>
+    TransactionPipeline.send(
+      connection as unknown as PipelineConnection,
+      {
+        instructions: [instruction],
+        feePayer: payer.publicKey,
+        signTransaction: async transaction => {
+          transaction.sign(payer);
+          return transaction;
+        },
+        onStatus: event => events.push(event),
+      },
+      { rebroadcastIntervalMs: 0, maxBlockhashRefreshes }
+    );
+
+  const budgetOf = (transaction: Transaction) => {
+    const budget = transaction.instructions.filter(i => i.programId.equals(ComputeBudgetProgram.programId));
+    return {
+      units: ComputeBudgetInstruction.decodeSetComputeUnitLimit(budget[0]).units,
+      microLamports: Number(ComputeBudgetInstruction.decodeSetComputeUnitPrice(budget[1]).microLamports),
+    };
+  };
+
+  beforeEach(() => {
+    connection = new FakeConnection();
+    events = [];
+  });
+
+  it('should report each step until the transaction is confirmed', async () => {
+    connection.status = (_, poll) => (poll === 1 ? null : poll === 2 ? landed(7, 'processed') : landed(8, 'confirmed'));
+
+    const result = await send();
+
+    const signature = bs58.encode(connection.sent[0].signature!);
+    expect(result).toEqual({ signature, slot: 8 });
+    expect(events).toEqual([
+      { status: 'signed', signature, attempt: 1 },
+      { status: 'sent', signature, attempt: 1 },
+      { status: 'processed', signature, slot: 7, attempt: 1 },
+      { status: 'confirmed', signature, slot: 8, attempt: 1 },
+    ]);
+  });
+
+  it('should rebroadcast until the transaction lands', async () => {
+    connection.status = (_, poll) => (poll < 4 ? null : landed(9, 'confirmed'));
+
+    await send();
+
+    // The first send and one rebroadcast after each empty status check
+    expect(connection.sent).toHaveLength(4);
+    expect(new Set(connection.sent.map(t => bs58.encode(t.signature!))).size).toBe(1);
+  });
+
+  it('should price and size the transaction', async () => {
+    connection.fees = [40, 10, 30, 20];
+    connection.status = () => landed(1, 'confirmed');
+
+    await send();
+
+    const transaction = connection.sent[0];
+    expect(budgetOf(transaction)).toEqual({ units: 60000, microLamports: 30 });
+    expect(transaction.instructions[2].programId.equals(instruction.programId)).toBe(true);
+  });
+
+  it('should cap the fee and fall back to the default limit', async () => {
+    connection.fees = [MAX_PRIORITY_FEE_MICROLAMPORTS * 10];
+    connection.unitsConsumed = null;
+    connection.status = () => landed(1, 'confirmed');
+
+    await send();
+
+    expect(budgetOf(connection.sent[0])).toEqual({
+      units: DEFAULT_COMPUTE_UNIT_LIMIT,
+      microLamports: MAX_PRIORITY_FEE_MICROLAMPORTS,
+    });
+  });
+
+  it('should send without a priority fee when fee history is unavailable', async () => {
+    connection.fees = null;
+    connection.status = () => landed(1, 'confirmed');
+
+    await send();
+
+    expect(budgetOf(connection.sent[0]).microLamports).toBe(0);
+  });
+
+  it('should re-sign with a fresh blockhash when the transaction expires', async () => {
+    let first: string | undefined;
+    connection.status = signature => {
+      first ??= signature;
+      if (signature === first) {
+        // Never lands; the chain moves past its last valid block height
+        connection.blockHeight += 20;
+        return null;
+      }
+      return landed(12, 'confirmed');
+    };
+
+    const result = await send();
+
+    expect(events.map(e => `${e.status}:${e.attempt}`)).toEqual([
+      'signed:1', 'sent:1', 'expired:1', 'signed:2', 'sent:2', 'confirmed:2',
+    ]);
+    expect(result.signature).not.toBe(first);
+    expect(connection.sent[0].recentBlockhash).not.toBe(connection.sent.at(-1)!.recentBlockhash);
+  });
+
+  it('should keep waiting for a processed transaction after its blockhash expires', async () => {
+    connection.status = (_, poll) => {
+      if (poll === 1) {
+        connection.blockHeight += 20;
+        return landed(7, 'processed');
+      }
+      return poll < 4 ? landed(7, 'processed') : landed(7, 'confirmed');
+    };
+
+    const result = await send(0);
+
+    expect(result.slot).toBe(7);
+    expect(events.map(e => e.status)).toEqual(['signed', 'sent', 'processed', 'confirmed']);
+    expect(new Set(connection.sent.map(t => t.recentBlockhash)).size).toBe(1);
+  });
+
+  it('should re-sign a processed transaction that drops out after expiry', async () => {
+    let first: string | undefined;
+    connection.status = (signature, poll) => {
+      first ??= signature;
+      if (signature !== first) return landed(12, 'confirmed');
+      if (poll === 1) {
+        connection.blockHeight += 20;
+        return landed(7, 'processed');
+      }
+      return null;
+    };
+
+    const result = await send();
+
+    expect(events.map(e => `${e.status}:${e.attempt}`)).toEqual([
+      'signed:1', 'sent:1', 'processed:1', 'expired:1', 'signed:2', 'sent:2', 'confirmed:2',
+    ]);
+    expect(result.signature).not.toBe(first);
+  });
+
+  it('should give up once every blockhash has expired', async () => {
+    connection.status = () => {
+      connection.blockHeight += 20;
+      return null;
+    };
+
+    await expect(send(1)).rejects.toThrow('Transaction expired before confirmation');
+    expect(events.filter(e => e.status === 'expired')).toHaveLength(2);
+  });
+
+  it('should throw the error of a failed transaction', async () => {
+    const err = { InstructionError: [2, { Custom: ErrorCode.NotPlayerTurn }] };
+    connection.status = () => ({ ...landed(5, 'confirmed'), err });
+
+    const error = await send().catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(TransactionFailedError);
+    expect((error as TransactionFailedError).err).toEqual(err);
+    expect((error as TransactionFailedError).message).toContain('InstructionError');
+    expect(parseAnchorError(error).code).toBe(ErrorCode.NotPlayerTurn);
+    expect(events.map(e => e.status)).toEqual(['signed', 'sent']);
+  });
+});
@@ -0,0 +1,730 @@
+/**
+ * Tests for game/engine.ts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { PublicKey } from '@solana/web3.js';
+import BN from 'bn.js';
+import { GameEngine, EngineState } from '../../lib/game/engine';
+import { ShowdownWinner } from '../../lib/showdown/winner';
+import {
+  Game,
+  GameConfig,
+  PlayerState,
+  GameStage,
+  PlayerStatus,
+  PlayerActionParam,
+  BettingStructure,
+  AnteType,
+  StraddleType,
+  GameVariant,
+} from '../../lib/shared/types';
+import { ErrorCode, PokerError } from '../../lib/shared/errors';
+import { PLAYER_TIMEOUT_SECONDS } from '../../lib/shared/constants';
+
+// Parse "As Kd 2c" into card indices
+const cards = (hand: string): number[] =>
+  hand.split(' ').map(code => 'hdcs'.indexOf(code[1]) * 13 + '23456789TJQKA'.indexOf(code[0]));
+
+const authority = PublicKey.unique();
+
+const createState = (stacks: number[]): EngineState => {
+  const players = stacks.map(() => PublicKey.unique());
+  const game: Game = {
+    authority,
+    gameId: new BN(1),
+    stage: GameStage.Waiting,
+    smallBlind: new BN(10),
+    bigBlind: new BN(20),
+    minBuyIn: new BN(1000),
+    maxBuyIn: new BN(10000),
+    maxPlayers: 6,
+    playerCount: stacks.length,
+    players: [...players, ...Array(6 - stacks.length).fill(PublicKey.default)],
+    activePlayers: Array(6).fill(false),
+    dealerPosition: 0,
+    currentPlayerIndex: 0,
+    pot: new BN(0),
+    currentBet: new BN(0),
+    playersActed: Array(6).fill(false),
+    communityCards: [0, 0, 0, 0, 0],
+    communityCardsRevealed: 0,
+    encryptedDeck: Array(32).fill(0),
+    deckInitialized: false,
+    startedAt: new BN(0),
+    lastActionAt: new BN(1000),
+    shuffleSessionId: Array(32).fill(0),
+    bump: 0,
+  };
+  const playerStates: PlayerState[] = stacks.map((stack, seatIndex) => ({
+    player: players[seatIndex],
+    game: PublicKey.default,
+    seatIndex,
+    status: PlayerStatus.Waiting,
+    chipStack: new BN(stack),
+    currentBet: new BN(0),
+    totalBetThisHand: new BN(0),
+    encryptedHoleCards: [0, 0],
+    hasCards: false,
+    hasFolded: false,
+    isAllIn: false,
+    joinedAt: new BN(0),
+    lastActionAt: new BN(0),
+    bump: 0,
+  }));
+  return { game, playerStates };
+};
+
+const entropy = (count: number) =>
+  Array.from({ length: count }, (_, i) => new Uint8Array(32).fill(i + 1));
+
+const start = (stacks: number[], config?: GameConfig): EngineState => {
+  const state = createState(stacks);
+  state.game.config = config;
+  return GameEngine.reduce(state, {
+    type: 'start_game',
+    authority,
+    playerEntropy: entropy(stacks.length),
+  });
+};
+
+// Apply an action for whoever is to act
+const act = (state: EngineState, action: PlayerActionParam): EngineState =>
+  GameEngine.reduce(state, {
+    type: 'player_action',
+    player: state.game.players[state.game.currentPlayerIndex],
+    action,
+  });
+
+const stacks = (state: EngineState) => state.playerStates.map(ps => ps.chipStack.toNumber());
+
+const expectError = (fn: () => void, code: ErrorCode) => {
+  try {
+    fn();
+  } catch (error) {
+    expect(error).toBeInstanceOf(PokerError);
+    expect((error as PokerError).code).toBe(code);
+    return;
+  }
+  throw new Error('Expected a PokerError');
+};
+
+describe('GameEngine', () => {
+  describe('Start Game', () => {
+    it('should deal cards and post blinds', () => {
+      const state = start([1000, 1000, 1000]);
+      const { game, playerStates } = state;
+
+      expect(game.stage).toBe(GameStage.PreFlop);
+      expect(game.deckInitialized).toBe(true);
+      expect(game.pot.toNumber()).toBe(30);
+      expect(game.currentBet.toNumber()).toBe(20);
+      expect(stacks(state)).toEqual([1000, 990, 980]);
+      // Under the gun is the dealer three-handed
+      expect(game.currentPlayerIndex).toBe(0);
+      expect(playerStates.every(ps => ps.hasCards && ps.status === PlayerStatus.Active)).toBe(true);
+    });
+
+    it('should deal 11 distinct cards three-handed', () => {
+      const { game, playerStates } = start([1000, 1000, 1000]);
+      const dealt = [...playerStates.flatMap(ps => ps.encryptedHoleCards), ...game.communityCards];
+
+      expect(new Set(dealt).size).toBe(11);
+      expect(game.communityCardsRevealed).toBe(0);
+    });
+
+    it('should shuffle deterministically from player entropy', () => {
+      const a = start([1000, 1000, 1000]);
+      const b = start([1000, 1000, 1000]);
+      const other = GameEngine.reduce(createState([1000, 1000, 1000]), {
+        type: 'start_game',
+        authority,
+        playerEntropy: entropy(3).reverse().map((bytes, i) => (i === 0 ? bytes.fill(9) : bytes)),
+      });
+
+      expect(a.game.communityCards).toEqual(b.game.communityCards);
+      expect(a.game.communityCards).not.toEqual(other.game.communityCards);
+    });
+
+    it('should not mutate the input state', () => {
+      const state = createState([1000, 1000, 1000]);
+      GameEngine.reduce(state, { type: 'start_game', authority, playerEntropy: entropy(3) });
+
+      expect(state.game.stage).toBe(GameStage.Waiting);
+      expect(state.playerStates[1].chipStack.toNumber()).toBe(1000);
+    });
+
+    it('should reject invalid starts', () => {
+      expectError(
+        () => GameEngine.reduce(createState([1000, 1000]), {
+          type: 'start_game', authority: PublicKey.unique(), playerEntropy: entropy(2),
+        }),
+        ErrorCode.InvalidAction
+      );
+      expectError(
+        () => GameEngine.reduce(createState([1000]), {
+          type: 'start_game', authority, playerEntropy: entropy(1),
+        }),
+        ErrorCode.NotEnoughPlayers
+      );
+      expectError(
+        () => GameEngine.reduce(start([1000, 1000]), {
+          type: 'start_game', authority, playerEntropy: entropy(2),
+        }),
+        ErrorCode.GameAlreadyStarted
+      );
+    });
+  });
+
+  describe('Player Actions', () => {
+    it('should reject actions out of turn', () => {
+      const state = start([1000, 1000, 1000]);
+      expectError(
+        () => GameEngine.reduce(state, {
+          type: 'player_action', player: state.game.players[1], action: { call: {} },
+        }),
+        ErrorCode.NotPlayerTurn
+      );
+    });
+
+    it('should reject invalid actions', () => {
+      const state = start([1000, 1000, 1000]);
+      expectError(() => act(state, { check: {} }), ErrorCode.InvalidAction);
+      expectError(() => act(state, { raise: { amount: new BN(30) } }), ErrorCode.InvalidAction);
+    });
+
+    it('should give the big blind the option', () => {
+      let state = start([1000, 1000, 1000]);
+      state = act(state, { call: {} });
+      state = act(state, { call: {} });
+
+      expect(state.game.currentPlayerIndex).toBe(2);
+      expect(GameEngine.isBettingRoundComplete(state)).toBe(false);
+
+      state = act(state, { check: {} });
+      expect(GameEngine.isBettingRoundComplete(state)).toBe(true);
+      expect(state.game.pot.toNumber()).toBe(60);
+    });
+
+    it('should reopen the action after a raise', () => {
+      let state = start([1000, 1000, 1000]);
+      state = act(state, { call: {} });
+      state = act(state, { raise: { amount: new BN(60) } });
+
+      expect(state.game.currentBet.toNumber()).toBe(60);
+      expect(state.playerStates[1].chipStack.toNumber()).toBe(940);
+      expect(state.game.currentPlayerIndex).toBe(2);
+
+      state = act(state, { fold: {} });
+      expect(state.game.currentPlayerIndex).toBe(0);
+      state = act(state, { call: {} });
+
+      expect(GameEngine.isBettingRoundComplete(state)).toBe(true);
+      expect(state.game.pot.toNumber()).toBe(140);
+    });
+
+    it('should track the last full raise for the minimum raise', () => {
+      let state = start([1000, 1000, 1000]);
+      state = act(state, { raise: { amount: new BN(60) } });
+      expect(state.game.lastRaiseSize!.toNumber()).toBe(40);
+
+      expectError(() => act(state, { raise: { amount: new BN(90) } }), ErrorCode.InvalidAction);
+      state = act(state, { raise: { amount: new BN(100) } });
+      expect(state.game.currentBet.toNumber()).toBe(100);
+    });
+
+    it('should not reopen the action after a short all-in', () => {
+      let state = start([1000, 70, 1000]);
+      state = act(state, { raise: { amount: new BN(60) } });
+      // The small blind's all-in to 70 is short of a full raise
+      state = act(state, { allIn: {} });
+      expect(state.game.currentBet.toNumber()).toBe(70);
+      expect(state.game.playersActed[0]).toBe(true);
+
+      // The big blind has not acted, so may still raise: to at least 70 + 40
+      expectError(() => act(state, { raise: { amount: new BN(100) } }), ErrorCode.InvalidAction);
+      state = act(state, { call: {} });
+
+      // The original raiser can only call or fold
+      expectError(() => act(state, { raise: { amount: new BN(200) } }), ErrorCode.InvalidAction);
+      expectError(() => act(state, { allIn: {} }), ErrorCode.InvalidAction);
+      state = act(state, { call: {} });
+      expect(GameEngine.isBettingRoundComplete(state)).toBe(true);
+      expect(state.game.pot.toNumber()).toBe(210);
+    });
+
+    it('should reopen the action after a full raise over a short all-in', () => {
+      let state = start([1000, 70, 1000]);
+      state = act(state, { raise: { amount: new BN(60) } });
+      state = act(state, { allIn: {} });
+      state = act(state, { raise: { amount: new BN(110) } });
+
+      expect(state.game.currentPlayerIndex).toBe(0);
+      state = act(state, { raise: { amount: new BN(160) } });
+      expect(state.game.currentBet.toNumber()).toBe(160);
+    });
+
+    it('should reject actions once the round is complete', () => {
+      let state = start([1000, 1000, 1000]);
+      state = act(state, { fold: {} });
+      state = act(state, { fold: {} });
+
+      expectError(() => act(state, { check: {} }), ErrorCode.InvalidAction);
+    });
+  });
+
+  describe('Whole Hands', () => {
+    it('should play a hand through showdown', () => {
+      let state = start([1000, 1000, 1000]);
+      state = act(state, { call: {} });
+      state = act(state, { call: {} });
+      state = act(state, { check: {} });
+
+      state = GameEngine.reduce(state, { type: 'advance_stage' });
+      expect(state.game.stage).toBe(GameStage.Flop);
+      expect(state.game.communityCardsRevealed).toBe(3);
+      // Small blind acts first after the flop
+      expect(state.game.currentPlayerIndex).toBe(1);
+
+      state = act(state, { bet: { amount: new BN(40) } });
+      state = act(state, { call: {} });
+      state = act(state, { fold: {} });
+
+      state = GameEngine.reduce(state, { type: 'advance_stage' });
+      expect(state.game.stage).toBe(GameStage.Turn);
+      expect(state.game.currentPlayerIndex).toBe(1);
+      state = act(state, { check: {} });
+      state = act(state, { check: {} });
+
+      state = GameEngine.reduce(state, { type: 'advance_stage' });
+      expect(state.game.stage).toBe(GameStage.River);
+      expect(state.game.communityCardsRevealed).toBe(5);
+      state = act(state, { check: {} });
+      state = act(state, { check: {} });
+
+      state = GameEngine.reduce(state, { type: 'advance_stage' });
+      expect(state.game.stage).toBe(GameStage.Showdown);
+
+      // Seat 1 holds the nut flush
+      state.game.communityCards = cards('2h 7h Jh 3d 9s');
+      state.playerStates[1].encryptedHoleCards = cards('Ah Kh');
+      state.playerStates[2].encryptedHoleCards = cards('Qc Qd');
+
+      const result = GameEngine.reduce(state, { type: 'execute_showdown' });
+      expect(result.game.stage).toBe(GameStage.Finished);
+      expect(result.game.pot.toNumber()).toBe(0);
+      expect(result.winners?.map(w => w.player)).toEqual([state.game.players[1]]);
+      expect(stacks(result)).toEqual([980, 1080, 940]);
+    });
+
+    it('should award the pot when everyone else folds', () => {
+      let state = start([1000, 1000, 1000]);
+      state = act(state, { fold: {} });
+      state = act(state, { fold: {} });
+
+      state = GameEngine.reduce(state, { type: 'advance_stage' });
+      expect(state.game.stage).toBe(GameStage.Showdown);
+      expect(state.game.communityCardsRevealed).toBe(0);
+
+      const result = GameEngine.reduce(state, { type: 'execute_showdown' });
+      expect(stacks(result)).toEqual([1000, 990, 1010]);
+    });
+
+    it('should run out the board when players are all-in', () => {
+      let state = start([300, 1000, 1000]);
+      state = act(state, { allIn: {} });
+      state = act(state, { call: {} });
+      state = act(state, { call: {} });
+
+      expect(state.playerStates[0].status).toBe(PlayerStatus.AllIn);
+      expect(GameEngine.isBettingRoundComplete(state)).toBe(true);
+
+      state = GameEngine.reduce(state, { type: 'advance_stage' });
+      state = act(state, { allIn: {} });
+      state = act(state, { call: {} });
+
+      for (let street = 0; street < 3; street++) {
+        expect(GameEngine.isBettingRoundComplete(state)).toBe(true);
+        state = GameEngine.reduce(state, { type: 'advance_stage' });
+      }
+      expect(state.game.stage).toBe(GameStage.Showdown);
+
+      // Seat 0 wins the main pot, seats 1 and 2 split the side pot
+      state.game.communityCards = cards('2h 7c Jh 3d 9s');
+      state.playerStates[0].encryptedHoleCards = cards('As Ad');
+      state.playerStates[1].encryptedHoleCards = cards('Kc Kd');
+      state.playerStates[2].encryptedHoleCards = cards('Kh Ks');
+
+      const result = GameEngine.reduce(state, { type: 'execute_showdown' });
+      expect(result.game.pot.toNumber()).toBe(0);
+      expect(stacks(result)).toEqual([900, 700, 700]);
+    });
+
+    it('should move the button and deal a new hand', () => {
+      let state = start([1000, 1000, 1000]);
+      state = act(state, { fold: {} });
+      state = act(state, { fold: {} });
+      state = GameEngine.reduce(state, { type: 'advance_stage' });
+      state = GameEngine.reduce(state, { type: 'execute_showdown' });
+
+      const next = GameEngine.reduce(state, { type: 'new_hand', authority });
+      expect(next.game.stage).toBe(GameStage.PreFlop);
+      expect(next.game.dealerPosition).toBe(1);
+      expect(next.game.pot.toNumber()).toBe(30);
+      expect(stacks(next)).toEqual([980, 990, 1000]);
+      expect(next.game.communityCards).not.toEqual(state.game.communityCards);
+    });
+
+    it('should skip busted players in the next hand', () => {
+      let state = start([1000, 20, 1000]);
+      state = act(state, { raise: { amount: new BN(100) } });
+      state = act(state, { allIn: {} });
+      state = act(state, { fold: {} });
+      for (let street = 0; street < 4; street++) {
+        state = GameEngine.reduce(state, { type: 'advance_stage' });
+      }
+      state.game.communityCards = cards('2h 7c Jh 3d 9s');
+      state.playerStates[0].encryptedHoleCards = cards('As Ad');
+      state.playerStates[1].encryptedHoleCards = cards('4c 5d');
+      state = GameEngine.reduce(state, { type: 'execute_showdown' });
+      expect(stacks(state)).toEqual([1040, 0, 980]);
+
+      const next = GameEngine.reduce(state, { type: 'new_hand', authority });
+      expect(next.playerStates[1].hasFolded).toBe(true);
+      expect(next.playerStates[1].hasCards).toBe(false);
+      expect(next.game.dealerPosition).toBe(2);
+    });
+
+    it('should only start a new hand after the last one finished', () => {
+      const state = start([1000, 1000]);
+      expectError(() => GameEngine.reduce(state, { type: 'new_hand', authority }), ErrorCode.GameNotFinished);
+    });
+  });
+
+  describe('Heads-Up', () => {
+    it('should have the dealer post the small blind and act first preflop', () => {
+      const state = start([1000, 1000]);
+
+      expect(state.game.dealerPosition).toBe(0);
+      expect(stacks(state)).toEqual([990, 980]);
+      expect(state.game.currentPlayerIndex).toBe(0);
+    });
+
+    it('should play a heads-up hand from the blinds through showdown', () => {
+      let state = start([1000, 1000]);
+      state = act(state, { call: {} });
+      // The big blind still has the option
+      expect(state.game.currentPlayerIndex).toBe(1);
+      state = act(state, { check: {} });
+
+      state = GameEngine.reduce(state, { type: 'advance_stage' });
+      expect(state.game.stage).toBe(GameStage.Flop);
+      // The big blind acts first after the flop and the dealer last
+      expect(state.game.currentPlayerIndex).toBe(1);
+      state = act(state, { check: {} });
+      expect(state.game.currentPlayerIndex).toBe(0);
+      state = act(state, { check: {} });
+
+      state = GameEngine.reduce(state, { type: 'advance_stage' });
+      expect(state.game.currentPlayerIndex).toBe(1);
+      state = act(state, { bet: { amount: new BN(40) } });
+      state = act(state, { call: {} });
+
+      state = GameEngine.reduce(state, { type: 'advance_stage' });
+      expect(state.game.currentPlayerIndex).toBe(1);
+      state = act(state, { check: {} });
+      state = act(state, { check: {} });
+
+      state = GameEngine.reduce(state, { type: 'advance_stage' });
+      expect(state.game.stage).toBe(GameStage.Showdown);
+      state.game.communityCards = cards('2h 7c Jh 3d 9s');
+      state.playerStates[0].encryptedHoleCards = cards('Ks Kd');
+      state.playerStates[1].encryptedHoleCards = cards('Qs Qd');
+      state = GameEngine.reduce(state, { type: 'execute_showdown' });
+
+      expect(stacks(state)).toEqual([1060, 940]);
+    });
+
+    it('should give the pot to the big blind when the dealer folds', () => {
+      let state = start([1000, 1000]);
+      state = act(state, { fold: {} });
+
+      expect(GameEngine.isBettingRoundComplete(state)).toBe(true);
+      state = GameEngine.reduce(state, { type: 'advance_stage' });
+      state = GameEngine.reduce(state, { type: 'execute_showdown' });
+      expect(stacks(state)).toEqual([990, 1010]);
+    });
+
+    it('should swap the blinds when the button moves', () => {
+      let state = start([1000, 1000]);
+      state = act(state, { fold: {} });
+      state = GameEngine.reduce(state, { type: 'advance_stage' });
+      state = GameEngine.reduce(state, { type: 'execute_showdown' });
+
+      const next = GameEngine.reduce(state, { type: 'new_hand', authority });
+      expect(next.game.dealerPosition).toBe(1);
+      expect(stacks(next)).toEqual([970, 1000]);
+      expect(next.game.currentPlayerIndex).toBe(1);
+    });
+
+    it('should play heads-up once a third player is busted', () => {
+      let state = start([1000, 20, 1000]);
+      state = act(state, { raise: { amount: new BN(100) } });
+      state = act(state, { allIn: {} });
+      state = act(state, { fold: {} });
+      for (let street = 0; street < 4; street++) {
+        state = GameEngine.reduce(state, { type: 'advance_stage' });
+      }
+      state.game.communityCards = cards('2h 7c Jh 3d 9s');
+      state.playerStates[0].encryptedHoleCards = cards('As Ad');
+      state.playerStates[1].encryptedHoleCards = cards('4c 5d');
+      state = GameEngine.reduce(state, { type: 'execute_showdown' });
+
+      // Seat 2 deals and posts the small blind, seat 0 the big blind
+      const next = GameEngine.reduce(state, { type: 'new_hand', authority });
+      expect(next.game.dealerPosition).toBe(2);
+      expect(stacks(next)).toEqual([1020, 0, 970]);
+      expect(next.game.currentPlayerIndex).toBe(2);
+    });
+  });
+
+  describe('Betting Structures', () => {
+    it('should cap fixed-limit raises per round', () => {
+      const config = { bettingStructure: BettingStructure.FixedLimit, raiseCap: 3 };
+      let state = start([1000, 1000, 1000], config);
+      expectError(() => act(state, { raise: { amount: new BN(60) } }), ErrorCode.InvalidAction);
+
+      state = act(state, { raise: { amount: new BN(40) } });
+      state = act(state, { raise: { amount: new BN(60) } });
+      expect(state.game.betsThisRound).toBe(3);
+      expectError(() => act(state, { raise: { amount: new BN(80) } }), ErrorCode.InvalidAction);
+      expectError(() => act(state, { allIn: {} }), ErrorCode.InvalidAction);
+      state = act(state, { call: {} });
+      state = act(state, { call: {} });
+
+      state = GameEngine.reduce(state, { type: 'advance_stage' });
+      expect(state.game.betsThisRound).toBe(0);
+    });
+
+    it('should limit pot-limit raises to the pot', () => {
+      const state = start([1000, 1000, 1000], { bettingStructure: BettingStructure.PotLimit });
+
+      expectError(() => act(state, { raise: { amount: new BN(80) } }), ErrorCode.InvalidAction);
+      expect(act(state, { raise: { amount: new BN(70) } }).game.pot.toNumber()).toBe(100);
+    });
+  });
+
+  describe('Antes and Straddles', () => {
+    const noLimit = BettingStructure.NoLimit;
+
+    it('should post antes as dead money', () => {
+      const state = start([1000, 1000, 1000], { bettingStructure: noLimit, ante: new BN(5) });
+
+      expect(state.game.pot.toNumber()).toBe(45);
+      expect(stacks(state)).toEqual([995, 985, 975]);
+      expect(state.playerStates.map(ps => ps.currentBet.toNumber())).toEqual([0, 10, 20]);
+      expect(state.playerStates.map(ps => ps.totalBetThisHand.toNumber())).toEqual([5, 15, 25]);
+      // Calling costs the big blind, not the ante
+      expect(act(state, { call: {} }).playerStates[0].chipStack.toNumber()).toBe(975);
+    });
+
+    it('should post a big blind ante from the big blind only', () => {
+      const state = start([1000, 1000, 1000], {
+        bettingStructure: noLimit,
+        ante: new BN(20),
+        anteType: AnteType.BigBlind,
+      });
+
+      expect(state.game.pot.toNumber()).toBe(50);
+      expect(stacks(state)).toEqual([1000, 990, 960]);
+      expect(state.game.currentBet.toNumber()).toBe(20);
+    });
+
+    it('should put a player all-in for an ante they cannot cover', () => {
+      const state = start([1000, 1000, 1000, 5], { bettingStructure: noLimit, ante: new BN(5) });
+      expect(state.playerStates[3].isAllIn).toBe(true);
+      expect(state.playerStates[3].currentBet.toNumber()).toBe(0);
+    });
+
+    it('should open with an under-the-gun straddle and give the straddler the option', () => {
+      let state = start([1000, 1000, 1000, 1000], { bettingStructure: noLimit, straddle: StraddleType.UnderTheGun });
+
+      expect(state.game.currentBet.toNumber()).toBe(40);
+      expect(state.game.pot.toNumber()).toBe(70);
+      // The dealer acts first, after the straddle in seat 3
+      expect(state.game.currentPlayerIndex).toBe(0);
+      expectError(() => act(state, { raise: { amount: new BN(60) } }), ErrorCode.InvalidAction);
+
+      state = act(state, { call: {} });
+      state = act(state, { call: {} });
+      state = act(state, { call: {} });
+      expect(state.game.currentPlayerIndex).toBe(3);
+      expect(GameEngine.isBettingRoundComplete(state)).toBe(false);
+      state = act(state, { raise: { amount: new BN(80) } });
+      expect(state.game.currentBet.toNumber()).toBe(80);
+    });
+
+    it('should start the action with the small blind on a button straddle', () => {
+      const state = start([1000, 1000, 1000, 1000], { bettingStructure: noLimit, straddle: StraddleType.Button });
+
+      expect(state.playerStates[0].currentBet.toNumber()).toBe(40);
+      expect(state.game.currentPlayerIndex).toBe(1);
+    });
+
+    it('should not straddle heads-up', () => {
+      const state = start([1000, 1000], { bettingStructure: noLimit, straddle: StraddleType.Button });
+      expect(state.game.currentBet.toNumber()).toBe(20);
+      expect(state.game.pot.toNumber()).toBe(30);
+    });
+  });
+
+  describe('Omaha', () => {
+    const omaha = { variant: GameVariant.Omaha, bettingStructure: BettingStructure.PotLimit };
+
+    it('should deal four hole cards to each seat from one deck', () => {
+      const state = start([1000, 1000, 1000], omaha);
+      const dealt = [...state.playerStates.flatMap(ps => ps.encryptedHoleCards), ...state.game.communityCards];
+
+      expect(state.playerStates.every(ps => ps.encryptedHoleCards.length === 4)).toBe(true);
+      expect(new Set(dealt).size).toBe(17);
+    });
+
+    it('should give seats sitting out four empty cards', () => {
+      const state = start([1000, 1000, 0], omaha);
+      expect(state.playerStates[2].encryptedHoleCards).toEqual([0, 0, 0, 0]);
+    });
+  });
+
+  describe('Short Deck', () => {
+    it('should deal only sixes and up', () => {
+      const state = start([1000, 1000, 1000], {
+        variant: GameVariant.ShortDeck,
+        bettingStructure: BettingStructure.NoLimit,
+      });
+      const dealt = [...state.playerStates.flatMap(ps => ps.encryptedHoleCards), ...state.game.communityCards];
+
+      expect(dealt.every(card => card % 13 >= 4)).toBe(true);
+      expect(new Set(dealt).size).toBe(11);
+    });
+  });
+
+  describe('Run It Twice', () => {
+    const choose = (state: EngineState, seat: number, runs: number): EngineState =>
+      GameEngine.reduce(state, { type: 'choose_runs', player: state.game.players[seat], runs });
+
+    // Heads-up: the dealer shoves, the big blind calls with chips behind
+    const allIn = (): EngineState => {
+      let state = start([1000, 2000]);
+      state = act(state, { allIn: {} });
+      return act(state, { call: {} });
+    };
+
+    it('should deal a second board from the rest of the deck once everyone agrees', () => {
+      let state = choose(allIn(), 0, 2);
+      expect(state.game.runBoards).toBeUndefined();
+
+      state = choose(state, 1, 2);
+      const boards = state.game.runBoards!;
+      const dealt = [...state.playerStates.flatMap(ps => ps.encryptedHoleCards), ...boards.flat()];
+      expect(boards).toHaveLength(2);
+      expect(boards[0]).toEqual(state.game.communityCards);
+      expect(new Set(dealt).size).toBe(14);
+    });
+
+    it('should keep the revealed cards on every run', () => {
+      let state = start([2000, 1000]);
+      state = act(state, { call: {} });
+      state = act(state, { check: {} });
+      state = GameEngine.reduce(state, { type: 'advance_stage' });
+      state = act(state, { allIn: {} });
+      state = act(state, { call: {} });
+
+      state = choose(choose(state, 0, 3), 1, 3);
+      const flop = state.game.communityCards.slice(0, 3);
+      expect(state.game.runBoards!.map(board => board.slice(0, 3))).toEqual([flop, flop, flop]);
+      expect(new Set(state.game.runBoards!.flatMap(board => board.slice(3))).size).toBe(6);
+    });
+
+    it('should split the pot between the runs at showdown', () => {
+      let state = choose(choose(allIn(), 0, 2), 1, 2);
+      for (let i = 0; i < 4; i++) {
+        state = GameEngine.reduce(state, { type: 'advance_stage' });
+      }
+
+      const result = GameEngine.reduce(state, { type: 'execute_showdown' });
+      const runs = ShowdownWinner.determineRunWinners(state.game, state.playerStates);
+      expect(runs).toHaveLength(2);
+      expect(runs.map(run => run.reduce((sum, w) => sum + w.winAmount.toNumber(), 0))).toEqual([1000, 1000]);
+      expect(stacks(result).reduce((a, b) => a + b)).toBe(3000);
+    });
+
+    it('should run the board once unless everyone agrees', () => {
+      const state = choose(choose(allIn(), 0, 2), 1, 1);
+      expect(state.game.runBoards).toBeUndefined();
+
+      const agreed = choose(state, 1, 2);
+      expectError(() => choose(agreed, 0, 3), ErrorCode.InvalidAction);
+    });
+
+    it('should only offer extra runs when everyone is all-in', () => {
+      const state = start([1000, 2000]);
+      expectError(() => choose(state, 0, 2), ErrorCode.InvalidAction);
+      expectError(() => choose(allIn(), 0, 4), ErrorCode.InvalidAction);
+    });
+
+    it('should clear the runs for the next hand', () => {
+      let state = choose(choose(allIn(), 0, 2), 1, 2);
+      for (let i = 0; i < 4; i++) {
+        state = GameEngine.reduce(state, { type: 'advance_stage' });
+      }
+      state = GameEngine.reduce(state, { type: 'execute_showdown' });
+      state = GameEngine.reduce(state, { type: 'new_hand', authority });
+
+      expect(state.game.runVotes).toBeUndefined();
+      expect(state.game.runBoards).toBeUndefined();
+    });
+  });
+
+  describe('Advance Stage', () => {
+    it('should not advance while betting is open', () => {
+      const state = start([1000, 1000, 1000]);
+      expectError(() => GameEngine.reduce(state, { type: 'advance_stage' }), ErrorCode.InvalidAction);
+    });
+
+    it('should not advance past showdown', () => {
+      let state = start([1000, 1000]);
+      state = act(state, { fold: {} });
+      state = GameEngine.reduce(state, { type: 'advance_stage' });
+      expectError(() => GameEngine.reduce(state, { type: 'advance_stage' }), ErrorCode.InvalidGameStage);
+    });
+  });
+
+  describe('Timeout Player', () => {
+    it('should fold a player who ran out of time', () => {
+      const state = start([1000, 1000, 1000]);
+      const player = state.game.players[0];
+      const now = state.game.lastActionAt.toNumber() + PLAYER_TIMEOUT_SECONDS;
+
+      const next = GameEngine.reduce(state, { type: 'timeout_player', player, timestamp: now });
+      expect(next.playerStates[0].hasFolded).toBe(true);
+      expect(next.game.currentPlayerIndex).toBe(1);
+      expect(next.game.lastActionAt.toNumber()).toBe(now);
+    });
+
+    it('should not time out a player early or out of turn', () => {
+      const state = start([1000, 1000, 1000]);
+      const now = state.game.lastActionAt.toNumber() + 1;
+
+      expectError(
+        () => GameEngine.reduce(state, { type: 'timeout_player', player: state.game.players[0], timestamp: now }),
+        ErrorCode.InvalidAction
+      );
+      expectError(
+        () => GameEngine.reduce(state, {
+          type: 'timeout_player', player: state.game.players[1], timestamp: now + PLAYER_TIMEOUT_SECONDS,
+        }),
+        ErrorCode.NotPlayerTurn
+      );
+    });
+  });
+});
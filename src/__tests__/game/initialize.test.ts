@@ -6,6 +6,7 @@ import { describe, it, expect } from '@jest/globals';
 import { PublicKey } from '@solana/web3.js';
 import BN from 'bn.js';
 import { GameInitializer } from '../../lib/game/initialize';
+import { AnteType, BettingStructure, GameVariant, StraddleType } from '../../lib/shared/types';
 import {
   DEFAULT_SMALL_BLIND,
   DEFAULT_BIG_BLIND,
@@ -180,6 +181,88 @@ describe('GameInitializer', () => {
     });
   });
 
+  describe('Betting Structure', () => {
+    it('should default fixed-limit bet sizes from the big blind', () => {
+      const config = GameInitializer.getGameConfig({
+        bigBlind: 20,
+        bettingStructure: BettingStructure.FixedLimit,
+      });
+
+      expect(config.smallBet!.toNumber()).toBe(20);
+      expect(config.bigBet!.toNumber()).toBe(40);
+      expect(config.raiseCap).toBe(4);
+    });
+
+    it('should leave bet sizes out of other structures', () => {
+      const config = GameInitializer.getGameConfig({
+        bettingStructure: BettingStructure.PotLimit,
+        smallBet: 20,
+      });
+      expect(config).toEqual({ bettingStructure: BettingStructure.PotLimit });
+    });
+
+    it('should reject invalid fixed-limit sizes', () => {
+      const base = { gameId: 1, bettingStructure: BettingStructure.FixedLimit };
+
+      expect(GameInitializer.validateGameParams({ ...base, smallBet: 10 }).error).toContain('small bet');
+      expect(GameInitializer.validateGameParams({ ...base, bigBet: 10 }).error).toContain('big bet');
+      expect(GameInitializer.validateGameParams({ ...base, raiseCap: 0 }).error).toContain('raise cap');
+      expect(GameInitializer.validateGameParams(base).valid).toBe(true);
+    });
+
+    it('should reject unknown structures', () => {
+      const result = GameInitializer.validateGameParams({
+        gameId: 1,
+        bettingStructure: 'SpreadLimit' as BettingStructure,
+      });
+      expect(result.valid).toBe(false);
+    });
+  });
+
+  describe('Antes and Straddles', () => {
+    it('should add antes and straddles to the table rules', () => {
+      const config = GameInitializer.getGameConfig({ ante: 5, straddle: StraddleType.Button });
+
+      expect(config.ante!.toNumber()).toBe(5);
+      expect(config.anteType).toBe(AnteType.PerPlayer);
+      expect(config.straddle).toBe(StraddleType.Button);
+    });
+
+    it('should reject antes above the big blind', () => {
+      expect(GameInitializer.validateGameParams({ gameId: 1, bigBlind: 20, ante: 25 }).error)
+        .toContain('more than the big blind');
+      expect(GameInitializer.validateGameParams({ gameId: 1, ante: 0 }).valid).toBe(false);
+      expect(GameInitializer.validateGameParams({ gameId: 1, bigBlind: 20, ante: 20, anteType: AnteType.BigBlind }).valid)
+        .toBe(true);
+    });
+
+    it('should reject straddles at heads-up tables', () => {
+      const result = GameInitializer.validateGameParams({
+        gameId: 1,
+        maxPlayers: 2,
+        straddle: StraddleType.UnderTheGun,
+      });
+      expect(result.error).toContain('at least 3 players');
+    });
+  });
+
+  describe('Game Variants', () => {
+    it('should default Omaha to pot-limit', () => {
+      const config = GameInitializer.getGameConfig({ variant: GameVariant.Omaha });
+
+      expect(config.variant).toBe(GameVariant.Omaha);
+      expect(config.bettingStructure).toBe(BettingStructure.PotLimit);
+      expect(GameInitializer.getGameConfig({ variant: GameVariant.OmahaHiLo }).bettingStructure)
+        .toBe(BettingStructure.PotLimit);
+      expect(GameInitializer.getGameConfig({}).variant).toBeUndefined();
+    });
+
+    it('should reject unknown variants', () => {
+      const result = GameInitializer.validateGameParams({ gameId: 1, variant: 'Razz' as GameVariant });
+      expect(result.error).toContain('Unknown game variant');
+    });
+  });
+
   describe('Default Parameters', () => {
     it('should return default game parameters', () => {
       const defaults = GameInitializer.getDefaultParams();
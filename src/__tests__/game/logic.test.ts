@@ -6,7 +6,14 @@ import { describe, it, expect } from '@jest/globals';
 import { PublicKey } from '@solana/web3.js';
 import BN from 'bn.js';
 import { GameLogic } from '../../lib/game/logic';
-import { Game, PlayerState, GameStage, PlayerStatus } from '../../lib/shared/types';
+import {
+  Game,
+  PlayerState,
+  GameStage,
+  PlayerStatus,
+  BettingStructure,
+  StraddleType,
+} from '../../lib/shared/types';
 
 const createMockGame = (overrides?: Partial<Game>): Game => ({
   authority: PublicKey.unique(),
@@ -249,7 +256,129 @@ describe('GameLogic', () => {
       const result = GameLogic.validateRaiseAmount(new BN(150), game, playerState);
 
       expect(result.valid).toBe(false);
-      expect(result.error).toContain('2x current bet');
+      expect(result.error).toContain('at least 200');
+    });
+
+    it('should allow a short raise for all of a player\'s chips', () => {
+      const game = createMockGame({ currentBet: new BN(100) });
+      const playerState = createMockPlayerState({ chipStack: new BN(150) });
+
+      expect(GameLogic.validateRaiseAmount(new BN(150), game, playerState).valid).toBe(true);
+      expect(GameLogic.validateRaiseAmount(new BN(160), game, playerState).error).toContain('Insufficient');
+    });
+
+    it('should reject a raise that does not exceed the current bet', () => {
+      const game = createMockGame({ currentBet: new BN(100) });
+      const playerState = createMockPlayerState({ chipStack: new BN(100) });
+
+      expect(GameLogic.validateRaiseAmount(new BN(100), game, playerState).error).toContain('more than');
+    });
+  });
+
+  describe('No-Limit Raise Sizing', () => {
+    it('should require the last full raise increment on top of the current bet', () => {
+      const game = createMockGame({ currentBet: new BN(60), lastRaiseSize: new BN(40) });
+
+      expect(GameLogic.getMinimumRaise(game).toNumber()).toBe(100);
+      expect(GameLogic.isFullRaise(game, new BN(100))).toBe(true);
+      expect(GameLogic.isFullRaise(game, new BN(90))).toBe(false);
+    });
+
+    it('should open with at least the big blind', () => {
+      const game = createMockGame({ currentBet: new BN(0), bigBlind: new BN(20) });
+
+      expect(GameLogic.getLastRaiseSize(game).toNumber()).toBe(20);
+      expect(GameLogic.isFullRaise(game, new BN(5))).toBe(true);
+    });
+
+    it('should close the action to players who acted before a short all-in', () => {
+      const players = [PublicKey.unique(), PublicKey.unique(), PublicKey.unique()];
+      const game = createMockGame({
+        players: [...players, ...Array(3).fill(PublicKey.default)],
+        currentBet: new BN(70),
+        lastRaiseSize: new BN(40),
+        playersActed: [true, true, false, false, false, false],
+      });
+      const acted = createMockPlayerState({ player: players[0], currentBet: new BN(60) });
+      const waiting = createMockPlayerState({ player: players[2], currentBet: new BN(20) });
+
+      expect(GameLogic.isActionReopened(game, acted)).toBe(false);
+      expect(GameLogic.canRaise(game, acted)).toBe(false);
+      expect(GameLogic.validateRaiseAmount(new BN(200), game, acted).error).toContain('not reopened');
+      expect(GameLogic.canRaise(game, waiting)).toBe(true);
+      expect(GameLogic.validateRaiseAmount(new BN(110), game, waiting).valid).toBe(true);
+    });
+  });
+
+  describe('Betting Structures', () => {
+    const potLimit = { bettingStructure: BettingStructure.PotLimit };
+    const fixedLimit = { bettingStructure: BettingStructure.FixedLimit, smallBet: new BN(20), bigBet: new BN(40) };
+
+    it('should default to no-limit', () => {
+      const game = createMockGame();
+      const playerState = createMockPlayerState({ chipStack: new BN(5000) });
+
+      expect(GameLogic.getBettingStructure(game)).toBe(BettingStructure.NoLimit);
+      expect(GameLogic.getMaximumRaise(game, playerState).toNumber()).toBe(5000);
+    });
+
+    it('should cap pot-limit raises at a pot-sized raise', () => {
+      // Blinds 10/20 in, first to act: call 20 then raise the 50 pot
+      const game = createMockGame({ config: potLimit, pot: new BN(30), currentBet: new BN(20) });
+      const playerState = createMockPlayerState({ chipStack: new BN(5000) });
+
+      expect(GameLogic.getMaximumRaise(game, playerState).toNumber()).toBe(70);
+      expect(GameLogic.validateRaiseAmount(new BN(70), game, playerState).valid).toBe(true);
+      expect(GameLogic.validateRaiseAmount(new BN(80), game, playerState).error).toContain('at most 70');
+    });
+
+    it('should cap pot-limit bets at the pot', () => {
+      const game = createMockGame({ config: potLimit, pot: new BN(200), currentBet: new BN(0) });
+      const playerState = createMockPlayerState({ chipStack: new BN(5000) });
+
+      expect(GameLogic.validateBetAmount(new BN(200), game, playerState).valid).toBe(true);
+      expect(GameLogic.validateBetAmount(new BN(201), game, playerState).error).toContain('more than the pot');
+      expect(GameLogic.validateAllInAmount(game, playerState).valid).toBe(false);
+      expect(GameLogic.validateAllInAmount(game, createMockPlayerState({ chipStack: new BN(150) })).valid)
+        .toBe(true);
+    });
+
+    it('should use the small bet early and the big bet late in fixed-limit', () => {
+      expect(GameLogic.getFixedLimitBetSize(createMockGame({ config: fixedLimit, stage: GameStage.Flop })).toNumber())
+        .toBe(20);
+      expect(GameLogic.getFixedLimitBetSize(createMockGame({ config: fixedLimit, stage: GameStage.Turn })).toNumber())
+        .toBe(40);
+    });
+
+    it('should only allow fixed-limit bets and raises of one bet', () => {
+      const game = createMockGame({ config: fixedLimit, stage: GameStage.Turn, currentBet: new BN(0) });
+      const playerState = createMockPlayerState({ chipStack: new BN(5000) });
+
+      expect(GameLogic.validateBetAmount(new BN(40), game, playerState).valid).toBe(true);
+      expect(GameLogic.validateBetAmount(new BN(60), game, playerState).valid).toBe(false);
+      expect(GameLogic.validateBetAmount(new BN(30), game, createMockPlayerState({ chipStack: new BN(30) })).valid)
+        .toBe(true);
+
+      const facingBet = { ...game, currentBet: new BN(40), betsThisRound: 1 };
+      expect(GameLogic.getMinimumRaise(facingBet).toNumber()).toBe(80);
+      expect(GameLogic.validateRaiseAmount(new BN(80), facingBet, playerState).valid).toBe(true);
+      expect(GameLogic.validateRaiseAmount(new BN(120), facingBet, playerState).valid).toBe(false);
+    });
+
+    it('should stop raising at the fixed-limit cap', () => {
+      const game = createMockGame({
+        config: { ...fixedLimit, raiseCap: 3 },
+        stage: GameStage.Flop,
+        currentBet: new BN(60),
+        betsThisRound: 3,
+      });
+      const playerState = createMockPlayerState({ chipStack: new BN(5000) });
+
+      expect(GameLogic.isRaiseCapped(game)).toBe(true);
+      expect(GameLogic.canRaise(game, playerState)).toBe(false);
+      expect(GameLogic.validateRaiseAmount(new BN(80), game, playerState).error).toContain('capped');
+      // Derived from the current bet when the count is not tracked
+      expect(GameLogic.isRaiseCapped({ ...game, betsThisRound: undefined })).toBe(true);
     });
   });
 
@@ -283,6 +412,27 @@ describe('GameLogic', () => {
     });
   });
 
+  describe('Running It Twice', () => {
+    const allIn = () => [
+      createMockPlayerState({ seatIndex: 0, isAllIn: true, chipStack: new BN(0) }),
+      createMockPlayerState({ seatIndex: 1, chipStack: new BN(500), currentBet: new BN(100) }),
+    ];
+
+    it('should allow extra runs before the river once the covering player has called', () => {
+      const game = createMockGame({ stage: GameStage.Flop, currentBet: new BN(100) });
+      expect(GameLogic.canRunItMultipleTimes(game, allIn())).toBe(true);
+      expect(GameLogic.canRunItMultipleTimes({ ...game, stage: GameStage.River }, allIn())).toBe(false);
+      expect(GameLogic.canRunItMultipleTimes({ ...game, currentBet: new BN(200) }, allIn())).toBe(false);
+    });
+
+    it('should only run more than once when every live player chose the same count', () => {
+      const game = createMockGame({ runVotes: [2, 2, 0, 0, 0, 0] });
+      expect(GameLogic.getAgreedRuns(game, allIn())).toBe(2);
+      expect(GameLogic.getAgreedRuns({ ...game, runVotes: [2, 3, 0, 0, 0, 0] }, allIn())).toBe(1);
+      expect(GameLogic.getAgreedRuns({ ...game, runVotes: [2, 0, 0, 0, 0, 0] }, allIn())).toBe(1);
+    });
+  });
+
   describe('Showdown Logic', () => {
     it('should proceed to showdown after River when betting complete', () => {
       const players = [PublicKey.unique(), PublicKey.unique()];
@@ -432,4 +582,91 @@ describe('GameLogic', () => {
       expect(nextIndex).toBe(-1);
     });
   });
+
+  describe('Heads-Up Rules', () => {
+    it('should detect heads-up hands', () => {
+      expect(GameLogic.isHeadsUp(createMockGame({ playerCount: 2 }))).toBe(true);
+      expect(GameLogic.isHeadsUp(createMockGame({ playerCount: 3 }))).toBe(false);
+      expect(GameLogic.isHeadsUp(createMockGame({ playerCount: 3 }), [0, 2])).toBe(true);
+    });
+
+    it('should have the heads-up dealer post the small blind', () => {
+      const game = createMockGame({ playerCount: 2, dealerPosition: 1 });
+      expect(GameLogic.getBlindSeats(game)).toEqual({ smallBlind: 1, bigBlind: 0 });
+    });
+
+    it('should post blinds after the dealer with three or more players', () => {
+      const game = createMockGame({ playerCount: 3, dealerPosition: 1 });
+      expect(GameLogic.getBlindSeats(game)).toEqual({ smallBlind: 2, bigBlind: 0 });
+    });
+
+    it('should use heads-up blinds when only two seats are dealt in', () => {
+      const game = createMockGame({ playerCount: 3, dealerPosition: 0 });
+      expect(GameLogic.getBlindSeats(game, [0, 2])).toEqual({ smallBlind: 0, bigBlind: 2 });
+    });
+
+    it('should have the heads-up dealer act first preflop and last postflop', () => {
+      const game = createMockGame({ playerCount: 2, dealerPosition: 0 });
+
+      expect(GameLogic.getFirstToActSeat(game, GameStage.PreFlop)).toBe(0);
+      expect(GameLogic.getFirstToActSeat(game, GameStage.Flop)).toBe(1);
+      expect(GameLogic.getFirstToActSeat(game, GameStage.River)).toBe(1);
+    });
+
+    it('should start full-ring action after the big blind preflop', () => {
+      const game = createMockGame({ playerCount: 4, dealerPosition: 0 });
+
+      expect(GameLogic.getFirstToActSeat(game, GameStage.PreFlop)).toBe(3);
+      expect(GameLogic.getFirstToActSeat(game, GameStage.Flop)).toBe(1);
+    });
+
+    it('should pass the action back and forth heads-up', () => {
+      const players = [PublicKey.unique(), PublicKey.unique()];
+      const game = createMockGame({
+        currentPlayerIndex: 1,
+        playerCount: 2,
+        players: [...players, ...Array(4).fill(PublicKey.default)],
+      });
+      const playerStates = players.map(player => createMockPlayerState({ player }));
+
+      expect(GameLogic.getNextPlayerIndex(game, playerStates)).toBe(0);
+      expect(GameLogic.getNextPlayerIndex({ ...game, currentPlayerIndex: 0 }, playerStates)).toBe(1);
+    });
+  });
+
+  describe('Straddles', () => {
+    const withStraddle = (straddle: StraddleType, overrides?: Partial<Game>) => createMockGame({
+      playerCount: 5,
+      dealerPosition: 0,
+      config: { bettingStructure: BettingStructure.NoLimit, straddle },
+      ...overrides,
+    });
+
+    it('should straddle under the gun from the seat after the big blind', () => {
+      const game = withStraddle(StraddleType.UnderTheGun);
+
+      expect(GameLogic.getStraddleSeat(game)).toBe(3);
+      expect(GameLogic.getStraddleAmount(game).toNumber()).toBe(40);
+      // The straddler acts last preflop
+      expect(GameLogic.getFirstToActSeat(game, GameStage.PreFlop)).toBe(4);
+      expect(GameLogic.getFirstToActSeat(game, GameStage.Flop)).toBe(1);
+    });
+
+    it('should start the action with the small blind on a button straddle', () => {
+      const game = withStraddle(StraddleType.Button);
+
+      expect(GameLogic.getStraddleSeat(game)).toBe(0);
+      expect(GameLogic.getFirstToActSeat(game, GameStage.PreFlop)).toBe(1);
+    });
+
+    it('should not straddle heads-up or without the option', () => {
+      expect(GameLogic.getStraddleSeat(withStraddle(StraddleType.UnderTheGun, { playerCount: 2 }))).toBeNull();
+      expect(GameLogic.getStraddleSeat(createMockGame({ playerCount: 5 }))).toBeNull();
+    });
+
+    it('should make raises over a straddle at least twice the straddle', () => {
+      const game = withStraddle(StraddleType.UnderTheGun, { currentBet: new BN(40), lastRaiseSize: undefined });
+      expect(GameLogic.getMinimumRaise(game).toNumber()).toBe(80);
+    });
+  });
 });
@@ -0,0 +1,202 @@
+/**
+ * Tests for game/store.ts
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { PublicKey } from '@solana/web3.js';
+import BN from 'bn.js';
+import { TableStore } from '../../lib/game/store';
+import { ProgramClient, ArciumPokerProgram } from '../../lib/connection/program';
+import { PlayerActionParam } from '../../lib/shared/types';
+import { deriveGamePDA } from '../../lib/shared/utils';
+
+const GAME_ID = new BN(3);
+
+// Let subscriptions and fetches settle
+const settle = (ms = 0) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('TableStore', () => {
+  let program: ArciumPokerProgram;
+  const authority = PublicKey.unique();
+  const alice = PublicKey.unique();
+  const bob = PublicKey.unique();
+  const [gamePDA] = deriveGamePDA(authority, GAME_ID);
+
+  const createGame = () =>
+    program.methods
+      .initializeGame(GAME_ID, new BN(10), new BN(20), new BN(1000), new BN(5000), 6)
+      .accounts({ authority })
+      .rpc();
+
+  const join = (player: PublicKey) =>
+    program.methods
+      .joinGame(new BN(1000))
+      .accounts({ game: gamePDA, player })
+      .rpc();
+
+  const leave = (player: PublicKey) =>
+    program.methods
+      .leaveGame()
+      .accounts({ game: gamePDA, player })
+      .rpc();
+
+  const start = () =>
+    program.methods
+      .startGame([Array(32).fill(1), Array(32).fill(2)])
+      .accounts({ game: gamePDA, authority })
+      .rpc();
+
+  const act = (player: PublicKey, action: PlayerActionParam) =>
+    program.methods
+      .playerAction(action)
+      .accounts({ game: gamePDA, player })
+      .rpc();
+
+  // Heads-up hand in progress, with a listening store
+  const startHand = async () => {
+    await createGame();
+    await join(alice);
+    await join(bob);
+    await start();
+    const store = TableStore.forGame(gamePDA);
+    store.subscribe(() => {});
+    await settle();
+
+    const { game, players } = store.getSnapshot();
+    const toAct = players[game!.currentPlayerIndex].account.player;
+    const waiting = toAct.equals(alice) ? bob : alice;
+    return { store, toAct, waiting };
+  };
+
+  beforeEach(() => {
+    program = ProgramClient.initializeLocal();
+  });
+
+  afterEach(() => {
+    TableStore.reset();
+    ProgramClient.reset();
+  });
+
+  it('should load the table for its first listener', async () => {
+    await createGame();
+    await join(alice);
+    const store = TableStore.forGame(gamePDA);
+
+    expect(store.getSnapshot().loading).toBe(true);
+    store.subscribe(() => {});
+    await settle();
+
+    const snapshot = store.getSnapshot();
+    expect(snapshot.loading).toBe(false);
+    expect(snapshot.connected).toBe(true);
+    expect(snapshot.game?.playerCount).toBe(1);
+    expect(snapshot.players).toHaveLength(1);
+    expect(store.getPlayer(alice)?.account.seatIndex).toBe(0);
+    expect(snapshot.slot).toBe(await ProgramClient.getSlot());
+  });
+
+  it('should share one store per game', () => {
+    expect(TableStore.forGame(gamePDA)).toBe(TableStore.forGame(new PublicKey(gamePDA.toBase58())));
+  });
+
+  it('should follow players joining and leaving', async () => {
+    await createGame();
+    const store = TableStore.forGame(gamePDA);
+    let changes = 0;
+    store.subscribe(() => changes++);
+    await settle();
+
+    await join(alice);
+    await join(bob);
+    await settle();
+    expect(store.getSnapshot().players.map(p => p.account.player.toBase58()))
+      .toEqual([alice.toBase58(), bob.toBase58()]);
+
+    await leave(alice);
+    await settle();
+    const { game, players } = store.getSnapshot();
+    expect(game?.playerCount).toBe(1);
+    expect(players).toHaveLength(1);
+    expect(store.getPlayer(bob)?.account.seatIndex).toBe(0);
+    expect(changes).toBeGreaterThan(0);
+  });
+
+  it('should stop updating when the last listener leaves', async () => {
+    await createGame();
+    const store = TableStore.forGame(gamePDA);
+    const unsubscribe = store.subscribe(() => {});
+    await settle();
+
+    unsubscribe();
+    await join(alice);
+    await settle();
+
+    expect(store.getSnapshot().connected).toBe(false);
+    expect(store.getSnapshot().game?.playerCount).toBe(0);
+  });
+
+  it('should retry until the game exists', async () => {
+    const store = new TableStore(gamePDA, { retryDelayMs: 5 });
+    store.subscribe(() => {});
+    await settle();
+    expect(store.getSnapshot().error).not.toBeNull();
+    expect(store.getSnapshot().connected).toBe(false);
+
+    await createGame();
+    await settle(20);
+
+    expect(store.getSnapshot().error).toBeNull();
+    expect(store.getSnapshot().connected).toBe(true);
+    expect(store.getSnapshot().game).not.toBeNull();
+  });
+
+  describe('Pending Actions', () => {
+    it('should show the predicted state until the action is confirmed', async () => {
+      const { store, toAct } = await startHand();
+      const before = store.getSnapshot();
+
+      const id = store.addPending(toAct, { call: {} })!;
+      const predicted = store.getSnapshot();
+      expect(predicted.pending).toEqual([{ id, player: toAct, action: { call: {} }, signature: null }]);
+      expect(predicted.game?.currentPlayerIndex).not.toBe(before.game?.currentPlayerIndex);
+      expect(predicted.game?.pot.gt(before.game!.pot)).toBe(true);
+
+      const signature = await act(toAct, { call: {} });
+      store.setPendingSignature(id, signature);
+      expect(store.getSnapshot().pending[0].signature).toBe(signature);
+
+      store.confirmPending(id, await ProgramClient.getSlot());
+      const confirmed = store.getSnapshot();
+      expect(confirmed.pending).toHaveLength(0);
+      expect(confirmed.game?.pot.eq(predicted.game!.pot)).toBe(true);
+      expect(confirmed.game?.currentPlayerIndex).toBe(predicted.game?.currentPlayerIndex);
+    });
+
+    it('should roll back a failed action', async () => {
+      const { store, toAct } = await startHand();
+      const before = store.getSnapshot();
+
+      const id = store.addPending(toAct, { fold: {} })!;
+      expect(store.getSnapshot().players.find(p => p.account.player.equals(toAct))?.account.hasFolded).toBe(true);
+
+      store.rollbackPending(id);
+      const after = store.getSnapshot();
+      expect(after.pending).toHaveLength(0);
+      expect(after.game).toBe(before.game);
+      expect(after.players).toBe(before.players);
+    });
+
+    it('should not predict actions the engine does not allow', async () => {
+      const { store, waiting } = await startHand();
+      const before = store.getSnapshot();
+
+      expect(store.addPending(waiting, { check: {} })).toBeNull();
+      expect(store.getSnapshot().pending).toHaveLength(0);
+      expect(store.getSnapshot().game).toBe(before.game);
+    });
+
+    it('should not predict before the table is loaded', () => {
+      expect(TableStore.forGame(gamePDA).addPending(alice, { fold: {} })).toBeNull();
+    });
+  });
+});
@@ -23,7 +23,7 @@ import { DeckManager } from '../../lib/cards/deck';
 import { HandEvaluator } from '../../lib/cards/evaluator';
 import { CardDealer } from '../../lib/cards/dealing';
 import { TokenConversion } from '../../lib/token/conversion';
-import { Game, PlayerState, GameStage, PlayerStatus } from '../../lib/shared/types';
+import { Game, PlayerState, GameStage, PlayerStatus, BettingStructure } from '../../lib/shared/types';
 
 // Mock game and player states for integration testing
 const createMockGame = (overrides?: Partial<Game>): Game => ({
@@ -422,5 +422,30 @@ describe('Full Game Flow Integration', () => {
         expect(amount.lte(playerState.chipStack)).toBe(true);
       });
     });
+
+    it('should suggest pot-limit raise sizes up to the pot', () => {
+      const game = createMockGame({
+        config: { bettingStructure: BettingStructure.PotLimit },
+        pot: new BN(30),
+        currentBet: new BN(20),
+      });
+      const playerState = createMockPlayerState({ chipStack: new BN(5000) });
+
+      const suggestions = BettingInstruction.getSuggestedBets(game, playerState);
+      expect(suggestions.map(amount => amount.toNumber())).toEqual([40, 45, 70]);
+    });
+
+    it('should suggest the single fixed-limit bet size', () => {
+      const game = createMockGame({
+        config: { bettingStructure: BettingStructure.FixedLimit, smallBet: new BN(20), bigBet: new BN(40) },
+        stage: GameStage.River,
+        pot: new BN(1000),
+        currentBet: new BN(0),
+      });
+      const playerState = createMockPlayerState({ chipStack: new BN(5000) });
+
+      const suggestions = BettingInstruction.getSuggestedBets(game, playerState);
+      expect(suggestions.map(amount => amount.toNumber())).toEqual([40]);
+    });
   });
 });
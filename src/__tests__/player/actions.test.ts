@@ -259,7 +259,7 @@ describe('PlayerActions', () => {
       expect(result.error).toContain('bet instead');
     });
 
-    it('should reject raise below minimum (2x current bet)', () => {
+    it('should reject raise below minimum (current bet plus last raise)', () => {
       const player = PublicKey.unique();
       const game = createGameWithPlayer(player, { currentBet: new BN(100) });
       const playerState = createMockPlayerState({ player });
@@ -267,7 +267,53 @@ describe('PlayerActions', () => {
 
       const result = PlayerActions.validateAction(game, playerState, action);
       expect(result.valid).toBe(false);
-      expect(result.error).toContain('2x current bet');
+      expect(result.error).toContain('at least 200');
+    });
+
+    it('should size the minimum raise from the last raise increment', () => {
+      const player = PublicKey.unique();
+      // Bet 100, raised to 300: the next raise must be to at least 500
+      const game = createGameWithPlayer(player, {
+        currentBet: new BN(300),
+        lastRaiseSize: new BN(200),
+      });
+      const playerState = createMockPlayerState({ player, chipStack: new BN(5000) });
+
+      expect(PlayerActions.validateAction(game, playerState, { raise: { amount: new BN(450) } }).valid)
+        .toBe(false);
+      expect(PlayerActions.validateAction(game, playerState, { raise: { amount: new BN(500) } }).valid)
+        .toBe(true);
+    });
+
+    it('should count chips already in front of the player', () => {
+      const player = PublicKey.unique();
+      const game = createGameWithPlayer(player, { currentBet: new BN(100) });
+      const playerState = createMockPlayerState({
+        player,
+        currentBet: new BN(50),
+        chipStack: new BN(150),
+      });
+
+      // Raising to 200 costs 150 more
+      const result = PlayerActions.validateAction(game, playerState, { raise: { amount: new BN(200) } });
+      expect(result.valid).toBe(true);
+    });
+
+    it('should not let a player raise after a short all-in', () => {
+      const player = PublicKey.unique();
+      const game = createGameWithPlayer(player, {
+        currentBet: new BN(70),
+        lastRaiseSize: new BN(40),
+        playersActed: [true, true, false, false, false, false],
+      });
+      const playerState = createMockPlayerState({ player, currentBet: new BN(60) });
+
+      const raise = PlayerActions.validateAction(game, playerState, { raise: { amount: new BN(200) } });
+      expect(raise.valid).toBe(false);
+      expect(raise.error).toContain('not reopened');
+      expect(PlayerActions.validateAction(game, playerState, { allIn: {} }).valid).toBe(false);
+      expect(PlayerActions.validateAction(game, playerState, { call: {} }).valid).toBe(true);
+      expect(PlayerActions.getAvailableActions(game, playerState)).not.toContain('raise');
     });
 
     it('should allow raise of exactly 2x', () => {
@@ -243,6 +243,21 @@ describe('PlayerStateManager', () => {
       const position = PlayerStateManager.getPlayerPosition(playerState, game);
       expect(position).toBe('Cutoff');
     });
+
+    it('should label the heads-up dealer as the small blind', () => {
+      const dealer = PublicKey.unique();
+      const other = PublicKey.unique();
+      const game = createMockGame({
+        dealerPosition: 1,
+        playerCount: 2,
+        players: [other, dealer, ...Array(4).fill(PublicKey.default)],
+      });
+
+      expect(PlayerStateManager.getPlayerPosition(createMockPlayerState({ player: dealer }), game))
+        .toBe('Dealer (Small Blind)');
+      expect(PlayerStateManager.getPlayerPosition(createMockPlayerState({ player: other }), game))
+        .toBe('Big Blind');
+    });
   });
 
   describe('Player Collections', () => {
@@ -83,6 +83,12 @@ describe('Error Handling', () => {
       expect(parsed.code).toBe(ErrorCode.NotPlayerTurn);
     });
 
+    it('should parse failed transaction status', () => {
+      const parsed = parseAnchorError({ InstructionError: [0, { Custom: ErrorCode.InvalidBetAmount }] });
+      expect(parsed.code).toBe(ErrorCode.InvalidBetAmount);
+      expect(parsed.message).toBe(ERROR_MESSAGES[ErrorCode.InvalidBetAmount]);
+    });
+
     it('should handle generic errors', () => {
       const genericError = new Error('Something went wrong');
       const parsed = parseAnchorError(genericError);
@@ -0,0 +1,46 @@
+/**
+ * Tests for shared/types.ts
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  HandRank,
+  isHandRank,
+  handRankFromOnChain,
+  handRankToOnChain,
+  getHandRankName,
+} from '../../lib/shared/types';
+
+describe('Hand Rank Helpers', () => {
+  it('should convert on-chain u8 values to hand ranks', () => {
+    expect(handRankFromOnChain(0)).toBe(HandRank.HighCard);
+    expect(handRankFromOnChain(1)).toBe(HandRank.OnePair);
+    expect(handRankFromOnChain(9)).toBe(HandRank.RoyalFlush);
+  });
+
+  it('should convert Anchor enum objects to hand ranks', () => {
+    expect(handRankFromOnChain({ onePair: {} })).toBe(HandRank.OnePair);
+    expect(handRankFromOnChain({ fullHouse: {} })).toBe(HandRank.FullHouse);
+  });
+
+  it('should reject unknown on-chain values', () => {
+    expect(() => handRankFromOnChain(10)).toThrow();
+    expect(() => handRankFromOnChain({ fiveOfAKind: {} })).toThrow();
+  });
+
+  it('should round-trip through the on-chain representation', () => {
+    for (let rank = HandRank.HighCard; rank <= HandRank.RoyalFlush; rank++) {
+      expect(handRankFromOnChain(handRankToOnChain(rank))).toBe(rank);
+    }
+  });
+
+  it('should provide display names', () => {
+    expect(getHandRankName(HandRank.OnePair)).toBe('Pair');
+    expect(getHandRankName(HandRank.ThreeOfAKind)).toBe('Three of a Kind');
+  });
+
+  it('should validate hand ranks', () => {
+    expect(isHandRank(HandRank.Flush)).toBe(true);
+    expect(isHandRank(42)).toBe(false);
+  });
+});
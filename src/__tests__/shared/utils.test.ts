@@ -24,6 +24,7 @@ import {
   shuffleArray,
   getNextIndex,
   getPrevIndex,
+  createSeededRandom,
   compareBN,
   maxBN,
   minBN,
@@ -196,6 +197,25 @@ describe('Utility Functions', () => {
     });
   });
 
+  describe('Random Utilities', () => {
+    it('should repeat the same sequence for the same seed', () => {
+      const a = createSeededRandom(42);
+      const b = createSeededRandom(42);
+      for (let i = 0; i < 10; i++) {
+        expect(a()).toBe(b());
+      }
+    });
+
+    it('should return numbers in [0, 1)', () => {
+      const random = createSeededRandom(7);
+      for (let i = 0; i < 1000; i++) {
+        const value = random();
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThan(1);
+      }
+    });
+  });
+
   describe('BN Comparison', () => {
     it('should compare BN values', () => {
       const a = new BN(100);
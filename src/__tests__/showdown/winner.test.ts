@@ -6,7 +6,15 @@ import { describe, it, expect } from '@jest/globals';
 import { PublicKey } from '@solana/web3.js';
 import BN from 'bn.js';
 import { ShowdownWinner } from '../../lib/showdown/winner';
-import { Game, PlayerState, GameStage, PlayerStatus } from '../../lib/shared/types';
+import {
+  Game,
+  PlayerState,
+  GameStage,
+  PlayerStatus,
+  HandRank,
+  BettingStructure,
+  GameVariant,
+} from '../../lib/shared/types';
 
 const createMockGame = (overrides?: Partial<Game>): Game => ({
   authority: PublicKey.unique(),
@@ -54,6 +62,10 @@ const createMockPlayerState = (overrides?: Partial<PlayerState>): PlayerState =>
   ...overrides,
 });
 
+// Card index helper: card('A', 's') -> index used by DeckManager.decodeCard
+const card = (rank: string, suit: 'h' | 'd' | 'c' | 's'): number =>
+  'hdcs'.indexOf(suit) * 13 + '23456789TJQKA'.indexOf(rank);
+
 describe('ShowdownWinner', () => {
   describe('Determine Winners', () => {
     it('should determine single winner when only one active player', () => {
@@ -69,11 +81,14 @@ describe('ShowdownWinner', () => {
       expect(winners[0].winAmount.toNumber()).toBe(1000);
     });
 
-    it('should split pot equally among multiple winners', () => {
-      const game = createMockGame({ pot: new BN(1000) });
+    it('should split pot equally when the board plays', () => {
+      const game = createMockGame({
+        pot: new BN(1000),
+        communityCards: [card('A', 's'), card('K', 's'), card('Q', 's'), card('J', 's'), card('T', 's')],
+      });
       const playerStates = [
-        createMockPlayerState({ hasFolded: false }),
-        createMockPlayerState({ hasFolded: false }),
+        createMockPlayerState({ seatIndex: 0, encryptedHoleCards: [card('2', 'h'), card('3', 'd')] }),
+        createMockPlayerState({ seatIndex: 1, encryptedHoleCards: [card('4', 'c'), card('5', 'h')] }),
       ];
 
       const winners = ShowdownWinner.determineWinners(game, playerStates);
@@ -82,6 +97,47 @@ describe('ShowdownWinner', () => {
       expect(winners[1].winAmount.toNumber()).toBe(500);
     });
 
+    it('should rank Omaha hands with exactly two hole cards', () => {
+      const game = createMockGame({
+        pot: new BN(1000),
+        communityCards: [card('A', 'h'), card('2', 'h'), card('5', 'h'), card('8', 'h'), card('K', 'd')],
+        config: { variant: GameVariant.Omaha, bettingStructure: BettingStructure.PotLimit },
+      });
+      const playerStates = [
+        // One heart only: no flush in Omaha
+        createMockPlayerState({
+          seatIndex: 0,
+          encryptedHoleCards: [card('Q', 'h'), card('J', 's'), card('T', 'c'), card('9', 'd')],
+        }),
+        createMockPlayerState({
+          seatIndex: 1,
+          encryptedHoleCards: [card('K', 'c'), card('K', 's'), card('7', 'c'), card('6', 'd')],
+        }),
+      ];
+
+      const winners = ShowdownWinner.determineWinners(game, playerStates);
+      expect(winners).toHaveLength(1);
+      expect(winners[0].playerState.seatIndex).toBe(1);
+      expect(winners[0].handRank).toBe(HandRank.ThreeOfAKind);
+    });
+
+    it('should rank a flush above a full house in short deck', () => {
+      const game = createMockGame({
+        pot: new BN(1000),
+        communityCards: [card('K', 'h'), card('K', 'd'), card('9', 'h'), card('7', 'h'), card('6', 'c')],
+        config: { variant: GameVariant.ShortDeck, bettingStructure: BettingStructure.NoLimit },
+      });
+      const playerStates = [
+        createMockPlayerState({ seatIndex: 0, encryptedHoleCards: [card('K', 'c'), card('9', 'd')] }),
+        createMockPlayerState({ seatIndex: 1, encryptedHoleCards: [card('A', 'h'), card('8', 'h')] }),
+      ];
+
+      const winners = ShowdownWinner.determineWinners(game, playerStates);
+      expect(winners).toHaveLength(1);
+      expect(winners[0].playerState.seatIndex).toBe(1);
+      expect(winners[0].handRank).toBe(HandRank.Flush);
+    });
+
     it('should return empty array when no active players', () => {
       const game = createMockGame();
       const playerStates = [
@@ -94,17 +150,299 @@ describe('ShowdownWinner', () => {
     });
 
     it('should handle three-way split', () => {
-      const game = createMockGame({ pot: new BN(900) });
+      const game = createMockGame({
+        pot: new BN(900),
+        communityCards: [card('A', 'h'), card('A', 'd'), card('K', 'c'), card('K', 's'), card('Q', 'h')],
+      });
       const playerStates = [
-        createMockPlayerState({ hasFolded: false }),
-        createMockPlayerState({ hasFolded: false }),
-        createMockPlayerState({ hasFolded: false }),
+        createMockPlayerState({ seatIndex: 0, encryptedHoleCards: [card('2', 'h'), card('3', 'd')] }),
+        createMockPlayerState({ seatIndex: 1, encryptedHoleCards: [card('4', 'c'), card('5', 'h')] }),
+        createMockPlayerState({ seatIndex: 2, encryptedHoleCards: [card('6', 'c'), card('7', 'h')] }),
       ];
 
       const winners = ShowdownWinner.determineWinners(game, playerStates);
       expect(winners.length).toBe(3);
       expect(winners[0].winAmount.toNumber()).toBe(300);
     });
+
+    it('should award the whole pot to the best hand', () => {
+      const game = createMockGame({
+        pot: new BN(1000),
+        communityCards: [card('A', 'h'), card('7', 'd'), card('7', 'c'), card('2', 's'), card('9', 'h')],
+      });
+      const playerStates = [
+        createMockPlayerState({ seatIndex: 0, encryptedHoleCards: [card('A', 'd'), card('K', 'd')] }),
+        createMockPlayerState({ seatIndex: 1, encryptedHoleCards: [card('7', 'h'), card('3', 'c')] }),
+      ];
+
+      const winners = ShowdownWinner.determineWinners(game, playerStates);
+      expect(winners.length).toBe(1);
+      expect(winners[0].player.equals(playerStates[1].player)).toBe(true);
+      expect(winners[0].winAmount.toNumber()).toBe(1000);
+      expect(winners[0].handRank).toBe(HandRank.ThreeOfAKind);
+      expect(winners[0].hand?.description).toBe('Three of a Kind');
+    });
+
+    it('should use revealed hole cards when provided', () => {
+      const game = createMockGame({
+        pot: new BN(1000),
+        communityCards: [card('2', 's'), card('3', 'h'), card('7', 'd'), card('8', 'c'), card('J', 'h')],
+      });
+      const playerStates = [
+        createMockPlayerState({ seatIndex: 0 }),
+        createMockPlayerState({ seatIndex: 1 }),
+      ];
+      const revealed = new Map<number, number[]>([
+        [0, [card('9', 'd'), card('9', 'c')]],
+        [1, [card('4', 'd'), card('5', 'c')]],
+      ]);
+
+      const winners = ShowdownWinner.determineWinners(game, playerStates, revealed);
+      expect(winners.length).toBe(1);
+      expect(winners[0].player.equals(playerStates[0].player)).toBe(true);
+      expect(winners[0].handRank).toBe(HandRank.OnePair);
+    });
+
+    it('should award side pots to the best eligible hand', () => {
+      const game = createMockGame({
+        pot: new BN(700),
+        communityCards: [card('K', 'h'), card('8', 'd'), card('4', 'c'), card('2', 's'), card('J', 'h')],
+      });
+      const playerStates = [
+        // Short all-in with the best hand
+        createMockPlayerState({
+          seatIndex: 0,
+          totalBetThisHand: new BN(100),
+          chipStack: new BN(0),
+          isAllIn: true,
+          encryptedHoleCards: [card('K', 'd'), card('K', 'c')],
+        }),
+        createMockPlayerState({
+          seatIndex: 1,
+          totalBetThisHand: new BN(300),
+          encryptedHoleCards: [card('A', 'd'), card('A', 'c')],
+        }),
+        createMockPlayerState({
+          seatIndex: 2,
+          totalBetThisHand: new BN(300),
+          encryptedHoleCards: [card('Q', 'd'), card('Q', 'c')],
+        }),
+      ];
+
+      const winners = ShowdownWinner.determineWinners(game, playerStates);
+      // Main pot 300 to seat 0, side pot 400 to seat 1
+      expect(ShowdownWinner.getPlayerWinnings(playerStates[0].player, winners).toNumber()).toBe(300);
+      expect(ShowdownWinner.getPlayerWinnings(playerStates[1].player, winners).toNumber()).toBe(400);
+      expect(ShowdownWinner.isWinner(playerStates[2].player, winners)).toBe(false);
+      expect(ShowdownWinner.getTotalWinnings(winners).toNumber()).toBe(700);
+    });
+
+    it('should add folded players chips to the main pot', () => {
+      const game = createMockGame({
+        pot: new BN(500),
+        communityCards: [card('K', 'h'), card('8', 'd'), card('4', 'c'), card('2', 's'), card('J', 'h')],
+      });
+      const playerStates = [
+        createMockPlayerState({ seatIndex: 0, totalBetThisHand: new BN(200), encryptedHoleCards: [card('K', 'd'), card('3', 'c')] }),
+        createMockPlayerState({ seatIndex: 1, totalBetThisHand: new BN(200), encryptedHoleCards: [card('Q', 'd'), card('3', 'h')] }),
+        createMockPlayerState({ seatIndex: 2, totalBetThisHand: new BN(100), hasFolded: true }),
+      ];
+
+      const winners = ShowdownWinner.determineWinners(game, playerStates);
+      expect(winners.length).toBe(1);
+      expect(winners[0].winAmount.toNumber()).toBe(500);
+    });
+
+    it('should count folded players chips only in the pots they reached', () => {
+      const game = createMockGame({
+        pot: new BN(250),
+        communityCards: [card('K', 'h'), card('8', 'd'), card('4', 'c'), card('2', 's'), card('J', 'h')],
+      });
+      const playerStates = [
+        // Short all-in with the best hand
+        createMockPlayerState({
+          seatIndex: 0,
+          totalBetThisHand: new BN(50),
+          chipStack: new BN(0),
+          isAllIn: true,
+          encryptedHoleCards: [card('K', 'd'), card('K', 'c')],
+        }),
+        createMockPlayerState({
+          seatIndex: 1,
+          totalBetThisHand: new BN(100),
+          encryptedHoleCards: [card('Q', 'd'), card('Q', 'c')],
+        }),
+        createMockPlayerState({ seatIndex: 2, totalBetThisHand: new BN(100), hasFolded: true }),
+      ];
+
+      const winners = ShowdownWinner.determineWinners(game, playerStates);
+      // Main pot 150 to seat 0, seat 2's last 50 and seat 1's own 50 back to seat 1
+      expect(ShowdownWinner.getPlayerWinnings(playerStates[0].player, winners).toNumber()).toBe(150);
+      expect(ShowdownWinner.getPlayerWinnings(playerStates[1].player, winners).toNumber()).toBe(100);
+      expect(ShowdownWinner.getTotalWinnings(winners).toNumber()).toBe(250);
+    });
+
+    it('should give the odd chip to the first winner left of the button', () => {
+      const game = createMockGame({
+        pot: new BN(1001),
+        dealerPosition: 0,
+        communityCards: [card('A', 's'), card('K', 's'), card('Q', 's'), card('J', 's'), card('T', 's')],
+      });
+      const playerStates = [
+        createMockPlayerState({ seatIndex: 0, encryptedHoleCards: [card('2', 'h'), card('3', 'd')] }),
+        createMockPlayerState({ seatIndex: 1, encryptedHoleCards: [card('4', 'c'), card('5', 'h')] }),
+      ];
+
+      const winners = ShowdownWinner.determineWinners(game, playerStates);
+      expect(ShowdownWinner.getPlayerWinnings(playerStates[1].player, winners).toNumber()).toBe(501);
+      expect(ShowdownWinner.getPlayerWinnings(playerStates[0].player, winners).toNumber()).toBe(500);
+    });
+  });
+
+  describe('Hi-Lo Split Pots', () => {
+    const hiLoConfig = { variant: GameVariant.OmahaHiLo, bettingStructure: BettingStructure.PotLimit };
+    const lowBoard = [card('2', 'c'), card('5', 'd'), card('7', 'h'), card('K', 'c'), card('Q', 's')];
+    const highHand = [card('K', 'd'), card('K', 's'), card('9', 'c'), card('9', 'd')];
+    const bestLow = [card('A', 'c'), card('3', 'd'), card('J', 'h'), card('J', 's')];
+
+    const amounts = (winners: ReturnType<typeof ShowdownWinner.determineWinners>) =>
+      Object.fromEntries(winners.map(w => [w.playerState.seatIndex, w.winAmount.toNumber()]));
+
+    it('should let the high hand scoop without a qualifying low', () => {
+      const game = createMockGame({
+        pot: new BN(1000),
+        communityCards: [card('K', 'c'), card('Q', 's'), card('9', 'h'), card('2', 'c'), card('3', 'h')],
+        config: hiLoConfig,
+      });
+      const playerStates = [
+        createMockPlayerState({ seatIndex: 0, encryptedHoleCards: highHand }),
+        createMockPlayerState({ seatIndex: 1, encryptedHoleCards: bestLow }),
+      ];
+
+      const winners = ShowdownWinner.determineWinners(game, playerStates);
+      expect(amounts(winners)).toEqual({ 0: 1000 });
+    });
+
+    it('should split the pot between high and low with the odd chip to the high', () => {
+      const game = createMockGame({ pot: new BN(1001), communityCards: lowBoard, config: hiLoConfig });
+      const playerStates = [
+        createMockPlayerState({ seatIndex: 0, encryptedHoleCards: highHand }),
+        createMockPlayerState({ seatIndex: 1, encryptedHoleCards: bestLow }),
+      ];
+
+      const winners = ShowdownWinner.determineWinners(game, playerStates);
+      expect(amounts(winners)).toEqual({ 0: 501, 1: 500 });
+      expect(winners[1].lowHand!.description).toBe('7-5-3-2-A');
+    });
+
+    it('should quarter the pot between tied lows', () => {
+      const game = createMockGame({ pot: new BN(1000), communityCards: lowBoard, config: hiLoConfig });
+      const playerStates = [
+        createMockPlayerState({ seatIndex: 0, encryptedHoleCards: highHand }),
+        createMockPlayerState({ seatIndex: 1, encryptedHoleCards: bestLow }),
+        createMockPlayerState({
+          seatIndex: 2,
+          encryptedHoleCards: [card('A', 'h'), card('3', 'c'), card('T', 'd'), card('T', 'c')],
+        }),
+      ];
+
+      const winners = ShowdownWinner.determineWinners(game, playerStates);
+      expect(amounts(winners)).toEqual({ 0: 500, 1: 250, 2: 250 });
+    });
+
+    it('should scoop with the best high and low', () => {
+      const game = createMockGame({ pot: new BN(1000), communityCards: lowBoard, config: hiLoConfig });
+      const playerStates = [
+        // Trip kings and a 7-5-4-3-2 low
+        createMockPlayerState({
+          seatIndex: 0,
+          encryptedHoleCards: [card('K', 'd'), card('K', 's'), card('3', 'c'), card('4', 'd')],
+        }),
+        createMockPlayerState({
+          seatIndex: 1,
+          encryptedHoleCards: [card('8', 'c'), card('6', 'd'), card('J', 'h'), card('J', 's')],
+        }),
+      ];
+
+      const winners = ShowdownWinner.determineWinners(game, playerStates);
+      expect(amounts(winners)).toEqual({ 0: 1000 });
+    });
+
+    it('should split each side pot between its own high and low', () => {
+      const game = createMockGame({ pot: new BN(700), communityCards: lowBoard, config: hiLoConfig });
+      const playerStates = [
+        // All-in for 100 with the best low
+        createMockPlayerState({
+          seatIndex: 0,
+          encryptedHoleCards: bestLow,
+          chipStack: new BN(0),
+          totalBetThisHand: new BN(100),
+          isAllIn: true,
+        }),
+        createMockPlayerState({ seatIndex: 1, encryptedHoleCards: highHand, totalBetThisHand: new BN(300) }),
+        // Second-best low
+        createMockPlayerState({
+          seatIndex: 2,
+          encryptedHoleCards: [card('A', 'h'), card('4', 'c'), card('T', 'c'), card('T', 'd')],
+          totalBetThisHand: new BN(300),
+        }),
+      ];
+
+      const winners = ShowdownWinner.determineWinners(game, playerStates);
+      // Main pot 300: 150 high, 150 low; side pot 400: 200 high, 200 low
+      expect(amounts(winners)).toEqual({ 0: 150, 1: 350, 2: 200 });
+    });
+  });
+
+  describe('Run It Twice', () => {
+    const flop = [card('A', 'h'), card('7', 'd'), card('7', 'c')];
+    const playerStates = () => [
+      createMockPlayerState({ seatIndex: 0, encryptedHoleCards: [card('A', 'd'), card('K', 'd')] }),
+      createMockPlayerState({ seatIndex: 1, encryptedHoleCards: [card('7', 'h'), card('3', 'c')] }),
+    ];
+
+    it('should award each run its share of the pot with the odd chip to the first run', () => {
+      const first = [...flop, card('2', 's'), card('9', 'h')];
+      const game = createMockGame({
+        pot: new BN(1001),
+        communityCards: first,
+        runBoards: [first, [...flop, card('K', 's'), card('K', 'h')]],
+      });
+      const states = playerStates();
+
+      const runs = ShowdownWinner.determineRunWinners(game, states);
+      // Trip sevens win the first run, kings full beat sevens full on the second
+      expect(runs.map(run => run.map(w => [w.playerState.seatIndex, w.winAmount.toNumber()]))).toEqual([
+        [[1, 501]],
+        [[0, 500]],
+      ]);
+      expect(runs[1][0].handRank).toBe(HandRank.FullHouse);
+
+      const winners = ShowdownWinner.determineWinners(game, states);
+      expect(ShowdownWinner.getPlayerWinnings(states[0].player, winners).toNumber()).toBe(500);
+      expect(ShowdownWinner.getPlayerWinnings(states[1].player, winners).toNumber()).toBe(501);
+    });
+
+    it('should add up the runs won by the same player', () => {
+      const game = createMockGame({
+        pot: new BN(1000),
+        communityCards: [...flop, card('2', 's'), card('9', 'h')],
+        runBoards: [
+          [...flop, card('2', 's'), card('9', 'h')],
+          [...flop, card('4', 's'), card('J', 'h')],
+          [...flop, card('5', 's'), card('Q', 'h')],
+        ],
+      });
+      const states = playerStates();
+
+      const runs = ShowdownWinner.determineRunWinners(game, states);
+      expect(runs.map(run => run[0].winAmount.toNumber())).toEqual([334, 333, 333]);
+
+      const winners = ShowdownWinner.determineWinners(game, states);
+      expect(winners).toHaveLength(1);
+      expect(winners[0].player.equals(states[1].player)).toBe(true);
+      expect(winners[0].winAmount.toNumber()).toBe(1000);
+    });
   });
 
   describe('Winner Checks', () => {
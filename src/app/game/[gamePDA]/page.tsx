@@ -2,103 +2,39 @@
 
 import { useParams, useRouter } from 'next/navigation';
 import { PublicKey } from '@solana/web3.js';
-import { useEffect, useState } from 'react';
+import { useState } from 'react';
 import { useWallet } from '@solana/wallet-adapter-react';
 import { useJoinGame } from '@/hooks/useJoinGame';
 import { useStartGame } from '@/hooks/useStartGame';
 import { useAdvanceStage } from '@/hooks/useAdvanceStage';
 import { useShowdown } from '@/hooks/useShowdown';
+import { useChooseRuns } from '@/hooks/useChooseRuns';
+import { useTableState } from '@/hooks/useTableState';
 import { PlayerActionButtons } from '@/components/game/PlayerActionButtons';
 import { PlayerActionPanel } from '@/components/game/PlayerActionPanel';
 import { PlayerHoleCards } from '@/components/game/PlayerHoleCards';
 import { WinnerDisplay } from '@/components/game/WinnerDisplay';
 import { PokerTable } from '@/components/game/PokerTable';
+import { RpcDebugPanel } from '@/components/game/RpcDebugPanel';
+import { TransactionStatus } from '@/components/game/TransactionStatus';
 import { DeckManager } from '@/lib/cards/deck';
+import { ProgramClient } from '@/lib/connection/program';
+import { GameLogic } from '@/lib/game/logic';
+import { LOCAL_MODE } from '@/lib/shared/constants';
+import { GameStage } from '@/lib/shared/types';
 
 export default function GamePage() {
   const params = useParams();
   const router = useRouter();
   const wallet = useWallet();
   const gamePDA = params.gamePDA as string;
-  const [game, setGame] = useState<any>(null);
-  const [players, setPlayers] = useState<any[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const { game, players, loading, error, refresh: refreshGame } = useTableState(gamePDA);
   const [buyInAmount, setBuyInAmount] = useState<string>('');
-  const [refreshKey, setRefreshKey] = useState(0);
-  const { joinGame, loading: joining, error: joinError } = useJoinGame();
-  const { startGame, loading: starting, error: startError } = useStartGame();
-  const { advanceStage, loading: advancing, error: advanceError } = useAdvanceStage();
-  const { executeShowdown, loading: showingDown, error: showdownError } = useShowdown();
-
-  // Helper to refresh game data
-  const refreshGame = () => {
-    setRefreshKey(prev => prev + 1);
-  };
-
-  useEffect(() => {
-    async function fetchGame() {
-      try {
-        setLoading(true);
-        console.log('🎮 Fetching game:', gamePDA);
-
-        // Initialize program with read-only provider
-        const { Connection } = await import('@solana/web3.js');
-        const { AnchorProvider, Program } = await import('@coral-xyz/anchor');
-        const idl = (await import('@/arcium_poker.json')).default;
-
-        const connection = new Connection(
-          process.env.NEXT_PUBLIC_RPC_ENDPOINT || 'https://api.devnet.solana.com',
-          'confirmed'
-        );
-
-        const provider = new AnchorProvider(
-          connection,
-          {} as any,
-          { commitment: 'confirmed' }
-        );
-
-        const program = new Program(idl as any, provider);
-
-        // Fetch the game account with retry logic (account may not be propagated yet)
-        let gameAccount;
-        let retries = 5;
-        while (retries > 0) {
-          try {
-            gameAccount = await program.account.game.fetch(new PublicKey(gamePDA));
-            console.log('✅ Game fetched:', gameAccount);
-            break;
-          } catch (err: any) {
-            if (retries === 1) throw err; // Last retry, throw error
-            console.log(`⏳ Waiting for account to propagate... (${retries} retries left)`);
-            await new Promise(resolve => setTimeout(resolve, 1000));
-            retries--;
-          }
-        }
-        
-        // Fetch all player states for this game
-        console.log('👥 Fetching players...');
-        const allPlayerStates = await program.account.playerState.all();
-        const gamePlayers = allPlayerStates.filter((p: any) => 
-          p.account.game.toBase58() === gamePDA
-        );
-        console.log(`✅ Found ${gamePlayers.length} player(s)`);
-        
-        setGame(gameAccount);
-        setPlayers(gamePlayers);
-        setError(null);
-      } catch (err: any) {
-        console.error('❌ Error fetching game:', err);
-        setError(err.message || 'Failed to load game');
-      } finally {
-        setLoading(false);
-      }
-    }
-
-    if (gamePDA) {
-      fetchGame();
-    }
-  }, [gamePDA, refreshKey]);
+  const { joinGame, loading: joining, error: joinError, txStatus: joinTxStatus } = useJoinGame();
+  const { startGame, loading: starting, error: startError, txStatus: startTxStatus } = useStartGame();
+  const { advanceStage, loading: advancing, error: advanceError, txStatus: advanceTxStatus } = useAdvanceStage();
+  const { executeShowdown, loading: showingDown, error: showdownError, txStatus: showdownTxStatus } = useShowdown();
+  const { chooseRuns, loading: choosingRuns, error: chooseRunsError } = useChooseRuns();
 
   const handleJoinGame = async () => {
     if (!wallet.publicKey) {
@@ -112,8 +48,8 @@ export default function GamePage() {
       return;
     }
 
-    const minBuyIn = game?.minBuyIn?.toNumber() / 1e9 || 0;
-    const maxBuyIn = game?.maxBuyIn?.toNumber() / 1e9 || 0;
+    const minBuyIn = (game?.minBuyIn.toNumber() ?? 0) / 1e9;
+    const maxBuyIn = (game?.maxBuyIn.toNumber() ?? 0) / 1e9;
 
     if (amount < minBuyIn || amount > maxBuyIn) {
       alert(`Buy-in must be between ${minBuyIn} and ${maxBuyIn} SOL`);
@@ -190,10 +126,10 @@ export default function GamePage() {
     }
 
     // Get all player state PDAs (sorted by seat index)
-    const sortedPlayers = [...players].sort((a: any, b: any) => 
+    const sortedPlayers = [...players].sort((a, b) => 
       a.account.seatIndex - b.account.seatIndex
     );
-    const playerStatePDAs = sortedPlayers.map((p: any) => p.publicKey);
+    const playerStatePDAs = sortedPlayers.map((p) => p.publicKey);
 
     console.log('📝 Passing', playerStatePDAs.length, 'player state PDAs to showdown');
 
@@ -207,6 +143,30 @@ export default function GamePage() {
     }
   };
 
+  const handleChooseRuns = async (runs: number) => {
+    if (!wallet.publicKey) {
+      alert('Please connect your wallet');
+      return;
+    }
+
+    const result = await chooseRuns(new PublicKey(gamePDA), runs);
+
+    if (result.success) {
+      refreshGame();
+    } else {
+      alert(`Failed to choose runs: ${result.error}`);
+    }
+  };
+
+  // Local tables: offer to run the board again once everyone is all-in
+  const localProgram = LOCAL_MODE && game ? ProgramClient.getLocalProgram() : null;
+  const localGame = localProgram?.getGame(new PublicKey(gamePDA)) ?? null;
+  const localPlayerStates = localGame ? localProgram!.getPlayerStates(new PublicKey(gamePDA)) : [];
+  const myLocalState = localPlayerStates.find(ps => ps.player.toBase58() === wallet.publicKey?.toBase58());
+  const canChooseRuns = !!localGame && !!myLocalState && !myLocalState.hasFolded
+    && GameLogic.canRunItMultipleTimes(localGame, localPlayerStates);
+  const myRunVote = myLocalState ? localGame?.runVotes?.[myLocalState.seatIndex] ?? 0 : 0;
+
   if (loading) {
     return (
       <div className="min-h-screen bg-[#0a0b0d] flex items-center justify-center">
@@ -218,7 +178,7 @@ export default function GamePage() {
     );
   }
 
-  if (error) {
+  if (error || !game) {
     return (
       <div className="min-h-screen bg-[#0a0b0d] flex items-center justify-center">
         <div className="text-center max-w-md mx-auto px-4">
@@ -260,12 +220,11 @@ export default function GamePage() {
         {players.length > 0 && (
           <div className="mb-8">
             <PokerTable
-              game={game}
-              players={players}
+              gamePDA={gamePDA}
               currentUserPublicKey={wallet.publicKey?.toBase58()}
               isMyTurn={(() => {
-                const currentPlayer = players.find((p: any) => p.account.player.toBase58() === wallet.publicKey?.toBase58());
-                return !game?.stage?.waiting && game?.currentPlayerIndex === currentPlayer?.account.seatIndex;
+                const currentPlayer = players.find((p) => p.account.player.toBase58() === wallet.publicKey?.toBase58());
+                return game?.stage !== GameStage.Waiting && game?.currentPlayerIndex === currentPlayer?.account.seatIndex;
               })()}
             />
           </div>
@@ -280,12 +239,12 @@ export default function GamePage() {
               <div className="flex justify-between">
                 <span className="text-gray-400">Status:</span>
                 <span className={`font-semibold ${
-                  game?.stage?.waiting ? 'text-yellow-500' : 'text-[#00ff88]'
+                  game?.stage === GameStage.Waiting ? 'text-yellow-500' : 'text-[#00ff88]'
                 }`}>
-                  {game?.stage?.waiting ? 'Waiting' : 'Playing'}
+                  {game?.stage === GameStage.Waiting ? 'Waiting' : 'Playing'}
                 </span>
               </div>
-              {!game?.stage?.waiting && (
+              {game?.stage !== GameStage.Waiting && (
                 <>
                   <div className="flex justify-between">
                     <span className="text-gray-400">Current Turn:</span>
@@ -343,17 +302,18 @@ export default function GamePage() {
         </div>
 
         {/* Player Hole Cards */}
-        {players.some((p: any) => p.account.player.toBase58() === wallet.publicKey?.toBase58()) && !game?.stage?.waiting && (
+        {players.some((p) => p.account.player.toBase58() === wallet.publicKey?.toBase58()) && game?.stage !== GameStage.Waiting && (
           <PlayerHoleCards
-            playerState={players.find((p: any) => p.account.player.toBase58() === wallet.publicKey?.toBase58())?.account}
+            playerState={players.find((p) => p.account.player.toBase58() === wallet.publicKey?.toBase58())?.account}
             game={game}
+            playerStates={players.map((p) => p.account)}
             isCurrentUser={true}
-            showRevealed={game?.stage?.showdown || game?.stage?.finished}
+            showRevealed={game?.stage === GameStage.Showdown || game?.stage === GameStage.Finished}
           />
         )}
 
         {/* Winner Display (if game finished OR at showdown with no actions left) */}
-        {(game?.stage?.finished || game?.stage?.showdown) && players.length > 0 && (
+        {(game?.stage === GameStage.Finished || game?.stage === GameStage.Showdown) && players.length > 0 && (
           <WinnerDisplay
             game={game}
             players={players}
@@ -362,7 +322,7 @@ export default function GamePage() {
         )}
 
         {/* Showdown Button (if at Showdown stage) */}
-        {game?.stage?.showdown && wallet.connected && (
+        {game?.stage === GameStage.Showdown && wallet.connected && (
           <div className="bg-gradient-to-r from-yellow-500/20 to-orange-500/20 border-2 border-yellow-500 rounded-xl p-6 mb-6">
             <div className="flex items-center justify-between">
               <div>
@@ -389,6 +349,7 @@ export default function GamePage() {
                 {showingDown ? 'Revealing...' : '🎴 Reveal & Determine Winner'}
               </button>
             </div>
+            <TransactionStatus event={showdownTxStatus} />
             {showdownError && (
               <div className="mt-3 p-3 bg-red-500/10 border border-red-500/30 rounded-lg">
                 <p className="text-red-400 text-sm">{showdownError}</p>
@@ -397,8 +358,47 @@ export default function GamePage() {
           </div>
         )}
 
+        {/* Run It Twice (local tables, everyone all-in before the river) */}
+        {canChooseRuns && wallet.connected && (
+          <div className="bg-[#1a1b1f] border border-blue-500/50 rounded-xl p-6 mb-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <h2 className="text-lg font-bold text-white mb-2">Run It Twice?</h2>
+                <p className="text-gray-400 text-sm">
+                  {game?.runBoards
+                    ? `Everyone agreed: the board will be run ${game.runBoards.length} times.`
+                    : 'Everyone is all-in. If all players agree, the rest of the board is dealt more than once and each pot is split by run.'}
+                </p>
+              </div>
+              {!game?.runBoards && (
+                <div className="flex gap-2">
+                  {[1, 2, 3].map((runs) => (
+                    <button
+                      key={runs}
+                      onClick={() => handleChooseRuns(runs)}
+                      disabled={choosingRuns}
+                      className={`px-4 py-2 font-bold rounded-lg transition ${
+                        myRunVote === runs
+                          ? 'bg-blue-500 text-white'
+                          : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+                      }`}
+                    >
+                      {runs === 1 ? 'Once' : runs === 2 ? 'Twice' : 'Three Times'}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+            {chooseRunsError && (
+              <div className="mt-3 p-3 bg-red-500/10 border border-red-500/30 rounded-lg">
+                <p className="text-red-400 text-sm">{chooseRunsError}</p>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Advance Stage Button */}
-        {!game?.stage?.waiting && !game?.stage?.showdown && !game?.stage?.finished && wallet.connected && (
+        {game?.stage !== GameStage.Waiting && game?.stage !== GameStage.Showdown && game?.stage !== GameStage.Finished && wallet.connected && (
           <div className="bg-[#1a1b1f] border border-gray-800 rounded-xl p-6 mb-6">
             <div className="flex items-center justify-between">
               <div>
@@ -419,6 +419,7 @@ export default function GamePage() {
                 {advancing ? 'Advancing...' : '➡️ Next Stage'}
               </button>
             </div>
+            <TransactionStatus event={advanceTxStatus} />
             {advanceError && (
               <div className="mt-3 p-3 bg-red-500/10 border border-red-500/30 rounded-lg">
                 <p className="text-red-400 text-sm">{advanceError}</p>
@@ -451,7 +452,7 @@ export default function GamePage() {
         {/* Actions */}
         <div className="bg-[#1a1b1f] border border-gray-800 rounded-xl p-6 mb-6">
           <h2 className="text-lg font-bold text-white mb-4">
-            {players.some((p: any) => p.account.player.toBase58() === wallet.publicKey?.toBase58()) 
+            {players.some((p) => p.account.player.toBase58() === wallet.publicKey?.toBase58()) 
               ? 'Game Actions' 
               : 'Join Game'}
           </h2>
@@ -460,20 +461,18 @@ export default function GamePage() {
             <div className="text-center py-4">
               <p className="text-gray-400 mb-4">Connect your wallet to join this game</p>
             </div>
-          ) : players.some((p: any) => p.account.player.toBase58() === wallet.publicKey?.toBase58()) ? (
+          ) : players.some((p) => p.account.player.toBase58() === wallet.publicKey?.toBase58()) ? (
             // Player is in the game
             (() => {
-              const currentPlayer = players.find((p: any) => p.account.player.toBase58() === wallet.publicKey?.toBase58());
-              const isMyTurn = !game?.stage?.waiting && game?.currentPlayerIndex === currentPlayer?.account.seatIndex;
-              const gameIsPlaying = !game?.stage?.waiting && !game?.stage?.finished;
+              const currentPlayer = players.find((p) => p.account.player.toBase58() === wallet.publicKey?.toBase58());
+              const isMyTurn = game?.stage !== GameStage.Waiting && game?.currentPlayerIndex === currentPlayer?.account.seatIndex;
+              const gameIsPlaying = game?.stage !== GameStage.Waiting && game?.stage !== GameStage.Finished;
 
               // If game is playing and it's the player's turn, show action panel
               if (gameIsPlaying && isMyTurn) {
                 return (
                   <PlayerActionPanel
                     gamePDA={gamePDA}
-                    game={game}
-                    playerState={currentPlayer?.account}
                     isMyTurn={isMyTurn}
                     onActionComplete={refreshGame}
                   />
@@ -490,7 +489,7 @@ export default function GamePage() {
                       <p className="text-gray-400 mb-6">
                         Waiting for {game?.maxPlayers - players.length} more player(s) to join...
                       </p>
-                      {wallet.publicKey?.toBase58() === game?.authority?.toBase58() && players.length >= 2 && game?.stage?.waiting && (
+                      {wallet.publicKey?.toBase58() === game?.authority?.toBase58() && players.length >= 2 && game?.stage === GameStage.Waiting && (
                         <div className="space-y-3">
                           {startError && (
                             <div className="p-3 bg-red-500/10 border border-red-500/30 rounded-lg">
@@ -508,6 +507,7 @@ export default function GamePage() {
                           >
                             {starting ? 'Starting...' : 'Start Game'}
                           </button>
+                          <TransactionStatus event={startTxStatus} />
                         </div>
                       )}
                     </>
@@ -569,6 +569,7 @@ export default function GamePage() {
                   Explorer
                 </button>
               </div>
+              <TransactionStatus event={joinTxStatus} />
             </div>
           )}
         </div>
@@ -576,6 +577,7 @@ export default function GamePage() {
         {/* Raw Data (Debug) */}
         <div className="bg-[#1a1b1f] border border-gray-800 rounded-xl p-6">
           <h2 className="text-lg font-bold text-white mb-4">Debug Info</h2>
+          {!LOCAL_MODE && <RpcDebugPanel />}
           <pre className="text-gray-400 text-xs overflow-auto max-h-96 bg-[#0a0b0d] p-4 rounded-lg border border-gray-800">
             {JSON.stringify(game, null, 2)}
           </pre>
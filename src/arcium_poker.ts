@@ -0,0 +1,1580 @@
+/**
+ * Program IDL in camelCase format in order to be used in JS/TS.
+ *
+ * Note that this is only a type helper and is not the actual IDL. The original
+ * IDL can be found at `target/idl/arcium_poker.json`.
+ */
+export type ArciumPoker = {
+  "address": "B5E1V3DJsjMPzQb4QyMUuVhESqnWMXVcead4AEBvJB4W",
+  "metadata": {
+    "name": "arciumPoker",
+    "version": "0.1.0",
+    "spec": "0.1.0",
+    "description": "Created with Anchor"
+  },
+  "instructions": [
+    {
+      "name": "advanceStage",
+      "docs": [
+        "Advance game to next stage (PreFlop -> Flop -> Turn -> River -> Showdown)"
+      ],
+      "discriminator": [
+        245,
+        116,
+        218,
+        214,
+        50,
+        98,
+        155,
+        205
+      ],
+      "accounts": [
+        {
+          "name": "game",
+          "writable": true
+        },
+        {
+          "name": "signer",
+          "docs": [
+            "Any player or authority can advance the stage"
+          ],
+          "signer": true
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "endGame",
+      "docs": [
+        "End the game"
+      ],
+      "discriminator": [
+        224,
+        135,
+        245,
+        99,
+        67,
+        175,
+        121,
+        252
+      ],
+      "accounts": [
+        {
+          "name": "game",
+          "writable": true
+        },
+        {
+          "name": "authority",
+          "docs": [
+            "Game authority must end the game"
+          ],
+          "signer": true
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "executeShowdown",
+      "docs": [
+        "Execute showdown - reveal cards and distribute winnings",
+        "Note: This is a simplified version. Full implementation would handle",
+        "encrypted card reveals via Arcium MPC"
+      ],
+      "discriminator": [
+        140,
+        31,
+        26,
+        192,
+        3,
+        94,
+        151,
+        159
+      ],
+      "accounts": [
+        {
+          "name": "game",
+          "writable": true,
+          "relations": [
+            "playerState"
+          ]
+        },
+        {
+          "name": "playerState",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  112,
+                  108,
+                  97,
+                  121,
+                  101,
+                  114
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "game"
+              },
+              {
+                "kind": "account",
+                "path": "player"
+              }
+            ]
+          }
+        },
+        {
+          "name": "player",
+          "signer": true,
+          "relations": [
+            "playerState"
+          ]
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "handleShuffleCallback",
+      "docs": [
+        "Handle MXE callback with shuffle result",
+        "Called by Arcium network after MPC computation completes"
+      ],
+      "discriminator": [
+        24,
+        190,
+        241,
+        17,
+        99,
+        225,
+        136,
+        52
+      ],
+      "accounts": [
+        {
+          "name": "game",
+          "writable": true
+        },
+        {
+          "name": "mxeProgram",
+          "docs": [
+            "MXE program calling back"
+          ]
+        },
+        {
+          "name": "computationAccount",
+          "docs": [
+            "Computation account with results"
+          ]
+        }
+      ],
+      "args": [
+        {
+          "name": "computationId",
+          "type": {
+            "array": [
+              "u8",
+              32
+            ]
+          }
+        },
+        {
+          "name": "encryptedOutput",
+          "type": "bytes"
+        }
+      ]
+    },
+    {
+      "name": "initShuffleCompDef",
+      "docs": [
+        "Initialize computation definition for MPC shuffle",
+        "Must be called once after deployment"
+      ],
+      "discriminator": [
+        194,
+        175,
+        67,
+        37,
+        158,
+        107,
+        165,
+        180
+      ],
+      "accounts": [
+        {
+          "name": "mxeAccount",
+          "docs": [
+            "MXE account"
+          ],
+          "writable": true
+        },
+        {
+          "name": "compDefAccount",
+          "docs": [
+            "Computation definition account to initialize"
+          ],
+          "writable": true
+        },
+        {
+          "name": "authority",
+          "writable": true,
+          "signer": true
+        },
+        {
+          "name": "systemProgram",
+          "address": "11111111111111111111111111111111"
+        }
+      ],
+      "args": [
+        {
+          "name": "compDefOffset",
+          "type": "u32"
+        }
+      ]
+    },
+    {
+      "name": "initializeGame",
+      "docs": [
+        "Initialize a new poker game"
+      ],
+      "discriminator": [
+        44,
+        62,
+        102,
+        247,
+        126,
+        208,
+        130,
+        215
+      ],
+      "accounts": [
+        {
+          "name": "game",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  103,
+                  97,
+                  109,
+                  101
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "authority"
+              },
+              {
+                "kind": "arg",
+                "path": "gameId"
+              }
+            ]
+          }
+        },
+        {
+          "name": "authority",
+          "writable": true,
+          "signer": true
+        },
+        {
+          "name": "systemProgram",
+          "address": "11111111111111111111111111111111"
+        }
+      ],
+      "args": [
+        {
+          "name": "gameId",
+          "type": "u64"
+        },
+        {
+          "name": "smallBlind",
+          "type": {
+            "option": "u64"
+          }
+        },
+        {
+          "name": "bigBlind",
+          "type": {
+            "option": "u64"
+          }
+        },
+        {
+          "name": "minBuyIn",
+          "type": {
+            "option": "u64"
+          }
+        },
+        {
+          "name": "maxBuyIn",
+          "type": {
+            "option": "u64"
+          }
+        },
+        {
+          "name": "maxPlayers",
+          "type": {
+            "option": "u8"
+          }
+        }
+      ]
+    },
+    {
+      "name": "joinGame",
+      "docs": [
+        "Player joins a game"
+      ],
+      "discriminator": [
+        107,
+        112,
+        18,
+        38,
+        56,
+        173,
+        60,
+        128
+      ],
+      "accounts": [
+        {
+          "name": "game",
+          "writable": true
+        },
+        {
+          "name": "playerState",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  112,
+                  108,
+                  97,
+                  121,
+                  101,
+                  114
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "game"
+              },
+              {
+                "kind": "account",
+                "path": "player"
+              }
+            ]
+          }
+        },
+        {
+          "name": "player",
+          "writable": true,
+          "signer": true
+        },
+        {
+          "name": "systemProgram",
+          "address": "11111111111111111111111111111111"
+        }
+      ],
+      "args": [
+        {
+          "name": "buyIn",
+          "type": "u64"
+        }
+      ]
+    },
+    {
+      "name": "leaveGame",
+      "docs": [
+        "Player leaves a game"
+      ],
+      "discriminator": [
+        218,
+        226,
+        6,
+        0,
+        243,
+        34,
+        125,
+        201
+      ],
+      "accounts": [
+        {
+          "name": "game",
+          "writable": true,
+          "relations": [
+            "playerState"
+          ]
+        },
+        {
+          "name": "playerState",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  112,
+                  108,
+                  97,
+                  121,
+                  101,
+                  114
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "game"
+              },
+              {
+                "kind": "account",
+                "path": "player"
+              }
+            ]
+          }
+        },
+        {
+          "name": "player",
+          "writable": true,
+          "signer": true,
+          "relations": [
+            "playerState"
+          ]
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "newHand",
+      "docs": [
+        "Start new hand (after previous hand completes)"
+      ],
+      "discriminator": [
+        161,
+        80,
+        17,
+        81,
+        248,
+        8,
+        8,
+        199
+      ],
+      "accounts": [
+        {
+          "name": "game",
+          "writable": true
+        },
+        {
+          "name": "authority",
+          "docs": [
+            "Game authority must start new hand"
+          ],
+          "signer": true
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "playerAction",
+      "docs": [
+        "Unified player action handler (for easier client integration)"
+      ],
+      "discriminator": [
+        37,
+        85,
+        25,
+        135,
+        200,
+        116,
+        96,
+        101
+      ],
+      "accounts": [
+        {
+          "name": "game",
+          "writable": true,
+          "relations": [
+            "playerState"
+          ]
+        },
+        {
+          "name": "playerState",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  112,
+                  108,
+                  97,
+                  121,
+                  101,
+                  114
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "game"
+              },
+              {
+                "kind": "account",
+                "path": "player"
+              }
+            ]
+          }
+        },
+        {
+          "name": "player",
+          "writable": true,
+          "signer": true,
+          "relations": [
+            "playerState"
+          ]
+        }
+      ],
+      "args": [
+        {
+          "name": "action",
+          "type": {
+            "defined": {
+              "name": "playerActionParam"
+            }
+          }
+        }
+      ]
+    },
+    {
+      "name": "playerAllIn",
+      "docs": [
+        "Player goes all-in"
+      ],
+      "discriminator": [
+        35,
+        163,
+        154,
+        10,
+        249,
+        130,
+        26,
+        148
+      ],
+      "accounts": [
+        {
+          "name": "game",
+          "writable": true,
+          "relations": [
+            "playerState"
+          ]
+        },
+        {
+          "name": "playerState",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  112,
+                  108,
+                  97,
+                  121,
+                  101,
+                  114
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "game"
+              },
+              {
+                "kind": "account",
+                "path": "player"
+              }
+            ]
+          }
+        },
+        {
+          "name": "player",
+          "writable": true,
+          "signer": true,
+          "relations": [
+            "playerState"
+          ]
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "playerBet",
+      "docs": [
+        "Player makes an opening bet"
+      ],
+      "discriminator": [
+        23,
+        181,
+        137,
+        220,
+        128,
+        248,
+        123,
+        210
+      ],
+      "accounts": [
+        {
+          "name": "game",
+          "writable": true,
+          "relations": [
+            "playerState"
+          ]
+        },
+        {
+          "name": "playerState",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  112,
+                  108,
+                  97,
+                  121,
+                  101,
+                  114
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "game"
+              },
+              {
+                "kind": "account",
+                "path": "player"
+              }
+            ]
+          }
+        },
+        {
+          "name": "player",
+          "writable": true,
+          "signer": true,
+          "relations": [
+            "playerState"
+          ]
+        }
+      ],
+      "args": [
+        {
+          "name": "betAmount",
+          "type": "u64"
+        }
+      ]
+    },
+    {
+      "name": "playerCall",
+      "docs": [
+        "Player calls the current bet"
+      ],
+      "discriminator": [
+        221,
+        133,
+        225,
+        159,
+        51,
+        207,
+        100,
+        161
+      ],
+      "accounts": [
+        {
+          "name": "game",
+          "writable": true,
+          "relations": [
+            "playerState"
+          ]
+        },
+        {
+          "name": "playerState",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  112,
+                  108,
+                  97,
+                  121,
+                  101,
+                  114
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "game"
+              },
+              {
+                "kind": "account",
+                "path": "player"
+              }
+            ]
+          }
+        },
+        {
+          "name": "player",
+          "writable": true,
+          "signer": true,
+          "relations": [
+            "playerState"
+          ]
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "playerCheck",
+      "docs": [
+        "Player checks (no bet)"
+      ],
+      "discriminator": [
+        217,
+        202,
+        35,
+        201,
+        168,
+        221,
+        63,
+        49
+      ],
+      "accounts": [
+        {
+          "name": "game",
+          "writable": true,
+          "relations": [
+            "playerState"
+          ]
+        },
+        {
+          "name": "playerState",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  112,
+                  108,
+                  97,
+                  121,
+                  101,
+                  114
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "game"
+              },
+              {
+                "kind": "account",
+                "path": "player"
+              }
+            ]
+          }
+        },
+        {
+          "name": "player",
+          "writable": true,
+          "signer": true,
+          "relations": [
+            "playerState"
+          ]
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "playerFold",
+      "docs": [
+        "Player folds their hand"
+      ],
+      "discriminator": [
+        124,
+        169,
+        207,
+        182,
+        254,
+        191,
+        250,
+        105
+      ],
+      "accounts": [
+        {
+          "name": "game",
+          "writable": true,
+          "relations": [
+            "playerState"
+          ]
+        },
+        {
+          "name": "playerState",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  112,
+                  108,
+                  97,
+                  121,
+                  101,
+                  114
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "game"
+              },
+              {
+                "kind": "account",
+                "path": "player"
+              }
+            ]
+          }
+        },
+        {
+          "name": "player",
+          "writable": true,
+          "signer": true,
+          "relations": [
+            "playerState"
+          ]
+        }
+      ],
+      "args": []
+    },
+    {
+      "name": "playerRaise",
+      "docs": [
+        "Player raises the bet"
+      ],
+      "discriminator": [
+        47,
+        150,
+        110,
+        172,
+        166,
+        48,
+        105,
+        25
+      ],
+      "accounts": [
+        {
+          "name": "game",
+          "writable": true,
+          "relations": [
+            "playerState"
+          ]
+        },
+        {
+          "name": "playerState",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  112,
+                  108,
+                  97,
+                  121,
+                  101,
+                  114
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "game"
+              },
+              {
+                "kind": "account",
+                "path": "player"
+              }
+            ]
+          }
+        },
+        {
+          "name": "player",
+          "writable": true,
+          "signer": true,
+          "relations": [
+            "playerState"
+          ]
+        }
+      ],
+      "args": [
+        {
+          "name": "raiseAmount",
+          "type": "u64"
+        }
+      ]
+    },
+    {
+      "name": "startGame",
+      "docs": [
+        "Start the game - performs Arcium MPC shuffle and deals cards"
+      ],
+      "discriminator": [
+        249,
+        47,
+        252,
+        172,
+        184,
+        162,
+        245,
+        14
+      ],
+      "accounts": [
+        {
+          "name": "game",
+          "writable": true
+        },
+        {
+          "name": "authority",
+          "docs": [
+            "Game authority (creator) must start the game"
+          ],
+          "signer": true
+        },
+        {
+          "name": "mxeProgram",
+          "docs": [
+            "MXE program for encrypted computations"
+          ]
+        },
+        {
+          "name": "mxeAccount",
+          "docs": [
+            "MXE account for this program"
+          ],
+          "writable": true
+        },
+        {
+          "name": "compDefAccount",
+          "docs": [
+            "Computation definition account for shuffle"
+          ],
+          "writable": true
+        },
+        {
+          "name": "mempoolAccount",
+          "docs": [
+            "Mempool account for queueing computations"
+          ],
+          "writable": true
+        },
+        {
+          "name": "executingPoolAccount",
+          "docs": [
+            "Executing pool account"
+          ],
+          "writable": true
+        },
+        {
+          "name": "clusterAccount",
+          "docs": [
+            "Cluster account"
+          ]
+        },
+        {
+          "name": "computationAccount",
+          "docs": [
+            "Computation account (will be created)"
+          ],
+          "writable": true
+        },
+        {
+          "name": "signSeed",
+          "docs": [
+            "Sign seed PDA"
+          ]
+        },
+        {
+          "name": "stakingPool",
+          "docs": [
+            "Staking pool PDA"
+          ]
+        },
+        {
+          "name": "systemProgram",
+          "address": "11111111111111111111111111111111"
+        },
+        {
+          "name": "clock",
+          "docs": [
+            "Clock sysvar"
+          ]
+        }
+      ],
+      "args": [
+        {
+          "name": "playerEntropy",
+          "type": {
+            "vec": {
+              "array": [
+                "u8",
+                32
+              ]
+            }
+          }
+        }
+      ]
+    },
+    {
+      "name": "timeoutPlayer",
+      "docs": [
+        "Handle player timeout (auto-fold)"
+      ],
+      "discriminator": [
+        102,
+        1,
+        155,
+        241,
+        165,
+        224,
+        122,
+        149
+      ],
+      "accounts": [
+        {
+          "name": "game",
+          "writable": true,
+          "relations": [
+            "playerState"
+          ]
+        },
+        {
+          "name": "playerState",
+          "writable": true,
+          "pda": {
+            "seeds": [
+              {
+                "kind": "const",
+                "value": [
+                  112,
+                  108,
+                  97,
+                  121,
+                  101,
+                  114
+                ]
+              },
+              {
+                "kind": "account",
+                "path": "game"
+              },
+              {
+                "kind": "account",
+                "path": "player"
+              }
+            ]
+          }
+        },
+        {
+          "name": "player",
+          "writable": true,
+          "signer": true,
+          "relations": [
+            "playerState"
+          ]
+        }
+      ],
+      "args": []
+    }
+  ],
+  "accounts": [
+    {
+      "name": "game",
+      "discriminator": [
+        27,
+        90,
+        166,
+        125,
+        74,
+        100,
+        121,
+        18
+      ]
+    },
+    {
+      "name": "playerState",
+      "discriminator": [
+        56,
+        3,
+        60,
+        86,
+        174,
+        16,
+        244,
+        195
+      ]
+    }
+  ],
+  "errors": [
+    {
+      "code": 6000,
+      "name": "mxeComputationFailed",
+      "msg": "MXE computation failed"
+    },
+    {
+      "code": 6001,
+      "name": "invalidMxeCallback",
+      "msg": "Invalid MXE callback"
+    },
+    {
+      "code": 6002,
+      "name": "encryptionFailed",
+      "msg": "Encryption failed"
+    },
+    {
+      "code": 6003,
+      "name": "decryptionFailed",
+      "msg": "Decryption failed"
+    }
+  ],
+  "types": [
+    {
+      "name": "game",
+      "docs": [
+        "Main game account"
+      ],
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "authority",
+            "docs": [
+              "Game authority (creator)"
+            ],
+            "type": "pubkey"
+          },
+          {
+            "name": "gameId",
+            "docs": [
+              "Unique game ID"
+            ],
+            "type": "u64"
+          },
+          {
+            "name": "stage",
+            "docs": [
+              "Current game stage"
+            ],
+            "type": {
+              "defined": {
+                "name": "gameStage"
+              }
+            }
+          },
+          {
+            "name": "smallBlind",
+            "docs": [
+              "Small blind amount"
+            ],
+            "type": "u64"
+          },
+          {
+            "name": "bigBlind",
+            "docs": [
+              "Big blind amount"
+            ],
+            "type": "u64"
+          },
+          {
+            "name": "minBuyIn",
+            "docs": [
+              "Minimum buy-in"
+            ],
+            "type": "u64"
+          },
+          {
+            "name": "maxBuyIn",
+            "docs": [
+              "Maximum buy-in"
+            ],
+            "type": "u64"
+          },
+          {
+            "name": "maxPlayers",
+            "docs": [
+              "Maximum number of players (4-6)"
+            ],
+            "type": "u8"
+          },
+          {
+            "name": "playerCount",
+            "docs": [
+              "Current number of players"
+            ],
+            "type": "u8"
+          },
+          {
+            "name": "players",
+            "docs": [
+              "Player public keys (seats)"
+            ],
+            "type": {
+              "array": [
+                "pubkey",
+                6
+              ]
+            }
+          },
+          {
+            "name": "activePlayers",
+            "docs": [
+              "Active player flags"
+            ],
+            "type": {
+              "array": [
+                "bool",
+                6
+              ]
+            }
+          },
+          {
+            "name": "dealerPosition",
+            "docs": [
+              "Current dealer button position"
+            ],
+            "type": "u8"
+          },
+          {
+            "name": "currentPlayerIndex",
+            "docs": [
+              "Current active player (whose turn it is)"
+            ],
+            "type": "u8"
+          },
+          {
+            "name": "pot",
+            "docs": [
+              "Total pot amount"
+            ],
+            "type": "u64"
+          },
+          {
+            "name": "currentBet",
+            "docs": [
+              "Current bet amount in this round"
+            ],
+            "type": "u64"
+          },
+          {
+            "name": "playersActed",
+            "docs": [
+              "Players who have acted in current betting round"
+            ],
+            "type": {
+              "array": [
+                "bool",
+                6
+              ]
+            }
+          },
+          {
+            "name": "communityCards",
+            "docs": [
+              "Community cards (encrypted indices)"
+            ],
+            "type": {
+              "array": [
+                "u8",
+                5
+              ]
+            }
+          },
+          {
+            "name": "communityCardsRevealed",
+            "docs": [
+              "Number of community cards revealed"
+            ],
+            "type": "u8"
+          },
+          {
+            "name": "encryptedDeck",
+            "docs": [
+              "Encrypted deck state (managed by Arcium MPC)"
+            ],
+            "type": {
+              "array": [
+                "u8",
+                32
+              ]
+            }
+          },
+          {
+            "name": "deckInitialized",
+            "docs": [
+              "Deck initialized flag"
+            ],
+            "type": "bool"
+          },
+          {
+            "name": "startedAt",
+            "docs": [
+              "Game started timestamp"
+            ],
+            "type": "i64"
+          },
+          {
+            "name": "lastActionAt",
+            "docs": [
+              "Last action timestamp"
+            ],
+            "type": "i64"
+          },
+          {
+            "name": "shuffleSessionId",
+            "docs": [
+              "Shuffle session ID from Arcium MPC"
+            ],
+            "type": {
+              "array": [
+                "u8",
+                32
+              ]
+            }
+          },
+          {
+            "name": "bump",
+            "docs": [
+              "Game bump seed"
+            ],
+            "type": "u8"
+          }
+        ]
+      }
+    },
+    {
+      "name": "gameStage",
+      "docs": [
+        "Game stage/phase"
+      ],
+      "type": {
+        "kind": "enum",
+        "variants": [
+          {
+            "name": "waiting"
+          },
+          {
+            "name": "preFlop"
+          },
+          {
+            "name": "flop"
+          },
+          {
+            "name": "turn"
+          },
+          {
+            "name": "river"
+          },
+          {
+            "name": "showdown"
+          },
+          {
+            "name": "finished"
+          }
+        ]
+      }
+    },
+    {
+      "name": "playerActionParam",
+      "docs": [
+        "Player action parameter for unified action handler"
+      ],
+      "type": {
+        "kind": "enum",
+        "variants": [
+          {
+            "name": "fold"
+          },
+          {
+            "name": "check"
+          },
+          {
+            "name": "call"
+          },
+          {
+            "name": "bet",
+            "fields": [
+              {
+                "name": "amount",
+                "type": "u64"
+              }
+            ]
+          },
+          {
+            "name": "raise",
+            "fields": [
+              {
+                "name": "amount",
+                "type": "u64"
+              }
+            ]
+          },
+          {
+            "name": "allIn"
+          }
+        ]
+      }
+    },
+    {
+      "name": "playerState",
+      "docs": [
+        "Player state account (PDA per player per game)"
+      ],
+      "type": {
+        "kind": "struct",
+        "fields": [
+          {
+            "name": "player",
+            "docs": [
+              "Player's public key"
+            ],
+            "type": "pubkey"
+          },
+          {
+            "name": "game",
+            "docs": [
+              "Game this player belongs to"
+            ],
+            "type": "pubkey"
+          },
+          {
+            "name": "seatIndex",
+            "docs": [
+              "Player's seat index in the game"
+            ],
+            "type": "u8"
+          },
+          {
+            "name": "status",
+            "docs": [
+              "Player status"
+            ],
+            "type": {
+              "defined": {
+                "name": "playerStatus"
+              }
+            }
+          },
+          {
+            "name": "chipStack",
+            "docs": [
+              "Player's chip stack"
+            ],
+            "type": "u64"
+          },
+          {
+            "name": "currentBet",
+            "docs": [
+              "Current bet in this round"
+            ],
+            "type": "u64"
+          },
+          {
+            "name": "totalBetThisHand",
+            "docs": [
+              "Total contribution to pot this hand"
+            ],
+            "type": "u64"
+          },
+          {
+            "name": "encryptedHoleCards",
+            "docs": [
+              "Encrypted hole cards (indices in deck)"
+            ],
+            "type": {
+              "array": [
+                "u8",
+                2
+              ]
+            }
+          },
+          {
+            "name": "hasCards",
+            "docs": [
+              "Has cards been dealt to this player"
+            ],
+            "type": "bool"
+          },
+          {
+            "name": "hasFolded",
+            "docs": [
+              "Player folded in current hand"
+            ],
+            "type": "bool"
+          },
+          {
+            "name": "isAllIn",
+            "docs": [
+              "Player is all-in"
+            ],
+            "type": "bool"
+          },
+          {
+            "name": "joinedAt",
+            "docs": [
+              "Timestamp when player joined"
+            ],
+            "type": "i64"
+          },
+          {
+            "name": "lastActionAt",
+            "docs": [
+              "Last action timestamp"
+            ],
+            "type": "i64"
+          },
+          {
+            "name": "bump",
+            "docs": [
+              "Bump seed for PDA"
+            ],
+            "type": "u8"
+          }
+        ]
+      }
+    },
+    {
+      "name": "playerStatus",
+      "docs": [
+        "Player status in current hand"
+      ],
+      "type": {
+        "kind": "enum",
+        "variants": [
+          {
+            "name": "waiting"
+          },
+          {
+            "name": "active"
+          },
+          {
+            "name": "folded"
+          },
+          {
+            "name": "allIn"
+          },
+          {
+            "name": "left"
+          }
+        ]
+      }
+    }
+  ]
+};
@@ -2,12 +2,17 @@
 
 import { useState } from 'react';
 import { PublicKey } from '@solana/web3.js';
+import BN from 'bn.js';
 import { usePlayerAction } from '@/hooks/usePlayerAction';
+import { GameLogic } from '@/lib/game/logic';
+import { BettingInstruction } from '@/lib/betting/instruction';
+import { BettingStructure, BETTING_STRUCTURE_NAMES, Game, PlayerState } from '@/lib/shared/types';
+import { TransactionStatus } from './TransactionStatus';
 
 interface PlayerActionButtonsProps {
   gamePDA: string;
-  game: any;
-  playerState: any;
+  game: Game;
+  playerState: PlayerState;
   isMyTurn: boolean;
   onActionComplete: () => void;
 }
@@ -19,7 +24,7 @@ export function PlayerActionButtons({
   isMyTurn,
   onActionComplete,
 }: PlayerActionButtonsProps) {
-  const { fold, check, call, bet, raise, allIn, loading, error } = usePlayerAction();
+  const { fold, check, call, bet, raise, allIn, loading, error, txStatus } = usePlayerAction();
   const [raiseAmount, setRaiseAmount] = useState<string>('');
   const [showRaiseInput, setShowRaiseInput] = useState(false);
 
@@ -31,36 +36,52 @@ export function PlayerActionButtons({
     );
   }
 
-  const currentBet = game?.currentBet?.toNumber() / 1e9 || 0;
-  const playerChips = playerState?.chipStack?.toNumber() / 1e9 || 0;
-  const playerCurrentBet = playerState?.currentBet?.toNumber() / 1e9 || 0;
+  const currentBet = game.currentBet.toNumber() / 1e9;
+  const playerChips = playerState.chipStack.toNumber() / 1e9;
+  const playerCurrentBet = playerState.currentBet.toNumber() / 1e9;
   const callAmount = currentBet - playerCurrentBet;
-  const bigBlind = game?.bigBlind?.toNumber() / 1e9 || 0;
+  const bigBlind = game.bigBlind.toNumber() / 1e9;
 
   // Determine available actions
   const canCheck = currentBet === 0 || callAmount === 0;
   const canCall = callAmount > 0 && callAmount <= playerChips;
   const canBet = currentBet === 0 && playerChips > 0;
-  const canRaise = currentBet > 0 && playerChips > callAmount;
-  const minRaise = currentBet > 0 ? currentBet * 2 : bigBlind;
+  const canRaise = currentBet > 0 && playerChips > callAmount
+    && GameLogic.isActionReopened(game, playerState) && !GameLogic.isRaiseCapped(game);
+  const minRaise = currentBet > 0 ? GameLogic.getMinimumRaise(game).toNumber() / 1e9 : bigBlind;
+
+  // Bet sizes allowed by the table's betting structure
+  const bettingStructure = GameLogic.getBettingStructure(game);
+  const isFixedLimit = bettingStructure === BettingStructure.FixedLimit;
+  const maxRaise = canRaise
+    ? GameLogic.getMaximumRaise(game, playerState).toNumber() / 1e9
+    : playerChips + playerCurrentBet;
+  const suggestedRaises = canRaise
+    ? BettingInstruction.getSuggestedBets(game, playerState).map(amount => amount.toNumber() / 1e9)
+    : [];
 
   const handleAction = async (actionFn: () => Promise<any>) => {
+    // The table already shows the predicted result; live updates settle it
     const result = await actionFn();
     if (result.success) {
-      setTimeout(() => {
-        onActionComplete();
-      }, 1000);
+      onActionComplete();
     }
   };
 
   const handleRaise = async () => {
     const amount = parseFloat(raiseAmount);
-    if (isNaN(amount) || amount < minRaise) {
+    if (isNaN(amount)) {
       alert(`Raise must be at least ${minRaise.toFixed(4)} SOL`);
       return;
     }
-    if (amount > playerChips) {
-      alert('Insufficient chips');
+    // Same rules as the program: min-raise, short all-ins and reopened action
+    const validation = GameLogic.validateRaiseAmount(new BN(Math.round(amount * 1e9)), game, playerState);
+    if (!validation.valid) {
+      alert(
+        amount < minRaise && GameLogic.isActionReopened(game, playerState)
+          ? `Raise must be at least ${minRaise.toFixed(4)} SOL`
+          : validation.error
+      );
       return;
     }
     await handleAction(() => raise(new PublicKey(gamePDA), amount));
@@ -75,6 +96,7 @@ export function PlayerActionButtons({
           <p className="text-red-400 text-sm">{error}</p>
         </div>
       )}
+      <TransactionStatus event={txStatus} />
 
       {/* Player Info */}
       <div className="bg-[#0a0b0d] border border-gray-800 rounded-lg p-4">
@@ -87,6 +109,13 @@ export function PlayerActionButtons({
             <p className="text-gray-500">Current Bet</p>
             <p className="text-white font-bold text-lg">{currentBet.toFixed(4)} SOL</p>
           </div>
+          <div>
+            <p className="text-gray-500">Betting</p>
+            <p className="text-white font-bold text-lg">
+              {BETTING_STRUCTURE_NAMES[bettingStructure]}
+              {isFixedLimit && ` (${(GameLogic.getFixedLimitBetSize(game).toNumber() / 1e9).toFixed(4)})`}
+            </p>
+          </div>
           {callAmount > 0 && (
             <>
               <div>
@@ -114,7 +143,7 @@ export function PlayerActionButtons({
                 placeholder={`Min: ${minRaise.toFixed(4)}`}
                 className="flex-1 px-4 py-2 bg-[#0a0b0d] border border-gray-800 rounded-lg text-white placeholder-gray-600 focus:border-[#00ff88] focus:outline-none"
                 min={minRaise}
-                max={playerChips}
+                max={maxRaise}
                 step="0.01"
               />
               <button
@@ -134,8 +163,21 @@ export function PlayerActionButtons({
                 Cancel
               </button>
             </div>
+            {suggestedRaises.length > 0 && (
+              <div className="flex gap-2">
+                {suggestedRaises.map((amount, i) => (
+                  <button
+                    key={amount}
+                    onClick={() => setRaiseAmount(amount.toString())}
+                    className="px-3 py-1 bg-gray-800 text-gray-300 text-xs rounded-lg hover:bg-gray-700 transition"
+                  >
+                    {i === suggestedRaises.length - 1 && amount === maxRaise ? 'Max' : amount.toFixed(4)}
+                  </button>
+                ))}
+              </div>
+            )}
             <p className="text-xs text-gray-600">
-              Min: {minRaise.toFixed(4)} SOL • Max: {playerChips.toFixed(4)} SOL
+              Min: {minRaise.toFixed(4)} SOL • Max: {maxRaise.toFixed(4)} SOL
             </p>
           </div>
         )}
@@ -167,11 +209,13 @@ export function PlayerActionButtons({
             {/* Raise */}
             {canRaise && (
               <button
-                onClick={() => setShowRaiseInput(true)}
+                onClick={() => isFixedLimit
+                  ? handleAction(() => raise(new PublicKey(gamePDA), maxRaise))
+                  : setShowRaiseInput(true)}
                 disabled={loading}
                 className="px-6 py-4 bg-purple-600 text-white font-bold rounded-lg hover:bg-purple-500 transition shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
               >
-                📈 Raise
+                {isFixedLimit ? `📈 Raise to ${maxRaise.toFixed(4)} SOL` : '📈 Raise'}
               </button>
             )}
 
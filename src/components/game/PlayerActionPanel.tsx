@@ -1,59 +1,135 @@
 'use client';
 
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { PublicKey } from '@solana/web3.js';
+import { useWallet } from '@solana/wallet-adapter-react';
+import BN from 'bn.js';
 import { usePlayerAction } from '@/hooks/usePlayerAction';
+import { useTablePlayer, useTableState } from '@/hooks/useTableState';
+import { GameLogic } from '@/lib/game/logic';
+import { BettingStructure, BETTING_STRUCTURE_NAMES, Game, GameVariant, PlayerState } from '@/lib/shared/types';
+import { ActionAdvisor, EquityEstimateInput } from '@/lib/analysis/advisor';
+import { useEquityEstimate } from '@/hooks/useEquity';
 import { motion, AnimatePresence } from 'framer-motion';
+import { TransactionStatus } from './TransactionStatus';
+
+// Opponent range presets (top % of starting hands)
+const RANGE_OPTIONS = [100, 50, 25, 10];
 
 interface PlayerActionPanelProps {
   gamePDA: string;
-  game: any;
-  playerState: any;
   isMyTurn: boolean;
   onActionComplete: () => void;
 }
 
-export function PlayerActionPanel({
+interface ActionPanelProps extends PlayerActionPanelProps {
+  game: Game;
+  playerState: PlayerState;
+  opponents: number; // Other players who have not folded
+}
+
+// Actions for the connected wallet's seat, from the live table state
+export function PlayerActionPanel(props: PlayerActionPanelProps) {
+  const wallet = useWallet();
+  const { game, players } = useTableState(props.gamePDA);
+  const player = useTablePlayer(props.gamePDA, wallet.publicKey?.toBase58());
+
+  if (!game || !player) {
+    return null;
+  }
+  const opponents = Math.max(1, GameLogic.getActivePlayerCount(players.map(p => p.account)) - 1);
+  return <ActionPanel {...props} game={game} playerState={player.account} opponents={opponents} />;
+}
+
+function ActionPanel({
   gamePDA,
   game,
   playerState,
   isMyTurn,
   onActionComplete,
-}: PlayerActionPanelProps) {
-  const { fold, check, call, bet, raise, allIn, loading, error } = usePlayerAction();
+  opponents,
+}: ActionPanelProps) {
+  const { fold, check, call, bet, raise, allIn, loading, error, txStatus } = usePlayerAction();
   const [raiseAmount, setRaiseAmount] = useState<string>('');
   const [showRaiseInput, setShowRaiseInput] = useState(false);
+  const [opponentRange, setOpponentRange] = useState(100);
 
-  const currentBet = game?.currentBet?.toNumber() / 1e9 || 0;
-  const playerChips = playerState?.chipStack?.toNumber() / 1e9 || 0;
-  const playerCurrentBet = playerState?.currentBet?.toNumber() / 1e9 || 0;
+  const currentBet = game.currentBet.toNumber() / 1e9;
+  const playerChips = playerState.chipStack.toNumber() / 1e9;
+  const playerCurrentBet = playerState.currentBet.toNumber() / 1e9;
   const callAmount = currentBet - playerCurrentBet;
-  const bigBlind = game?.bigBlind?.toNumber() / 1e9 || 0;
+  const bigBlind = game.bigBlind.toNumber() / 1e9;
 
   // Determine available actions
   const canCheck = currentBet === 0 || callAmount === 0;
   const canCall = callAmount > 0 && callAmount <= playerChips;
   const canBet = currentBet === 0 && playerChips > 0;
-  const canRaise = currentBet > 0 && playerChips > callAmount;
-  const minRaise = currentBet > 0 ? currentBet * 2 : bigBlind;
+  const canRaise = currentBet > 0 && playerChips > callAmount
+    && GameLogic.isActionReopened(game, playerState) && !GameLogic.isRaiseCapped(game);
+  const minRaise = currentBet > 0 ? GameLogic.getMinimumRaise(game).toNumber() / 1e9 : bigBlind;
+
+  // Bet sizes allowed by the table's betting structure
+  const bettingStructure = GameLogic.getBettingStructure(game);
+  const isFixedLimit = bettingStructure === BettingStructure.FixedLimit;
+  const maxRaise = canRaise
+    ? GameLogic.getMaximumRaise(game, playerState).toNumber() / 1e9
+    : playerChips + playerCurrentBet;
+
+  // Equity vs opponent range, refreshed when the board or cards change
+  const holeCards: number[] = playerState.encryptedHoleCards;
+  const { communityCards, communityCardsRevealed } = game;
+  // The equity model assumes Hold'em hands dealt from a full deck
+  const isHoldem = GameLogic.getVariant(game) === GameVariant.Holdem;
+
+  const equityInput = useMemo((): EquityEstimateInput | null => {
+    if (!isHoldem) return null;
+    return {
+      holeCards,
+      communityCards: communityCards.slice(0, communityCardsRevealed),
+      opponents,
+      opponentRange,
+      seed: 1,
+    };
+  }, [holeCards, communityCards, communityCardsRevealed, opponents, opponentRange, isHoldem]);
+
+  // Calculated in a worker; hole cards not available yet give null
+  const equity = useEquityEstimate(equityInput);
+
+  const advice = useMemo(() => {
+    if (equity === null) return null;
+    const raiseTo = parseFloat(raiseAmount) || minRaise;
+    const toLamports = (sol: number) => new BN(Math.max(0, Math.round(sol * 1e9)));
+    return ActionAdvisor.advise({
+      equity,
+      pot: game.pot,
+      callAmount: toLamports(callAmount),
+      raiseAmount: canRaise || canBet ? toLamports(raiseTo - playerCurrentBet) : undefined,
+      opponents,
+    });
+  }, [equity, game.pot, callAmount, raiseAmount, minRaise, canRaise, canBet, playerCurrentBet, opponents]);
 
   const handleAction = async (actionFn: () => Promise<any>) => {
+    // The table already shows the predicted result; live updates settle it
     const result = await actionFn();
     if (result.success) {
-      setTimeout(() => {
-        onActionComplete();
-      }, 1000);
+      onActionComplete();
     }
   };
 
   const handleRaise = async () => {
     const amount = parseFloat(raiseAmount);
-    if (isNaN(amount) || amount < minRaise) {
+    if (isNaN(amount)) {
       alert(`Raise must be at least ${minRaise.toFixed(4)} SOL`);
       return;
     }
-    if (amount > playerChips) {
-      alert('Insufficient chips');
+    // Same rules as the program: min-raise, short all-ins and reopened action
+    const validation = GameLogic.validateRaiseAmount(new BN(Math.round(amount * 1e9)), game, playerState);
+    if (!validation.valid) {
+      alert(
+        amount < minRaise && GameLogic.isActionReopened(game, playerState)
+          ? `Raise must be at least ${minRaise.toFixed(4)} SOL`
+          : validation.error
+      );
       return;
     }
     await handleAction(() => raise(new PublicKey(gamePDA), amount));
@@ -106,6 +182,7 @@ export function PlayerActionPanel({
             </motion.div>
           )}
         </AnimatePresence>
+        <TransactionStatus event={txStatus} />
 
         {/* Your Turn Banner */}
         <motion.div
@@ -146,6 +223,46 @@ export function PlayerActionPanel({
           )}
         </div>
 
+        {/* Odds Advisor */}
+        {advice && (
+          <div className="bg-black/30 border border-gray-700 rounded-lg p-3 mb-6">
+            <div className="flex items-center justify-between mb-2">
+              <p className="text-gray-400 text-xs">
+                Equity vs {opponents} {opponents === 1 ? 'opponent' : 'opponents'}
+              </p>
+              <select
+                value={opponentRange}
+                onChange={(e) => setOpponentRange(Number(e.target.value))}
+                className="bg-gray-900 border border-gray-700 rounded text-xs text-gray-300 px-2 py-1"
+              >
+                {RANGE_OPTIONS.map((percent) => (
+                  <option key={percent} value={percent}>
+                    {percent === 100 ? 'Any two cards' : `Top ${percent}%`}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="grid grid-cols-3 gap-2 text-center">
+              <div>
+                <p className="text-gray-500 text-xs">Equity</p>
+                <p className="text-white font-bold">{advice.equity.toFixed(1)}%</p>
+              </div>
+              <div>
+                <p className="text-gray-500 text-xs">Pot Odds</p>
+                <p className="text-white font-bold">{advice.potOdds.toFixed(1)}%</p>
+              </div>
+              <div>
+                <p className="text-gray-500 text-xs">Best</p>
+                <p className="text-[#00ff88] font-bold capitalize">{advice.bestAction}</p>
+              </div>
+            </div>
+            <p className="text-xs text-gray-500 mt-2 text-center">
+              EV: fold 0 • call {(advice.ev.call / 1e9).toFixed(3)}
+              {advice.ev.raise !== null && ` • raise ${(advice.ev.raise / 1e9).toFixed(3)}`} SOL
+            </p>
+          </div>
+        )}
+
         {/* Raise Input */}
         <AnimatePresence>
           {showRaiseInput && (
@@ -167,7 +284,7 @@ export function PlayerActionPanel({
                     placeholder={`Min: ${minRaise.toFixed(3)}`}
                     className="flex-1 px-4 py-3 bg-gray-900 border-2 border-gray-700 rounded-lg text-white placeholder-gray-500 focus:border-[#00ff88] focus:outline-none transition"
                     min={minRaise}
-                    max={playerChips}
+                    max={maxRaise}
                     step="0.01"
                     autoFocus
                   />
@@ -193,7 +310,7 @@ export function PlayerActionPanel({
                   </motion.button>
                 </div>
                 <p className="text-xs text-gray-500 mt-2">
-                  Min: {minRaise.toFixed(3)} SOL • Max: {playerChips.toFixed(3)} SOL
+                  {BETTING_STRUCTURE_NAMES[bettingStructure]} • Min: {minRaise.toFixed(3)} SOL • Max: {maxRaise.toFixed(3)} SOL
                 </p>
               </div>
             </motion.div>
@@ -236,12 +353,14 @@ export function PlayerActionPanel({
               <motion.button
                 whileHover={{ scale: 1.05, y: -2 }}
                 whileTap={{ scale: 0.95 }}
-                onClick={() => setShowRaiseInput(true)}
+                onClick={() => isFixedLimit
+                  ? handleAction(() => raise(new PublicKey(gamePDA), maxRaise))
+                  : setShowRaiseInput(true)}
                 disabled={loading}
                 className="px-6 py-4 bg-gradient-to-br from-purple-600 to-purple-700 text-white font-bold rounded-xl hover:from-purple-500 hover:to-purple-600 transition shadow-lg shadow-purple-500/30 disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 <span className="text-2xl mb-1 block">📈</span>
-                Raise
+                {isFixedLimit ? `Raise to ${maxRaise.toFixed(3)}` : 'Raise'}
               </motion.button>
             )}
 
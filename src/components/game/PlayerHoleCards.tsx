@@ -1,16 +1,26 @@
 'use client';
 
-import { motion } from 'framer-motion';
+import { useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
 import { DeckManager } from '@/lib/cards/deck';
+import { EquityOptions } from '@/lib/analysis/equity';
+import { OutsAnalyzer, DRAW_NAMES } from '@/lib/analysis/outs';
+import { StartingHandTable, PreflopStrategy, PreflopPosition, ChartAction } from '@/lib/analysis/preflop';
+import { PlayerStateManager } from '@/lib/player/state';
+import { GameLogic } from '@/lib/game/logic';
+import { Game, GameVariant, PlayerState } from '@/lib/shared/types';
+import { useEquity } from '@/hooks/useEquity';
+import { PreflopChart } from './PreflopChart';
 
 interface PlayerHoleCardsProps {
-  playerState: any;
-  game: any;  // Add game prop to access shuffled deck
+  playerState?: PlayerState;
+  game: Game;  // Add game prop to access shuffled deck
+  playerStates: PlayerState[]; // Everyone seated, to count opponents still in the hand
   isCurrentUser: boolean;
   showRevealed?: boolean; // Show actual cards (for showdown)
 }
 
-export function PlayerHoleCards({ playerState, game, isCurrentUser, showRevealed = false }: PlayerHoleCardsProps) {
+export function PlayerHoleCards({ playerState, game, playerStates, isCurrentUser, showRevealed = false }: PlayerHoleCardsProps) {
   if (!isCurrentUser || !playerState) {
     return null;
   }
@@ -19,46 +29,38 @@ export function PlayerHoleCards({ playerState, game, isCurrentUser, showRevealed
   console.log('🎴 PlayerState for hole cards:', playerState);
   console.log('🎴 Game data:', game);
 
-  // Check if cards are dealt in PlayerState (try both camelCase and snake_case)
-  let holeCards = playerState.encryptedHoleCards || playerState.encrypted_hole_cards;
-  let hasCards = holeCards && holeCards.length === 2 && (holeCards[0] !== 0 || holeCards[1] !== 0);
+  // Hold'em deals two hole cards, Omaha four
+  const variant = GameLogic.getVariant(game);
+  const isOmaha = GameLogic.isOmaha(game);
+  const holeCardCount = GameLogic.getHoleCardCount(game);
+
+  // Check if cards are dealt in PlayerState
+  let holeCards: number[] = playerState.encryptedHoleCards;
+  let hasCards = holeCards && holeCards.length === holeCardCount && holeCards.some(card => card !== 0);
 
   // WORKAROUND: If cards not dealt to PlayerState but deck is shuffled, calculate manually
-  if (!hasCards && game?.deckInitialized && game?.encryptedDeck) {
+  if (!hasCards && game.deckInitialized) {
     console.log('🔧 WORKAROUND: Calculating cards from shuffled deck...');
     console.log('🔧 Your seat index:', playerState.seatIndex);
 
     // Cards are dealt sequentially: Seat 0 gets [0,1], Seat 1 gets [2,3], etc.
+    // (four per seat in Omaha)
     const seatIndex = playerState.seatIndex || 0;
-    const card1Index = seatIndex * 2;
-    const card2Index = seatIndex * 2 + 1;
+    const cardIndices = Array.from({ length: holeCardCount }, (_, i) => seatIndex * holeCardCount + i);
 
-    console.log('🔧 Your card indices:', card1Index, card2Index);
+    console.log('🔧 Your card indices:', cardIndices);
     console.log('🔧 Encrypted deck:', game.encryptedDeck);
     console.log('🔧 Shuffle session ID:', game.shuffleSessionId);
 
-    // Get the encrypted values from the deck
-    const encryptedCard1 = game.encryptedDeck[card1Index];
-    const encryptedCard2 = game.encryptedDeck[card2Index];
-
-    console.log('🔧 Encrypted values:', encryptedCard1, encryptedCard2);
-
     // Decrypt using XOR with shuffle session ID (just like MPC does)
     // Since sessionId might be all zeros, we'll also try modulo 52 as fallback
     const sessionId = game.shuffleSessionId || new Uint8Array(32);
+    const decrypted = cardIndices.map(index => game.encryptedDeck[index] ^ sessionId[index % 32]);
 
-    const decryptedCard1 = encryptedCard1 ^ sessionId[card1Index % 32];
-    const decryptedCard2 = encryptedCard2 ^ sessionId[card2Index % 32];
-
-    console.log('🔧 Decrypted values:', decryptedCard1, decryptedCard2);
+    console.log('🔧 Decrypted values:', decrypted);
 
     // If still out of range, use modulo 52 to constrain to valid card indices
-    const finalCard1 = decryptedCard1 < 52 ? decryptedCard1 : decryptedCard1 % 52;
-    const finalCard2 = decryptedCard2 < 52 ? decryptedCard2 : decryptedCard2 % 52;
-
-    console.log('🔧 Final card indices (with modulo):', finalCard1, finalCard2);
-
-    holeCards = [finalCard1, finalCard2];
+    holeCards = decrypted.map(card => (card < 52 ? card : card % 52));
     hasCards = true;
 
     console.log('🔧 Calculated hole cards:', holeCards);
@@ -68,11 +70,7 @@ export function PlayerHoleCards({ playerState, game, isCurrentUser, showRevealed
   console.log('🎴 Final hasCards:', hasCards);
 
   // Get card info if we should show them
-  const card1Info = hasCards ? DeckManager.getCardInfoFromIndex(holeCards[0]) : null;
-  const card2Info = hasCards ? DeckManager.getCardInfoFromIndex(holeCards[1]) : null;
-
-  console.log('🎴 Card 1 Info:', card1Info);
-  console.log('🎴 Card 2 Info:', card2Info);
+  const cardInfos = hasCards ? holeCards.map(card => DeckManager.getCardInfoFromIndex(card)) : [];
 
   return (
     <motion.div
@@ -85,22 +83,23 @@ export function PlayerHoleCards({ playerState, game, isCurrentUser, showRevealed
         <span>Your Hole Cards</span>
       </h2>
 
-      <div className="flex items-center justify-center gap-6 py-6">
+      <div className={`flex items-center justify-center ${isOmaha ? 'gap-3' : 'gap-6'} py-6`}>
         {hasCards ? (
-          <>
-            {/* Card 1 - Always visible to you! */}
+          // Every card is visible to you; four Omaha cards are drawn smaller to fit
+          cardInfos.map((cardInfo, cardIdx) => (
             <motion.div
-              initial={{ rotateY: 180, x: -50, opacity: 0 }}
+              key={cardIdx}
+              initial={{ rotateY: 180, x: cardIdx < cardInfos.length / 2 ? -50 : 50, opacity: 0 }}
               animate={{ rotateY: 0, x: 0, opacity: 1 }}
-              transition={{ type: "spring", delay: 0.2, stiffness: 200 }}
+              transition={{ type: "spring", delay: 0.2 + cardIdx * 0.2, stiffness: 200 }}
               whileHover={{ scale: 1.05, y: -10 }}
               className="relative"
             >
-              <div className="w-24 h-32 bg-white border-2 border-gray-300 rounded-xl flex items-center justify-center shadow-2xl">
+              <div className={`${isOmaha ? 'w-16 h-24' : 'w-24 h-32'} bg-white border-2 border-gray-300 rounded-xl flex items-center justify-center shadow-2xl`}>
                 <div className="text-center">
-                  {card1Info ? (
-                    <div className={`text-4xl font-bold ${card1Info.color === 'red' ? 'text-red-500' : 'text-black'}`}>
-                      {card1Info.display}
+                  {cardInfo ? (
+                    <div className={`${isOmaha ? 'text-3xl' : 'text-4xl'} font-bold ${cardInfo.color === 'red' ? 'text-red-500' : 'text-black'}`}>
+                      {cardInfo.display}
                     </div>
                   ) : (
                     <div className="text-gray-400 text-sm">?</div>
@@ -110,42 +109,13 @@ export function PlayerHoleCards({ playerState, game, isCurrentUser, showRevealed
               <motion.div
                 initial={{ scale: 0 }}
                 animate={{ scale: 1 }}
-                transition={{ delay: 0.5, type: "spring" }}
+                transition={{ delay: 0.5 + cardIdx * 0.2, type: "spring" }}
                 className="absolute -top-2 -right-2 w-7 h-7 bg-[#00ff88] rounded-full flex items-center justify-center shadow-lg"
               >
                 <span className="text-black text-xs font-bold">✓</span>
               </motion.div>
             </motion.div>
-
-            {/* Card 2 - Always visible to you! */}
-            <motion.div
-              initial={{ rotateY: 180, x: 50, opacity: 0 }}
-              animate={{ rotateY: 0, x: 0, opacity: 1 }}
-              transition={{ type: "spring", delay: 0.4, stiffness: 200 }}
-              whileHover={{ scale: 1.05, y: -10 }}
-              className="relative"
-            >
-              <div className="w-24 h-32 bg-white border-2 border-gray-300 rounded-xl flex items-center justify-center shadow-2xl">
-                <div className="text-center">
-                  {card2Info ? (
-                    <div className={`text-4xl font-bold ${card2Info.color === 'red' ? 'text-red-500' : 'text-black'}`}>
-                      {card2Info.display}
-                    </div>
-                  ) : (
-                    <div className="text-gray-400 text-sm">?</div>
-                  )}
-                </div>
-              </div>
-              <motion.div
-                initial={{ scale: 0 }}
-                animate={{ scale: 1 }}
-                transition={{ delay: 0.7, type: "spring" }}
-                className="absolute -top-2 -right-2 w-7 h-7 bg-[#00ff88] rounded-full flex items-center justify-center shadow-lg"
-              >
-                <span className="text-black text-xs font-bold">✓</span>
-              </motion.div>
-            </motion.div>
-          </>
+          ))
         ) : (
           <motion.p
             initial={{ opacity: 0 }}
@@ -164,6 +134,18 @@ export function PlayerHoleCards({ playerState, game, isCurrentUser, showRevealed
           transition={{ delay: 0.8 }}
           className="text-center"
         >
+          {/* Equity, outs and preflop charts are for full-deck Hold'em only */}
+          {variant === GameVariant.Holdem && (
+            <>
+              <HandEquity
+                holeCards={holeCards}
+                game={game}
+                opponents={Math.max(1, GameLogic.getActivePlayerCount(playerStates) - 1)}
+              />
+              <OutsOverlay holeCards={holeCards} game={game} />
+              <PreflopSpot holeCards={holeCards} playerState={playerState} game={game} />
+            </>
+          )}
           <p className="text-xs text-gray-400">
             🔒 Your hole cards (visible only to you)
           </p>
@@ -182,3 +164,198 @@ export function PlayerHoleCards({ playerState, game, isCurrentUser, showRevealed
     </motion.div>
   );
 }
+
+interface HandCardsProps {
+  holeCards: number[];
+  game: Game;
+}
+
+interface HandEquityProps extends HandCardsProps {
+  opponents: number; // Other players who have not folded
+}
+
+// Equity of your hand against random hands for every opponent still in the hand
+function HandEquity({ holeCards, game, opponents }: HandEquityProps) {
+  const [card1, card2] = holeCards;
+  const { communityCards, communityCardsRevealed } = game;
+
+  const options = useMemo((): EquityOptions | null => {
+    if (card1 === undefined || card2 === undefined) return null;
+    return {
+      holeCards: [[card1, card2], ...Array(opponents).fill(null)],
+      communityCards: communityCards.slice(0, communityCardsRevealed),
+      iterations: 2000,
+      seed: 1,
+    };
+  }, [card1, card2, communityCards, communityCardsRevealed, opponents]);
+
+  // Calculated in a worker; invalid (not yet decoded) cards give null
+  const equity = useEquity(options)?.seats[0];
+
+  if (!equity) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-center justify-center gap-4 mb-3 text-sm">
+      <span className="text-[#00ff88] font-bold">
+        Equity {equity.equity.toFixed(1)}%
+      </span>
+      <span className="text-gray-400 text-xs">
+        vs {opponents} {opponents === 1 ? 'opponent' : 'opponents'} · win {equity.win.toFixed(1)}% · tie {equity.tie.toFixed(1)}%
+      </span>
+    </div>
+  );
+}
+
+// Optional overlay with the current made hand, draws and outs
+function OutsOverlay({ holeCards, game }: HandCardsProps) {
+  const [open, setOpen] = useState(false);
+  const [card1, card2] = holeCards;
+  const { communityCards, communityCardsRevealed } = game;
+
+  const analysis = useMemo(() => {
+    if (card1 === undefined || card2 === undefined) return null;
+    try {
+      return OutsAnalyzer.analyze([card1, card2], communityCards.slice(0, communityCardsRevealed));
+    } catch {
+      return null;
+    }
+  }, [card1, card2, communityCards, communityCardsRevealed]);
+
+  if (!analysis?.madeHand) {
+    return null;
+  }
+
+  return (
+    <div className="mb-3">
+      <button
+        onClick={() => setOpen(!open)}
+        className="text-xs text-gray-400 hover:text-[#00ff88] transition"
+      >
+        {open ? 'Hide outs' : 'Show outs'}
+      </button>
+
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            exit={{ opacity: 0, height: 0 }}
+            className="mt-2 bg-black/40 border border-gray-700 rounded-lg p-3 text-left overflow-hidden"
+          >
+            <p className="text-sm text-white font-bold">{analysis.madeHand.description}</p>
+
+            {analysis.draws.length > 0 && (
+              <p className="text-xs text-yellow-400 mt-1">
+                {analysis.draws.map(draw => DRAW_NAMES[draw.type]).join(' • ')}
+              </p>
+            )}
+
+            {analysis.cardsToCome > 0 && (
+              <>
+                <p className="text-xs text-gray-400 mt-2">
+                  {analysis.outs.length} outs • next card {analysis.probability.nextCard.toFixed(1)}%
+                  {analysis.cardsToCome > 1 && ` • by river ${analysis.probability.byRiver.toFixed(1)}%`}
+                  {` • rule of ${analysis.cardsToCome > 1 ? 4 : 2}: ${analysis.probability.ruleOfTwoFour}%`}
+                </p>
+                {analysis.outs.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-2">
+                    {analysis.outs.map(card => (
+                      <span
+                        key={card}
+                        className={`text-xs px-1 bg-white rounded ${DeckManager.getCardColorFromIndex(card) === 'red' ? 'text-red-500' : 'text-black'}`}
+                      >
+                        {DeckManager.getCardDisplayFromIndex(card)}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
+
+interface PreflopSpotProps extends HandCardsProps {
+  playerState: PlayerState;
+}
+
+interface PreflopSpotInfo {
+  handName: string;
+  percentile: number;
+  position: PreflopPosition;
+  playerCount: number;
+  facingRaise: boolean;
+  action: ChartAction;
+}
+
+// Where the hand sits in the preflop chart for the player's position
+function PreflopSpot({ holeCards, playerState, game }: PreflopSpotProps) {
+  const [showChart, setShowChart] = useState(false);
+  const playerCount = game.playerCount;
+  const positionName = useMemo(() => {
+    try {
+      return PlayerStateManager.getPlayerPosition(playerState, game);
+    } catch {
+      return 'Unknown';
+    }
+  }, [playerState, game]);
+  const [card1, card2] = holeCards;
+  // Someone raised if the bet to call is above the blinds (or straddle)
+  // and above what this player has already put in
+  const facingRaise = useMemo(() => {
+    const forcedBet = GameLogic.getStraddleSeat(game) !== null ? GameLogic.getStraddleAmount(game) : game.bigBlind;
+    return game.currentBet.gt(forcedBet) && game.currentBet.gt(playerState.currentBet);
+  }, [game, playerState.currentBet]);
+
+  // The strength table is precomputed, so this is cheap enough for render
+  const spot = useMemo((): PreflopSpotInfo | null => {
+    const position = PreflopStrategy.fromPositionName(positionName, playerCount);
+    if (!position || card1 === undefined || card2 === undefined || card1 === card2) {
+      return null;
+    }
+
+    const handName = StartingHandTable.getHandName(card1, card2);
+    return {
+      handName,
+      percentile: StartingHandTable.getHand(handName)!.percentile,
+      position,
+      playerCount,
+      facingRaise,
+      action: PreflopStrategy.getAction(handName, position, playerCount, facingRaise),
+    };
+  }, [card1, card2, positionName, playerCount, facingRaise]);
+
+  if (!spot) {
+    return null;
+  }
+
+  return (
+    <div className="mb-3">
+      <p className="text-xs text-gray-400">
+        {spot.handName} • top {Math.ceil(spot.percentile)}% • {spot.position}{spot.facingRaise ? ' vs raise' : ''}:{' '}
+        <span className="text-[#00ff88] font-bold capitalize">{spot.action.replace('-', ' ')}</span>
+        <button
+          onClick={() => setShowChart(!showChart)}
+          className="ml-2 text-gray-500 hover:text-[#00ff88] transition"
+        >
+          {showChart ? 'Hide chart' : 'Chart'}
+        </button>
+      </p>
+      {showChart && (
+        <div className="mt-2">
+          <PreflopChart
+            playerCount={spot.playerCount}
+            position={spot.position}
+            facingRaise={spot.facingRaise}
+            highlightHand={spot.handName}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
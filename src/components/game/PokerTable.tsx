@@ -2,25 +2,47 @@
 
 import { motion, AnimatePresence } from 'framer-motion';
 import { DeckManager } from '@/lib/cards/deck';
-
-interface Player {
-  publicKey: string;
-  account: any;
-  seatIndex: number;
-}
+import { BoardTexture } from '@/lib/analysis/texture';
+import { GameLogic } from '@/lib/game/logic';
+import { GameStage } from '@/lib/shared/types';
+import { useTableState } from '@/hooks/useTableState';
 
 interface PokerTableProps {
-  game: any;
-  players: Player[];
+  gamePDA: string;
   currentUserPublicKey?: string;
   isMyTurn: boolean;
 }
 
-export function PokerTable({ game, players, currentUserPublicKey, isMyTurn }: PokerTableProps) {
-  const maxPlayers = game?.maxPlayers || 6;
-  const currentPot = (game?.pot?.toNumber() || 0) / 1e9;
-  const communityCards = game?.communityCards || [];
-  const communityCardsRevealed = game?.communityCardsRevealed || 0;
+export function PokerTable({ gamePDA, currentUserPublicKey, isMyTurn }: PokerTableProps) {
+  const { game, players, pending } = useTableState(gamePDA);
+  if (!game) {
+    return null;
+  }
+
+  const maxPlayers = game.maxPlayers;
+  const currentPot = game.pot.toNumber() / 1e9;
+  const communityCards = game.communityCards;
+  const communityCardsRevealed = game.communityCardsRevealed;
+
+  // Board texture label once the flop is out
+  let boardLabels: string[] = [];
+  if (communityCardsRevealed >= 3) {
+    try {
+      boardLabels = BoardTexture.classify(communityCards.slice(0, communityCardsRevealed)).labels;
+    } catch {
+      boardLabels = [];
+    }
+  }
+
+  // Blind seats for the hand in play (heads-up the dealer posts the small blind)
+  let blindSeats: { smallBlind: number; bigBlind: number } | null = null;
+  if (game.stage !== GameStage.Waiting) {
+    const dealtSeats = players
+      .filter(p => p.account.hasCards)
+      .map(p => p.account.seatIndex)
+      .sort((a, b) => a - b);
+    blindSeats = dealtSeats.length >= 2 ? GameLogic.getBlindSeats(game, dealtSeats) : null;
+  }
 
   // Calculate player positions in a circle/ellipse around the table
   const getPlayerPosition = (seatIndex: number) => {
@@ -89,6 +111,11 @@ export function PokerTable({ game, players, currentUserPublicKey, isMyTurn }: Po
                     )}
                   </AnimatePresence>
                 </div>
+                {boardLabels.length > 0 && (
+                  <p className="text-white/60 text-xs mt-2 tracking-wide">
+                    {boardLabels.join(' • ')}
+                  </p>
+                )}
               </div>
 
               {/* Pot Display */}
@@ -114,13 +141,13 @@ export function PokerTable({ game, players, currentUserPublicKey, isMyTurn }: Po
               </AnimatePresence>
 
               {/* Stage Indicator */}
-              {!game?.stage?.waiting && game?.stage && (
+              {game.stage !== GameStage.Waiting && (
                 <motion.div
                   initial={{ opacity: 0, y: 10 }}
                   animate={{ opacity: 1, y: 0 }}
                   className="mt-3 text-xs font-semibold text-white/50 uppercase tracking-wider"
                 >
-                  {Object.keys(game.stage)[0].replace(/([A-Z])/g, ' $1').trim()}
+                  {game.stage.replace(/([A-Z])/g, ' $1').trim()}
                 </motion.div>
               )}
             </div>
@@ -130,10 +157,11 @@ export function PokerTable({ game, players, currentUserPublicKey, isMyTurn }: Po
           {seats.map(({ seatIndex, player }) => {
             const position = getPlayerPosition(seatIndex);
             const isCurrentUser = player && currentUserPublicKey === player.account.player.toBase58();
-            const isCurrentTurn = player && !game?.stage?.waiting && game?.currentPlayerIndex === player.account.seatIndex;
+            const isCurrentTurn = player && game.stage !== GameStage.Waiting && game.currentPlayerIndex === player.account.seatIndex;
             const isFolded = player && player.account.hasFolded;
-            const chipStack = player ? (player.account.chipStack?.toNumber() || 0) / 1e9 : 0;
-            const currentBet = player ? (player.account.currentBet?.toNumber() || 0) / 1e9 : 0;
+            const pendingAction = player && pending.find(p => p.player.equals(player.account.player));
+            const chipStack = player ? player.account.chipStack.toNumber() / 1e9 : 0;
+            const currentBet = player ? player.account.currentBet.toNumber() / 1e9 : 0;
 
             return (
               <div
@@ -208,6 +236,24 @@ export function PokerTable({ game, players, currentUserPublicKey, isMyTurn }: Po
                               FOLDED
                             </span>
                           )}
+                          {pendingAction && (
+                            <span
+                              title={pendingAction.signature ?? 'Sending...'}
+                              className="text-[9px] bg-gray-500 text-white px-1.5 py-0.5 rounded font-bold animate-pulse"
+                            >
+                              PENDING
+                            </span>
+                          )}
+                          {blindSeats?.smallBlind === seatIndex && (
+                            <span className="text-[9px] bg-blue-600 text-white px-1.5 py-0.5 rounded font-bold">
+                              SB
+                            </span>
+                          )}
+                          {blindSeats?.bigBlind === seatIndex && (
+                            <span className="text-[9px] bg-blue-800 text-white px-1.5 py-0.5 rounded font-bold">
+                              BB
+                            </span>
+                          )}
                         </div>
 
                         {/* Chip Stack */}
@@ -230,7 +276,7 @@ export function PokerTable({ game, players, currentUserPublicKey, isMyTurn }: Po
                       </div>
 
                       {/* Dealer Button */}
-                      {game?.dealerIndex === seatIndex && (
+                      {game.stage !== GameStage.Waiting && game.dealerPosition === seatIndex && (
                         <motion.div
                           initial={{ scale: 0, rotate: -180 }}
                           animate={{ scale: 1, rotate: 0 }}
@@ -249,7 +295,7 @@ export function PokerTable({ game, players, currentUserPublicKey, isMyTurn }: Po
                         transition={{ delay: 0.3 }}
                         className="absolute left-1/2 transform -translate-x-1/2 flex gap-1"
                       >
-                        {[0, 1].map((cardIdx) => (
+                        {player.account.encryptedHoleCards.map((_: number, cardIdx: number) => (
                           <motion.div
                             key={cardIdx}
                             initial={{ rotateY: 180 }}
@@ -279,7 +325,7 @@ export function PokerTable({ game, players, currentUserPublicKey, isMyTurn }: Po
         </div>
 
         {/* Arcium MPC Badge */}
-        {game?.deckInitialized && (
+        {game.deckInitialized && (
           <motion.div
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
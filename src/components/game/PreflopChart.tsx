@@ -0,0 +1,80 @@
+'use client';
+
+import { useMemo } from 'react';
+import { PreflopStrategy, PreflopPosition, ChartAction } from '@/lib/analysis/preflop';
+
+interface PreflopChartProps {
+  playerCount: number;
+  position: PreflopPosition;
+  facingRaise?: boolean; // Show the chart for facing a raise instead of opening
+  highlightHand?: string; // e.g. "AKs"
+}
+
+const RANKS = 'AKQJT98765432';
+
+const ACTION_STYLES: Record<ChartAction, string> = {
+  'three-bet': 'bg-red-600 text-white',
+  'raise': 'bg-[#00ff88] text-black',
+  'call': 'bg-blue-600 text-white',
+  'check': 'bg-gray-600 text-white',
+  'fold': 'bg-gray-800 text-gray-500',
+};
+
+const ACTION_LABELS: Record<ChartAction, string> = {
+  'three-bet': '3-Bet',
+  'raise': 'Raise',
+  'call': 'Call',
+  'check': 'Check',
+  'fold': 'Fold',
+};
+
+// Name of the hand at a grid cell: pairs on the diagonal, suited above, offsuit below
+function getCellHand(row: number, col: number): string {
+  if (row === col) return `${RANKS[row]}${RANKS[col]}`;
+  return row < col ? `${RANKS[row]}${RANKS[col]}s` : `${RANKS[col]}${RANKS[row]}o`;
+}
+
+export function PreflopChart({ playerCount, position, facingRaise = false, highlightHand }: PreflopChartProps) {
+  const chart = useMemo(
+    () => PreflopStrategy.getChart(position, playerCount, facingRaise),
+    [position, playerCount, facingRaise]
+  );
+  // Only list the actions this chart uses
+  const actions = useMemo(
+    () => (Object.keys(ACTION_LABELS) as ChartAction[]).filter(action => Object.values(chart).includes(action)),
+    [chart]
+  );
+
+  return (
+    <div className="bg-black/40 border border-gray-700 rounded-xl p-3">
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-xs text-gray-300 font-bold">
+          {position} • {playerCount}-handed • {facingRaise ? 'vs raise' : 'unopened'}
+        </p>
+        <div className="flex gap-2">
+          {actions.map((action) => (
+            <span key={action} className={`text-[10px] px-1 rounded ${ACTION_STYLES[action]}`}>
+              {ACTION_LABELS[action]}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid gap-px" style={{ gridTemplateColumns: 'repeat(13, minmax(0, 1fr))' }}>
+        {Array.from({ length: 13 * 13 }, (_, i) => {
+          const hand = getCellHand(Math.floor(i / 13), i % 13);
+          const highlighted = hand === highlightHand;
+          return (
+            <div
+              key={hand}
+              title={`${hand}: ${ACTION_LABELS[chart[hand]]}`}
+              className={`text-[9px] leading-5 text-center rounded-sm ${ACTION_STYLES[chart[hand]]} ${highlighted ? 'ring-2 ring-yellow-400 font-bold' : ''}`}
+            >
+              {hand}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+'use client';
+
+import { useRpcHealth } from '@/hooks/useRpcHealth';
+
+/**
+ * RPC endpoints with their health, marking the one in use
+ */
+export function RpcDebugPanel() {
+  const { endpoints, checkNow } = useRpcHealth();
+
+  return (
+    <div className="mb-4">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-bold text-gray-300">RPC Endpoints</h3>
+        <button
+          onClick={checkNow}
+          className="px-3 py-1 text-xs bg-gray-800 text-gray-300 rounded hover:bg-gray-700 border border-gray-700 transition"
+        >
+          Check now
+        </button>
+      </div>
+      <table className="w-full text-xs text-gray-400">
+        <thead>
+          <tr className="text-left text-gray-500">
+            <th className="py-1">Endpoint</th>
+            <th className="py-1">Status</th>
+            <th className="py-1">Slot lag</th>
+            <th className="py-1">Latency</th>
+            <th className="py-1">Errors</th>
+          </tr>
+        </thead>
+        <tbody>
+          {endpoints.map(endpoint => (
+            <tr key={endpoint.url} className={endpoint.active ? 'text-white' : undefined}>
+              <td className="py-1 font-mono" title={endpoint.lastError ?? undefined}>
+                {endpoint.active && <span className="text-[#00ff88] mr-1">●</span>}
+                {endpoint.label}
+              </td>
+              <td className={`py-1 ${endpoint.healthy ? 'text-green-400' : 'text-red-400'}`}>
+                {endpoint.healthy ? 'Healthy' : 'Unhealthy'}
+              </td>
+              <td className="py-1">{endpoint.slotLag ?? '—'}</td>
+              <td className="py-1">{endpoint.latencyMs !== null ? `${endpoint.latencyMs} ms` : '—'}</td>
+              <td className="py-1">{Math.round(endpoint.errorRate * 100)}%</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
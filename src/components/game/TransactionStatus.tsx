@@ -0,0 +1,41 @@
+'use client';
+
+import { TransactionStatus as Status, TransactionStatusEvent } from '@/lib/connection/transaction';
+
+interface TransactionStatusProps {
+  event: TransactionStatusEvent | null;
+}
+
+const STATUS_LABELS: Record<Status, string> = {
+  signed: 'Signed',
+  sent: 'Sent, waiting for a block',
+  processed: 'Processed, waiting for confirmation',
+  confirmed: 'Confirmed',
+  expired: 'Blockhash expired, re-signing',
+};
+
+const STATUS_COLORS: Record<Status, string> = {
+  signed: 'text-gray-400',
+  sent: 'text-blue-400',
+  processed: 'text-blue-300',
+  confirmed: 'text-green-400',
+  expired: 'text-yellow-400',
+};
+
+/**
+ * One-line progress of the latest transaction a hook sent
+ */
+export function TransactionStatus({ event }: TransactionStatusProps) {
+  if (!event) {
+    return null;
+  }
+
+  return (
+    <p className={`text-xs mt-2 ${STATUS_COLORS[event.status]}`} title={event.signature}>
+      {STATUS_LABELS[event.status]}
+      {event.attempt > 1 && ` (attempt ${event.attempt})`}
+      {' · '}
+      <span className="font-mono">{event.signature.slice(0, 8)}…</span>
+    </p>
+  );
+}
@@ -2,11 +2,15 @@
 
 import { motion } from 'framer-motion';
 import Confetti from 'react-confetti';
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
+import { ShowdownWinner } from '@/lib/showdown/winner';
+import { DeckManager } from '@/lib/cards/deck';
+import type { ProgramAccount } from '@coral-xyz/anchor';
+import { Game, GameStage, getHandRankName, PlayerState } from '@/lib/shared/types';
 
 interface WinnerDisplayProps {
-  game: any;
-  players: any[];
+  game: Game;
+  players: ProgramAccount<PlayerState>[];
   myPublicKey?: string;
 }
 
@@ -22,22 +26,44 @@ export function WinnerDisplay({ game, players, myPublicKey }: WinnerDisplayProps
     return () => window.removeEventListener('resize', handleResize);
   }, []);
 
+  // Rank revealed hands so we can show what won
+  const showdownWinners = useMemo(() => {
+    try {
+      return ShowdownWinner.determineWinners(game, players.map((p) => p.account));
+    } catch {
+      return [];
+    }
+  }, [game, players]);
+
+  // Winners of each board when the players ran it more than once
+  const runWinners = useMemo(() => {
+    if ((game.runBoards?.length ?? 0) < 2) return [];
+    try {
+      return ShowdownWinner.determineRunWinners(game, players.map((p) => p.account));
+    } catch {
+      return [];
+    }
+  }, [game, players]);
+
   // Show winner at showdown or finished stage
-  if (!game?.stage?.finished && !game?.stage?.showdown) {
+  if (game.stage !== GameStage.Finished && game.stage !== GameStage.Showdown) {
     return null;
   }
 
   // Find the winner by comparing chip stacks
   // Winner has the most chips after showdown
   const sortedPlayers = [...players].sort((a, b) => {
-    const aChips = a.account.chipStack?.toNumber() || 0;
-    const bChips = b.account.chipStack?.toNumber() || 0;
+    const aChips = a.account.chipStack.toNumber();
+    const bChips = b.account.chipStack.toNumber();
     return bChips - aChips;
   });
 
   const winner = sortedPlayers[0];
-  const winnerChips = winner?.account.chipStack?.toNumber() / 1e9 || 0;
+  const winnerChips = (winner?.account.chipStack.toNumber() ?? 0) / 1e9;
   const isYouWinner = winner?.account.player.toBase58() === myPublicKey;
+  const winnerResult = showdownWinners.find((w) => winner && w.player.equals(winner.account.player));
+  const winningHand = winnerResult?.hand;
+  const winningLow = winnerResult?.lowHand; // Hi-lo games only
 
   return (
     <>
@@ -80,6 +106,55 @@ export function WinnerDisplay({ game, players, myPublicKey }: WinnerDisplayProps
             {isYouWinner && ' (YOU!)'}
           </motion.div>
 
+          {winningHand && (
+            <motion.p
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              transition={{ delay: 0.45 }}
+              className="text-lg text-white font-semibold -mt-4 mb-6"
+            >
+              with {getHandRankName(winningHand.rank)}
+              {winningLow && ` and a ${winningLow.description} low`}
+            </motion.p>
+          )}
+
+          {runWinners.length > 1 && (
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              transition={{ delay: 0.45 }}
+              className="space-y-3 mb-6"
+            >
+              {game.runBoards?.map((board, run) => (
+                <div key={run} className="bg-black/30 border border-yellow-500/30 rounded-xl p-3">
+                  <p className="text-gray-400 text-xs mb-2">Run {run + 1}</p>
+                  <div className="flex items-center justify-center gap-1 mb-2">
+                    {board.map((cardIndex: number, index: number) => {
+                      const cardInfo = DeckManager.getCardInfoFromIndex(cardIndex);
+                      return (
+                        <div
+                          key={`${cardIndex}-${index}`}
+                          className="w-9 h-12 bg-white rounded border border-gray-300 flex items-center justify-center"
+                        >
+                          <span className={`text-sm font-bold ${cardInfo.color === 'red' ? 'text-red-500' : 'text-gray-800'}`}>
+                            {cardInfo.display}
+                          </span>
+                        </div>
+                      );
+                    })}
+                  </div>
+                  {runWinners[run]?.map((w) => (
+                    <p key={w.player.toBase58()} className="text-white text-sm">
+                      {w.player.toBase58().slice(0, 4)}...{w.player.toBase58().slice(-4)}
+                      {w.hand && ` with ${getHandRankName(w.hand.rank)}`}
+                      {w.lowHand && ` and a ${w.lowHand.description} low`}
+                    </p>
+                  ))}
+                </div>
+              ))}
+            </motion.div>
+          )}
+
           <motion.div
             initial={{ scale: 0 }}
             animate={{ scale: 1 }}
@@ -114,7 +189,7 @@ export function WinnerDisplay({ game, players, myPublicKey }: WinnerDisplayProps
             <h3 className="text-xl font-bold text-white mb-4">Final Standings</h3>
             <div className="space-y-3">
               {sortedPlayers.map((p, index) => {
-                const chips = p.account.chipStack?.toNumber() / 1e9 || 0;
+                const chips = p.account.chipStack.toNumber() / 1e9;
                 const isYou = p.account.player.toBase58() === myPublicKey;
 
                 return (
@@ -4,6 +4,7 @@ import { WalletMultiButton } from '@solana/wallet-adapter-react-ui';
 import { useWallet, useConnection } from '@solana/wallet-adapter-react';
 import { useEffect, useState } from 'react';
 import Link from 'next/link';
+import { LOCAL_MODE } from '@/lib/shared/constants';
 
 export default function Header() {
   const { publicKey } = useWallet();
@@ -11,7 +12,7 @@ export default function Header() {
   const [balance, setBalance] = useState<number | null>(null);
 
   useEffect(() => {
-    if (publicKey) {
+    if (publicKey && !LOCAL_MODE) {
       // Fetch balance
       connection.getBalance(publicKey).then((bal) => {
         setBalance(bal / 1_000_000_000); // Convert lamports to SOL
@@ -46,6 +47,11 @@ export default function Header() {
 
         {/* Wallet Info & Button */}
         <div className="flex items-center gap-4">
+          {LOCAL_MODE && (
+            <div className="hidden sm:flex items-center gap-2 px-4 py-2 bg-gray-900 rounded-lg border border-yellow-500/40">
+              <span className="text-sm font-bold text-yellow-400">Local Table</span>
+            </div>
+          )}
           {publicKey && balance !== null && (
             <div className="hidden sm:flex items-center gap-2 px-4 py-2 bg-gray-900 rounded-lg border border-gray-800">
               <span className="text-sm text-gray-400">Balance:</span>
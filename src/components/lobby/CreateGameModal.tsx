@@ -4,6 +4,16 @@ import { useState } from 'react';
 import { useWallet } from '@solana/wallet-adapter-react';
 import { useCreateGame } from '@/hooks/useCreateGame';
 import { useRouter } from 'next/navigation';
+import {
+  AnteType,
+  BettingStructure,
+  BETTING_STRUCTURE_NAMES,
+  GameVariant,
+  GAME_VARIANT_NAMES,
+  StraddleType,
+} from '@/lib/shared/types';
+import { DEFAULT_FIXED_LIMIT_RAISE_CAP, LOCAL_MODE } from '@/lib/shared/constants';
+import { GameInitializer } from '@/lib/game/initialize';
 
 interface CreateGameModalProps {
   onClose: () => void;
@@ -19,7 +29,16 @@ export default function CreateGameModal({ onClose }: CreateGameModalProps) {
     bigBlind: 0.02,
     minBuyIn: 1,
     maxBuyIn: 100,
+    variant: GameVariant.Holdem,
+    bettingStructure: BettingStructure.NoLimit,
+    smallBet: 0.02,
+    bigBet: 0.04,
+    raiseCap: DEFAULT_FIXED_LIMIT_RAISE_CAP,
+    ante: 0,
+    anteType: AnteType.PerPlayer,
+    straddle: undefined as StraddleType | undefined,
   });
+  const isFixedLimit = formData.bettingStructure === BettingStructure.FixedLimit;
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -30,6 +49,7 @@ export default function CreateGameModal({ onClose }: CreateGameModalProps) {
     }
 
     try {
+      // Bet sizes and the raise cap are only used by fixed-limit tables
       const result = await createGame(formData);
       
       // Navigate to the game if successful
@@ -75,6 +95,45 @@ export default function CreateGameModal({ onClose }: CreateGameModalProps) {
             </select>
           </div>
 
+          {/* Game and Betting Structure (only the local program deals other
+              variants or applies betting caps) */}
+          {LOCAL_MODE && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-semibold mb-2">Game</label>
+                <select
+                  value={formData.variant}
+                  onChange={(e) => {
+                    // Switching games picks the structure it is usually played with (pot-limit Omaha)
+                    const variant = e.target.value as GameVariant;
+                    setFormData({
+                      ...formData,
+                      variant,
+                      bettingStructure: GameInitializer.getDefaultBettingStructure(variant),
+                    });
+                  }}
+                  className="w-full px-4 py-3 bg-gray-900 border border-gray-800 rounded-lg text-white focus:border-[#00ff88] focus:outline-none"
+                >
+                  {Object.values(GameVariant).map((variant) => (
+                    <option key={variant} value={variant}>{GAME_VARIANT_NAMES[variant]}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-semibold mb-2">Betting</label>
+                <select
+                  value={formData.bettingStructure}
+                  onChange={(e) => setFormData({ ...formData, bettingStructure: e.target.value as BettingStructure })}
+                  className="w-full px-4 py-3 bg-gray-900 border border-gray-800 rounded-lg text-white focus:border-[#00ff88] focus:outline-none"
+                >
+                  {Object.values(BettingStructure).map((structure) => (
+                    <option key={structure} value={structure}>{BETTING_STRUCTURE_NAMES[structure]}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          )}
+
           {/* Blinds */}
           <div className="grid grid-cols-2 gap-4">
             <div>
@@ -101,6 +160,87 @@ export default function CreateGameModal({ onClose }: CreateGameModalProps) {
             </div>
           </div>
 
+          {/* Fixed-limit bet sizes */}
+          {isFixedLimit && (
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-semibold mb-2">Small Bet</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  value={formData.smallBet}
+                  onChange={(e) => setFormData({ ...formData, smallBet: Number(e.target.value) })}
+                  className="w-full px-4 py-3 bg-gray-900 border border-gray-800 rounded-lg text-white focus:border-[#00ff88] focus:outline-none"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-semibold mb-2">Big Bet</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  value={formData.bigBet}
+                  onChange={(e) => setFormData({ ...formData, bigBet: Number(e.target.value) })}
+                  className="w-full px-4 py-3 bg-gray-900 border border-gray-800 rounded-lg text-white focus:border-[#00ff88] focus:outline-none"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-semibold mb-2">Raise Cap</label>
+                <input
+                  type="number"
+                  step="1"
+                  min="1"
+                  value={formData.raiseCap}
+                  onChange={(e) => setFormData({ ...formData, raiseCap: Number(e.target.value) })}
+                  className="w-full px-4 py-3 bg-gray-900 border border-gray-800 rounded-lg text-white focus:border-[#00ff88] focus:outline-none"
+                  required
+                />
+              </div>
+            </div>
+          )}
+
+          {/* Antes and straddle (local tables only) */}
+          {LOCAL_MODE && (
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-semibold mb-2">Ante (SOL)</label>
+                <input
+                  type="number"
+                  step="0.001"
+                  min="0"
+                  value={formData.ante}
+                  onChange={(e) => setFormData({ ...formData, ante: Number(e.target.value) })}
+                  className="w-full px-4 py-3 bg-gray-900 border border-gray-800 rounded-lg text-white focus:border-[#00ff88] focus:outline-none"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-semibold mb-2">Ante Paid By</label>
+                <select
+                  value={formData.anteType}
+                  onChange={(e) => setFormData({ ...formData, anteType: e.target.value as AnteType })}
+                  disabled={!formData.ante}
+                  className="w-full px-4 py-3 bg-gray-900 border border-gray-800 rounded-lg text-white focus:border-[#00ff88] focus:outline-none disabled:opacity-50"
+                >
+                  <option value={AnteType.PerPlayer}>Every player</option>
+                  <option value={AnteType.BigBlind}>Big blind</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-semibold mb-2">Straddle</label>
+                <select
+                  value={formData.straddle ?? ''}
+                  onChange={(e) => setFormData({ ...formData, straddle: (e.target.value || undefined) as StraddleType | undefined })}
+                  className="w-full px-4 py-3 bg-gray-900 border border-gray-800 rounded-lg text-white focus:border-[#00ff88] focus:outline-none"
+                >
+                  <option value="">None</option>
+                  <option value={StraddleType.UnderTheGun}>Under the gun</option>
+                  <option value={StraddleType.Button}>Button</option>
+                </select>
+              </div>
+            </div>
+          )}
+
           {/* Buy-in */}
           <div className="grid grid-cols-2 gap-4">
             <div>
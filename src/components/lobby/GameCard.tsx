@@ -10,6 +10,11 @@ interface Game {
   smallBlind: number;
   bigBlind: number;
   minBuyIn: number;
+  variant: string;
+  bettingStructure: string;
+  betSizes?: string; // Fixed-limit small/big bet
+  ante?: string;
+  straddle?: string;
   pot: number;
   status: 'active' | 'waiting';
 }
@@ -53,12 +58,35 @@ export default function GameCard({ game }: GameCardProps) {
             {game.players}/{game.maxPlayers}
           </span>
         </div>
+        <div className="flex justify-between text-sm">
+          <span className="text-gray-400">Game</span>
+          <span className="text-white font-semibold">{game.variant}</span>
+        </div>
+        <div className="flex justify-between text-sm">
+          <span className="text-gray-400">Betting</span>
+          <span className="text-white font-semibold">
+            {game.bettingStructure}
+            {game.betSizes && ` (${game.betSizes} SOL)`}
+          </span>
+        </div>
         <div className="flex justify-between text-sm">
           <span className="text-gray-400">Blinds</span>
           <span className="text-white font-semibold">
             {game.smallBlind}/{game.bigBlind} SOL
           </span>
         </div>
+        {game.ante && (
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-400">Ante</span>
+            <span className="text-white font-semibold">{game.ante}</span>
+          </div>
+        )}
+        {game.straddle && (
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-400">Straddle</span>
+            <span className="text-white font-semibold">{game.straddle}</span>
+          </div>
+        )}
         <div className="flex justify-between text-sm">
           <span className="text-gray-400">Min Buy-in</span>
           <span className="text-white font-semibold">{game.minBuyIn} SOL</span>
@@ -3,10 +3,20 @@
 import { useState } from 'react';
 import GameCard from './GameCard';
 import { useGames } from '@/hooks/useGames';
+import {
+  AnteType,
+  BettingStructure,
+  BETTING_STRUCTURE_NAMES,
+  GameStage,
+  GameVariant,
+  GAME_VARIANT_NAMES,
+  StraddleType,
+} from '@/lib/shared/types';
 
 export default function GameList() {
   const { games, loading, error, refetch } = useGames();
   const [filter, setFilter] = useState<'all' | 'active' | 'waiting'>('all');
+  const [variantFilter, setVariantFilter] = useState<GameVariant | 'all'>('all');
 
   // Transform blockchain games to display format
   const displayGames = games.map(game => ({
@@ -14,14 +24,27 @@ export default function GameList() {
     name: `Table ${game.gameId}`,
     players: game.playerCount,
     maxPlayers: game.maxPlayers,
+    variantType: game.variant,
+    variant: GAME_VARIANT_NAMES[game.variant],
     smallBlind: game.smallBlind,
     bigBlind: game.bigBlind,
     minBuyIn: game.minBuyIn,
+    bettingStructure: BETTING_STRUCTURE_NAMES[game.bettingStructure],
+    betSizes: game.bettingStructure === BettingStructure.FixedLimit
+      ? `${game.smallBet}/${game.bigBet}`
+      : undefined,
+    ante: game.ante
+      ? `${game.ante} SOL${game.anteType === AnteType.BigBlind ? ' (big blind ante)' : ''}`
+      : undefined,
+    straddle: game.straddle
+      ? (game.straddle === StraddleType.Button ? 'Button' : 'Under the gun')
+      : undefined,
     pot: game.pot,
-    status: game.stage === 'Waiting' ? 'waiting' : 'active' as 'active' | 'waiting',
+    status: game.stage === GameStage.Waiting ? 'waiting' : 'active' as 'active' | 'waiting',
   }));
 
   const filteredGames = displayGames.filter(game => {
+    if (variantFilter !== 'all' && game.variantType !== variantFilter) return false;
     if (filter === 'all') return true;
     return game.status === filter;
   });
@@ -85,6 +108,16 @@ export default function GameList() {
         >
           Waiting
         </button>
+        <select
+          value={variantFilter}
+          onChange={(e) => setVariantFilter(e.target.value as GameVariant | 'all')}
+          className="ml-auto px-4 py-2 bg-gray-800 text-gray-400 rounded-lg font-semibold text-sm focus:text-white focus:outline-none"
+        >
+          <option value="all">All Variants</option>
+          {Object.values(GameVariant).map((variant) => (
+            <option key={variant} value={variant}>{GAME_VARIANT_NAMES[variant]}</option>
+          ))}
+        </select>
       </div>
 
       {/* Games Grid */}
@@ -2,6 +2,7 @@
 
 import { useWallet, useConnection } from '@solana/wallet-adapter-react';
 import { useEffect, useState } from 'react';
+import { LOCAL_MODE } from '@/lib/shared/constants';
 
 export default function WalletInfo() {
   const { publicKey } = useWallet();
@@ -10,7 +11,7 @@ export default function WalletInfo() {
   const [copied, setCopied] = useState(false);
 
   useEffect(() => {
-    if (publicKey) {
+    if (publicKey && !LOCAL_MODE) {
       connection.getBalance(publicKey).then((bal) => {
         setBalance(bal / 1_000_000_000);
       });
@@ -57,7 +58,9 @@ export default function WalletInfo() {
       <div className="mb-4">
         <label className="text-sm text-gray-400 mb-2 block">Balance</label>
         <div className="text-2xl font-bold text-white">
-          {balance !== null ? `${balance.toFixed(4)} SOL` : 'Loading...'}
+          {LOCAL_MODE
+            ? 'Local table (no SOL needed)'
+            : balance !== null ? `${balance.toFixed(4)} SOL` : 'Loading...'}
         </div>
       </div>
 
@@ -2,15 +2,20 @@
 
 import { useState } from 'react';
 import { useConnection, useWallet } from '@solana/wallet-adapter-react';
-import { PublicKey, Transaction } from '@solana/web3.js';
+import { PublicKey } from '@solana/web3.js';
 import { AnchorProvider, Program } from '@coral-xyz/anchor';
 import idl from '@/arcium_poker.json';
+import { ProgramClient } from '@/lib/connection/program';
+import { TransactionPipeline, TransactionStatusEvent } from '@/lib/connection/transaction';
+import { LOCAL_MODE } from '@/lib/shared/constants';
+import { parseAnchorError } from '@/lib/shared/errors';
 
 export function useAdvanceStage() {
   const { connection } = useConnection();
   const wallet = useWallet();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [txStatus, setTxStatus] = useState<TransactionStatusEvent | null>(null);
 
   const advanceStage = async (gamePDA: PublicKey) => {
     try {
@@ -20,11 +25,30 @@ export function useAdvanceStage() {
 
       setLoading(true);
       setError(null);
+      setTxStatus(null);
 
       console.log('🎲 ========== ADVANCE STAGE ==========');
       console.log('📝 Game PDA:', gamePDA.toBase58());
       console.log('👛 Signer:', wallet.publicKey.toBase58());
 
+      const accounts = {
+        game: gamePDA,
+        signer: wallet.publicKey,
+      };
+
+      // Local table mode: apply directly to the in-memory program
+      if (LOCAL_MODE) {
+        const signature = await ProgramClient.initializeLocal().methods
+          .advanceStage()
+          .accounts(accounts)
+          .rpc();
+
+        return {
+          success: true,
+          signature,
+        };
+      }
+
       // Create provider
       const provider = new AnchorProvider(
         connection,
@@ -40,42 +64,21 @@ export function useAdvanceStage() {
       // Build instruction
       const instruction = await program.methods
         .advanceStage()
-        .accounts({
-          game: gamePDA,
-          signer: wallet.publicKey,
-        })
+        .accounts(accounts)
         .instruction();
 
       console.log('✅ Instruction built');
 
-      // Create and sign transaction
-      console.log('📝 Creating transaction...');
-      const transaction = new Transaction().add(instruction);
-      const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
-      transaction.recentBlockhash = blockhash;
-      transaction.lastValidBlockHeight = lastValidBlockHeight;
-      transaction.feePayer = wallet.publicKey;
-
-      console.log('🔐 Requesting wallet signature...');
-      const signedTx = await wallet.signTransaction(transaction);
-
+      // Price, sign, broadcast and confirm, re-signing if the blockhash expires
       console.log('📤 Sending transaction...');
-      const signature = await connection.sendRawTransaction(signedTx.serialize(), {
-        skipPreflight: true,
-        preflightCommitment: 'confirmed',
+      const { signature } = await TransactionPipeline.send(connection, {
+        instructions: [instruction],
+        feePayer: wallet.publicKey,
+        signTransaction: wallet.signTransaction,
+        onStatus: setTxStatus,
       });
 
-      console.log('✅ Transaction sent:', signature);
-
-      // Confirm transaction
-      console.log('⏳ Confirming transaction...');
-      await connection.confirmTransaction({
-        signature,
-        blockhash,
-        lastValidBlockHeight,
-      }, 'confirmed');
-
-      console.log('✅ Transaction confirmed!');
+      console.log('✅ Transaction confirmed:', signature);
       console.log('🎉 Stage advanced successfully!');
 
       return {
@@ -86,7 +89,7 @@ export function useAdvanceStage() {
       console.error('❌ Error advancing stage:', err);
       console.error('❌ Error message:', err.message);
       console.error('❌ Error logs:', err.logs);
-      const errorMessage = err.message || 'Failed to advance stage';
+      const errorMessage = parseAnchorError(err).message || 'Failed to advance stage';
       setError(errorMessage);
       return {
         success: false,
@@ -101,5 +104,6 @@ export function useAdvanceStage() {
     advanceStage,
     loading,
     error,
+    txStatus,
   };
 }
@@ -0,0 +1,58 @@
+'use client';
+
+import { useState } from 'react';
+import { useWallet } from '@solana/wallet-adapter-react';
+import { PublicKey } from '@solana/web3.js';
+import { ProgramClient } from '@/lib/connection/program';
+import { LOCAL_MODE } from '@/lib/shared/constants';
+
+export function useChooseRuns() {
+  const wallet = useWallet();
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const chooseRuns = async (gamePDA: PublicKey, runs: number) => {
+    try {
+      if (!wallet.publicKey) {
+        throw new Error('Wallet not connected');
+      }
+
+      // The on-chain program has no instruction for running the board again
+      if (!LOCAL_MODE) {
+        throw new Error('Running the board more than once is only available on local tables');
+      }
+
+      setLoading(true);
+      setError(null);
+
+      const signature = await ProgramClient.initializeLocal().methods
+        .chooseRuns(runs)
+        .accounts({
+          game: gamePDA,
+          player: wallet.publicKey,
+        })
+        .rpc();
+
+      return {
+        success: true,
+        signature,
+      };
+    } catch (err: unknown) {
+      console.error('Error choosing runs:', err);
+      const errorMessage = (err instanceof Error && err.message) || 'Failed to choose runs';
+      setError(errorMessage);
+      return {
+        success: false,
+        error: errorMessage,
+      };
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return {
+    chooseRuns,
+    loading,
+    error,
+  };
+}
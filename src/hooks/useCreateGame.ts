@@ -2,9 +2,12 @@
 
 import { useState } from 'react';
 import { useConnection, useWallet } from '@solana/wallet-adapter-react';
-import { PublicKey } from '@solana/web3.js';
+import { PublicKey, SystemProgram } from '@solana/web3.js';
 import BN from 'bn.js';
 import { GameInitializer } from '@/lib/game/initialize';
+import { ProgramClient } from '@/lib/connection/program';
+import { LOCAL_MODE } from '@/lib/shared/constants';
+import { AnteType, BettingStructure, GameVariant, StraddleType } from '@/lib/shared/types';
 
 export interface CreateGameParams {
   smallBlind: number;
@@ -12,6 +15,14 @@ export interface CreateGameParams {
   minBuyIn: number;
   maxBuyIn: number;
   maxPlayers: number;
+  variant?: GameVariant;
+  bettingStructure?: BettingStructure;
+  smallBet?: number; // Fixed-limit only (SOL)
+  bigBet?: number; // Fixed-limit only (SOL)
+  raiseCap?: number; // Fixed-limit only
+  ante?: number; // SOL
+  anteType?: AnteType;
+  straddle?: StraddleType;
 }
 
 export function useCreateGame() {
@@ -56,6 +67,60 @@ export function useCreateGame() {
         maxBuyIn: maxBuyInLamports.toString(),
       });
 
+      // Table rules (bet sizes and antes in lamports). The program has no
+      // room for them, so on-chain tables are always no-limit, without
+      // antes or straddles
+      const rules = LOCAL_MODE ? {
+        variant: params.variant,
+        bettingStructure: params.bettingStructure,
+        smallBet: params.smallBet !== undefined ? new BN(Math.round(params.smallBet * 1_000_000_000)) : undefined,
+        bigBet: params.bigBet !== undefined ? new BN(Math.round(params.bigBet * 1_000_000_000)) : undefined,
+        raiseCap: params.raiseCap,
+        ante: params.ante ? new BN(Math.round(params.ante * 1_000_000_000)) : undefined,
+        anteType: params.ante ? params.anteType : undefined,
+        straddle: params.straddle,
+      } : {};
+      const validation = GameInitializer.validateGameParams({
+        ...rules,
+        gameId,
+        smallBlind: smallBlindLamports,
+        bigBlind: bigBlindLamports,
+        minBuyIn: minBuyInLamports,
+        maxBuyIn: maxBuyInLamports,
+        maxPlayers: params.maxPlayers,
+      });
+      if (!validation.valid) {
+        throw new Error(validation.error);
+      }
+
+      // Local table mode: no balance or blockhash needed, the game is
+      // created in the in-memory program
+      if (LOCAL_MODE) {
+        const signature = await ProgramClient.initializeLocal().methods
+          .initializeGame(
+            gameId,
+            smallBlindLamports,
+            bigBlindLamports,
+            minBuyInLamports,
+            maxBuyInLamports,
+            params.maxPlayers,
+            GameInitializer.getGameConfig({ ...rules, bigBlind: bigBlindLamports })
+          )
+          .accounts({
+            authority: wallet.publicKey,
+            systemProgram: SystemProgram.programId,
+          })
+          .rpc();
+        const [gamePDA] = ProgramClient.deriveGamePDA(wallet.publicKey, gameId);
+
+        return {
+          success: true,
+          signature,
+          gamePDA,
+          gameId,
+        };
+      }
+
       // Check wallet balance
       console.log('💰 Checking wallet balance...');
       const balance = await connection.getBalance(wallet.publicKey);
@@ -93,13 +158,11 @@ export function useCreateGame() {
 
       // Initialize program client first
       console.log('📦 Initializing program client...');
-      const { ProgramClient } = await import('@/lib/connection/program');
       ProgramClient.initialize(provider);
       console.log('✅ Program client initialized');
 
       // Initialize game - Use standard Anchor method (simpler, lets wallet/Anchor handle blockhash)
       console.log('🚀 Using standard Anchor method (letting Anchor handle transaction details)...');
-      const { GameInitializer } = await import('@/lib/game/initialize');
       const result = await GameInitializer.initializeGame(
         {
           gameId,
@@ -108,6 +171,7 @@ export function useCreateGame() {
           minBuyIn: minBuyInLamports,
           maxBuyIn: maxBuyInLamports,
           maxPlayers: params.maxPlayers,
+          ...rules,
         },
         provider as any
       );
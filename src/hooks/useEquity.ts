@@ -0,0 +1,79 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import type { EquityEstimateInput } from '@/lib/analysis/advisor';
+import type { EquityOptions, EquityResult } from '@/lib/analysis/equity';
+import type { EquityTask, EquityWorkerRequest, EquityWorkerResponse } from '@/lib/analysis/equity.worker';
+
+type WorkerResult = EquityWorkerResponse['result'];
+
+let worker: Worker | null = null;
+let nextId = 0;
+const pending = new Map<number, (result: WorkerResult) => void>();
+
+/**
+ * Run a calculation on the shared equity worker
+ */
+function runInWorker(task: EquityTask): Promise<WorkerResult> {
+  if (!worker) {
+    worker = new Worker(new URL('../lib/analysis/equity.worker.ts', import.meta.url));
+    worker.addEventListener('message', (event: MessageEvent<EquityWorkerResponse>) => {
+      pending.get(event.data.id)?.(event.data.result);
+      pending.delete(event.data.id);
+    });
+  }
+
+  const id = nextId++;
+  const request: EquityWorkerRequest = { ...task, id };
+  return new Promise(resolve => {
+    pending.set(id, resolve);
+    worker!.postMessage(request);
+  });
+}
+
+/**
+ * Latest result of a worker calculation, null until the first one is done
+ */
+function useWorkerResult(task: EquityTask | null): WorkerResult {
+  const [result, setResult] = useState<WorkerResult>(null);
+
+  useEffect(() => {
+    if (!task) {
+      setResult(null);
+      return;
+    }
+
+    let cancelled = false;
+    runInWorker(task).then(value => {
+      if (!cancelled) setResult(value);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [task]);
+
+  return result;
+}
+
+/**
+ * Equity per seat (EquityCalculator.calculate), off the main thread
+ *
+ * @param options - Calculation options, memoized; null to skip
+ * @returns Equity result, or null until calculated or if the cards are invalid
+ */
+export function useEquity(options: EquityOptions | null): EquityResult | null {
+  const task = useMemo((): EquityTask | null => options && { kind: 'calculate', options }, [options]);
+  return useWorkerResult(task) as EquityResult | null;
+}
+
+/**
+ * Equity against opponent ranges (ActionAdvisor.estimateEquity), off the
+ * main thread
+ *
+ * @param input - Estimate input, memoized; null to skip
+ * @returns Equity percentage, or null until calculated or if the cards are invalid
+ */
+export function useEquityEstimate(input: EquityEstimateInput | null): number | null {
+  const task = useMemo((): EquityTask | null => input && { kind: 'estimate', input }, [input]);
+  return useWorkerResult(task) as number | null;
+}
@@ -3,21 +3,28 @@
 import { useState, useEffect } from 'react';
 import { useConnection, useWallet } from '@solana/wallet-adapter-react';
 import { PublicKey } from '@solana/web3.js';
-import { Program, AnchorProvider } from '@coral-xyz/anchor';
 import { GameStateManager } from '@/lib/game/state';
-import { PROGRAM_ID } from '@/lib/shared/constants';
-import idl from '@/arcium_poker.json';
+import { LOCAL_MODE, PROGRAM_ID } from '@/lib/shared/constants';
+import { ProgramClient } from '@/lib/connection/program';
+import { AnteType, BettingStructure, GameConfig, GameStage, GameVariant, StraddleType } from '@/lib/shared/types';
 
 export interface GameInfo {
   publicKey: PublicKey;
   authority: PublicKey;
   gameId: string;
-  stage: string;
+  stage: GameStage;
   smallBlind: number;
   bigBlind: number;
   minBuyIn: number;
   maxBuyIn: number;
   maxPlayers: number;
+  variant: GameVariant;
+  bettingStructure: BettingStructure;
+  smallBet?: number; // Fixed-limit only
+  bigBet?: number; // Fixed-limit only
+  ante?: number;
+  anteType?: AnteType;
+  straddle?: StraddleType;
   playerCount: number;
   pot: number;
   startedAt: number;
@@ -39,37 +46,41 @@ export function useGames() {
       setLoading(true);
       setError(null);
 
-      // Create a minimal provider for read-only access
-      const provider = new AnchorProvider(
-        connection,
-        {} as any,
-        { commitment: 'confirmed' }
-      );
-
-      // Create program instance
-      const program = new Program(idl as any, provider);
-
-      // Fetch all game accounts using Anchor's built-in method
-      const gameAccounts = await program.account.game.all();
+      // Fetch all game accounts (in-memory in local table mode, otherwise
+      // read without a wallet)
+      if (LOCAL_MODE) {
+        ProgramClient.initializeLocal();
+      } else {
+        ProgramClient.initializeReadOnly(connection);
+      }
+      const gameAccounts = await ProgramClient.fetchAllGames();
       
       console.log(`Found ${gameAccounts.length} game accounts`);
 
-      const gameInfos: GameInfo[] = gameAccounts.map((gameAccount: any) => {
+      const gameInfos: GameInfo[] = gameAccounts.map((gameAccount) => {
         const game = gameAccount.account;
+        const config: GameConfig = game.config ?? { bettingStructure: BettingStructure.NoLimit };
         
         return {
           publicKey: gameAccount.publicKey,
           authority: game.authority,
-          gameId: game.gameId?.toString() || '0',
-          stage: game.stage ? JSON.stringify(game.stage) : 'Waiting',
-          smallBlind: game.smallBlind?.toNumber() / 1e9 || 0,
-          bigBlind: game.bigBlind?.toNumber() / 1e9 || 0,
-          minBuyIn: game.minBuyIn?.toNumber() / 1e9 || 0,
-          maxBuyIn: game.maxBuyIn?.toNumber() / 1e9 || 0,
-          maxPlayers: game.maxPlayers || 6,
-          playerCount: game.playerCount || 0,
-          pot: game.pot?.toNumber() / 1e9 || 0,
-          startedAt: game.startedAt?.toNumber() || Date.now() / 1000,
+          gameId: game.gameId.toString(),
+          stage: game.stage,
+          smallBlind: game.smallBlind.toNumber() / 1e9,
+          bigBlind: game.bigBlind.toNumber() / 1e9,
+          minBuyIn: game.minBuyIn.toNumber() / 1e9,
+          maxBuyIn: game.maxBuyIn.toNumber() / 1e9,
+          maxPlayers: game.maxPlayers,
+          variant: config.variant ?? GameVariant.Holdem,
+          bettingStructure: config.bettingStructure,
+          smallBet: config.smallBet ? config.smallBet.toNumber() / 1e9 : undefined,
+          bigBet: config.bigBet ? config.bigBet.toNumber() / 1e9 : undefined,
+          ante: config.ante ? config.ante.toNumber() / 1e9 : undefined,
+          anteType: config.anteType,
+          straddle: config.straddle,
+          playerCount: game.playerCount,
+          pot: game.pot.toNumber() / 1e9,
+          startedAt: game.startedAt.toNumber() || Date.now() / 1000,
         };
       });
 
@@ -2,16 +2,20 @@
 
 import { useState } from 'react';
 import { useConnection, useWallet } from '@solana/wallet-adapter-react';
-import { PublicKey, SystemProgram, Transaction } from '@solana/web3.js';
+import { PublicKey, SystemProgram } from '@solana/web3.js';
 import { AnchorProvider, Program, BN } from '@coral-xyz/anchor';
 import idl from '@/arcium_poker.json';
 import { ProgramClient } from '@/lib/connection/program';
+import { TransactionPipeline, TransactionStatusEvent } from '@/lib/connection/transaction';
+import { LOCAL_MODE } from '@/lib/shared/constants';
+import { parseAnchorError } from '@/lib/shared/errors';
 
 export function useJoinGame() {
   const { connection } = useConnection();
   const wallet = useWallet();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [txStatus, setTxStatus] = useState<TransactionStatusEvent | null>(null);
 
   const joinGame = async (gamePDA: PublicKey, buyInAmount: number) => {
     try {
@@ -21,12 +25,33 @@ export function useJoinGame() {
 
       setLoading(true);
       setError(null);
+      setTxStatus(null);
 
       console.log('🎮 ========== JOIN GAME START ==========');
       console.log('📝 Game PDA:', gamePDA.toBase58());
       console.log('👛 Wallet:', wallet.publicKey.toBase58());
       console.log('💰 Buy-in amount:', buyInAmount, 'SOL');
 
+      // Local table mode: apply directly to the in-memory program
+      if (LOCAL_MODE) {
+        const [playerStatePDA] = ProgramClient.derivePlayerStatePDA(gamePDA, wallet.publicKey);
+        const signature = await ProgramClient.initializeLocal().methods
+          .joinGame(new BN(buyInAmount * 1e9))
+          .accounts({
+            game: gamePDA,
+            playerState: playerStatePDA,
+            player: wallet.publicKey,
+            systemProgram: SystemProgram.programId,
+          })
+          .rpc();
+
+        return {
+          success: true,
+          signature,
+          playerStatePDA: playerStatePDA.toBase58(),
+        };
+      }
+
       // Create provider
       const provider = new AnchorProvider(
         connection,
@@ -65,34 +90,16 @@ export function useJoinGame() {
 
       console.log('✅ Instruction built');
 
-      // Create and sign transaction
-      console.log('📝 Creating transaction...');
-      const transaction = new Transaction().add(instruction);
-      const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('finalized');
-      transaction.recentBlockhash = blockhash;
-      transaction.lastValidBlockHeight = lastValidBlockHeight;
-      transaction.feePayer = wallet.publicKey;
-
-      console.log('🔐 Requesting wallet signature...');
-      const signedTx = await wallet.signTransaction(transaction);
-
+      // Price, sign, broadcast and confirm, re-signing if the blockhash expires
       console.log('📤 Sending transaction...');
-      const signature = await connection.sendRawTransaction(signedTx.serialize(), {
-        skipPreflight: true,
-        preflightCommitment: 'confirmed',
+      const { signature } = await TransactionPipeline.send(connection, {
+        instructions: [instruction],
+        feePayer: wallet.publicKey,
+        signTransaction: wallet.signTransaction,
+        onStatus: setTxStatus,
       });
 
-      console.log('✅ Transaction sent:', signature);
-
-      // Confirm transaction
-      console.log('⏳ Confirming transaction...');
-      await connection.confirmTransaction({
-        signature,
-        blockhash,
-        lastValidBlockHeight,
-      }, 'confirmed');
-
-      console.log('✅ Transaction confirmed!');
+      console.log('✅ Transaction confirmed:', signature);
       console.log('🎉 Successfully joined game!');
 
       return {
@@ -102,7 +109,7 @@ export function useJoinGame() {
       };
     } catch (err: any) {
       console.error('❌ Error joining game:', err);
-      const errorMessage = err.message || 'Failed to join game';
+      const errorMessage = parseAnchorError(err).message || 'Failed to join game';
       setError(errorMessage);
       return {
         success: false,
@@ -117,5 +124,6 @@ export function useJoinGame() {
     joinGame,
     loading,
     error,
+    txStatus,
   };
 }
@@ -2,10 +2,16 @@
 
 import { useState } from 'react';
 import { useConnection, useWallet } from '@solana/wallet-adapter-react';
-import { PublicKey, Transaction } from '@solana/web3.js';
+import { PublicKey } from '@solana/web3.js';
 import { AnchorProvider, Program } from '@coral-xyz/anchor';
 import BN from 'bn.js';
 import idl from '@/arcium_poker.json';
+import { ProgramClient } from '@/lib/connection/program';
+import { TransactionPipeline, TransactionStatusEvent } from '@/lib/connection/transaction';
+import { TableStore } from '@/lib/game/store';
+import { LOCAL_MODE } from '@/lib/shared/constants';
+import { parseAnchorError } from '@/lib/shared/errors';
+import { PlayerActionParam } from '@/lib/shared/types';
 
 export type PlayerActionType = 'fold' | 'check' | 'call' | 'bet' | 'raise' | 'allIn';
 
@@ -14,12 +20,17 @@ export function usePlayerAction() {
   const wallet = useWallet();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [txStatus, setTxStatus] = useState<TransactionStatusEvent | null>(null);
 
   const executeAction = async (
     gamePDA: PublicKey,
     actionType: PlayerActionType,
     amount?: number
   ) => {
+    // The table shows the predicted result until the transaction settles
+    const table = TableStore.forGame(gamePDA);
+    let pendingId: number | null = null;
+
     try {
       if (!wallet.publicKey || !wallet.signTransaction) {
         throw new Error('Wallet not connected');
@@ -27,6 +38,7 @@ export function usePlayerAction() {
 
       setLoading(true);
       setError(null);
+      setTxStatus(null);
 
       console.log('🎮 ========== PLAYER ACTION ==========');
       console.log('📝 Action Type:', actionType);
@@ -57,7 +69,7 @@ export function usePlayerAction() {
       console.log('✅ PlayerState PDA:', playerStatePDA.toBase58());
 
       // Build action parameter
-      let actionParam: any;
+      let actionParam: PlayerActionParam;
       switch (actionType) {
         case 'fold':
           actionParam = { fold: {} };
@@ -83,6 +95,30 @@ export function usePlayerAction() {
           throw new Error('Unknown action type');
       }
 
+      pendingId = table.addPending(wallet.publicKey, actionParam);
+
+      // Local table mode: apply directly to the in-memory program
+      if (LOCAL_MODE) {
+        const signature = await ProgramClient.initializeLocal().methods
+          .playerAction(actionParam)
+          .accounts({
+            game: gamePDA,
+            playerState: playerStatePDA,
+            player: wallet.publicKey,
+          })
+          .rpc();
+
+        if (pendingId !== null) {
+          table.setPendingSignature(pendingId, signature);
+          table.confirmPending(pendingId, await ProgramClient.getSlot());
+        }
+
+        return {
+          success: true,
+          signature,
+        };
+      }
+
       console.log('🔨 Building player action instruction...');
 
       // Build instruction
@@ -97,34 +133,23 @@ export function usePlayerAction() {
 
       console.log('✅ Instruction built');
 
-      // Create and sign transaction
-      console.log('📝 Creating transaction...');
-      const transaction = new Transaction().add(instruction);
-      const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
-      transaction.recentBlockhash = blockhash;
-      transaction.lastValidBlockHeight = lastValidBlockHeight;
-      transaction.feePayer = wallet.publicKey;
-
-      console.log('🔐 Requesting wallet signature...');
-      const signedTx = await wallet.signTransaction(transaction);
-
+      // Price, sign, broadcast and confirm, re-signing if the blockhash
+      // expires; the pending action follows the latest signature
       console.log('📤 Sending transaction...');
-      const signature = await connection.sendRawTransaction(signedTx.serialize(), {
-        skipPreflight: true,
-        preflightCommitment: 'confirmed',
+      const { signature, slot } = await TransactionPipeline.send(connection, {
+        instructions: [instruction],
+        feePayer: wallet.publicKey,
+        signTransaction: wallet.signTransaction,
+        onStatus: event => {
+          setTxStatus(event);
+          if (pendingId !== null && event.status === 'sent') {
+            table.setPendingSignature(pendingId, event.signature);
+          }
+        },
       });
+      if (pendingId !== null) table.confirmPending(pendingId, slot);
 
-      console.log('✅ Transaction sent:', signature);
-
-      // Confirm transaction
-      console.log('⏳ Confirming transaction...');
-      await connection.confirmTransaction({
-        signature,
-        blockhash,
-        lastValidBlockHeight,
-      }, 'confirmed');
-
-      console.log('✅ Transaction confirmed!');
+      console.log('✅ Transaction confirmed:', signature);
       console.log('🎉 Action executed successfully!');
 
       return {
@@ -135,11 +160,13 @@ export function usePlayerAction() {
       console.error('❌ Error executing action:', err);
       console.error('❌ Error message:', err.message);
       console.error('❌ Error logs:', err.logs);
-      const errorMessage = err.message || 'Failed to execute action';
-      setError(errorMessage);
+      if (pendingId !== null) table.rollbackPending(pendingId);
+      const pokerError = parseAnchorError(err);
+      setError(pokerError.message);
       return {
         success: false,
-        error: errorMessage,
+        error: pokerError.message,
+        code: pokerError.code,
       };
     } finally {
       setLoading(false);
@@ -164,5 +191,6 @@ export function usePlayerAction() {
     allIn,
     loading,
     error,
+    txStatus,
   };
 }
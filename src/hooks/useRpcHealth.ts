@@ -0,0 +1,30 @@
+'use client';
+
+import { useCallback, useSyncExternalStore } from 'react';
+import { RPCClient } from '@/lib/connection/rpc';
+import { EndpointHealth } from '@/lib/connection/endpoints';
+
+/**
+ * Live health of every configured RPC endpoint, updated by the pool's
+ * health checks and failovers
+ */
+export function useRpcHealth() {
+  const pool = RPCClient.getPool();
+  const subscribe = useCallback((listener: () => void) => pool.subscribe(listener), [pool]);
+  const getSnapshot = useCallback(() => pool.getSnapshot(), [pool]);
+  const endpoints: EndpointHealth[] = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+
+  const checkNow = useCallback(async () => {
+    try {
+      await pool.checkHealth();
+    } catch (error) {
+      console.error('Error checking RPC health:', error);
+    }
+  }, [pool]);
+
+  return {
+    endpoints,
+    active: endpoints.find(endpoint => endpoint.active),
+    checkNow,
+  };
+}
@@ -2,15 +2,20 @@
 
 import { useState } from 'react';
 import { useConnection, useWallet } from '@solana/wallet-adapter-react';
-import { PublicKey, Transaction } from '@solana/web3.js';
+import { PublicKey } from '@solana/web3.js';
 import { AnchorProvider, Program } from '@coral-xyz/anchor';
 import idl from '@/arcium_poker.json';
+import { ProgramClient } from '@/lib/connection/program';
+import { TransactionPipeline, TransactionStatusEvent } from '@/lib/connection/transaction';
+import { LOCAL_MODE } from '@/lib/shared/constants';
+import { parseAnchorError } from '@/lib/shared/errors';
 
 export function useShowdown() {
   const { connection } = useConnection();
   const wallet = useWallet();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [txStatus, setTxStatus] = useState<TransactionStatusEvent | null>(null);
 
   const executeShowdown = async (gamePDA: PublicKey, playerStatePDAs: PublicKey[]) => {
     try {
@@ -20,12 +25,30 @@ export function useShowdown() {
 
       setLoading(true);
       setError(null);
+      setTxStatus(null);
 
       console.log('🏆 ========== EXECUTE SHOWDOWN ==========');
       console.log('📝 Game PDA:', gamePDA.toBase58());
       console.log('📝 Player State PDAs:', playerStatePDAs.map(p => p.toBase58()));
       console.log('👛 Player:', wallet.publicKey.toBase58());
 
+      // Local table mode: apply directly to the in-memory program
+      if (LOCAL_MODE) {
+        const signature = await ProgramClient.initializeLocal().methods
+          .executeShowdown()
+          .accounts({
+            game: gamePDA,
+            playerState: playerStatePDAs[0],
+            player: wallet.publicKey,
+          })
+          .rpc();
+
+        return {
+          success: true,
+          signature,
+        };
+      }
+
       // Create provider
       const provider = new AnchorProvider(
         connection,
@@ -63,34 +86,16 @@ export function useShowdown() {
 
       console.log('✅ Instruction built');
 
-      // Create and sign transaction
-      console.log('📝 Creating transaction...');
-      const transaction = new Transaction().add(instruction);
-      const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
-      transaction.recentBlockhash = blockhash;
-      transaction.lastValidBlockHeight = lastValidBlockHeight;
-      transaction.feePayer = wallet.publicKey;
-
-      console.log('🔐 Requesting wallet signature...');
-      const signedTx = await wallet.signTransaction(transaction);
-
+      // Price, sign, broadcast and confirm, re-signing if the blockhash expires
       console.log('📤 Sending transaction...');
-      const signature = await connection.sendRawTransaction(signedTx.serialize(), {
-        skipPreflight: true,
-        preflightCommitment: 'confirmed',
+      const { signature } = await TransactionPipeline.send(connection, {
+        instructions: [instruction],
+        feePayer: wallet.publicKey,
+        signTransaction: wallet.signTransaction,
+        onStatus: setTxStatus,
       });
 
-      console.log('✅ Transaction sent:', signature);
-
-      // Confirm transaction
-      console.log('⏳ Confirming transaction...');
-      await connection.confirmTransaction({
-        signature,
-        blockhash,
-        lastValidBlockHeight,
-      }, 'confirmed');
-
-      console.log('✅ Transaction confirmed!');
+      console.log('✅ Transaction confirmed:', signature);
       console.log('🎉 Showdown executed successfully!');
 
       return {
@@ -101,7 +106,7 @@ export function useShowdown() {
       console.error('❌ Error executing showdown:', err);
       console.error('❌ Error message:', err.message);
       console.error('❌ Error logs:', err.logs);
-      const errorMessage = err.message || 'Failed to execute showdown';
+      const errorMessage = parseAnchorError(err).message || 'Failed to execute showdown';
       setError(errorMessage);
       return {
         success: false,
@@ -116,5 +121,6 @@ export function useShowdown() {
     executeShowdown,
     loading,
     error,
+    txStatus,
   };
 }
@@ -1,10 +1,12 @@
 import { useState } from 'react';
 import { useConnection, useWallet } from '@solana/wallet-adapter-react';
-import { PublicKey, SystemProgram, Transaction, SYSVAR_CLOCK_PUBKEY } from '@solana/web3.js';
+import { PublicKey, SystemProgram, SYSVAR_CLOCK_PUBKEY } from '@solana/web3.js';
 import { AnchorProvider, Program } from '@coral-xyz/anchor';
 import bs58 from 'bs58';
 import idl from '@/arcium_poker.json';
-import { PROGRAM_ID } from '@/lib/shared/constants';
+import { LOCAL_MODE, PROGRAM_ID } from '@/lib/shared/constants';
+import { ProgramClient } from '@/lib/connection/program';
+import { TransactionPipeline, TransactionStatusEvent } from '@/lib/connection/transaction';
 import { getMXEAccountsForGame } from './useArciumMXE';
 
 // MOCK MODE ENABLED - Deterministic Shuffling for Testing
@@ -23,6 +25,7 @@ export function useStartGame() {
   const wallet = useWallet();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [txStatus, setTxStatus] = useState<TransactionStatusEvent | null>(null);
 
   const startGame = async (gamePDA: PublicKey, gameId: number) => {
     try {
@@ -32,6 +35,7 @@ export function useStartGame() {
 
       setLoading(true);
       setError(null);
+      setTxStatus(null);
 
       console.log('🎮 ========== START GAME (MOCK MODE) ==========');
       console.log('📝 Game PDA:', gamePDA.toBase58());
@@ -39,6 +43,32 @@ export function useStartGame() {
       console.log('👛 Authority:', wallet.publicKey.toBase58());
       console.log('🔐 Mode: MOCK (Deterministic Shuffle)');
 
+      // Local table mode: one entropy seed per seated player, applied
+      // directly to the in-memory program
+      if (LOCAL_MODE) {
+        const program = ProgramClient.initializeLocal();
+        const players = await ProgramClient.fetchPlayerStatesByGame(gamePDA);
+        const playerEntropy = players.map(() => {
+          const entropy = new Uint8Array(32);
+          crypto.getRandomValues(entropy);
+          return Array.from(entropy);
+        });
+
+        const signature = await program.methods
+          .startGame(playerEntropy)
+          .accounts({
+            game: gamePDA,
+            authority: wallet.publicKey,
+          })
+          .rpc();
+
+        return {
+          success: true,
+          signature,
+          gameId,
+        };
+      }
+
       // Create provider
       const provider = new AnchorProvider(
         connection,
@@ -152,40 +182,16 @@ export function useStartGame() {
 
       console.log('✅ Instruction built');
 
-      // Create and sign transaction
-      console.log('📝 Creating transaction...');
-      const transaction = new Transaction().add(instruction);
-      const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('finalized');
-      transaction.recentBlockhash = blockhash;
-      transaction.lastValidBlockHeight = lastValidBlockHeight;
-      transaction.feePayer = wallet.publicKey;
-
-      console.log('🔐 Requesting wallet signature...');
-      const signedTx = await wallet.signTransaction(transaction);
-
+      // Price, sign, broadcast and confirm, re-signing if the blockhash expires
       console.log('📤 Sending transaction...');
-      const signature = await connection.sendRawTransaction(signedTx.serialize(), {
-        skipPreflight: true,
-        preflightCommitment: 'confirmed',
+      const { signature } = await TransactionPipeline.send(connection, {
+        instructions: [instruction],
+        feePayer: wallet.publicKey,
+        signTransaction: wallet.signTransaction,
+        onStatus: setTxStatus,
       });
 
-      console.log('✅ Transaction sent:', signature);
-      console.log('🎉 Game started with MOCK mode (deterministic shuffle)!');
-
-      // Confirm transaction
-      console.log('⏳ Confirming transaction...');
-      const confirmation = await connection.confirmTransaction({
-        signature,
-        blockhash,
-        lastValidBlockHeight,
-      }, 'confirmed');
-
-      // Check if transaction actually succeeded
-      if (confirmation.value.err) {
-        throw new Error(`Transaction failed: ${JSON.stringify(confirmation.value.err)}`);
-      }
-
-      console.log('✅ Transaction confirmed!');
+      console.log('✅ Transaction confirmed:', signature);
       console.log('🎉 Game started successfully with MOCK mode!');
 
       return {
@@ -201,8 +207,9 @@ export function useStartGame() {
       
       // Decode custom error codes
       let errorMessage = err.message || 'Failed to start game';
-      if (err.InstructionError) {
-        const [_, errorInfo] = err.InstructionError;
+      const instructionError = err.err?.InstructionError ?? err.InstructionError;
+      if (instructionError) {
+        const [_, errorInfo] = instructionError;
         if (errorInfo?.Custom === 6021) {
           errorMessage = 'Not enough players to start game (minimum 2 required)';
         } else if (errorInfo?.Custom === 6000) {
@@ -226,5 +233,6 @@ export function useStartGame() {
     startGame,
     loading,
     error,
+    txStatus,
   };
 }
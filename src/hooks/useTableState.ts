@@ -0,0 +1,62 @@
+'use client';
+
+import { useCallback, useMemo, useSyncExternalStore } from 'react';
+import { useConnection } from '@solana/wallet-adapter-react';
+import { PublicKey } from '@solana/web3.js';
+import type { ProgramAccount } from '@coral-xyz/anchor';
+import { ProgramClient } from '@/lib/connection/program';
+import { TableSnapshot, TableStore } from '@/lib/game/store';
+import { LOCAL_MODE } from '@/lib/shared/constants';
+import { PlayerState } from '@/lib/shared/types';
+
+/**
+ * Shared live store of a table, set up to read through the program client
+ */
+function useTableStore(gamePDA: string): TableStore {
+  const { connection } = useConnection();
+
+  return useMemo(() => {
+    if (LOCAL_MODE) {
+      ProgramClient.initializeLocal();
+    } else {
+      ProgramClient.initializeReadOnly(connection);
+    }
+    return TableStore.forGame(new PublicKey(gamePDA));
+  }, [gamePDA, connection]);
+}
+
+/**
+ * Live state of a table: the game and every seated player, kept current
+ * by account subscriptions
+ */
+export function useTableState(gamePDA: string) {
+  const store = useTableStore(gamePDA);
+  const subscribe = useCallback((listener: () => void) => store.subscribe(listener), [store]);
+  const getSnapshot = useCallback(() => store.getSnapshot(), [store]);
+  const snapshot: TableSnapshot = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+
+  const refresh = useCallback(async () => {
+    try {
+      await store.refresh();
+    } catch (error) {
+      console.error('Error refreshing table:', error);
+    }
+  }, [store]);
+
+  return {
+    ...snapshot,
+    refresh,
+  };
+}
+
+/**
+ * Live state of one player at a table
+ *
+ * @param gamePDA - Game address
+ * @param player - Player's wallet (base58)
+ * @returns Player state account, or undefined if the player is not seated
+ */
+export function useTablePlayer(gamePDA: string, player?: string): ProgramAccount<PlayerState> | undefined {
+  const { players } = useTableState(gamePDA);
+  return players.find(p => p.account.player.toBase58() === player);
+}
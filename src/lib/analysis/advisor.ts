@@ -0,0 +1,148 @@
+/**
+ * Arcium Poker - Action Advisor
+ *
+ * Pot odds, equity against an opponent range and the expected value of
+ * folding, calling and raising, from the player's own cards and public state.
+ */
+
+import BN from 'bn.js';
+import { EquityCalculator } from './equity';
+import { HandRange } from './range';
+import { StartingHandTable } from './preflop';
+import { GameLogic } from '../game/logic';
+
+/**
+ * Equity estimate input
+ */
+export interface EquityEstimateInput {
+  /** Player's hole card indices */
+  holeCards: number[];
+  /** Revealed community card indices */
+  communityCards?: number[];
+  /** Opponents still in the hand */
+  opponents?: number;
+  /** Opponent range: top percentage of starting hands (1-100) or range notation */
+  opponentRange?: number | string;
+  iterations?: number;
+  seed?: number;
+}
+
+/**
+ * Advice input (amounts in lamports)
+ */
+export interface AdviceInput {
+  /** Player equity (percentage) */
+  equity: number;
+  /** Chips in the pot, including bets this round */
+  pot: BN;
+  /** Chips needed to call */
+  callAmount: BN;
+  /** Chips the player adds when raising (optional) */
+  raiseAmount?: BN;
+  /** Opponents who would call a raise */
+  opponents?: number;
+  /** Chance (0-1) a raise takes the pot down immediately */
+  foldEquity?: number;
+}
+
+/**
+ * Suggested action
+ */
+export type AdvisedAction = 'fold' | 'check' | 'call' | 'raise';
+
+/**
+ * Action advice (EV in lamports, relative to folding)
+ */
+export interface ActionAdvice {
+  /** Equity needed to call profitably (percentage) */
+  potOdds: number;
+  /** Player equity (percentage) */
+  equity: number;
+  ev: {
+    fold: number;
+    call: number;
+    raise: number | null;
+  };
+  bestAction: AdvisedAction;
+}
+
+/**
+ * Action Advisor
+ * Client-side decision support for the current betting round
+ */
+export class ActionAdvisor {
+  /**
+   * Estimate equity against opponents playing a range
+   * 
+   * @param input - Player cards, board and opponent range
+   * @returns Equity percentage
+   */
+  static estimateEquity(input: EquityEstimateInput): number {
+    const {
+      holeCards,
+      communityCards = [],
+      opponents = 1,
+      opponentRange = 100,
+      iterations = 3000,
+      seed,
+    } = input;
+
+    let range: number[][] | null = null;
+    let weights: number[] | null = null;
+    if (typeof opponentRange === 'string') {
+      const combos = HandRange.parse(opponentRange);
+      range = combos.map(combo => combo.cards);
+      weights = combos.map(combo => combo.weight);
+    } else if (opponentRange < 100) {
+      range = StartingHandTable.getTopRange(opponentRange);
+    }
+
+    const result = EquityCalculator.calculate({
+      holeCards: [holeCards, ...Array(opponents).fill(null)],
+      ranges: [null, ...Array(opponents).fill(range)],
+      rangeWeights: [null, ...Array(opponents).fill(weights)],
+      communityCards,
+      iterations,
+      seed,
+    });
+
+    return result.seats[0].equity;
+  }
+
+  /**
+   * Compare the expected value of each action
+   * 
+   * A raise is assumed to be called by every opponent unless they fold
+   * (foldEquity); calls and raises are assumed to reach showdown.
+   * 
+   * @param input - Equity and amounts
+   * @returns Action advice
+   */
+  static advise(input: AdviceInput): ActionAdvice {
+    const { equity, pot, callAmount, raiseAmount, opponents = 1, foldEquity = 0 } = input;
+    const share = equity / 100;
+    const potSize = pot.toNumber();
+    const toCall = callAmount.toNumber();
+
+    const callEv = share * (potSize + toCall) - toCall;
+
+    let raiseEv: number | null = null;
+    if (raiseAmount && raiseAmount.gt(callAmount)) {
+      const raise = raiseAmount.toNumber();
+      const calledPot = potSize + raise + opponents * (raise - toCall);
+      raiseEv = foldEquity * potSize + (1 - foldEquity) * (share * calledPot - raise);
+    }
+
+    let bestAction: AdvisedAction = toCall === 0 ? 'check' : callEv > 0 ? 'call' : 'fold';
+    if (raiseEv !== null && raiseEv > Math.max(0, callEv)) {
+      bestAction = 'raise';
+    }
+
+    return {
+      potOdds: GameLogic.calculatePotOdds(pot, callAmount),
+      equity,
+      ev: { fold: 0, call: callEv, raise: raiseEv },
+      bestAction,
+    };
+  }
+}
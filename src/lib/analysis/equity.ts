@@ -0,0 +1,380 @@
+/**
+ * Arcium Poker - Equity Calculator
+ *
+ * Win/tie/lose percentages for known hole cards against a partial board.
+ * Enumerates every run-out when that is cheap (turn/river), otherwise
+ * samples run-outs with a seeded Monte Carlo simulation.
+ */
+
+import { LookupEvaluator } from '../cards/lookup-evaluator';
+import { DECK_SIZE, COMMUNITY_CARDS_COUNT, HOLE_CARDS_COUNT } from '../shared/constants';
+import { ErrorCode, PokerError } from '../shared/errors';
+import { createSeededRandom } from '../shared/utils';
+
+/**
+ * Equity calculation options
+ */
+export interface EquityOptions {
+  /** Hole card indices per seat; null for an unknown (random) hand */
+  holeCards: (number[] | null)[];
+  /** Candidate hands for unknown seats (null or missing: any two cards) */
+  ranges?: (number[][] | null)[];
+  /** Relative weight of each range hand (missing: all equal) */
+  rangeWeights?: (number[] | null)[];
+  /** Revealed community card indices (0-5) */
+  communityCards?: number[];
+  /** Cards known to be out of the deck (burned, mucked, seen) */
+  deadCards?: number[];
+  /** Monte Carlo samples when the board is not enumerated */
+  iterations?: number;
+  /** Seed for Monte Carlo sampling (same seed, same result) */
+  seed?: number;
+  /** Enumerate exactly when there are at most this many run-outs */
+  maxExactBoards?: number;
+}
+
+/**
+ * Equity for one seat, as percentages (0-100)
+ */
+export interface SeatEquity {
+  win: number;
+  tie: number;
+  lose: number;
+  /** Share of the pot won, with ties split between tied seats */
+  equity: number;
+}
+
+/**
+ * Equity calculation result
+ */
+export interface EquityResult {
+  seats: SeatEquity[];
+  /** Number of run-outs evaluated */
+  boards: number;
+  /** True if every run-out was enumerated */
+  exact: boolean;
+}
+
+/**
+ * Default number of Monte Carlo samples
+ */
+export const DEFAULT_EQUITY_ITERATIONS = 10000;
+
+/**
+ * Default enumeration limit (covers every flop with known hands)
+ */
+export const DEFAULT_MAX_EXACT_BOARDS = 2000;
+
+/**
+ * Running totals per seat
+ */
+interface EquityTally {
+  wins: number[];
+  ties: number[];
+  shares: number[];
+  boards: number;
+}
+
+/**
+ * Range hands still possible for a seat
+ */
+interface WeightedRange {
+  combos: number[][];
+  weights: number[];
+  maxWeight: number;
+}
+
+/**
+ * Equity Calculator
+ * Computes showdown equity from known cards
+ */
+export class EquityCalculator {
+  /**
+   * Calculate equity for each seat
+   * 
+   * @param options - Known cards and sampling options
+   * @returns Equity per seat
+   */
+  static calculate(options: EquityOptions): EquityResult {
+    const {
+      holeCards,
+      ranges = [],
+      rangeWeights = [],
+      communityCards = [],
+      deadCards = [],
+      iterations = DEFAULT_EQUITY_ITERATIONS,
+      seed = Date.now(),
+      maxExactBoards = DEFAULT_MAX_EXACT_BOARDS,
+    } = options;
+
+    if (holeCards.length < 2) {
+      throw new Error('Need at least 2 seats to calculate equity');
+    }
+    if (communityCards.length > COMMUNITY_CARDS_COUNT) {
+      throw new Error(`At most ${COMMUNITY_CARDS_COUNT} community cards allowed`);
+    }
+    for (const hand of holeCards) {
+      if (hand && hand.length !== HOLE_CARDS_COUNT) {
+        throw new Error(`Each known hand needs ${HOLE_CARDS_COUNT} hole cards`);
+      }
+    }
+
+    const knownCards = [
+      ...holeCards.flatMap(hand => hand ?? []),
+      ...communityCards,
+      ...deadCards,
+    ];
+    const remaining = this.getRemainingCards(knownCards);
+    const missing = COMMUNITY_CARDS_COUNT - communityCards.length;
+    const unknownSeats = holeCards.filter(hand => !hand).length;
+
+    if (remaining.length < missing + unknownSeats * HOLE_CARDS_COUNT) {
+      throw new Error('Not enough cards left in the deck');
+    }
+
+    const tally: EquityTally = {
+      wins: holeCards.map(() => 0),
+      ties: holeCards.map(() => 0),
+      shares: holeCards.map(() => 0),
+      boards: 0,
+    };
+
+    const exact =
+      unknownSeats === 0 && this.countBoards(remaining.length, missing) <= maxExactBoards;
+
+    if (exact) {
+      const hands = holeCards as number[][];
+      this.forEachCombination(remaining, missing, (runOut) => {
+        this.scoreBoard(hands, [...communityCards, ...runOut], tally);
+      });
+    } else {
+      // Drop range hands that use a known card
+      const known = new Set(knownCards);
+      const seatRanges = holeCards.map((hand, seat): WeightedRange | null => {
+        const range = hand ? null : ranges[seat];
+        if (!range) return null;
+
+        const weights = rangeWeights[seat];
+        const live: WeightedRange = { combos: [], weights: [], maxWeight: 0 };
+        range.forEach((combo, i) => {
+          const weight = weights ? weights[i] : 1;
+          if (weight > 0 && !combo.some(card => known.has(card))) {
+            live.combos.push(combo);
+            live.weights.push(weight);
+            live.maxWeight = Math.max(live.maxWeight, weight);
+          }
+        });
+
+        if (live.combos.length === 0) {
+          throw new Error(`Range for seat ${seat} has no hands left`);
+        }
+        return live;
+      });
+      this.simulate(holeCards, seatRanges, communityCards, remaining, missing, iterations, seed, tally);
+    }
+
+    return {
+      seats: holeCards.map((_, seat) => this.toSeatEquity(tally, seat)),
+      boards: tally.boards,
+      exact,
+    };
+  }
+
+  /**
+   * Count the run-outs for a number of missing board cards
+   * 
+   * @param remainingCards - Cards left in the deck
+   * @param missing - Board cards still to come
+   * @returns Number of distinct run-outs
+   */
+  static countBoards(remainingCards: number, missing: number): number {
+    let count = 1;
+    for (let i = 0; i < missing; i++) {
+      count = (count * (remainingCards - i)) / (i + 1);
+    }
+    return Math.round(count);
+  }
+
+  /**
+   * Sample random run-outs (and unknown hands)
+   */
+  private static simulate(
+    holeCards: (number[] | null)[],
+    ranges: (WeightedRange | null)[],
+    communityCards: number[],
+    remaining: number[],
+    missing: number,
+    iterations: number,
+    seed: number,
+    tally: EquityTally
+  ): void {
+    const random = createSeededRandom(seed);
+    const deck = [...remaining];
+    const taken = new Set<number>();
+    const hasRanges = ranges.some(range => range);
+    const drawCount =
+      holeCards.filter((hand, seat) => !hand && !ranges[seat]).length * HOLE_CARDS_COUNT + missing;
+
+    for (let n = 0; n < iterations; n++) {
+      // Range hands first, so random hands and the board avoid them
+      let rangeHands: (number[] | null)[] = [];
+      if (hasRanges) {
+        taken.clear();
+        rangeHands = ranges.map(range =>
+          range ? this.pickRangeHand(range, taken, random) : null
+        );
+        if (rangeHands.some((hand, seat) => ranges[seat] && !hand)) {
+          continue;
+        }
+      }
+
+      const drawn = this.drawCards(deck, drawCount, taken, random);
+
+      let next = 0;
+      const hands = holeCards.map((hand, seat) => {
+        if (hand) return hand;
+        if (rangeHands[seat]) return rangeHands[seat]!;
+        next += HOLE_CARDS_COUNT;
+        return drawn.slice(next - HOLE_CARDS_COUNT, next);
+      });
+
+      this.scoreBoard(hands, communityCards.concat(drawn.slice(next)), tally);
+    }
+  }
+
+  /**
+   * Pick a weighted random range hand that does not collide with cards already taken
+   */
+  private static pickRangeHand(
+    range: WeightedRange,
+    taken: Set<number>,
+    random: () => number
+  ): number[] | null {
+    for (let attempt = 0; attempt < 1000; attempt++) {
+      const index = Math.floor(random() * range.combos.length);
+      const combo = range.combos[index];
+      // Rejection sampling keeps picks proportional to weight
+      if (random() * range.maxWeight >= range.weights[index]) continue;
+      if (!combo.some(card => taken.has(card))) {
+        combo.forEach(card => taken.add(card));
+        return combo;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Draw distinct random cards, skipping cards already taken
+   */
+  private static drawCards(
+    deck: number[],
+    count: number,
+    taken: Set<number>,
+    random: () => number
+  ): number[] {
+    const drawn: number[] = [];
+
+    // Partial Fisher-Yates: each drawn card is uniform over the cards left
+    for (let i = 0; i < deck.length && drawn.length < count; i++) {
+      const j = i + Math.floor(random() * (deck.length - i));
+      [deck[i], deck[j]] = [deck[j], deck[i]];
+      if (!taken.has(deck[i])) drawn.push(deck[i]);
+    }
+
+    return drawn;
+  }
+
+  /**
+   * Evaluate one complete board and add the result to the tally
+   */
+  private static scoreBoard(hands: number[][], board: number[], tally: EquityTally): void {
+    const values = hands.map(hand => LookupEvaluator.evaluate(hand.concat(board)));
+
+    let best = 0;
+    let winners = 0;
+    for (const value of values) {
+      if (value > best) {
+        best = value;
+        winners = 1;
+      } else if (value === best) {
+        winners++;
+      }
+    }
+
+    for (let seat = 0; seat < values.length; seat++) {
+      if (values[seat] !== best) continue;
+      if (winners === 1) {
+        tally.wins[seat]++;
+      } else {
+        tally.ties[seat]++;
+      }
+      tally.shares[seat] += 1 / winners;
+    }
+
+    tally.boards++;
+  }
+
+  /**
+   * Convert tally counts to percentages
+   */
+  private static toSeatEquity(tally: EquityTally, seat: number): SeatEquity {
+    const percent = (count: number) => (tally.boards > 0 ? (count / tally.boards) * 100 : 0);
+    const win = percent(tally.wins[seat]);
+    const tie = percent(tally.ties[seat]);
+
+    return {
+      win,
+      tie,
+      lose: Math.max(0, 100 - win - tie),
+      equity: percent(tally.shares[seat]),
+    };
+  }
+
+  /**
+   * Get deck cards not already known, rejecting invalid or duplicate indices
+   */
+  private static getRemainingCards(knownCards: number[]): number[] {
+    const used = new Set<number>();
+
+    for (const card of knownCards) {
+      if (!Number.isInteger(card) || card < 0 || card >= DECK_SIZE) {
+        throw new PokerError(ErrorCode.InvalidCardIndex, `Invalid card index: ${card}`);
+      }
+      if (used.has(card)) {
+        throw new PokerError(ErrorCode.InvalidCardIndex, `Duplicate card index: ${card}`);
+      }
+      used.add(card);
+    }
+
+    const remaining: number[] = [];
+    for (let card = 0; card < DECK_SIZE; card++) {
+      if (!used.has(card)) remaining.push(card);
+    }
+    return remaining;
+  }
+
+  /**
+   * Visit every k-card combination of the given cards
+   */
+  private static forEachCombination(
+    cards: number[],
+    k: number,
+    visit: (combo: number[]) => void
+  ): void {
+    const chosen: number[] = [];
+
+    const combine = (start: number) => {
+      if (chosen.length === k) {
+        visit(chosen);
+        return;
+      }
+      for (let i = start; i <= cards.length - (k - chosen.length); i++) {
+        chosen.push(cards[i]);
+        combine(i + 1);
+        chosen.pop();
+      }
+    };
+
+    combine(0);
+  }
+}
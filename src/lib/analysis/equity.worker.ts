@@ -0,0 +1,46 @@
+/**
+ * Arcium Poker - Equity Worker
+ *
+ * Runs equity calculations off the main thread. A single calculation can
+ * take hundreds of milliseconds (more on first use, while the evaluator
+ * builds its lookup tables), which would freeze the table UI.
+ */
+
+import { ActionAdvisor, EquityEstimateInput } from './advisor';
+import { EquityCalculator, EquityOptions, EquityResult } from './equity';
+
+/**
+ * Calculation to run
+ */
+export type EquityTask =
+  | { kind: 'calculate'; options: EquityOptions }
+  | { kind: 'estimate'; input: EquityEstimateInput };
+
+/**
+ * Calculation tagged with the ID its response carries
+ */
+export type EquityWorkerRequest = EquityTask & { id: number };
+
+/**
+ * Calculation result, null if the cards could not be evaluated
+ */
+export interface EquityWorkerResponse {
+  id: number;
+  result: EquityResult | number | null;
+}
+
+addEventListener('message', (event: MessageEvent<EquityWorkerRequest>) => {
+  const request = event.data;
+  let result: EquityWorkerResponse['result'];
+
+  try {
+    result = request.kind === 'calculate'
+      ? EquityCalculator.calculate(request.options)
+      : ActionAdvisor.estimateEquity(request.input);
+  } catch {
+    // Cards not decoded yet (duplicates/placeholders)
+    result = null;
+  }
+
+  postMessage({ id: request.id, result } satisfies EquityWorkerResponse);
+});
@@ -0,0 +1,24 @@
+/**
+ * Arcium Poker - Analysis Module Exports
+ * 
+ * Client-side hand analysis: equity, action advice, ranges, outs, board texture
+ * and preflop charts.
+ */
+
+// Export equity calculator
+export * from './equity';
+
+// Export action advisor
+export * from './advisor';
+
+// Export hand ranges
+export * from './range';
+
+// Export outs analyzer
+export * from './outs';
+
+// Export board texture
+export * from './texture';
+
+// Export preflop tables and charts
+export * from './preflop';
@@ -0,0 +1,245 @@
+/**
+ * Arcium Poker - Outs Analyzer
+ *
+ * Current made hand, named draws and the exact outs for the player's hole
+ * cards on the flop or turn, with rule-of-2/4 and exact probabilities.
+ */
+
+import { DeckManager } from '../cards/deck';
+import { HandEvaluator, HandResult } from '../cards/evaluator';
+import { LookupEvaluator } from '../cards/lookup-evaluator';
+import { HandRank } from '../shared/types';
+import { DECK_SIZE, COMMUNITY_CARDS_COUNT } from '../shared/constants';
+
+/**
+ * Named draw types
+ */
+export type DrawType =
+  | 'flush'
+  | 'open-ended'
+  | 'double-gutshot'
+  | 'gutshot'
+  | 'backdoor-flush'
+  | 'backdoor-straight';
+
+/**
+ * Display names for draw types
+ */
+export const DRAW_NAMES: Record<DrawType, string> = {
+  'flush': 'Flush Draw',
+  'open-ended': 'Open-Ended Straight Draw',
+  'double-gutshot': 'Double Gutshot',
+  'gutshot': 'Gutshot',
+  'backdoor-flush': 'Backdoor Flush Draw',
+  'backdoor-straight': 'Backdoor Straight Draw',
+};
+
+/**
+ * A named draw and the cards that complete it
+ */
+export interface Draw {
+  type: DrawType;
+  outs: number[]; // Completing card indices (empty for backdoor draws)
+}
+
+/**
+ * Outs analysis result
+ */
+export interface OutsAnalysis {
+  madeHand: HandResult | null; // Null before the flop
+  draws: Draw[];
+  outs: number[]; // Unseen cards that improve the hand category
+  cardsToCome: number;
+  probability: {
+    nextCard: number; // Exact chance (%) of hitting on the next card
+    byRiver: number; // Exact chance (%) of hitting by the river
+    ruleOfTwoFour: number; // Outs x4 on the flop, x2 on the turn (%)
+  };
+}
+
+/**
+ * Five-rank straight windows, wheel first (rank indices, 12 = ace)
+ */
+const STRAIGHT_WINDOWS: number[][] = [
+  [12, 0, 1, 2, 3],
+  ...Array.from({ length: 9 }, (_, low) => [low, low + 1, low + 2, low + 3, low + 4]),
+];
+
+/**
+ * Outs Analyzer
+ * Finds draws and outs from the player's point of view
+ */
+export class OutsAnalyzer {
+  /**
+   * Analyze hole cards against the revealed board
+   * 
+   * @param holeCards - Player hole card indices
+   * @param communityCards - Revealed community card indices (0-5)
+   * @returns Made hand, draws, outs and probabilities
+   */
+  static analyze(holeCards: number[], communityCards: number[]): OutsAnalysis {
+    const known = [...holeCards, ...communityCards];
+    if (new Set(known).size !== known.length) {
+      throw new Error('Duplicate card in hole cards or board');
+    }
+
+    const cards = known.map(index => {
+      const card = DeckManager.decodeCard(index);
+      if (!card) throw new Error(`Invalid card index: ${index}`);
+      return card;
+    });
+
+    const madeHand = cards.length >= 5 ? HandEvaluator.evaluateHand(cards) : null;
+    const cardsToCome = communityCards.length >= 3 ? COMMUNITY_CARDS_COUNT - communityCards.length : 0;
+
+    if (!madeHand || cardsToCome === 0) {
+      return {
+        madeHand,
+        draws: [],
+        outs: [],
+        cardsToCome,
+        probability: { nextCard: 0, byRiver: 0, ruleOfTwoFour: 0 },
+      };
+    }
+
+    const unseen: number[] = [];
+    for (let index = 0; index < DECK_SIZE; index++) {
+      if (!known.includes(index)) unseen.push(index);
+    }
+
+    const outs = this.findOuts(holeCards, communityCards, madeHand.rank, unseen);
+    const draws = this.findDraws(holeCards, communityCards, madeHand.rank, unseen);
+
+    return {
+      madeHand,
+      draws,
+      outs,
+      cardsToCome,
+      probability: this.getProbabilities(outs.length, unseen.length, cardsToCome),
+    };
+  }
+
+  /**
+   * Chance of hitting one of the outs
+   * 
+   * @param outs - Number of outs
+   * @param unseen - Number of unseen cards
+   * @param cardsToCome - Board cards still to come
+   * @returns Probabilities (%)
+   */
+  static getProbabilities(outs: number, unseen: number, cardsToCome: number): OutsAnalysis['probability'] {
+    if (outs === 0 || cardsToCome === 0) {
+      return { nextCard: 0, byRiver: 0, ruleOfTwoFour: 0 };
+    }
+
+    let missAll = 1;
+    for (let i = 0; i < cardsToCome; i++) {
+      missAll *= (unseen - outs - i) / (unseen - i);
+    }
+
+    return {
+      nextCard: (outs / unseen) * 100,
+      byRiver: (1 - missAll) * 100,
+      ruleOfTwoFour: Math.min(100, outs * (cardsToCome === 2 ? 4 : 2)),
+    };
+  }
+
+  /**
+   * Unseen cards that improve the hand category using a hole card
+   */
+  private static findOuts(
+    holeCards: number[],
+    board: number[],
+    currentRank: HandRank,
+    unseen: number[]
+  ): number[] {
+    return unseen.filter(card => {
+      const rank = LookupEvaluator.getHandRank(LookupEvaluator.evaluate([...holeCards, ...board, card]));
+      if (rank <= currentRank) return false;
+
+      // Cards that improve the board as much as the player do not count
+      return this.getBoardRank([...board, card]) < rank;
+    });
+  }
+
+  /**
+   * Hand rank of the board alone (pairs and sets only below 5 cards)
+   */
+  private static getBoardRank(board: number[]): HandRank {
+    if (board.length >= 5) {
+      return LookupEvaluator.getHandRank(LookupEvaluator.evaluate(board));
+    }
+
+    const counts = new Map<number, number>();
+    for (const card of board) {
+      counts.set(card % 13, (counts.get(card % 13) ?? 0) + 1);
+    }
+    const sizes = [...counts.values()].sort((a, b) => b - a);
+
+    if (sizes[0] === 4) return HandRank.FourOfAKind;
+    if (sizes[0] === 3) return HandRank.ThreeOfAKind;
+    if (sizes[0] === 2) return sizes[1] === 2 ? HandRank.TwoPair : HandRank.OnePair;
+    return HandRank.HighCard;
+  }
+
+  /**
+   * Find named flush and straight draws involving a hole card
+   */
+  private static findDraws(
+    holeCards: number[],
+    board: number[],
+    currentRank: HandRank,
+    unseen: number[]
+  ): Draw[] {
+    const draws: Draw[] = [];
+    const all = [...holeCards, ...board];
+    const isFlop = board.length === 3;
+
+    if (currentRank < HandRank.Flush) {
+      for (let suit = 0; suit < 4; suit++) {
+        const suited = all.filter(card => Math.floor(card / 13) === suit);
+        if (!holeCards.some(card => Math.floor(card / 13) === suit)) continue;
+
+        if (suited.length === 4) {
+          draws.push({ type: 'flush', outs: unseen.filter(card => Math.floor(card / 13) === suit) });
+        } else if (suited.length === 3 && isFlop) {
+          draws.push({ type: 'backdoor-flush', outs: [] });
+        }
+      }
+    }
+
+    if (currentRank < HandRank.Straight) {
+      const ranks = new Set(all.map(card => card % 13));
+      const holeRanks = holeCards.map(card => card % 13);
+      const boardRanks = new Set(board.map(card => card % 13));
+
+      // Ranks that complete a straight using at least one hole card
+      const completing = new Set<number>();
+      for (const window of STRAIGHT_WINDOWS) {
+        const missing = window.filter(rank => !ranks.has(rank));
+        const usesHoleCard = window.some(rank => holeRanks.includes(rank) && !boardRanks.has(rank));
+        if (missing.length === 1 && usesHoleCard) completing.add(missing[0]);
+      }
+
+      // Open-ended: four in a row, completed at either end (the ace also
+      // completes A-2-3-4-5 below the two)
+      const lowRanks = [...completing].map(rank => (rank === 12 ? -1 : rank));
+      const openEnded = [...completing].some(rank => completing.has(rank + 5) || lowRanks.includes(rank - 5));
+
+      const straightOuts = unseen.filter(card => completing.has(card % 13));
+      if (completing.size >= 2) {
+        draws.push({ type: openEnded ? 'open-ended' : 'double-gutshot', outs: straightOuts });
+      } else if (completing.size === 1) {
+        draws.push({ type: 'gutshot', outs: straightOuts });
+      } else if (isFlop) {
+        const backdoor = STRAIGHT_WINDOWS.some(window =>
+          window.filter(rank => ranks.has(rank)).length === 3 &&
+          window.some(rank => holeRanks.includes(rank) && !boardRanks.has(rank))
+        );
+        if (backdoor) draws.push({ type: 'backdoor-straight', outs: [] });
+      }
+    }
+
+    return draws;
+  }
+}
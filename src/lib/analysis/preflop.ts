@@ -0,0 +1,443 @@
+/**
+ * Arcium Poker - Preflop Tables
+ *
+ * The 169 starting hands ranked by equity against a random hand
+ * (precomputed with the evaluator, see starting-hands.ts), and
+ * position-aware charts for 2-6 handed tables:
+ * one for opening an unraised pot and one for facing a raise.
+ */
+
+import { LookupEvaluator } from '../cards/lookup-evaluator';
+import { DECK_SIZE, MIN_PLAYERS, MAX_PLAYERS } from '../shared/constants';
+import { createSeededRandom } from '../shared/utils';
+import { STARTING_HAND_EQUITIES } from './starting-hands';
+
+/**
+ * One of the 169 starting hand classes
+ */
+export interface StartingHand {
+  name: string; // e.g. "AKs", "QQ", "72o"
+  highRank: number; // Rank index (0 = two, 12 = ace)
+  lowRank: number;
+  suited: boolean;
+  pair: boolean;
+  combos: number[][]; // Hole card indices for every combo
+  equity: number; // Equity (%) against one random hand
+  rank: number; // 1 = strongest
+  percentile: number; // Share of all combos (%) at least this strong
+}
+
+/**
+ * Preflop table positions
+ */
+export type PreflopPosition = 'UTG' | 'HJ' | 'CO' | 'BTN' | 'SB' | 'BB';
+
+/**
+ * Chart action for a hand, strongest first. Opening charts raise, check
+ * (big blind only) or fold; facing a raise, hands three-bet, call or fold.
+ */
+export type ChartAction = 'three-bet' | 'raise' | 'call' | 'check' | 'fold';
+
+/**
+ * Range widths facing a raise, as a percentage of all combos
+ */
+interface FacingRaiseWidths {
+  threeBet: number; // Re-raise
+  call: number; // Call (on top of the 3-bet range)
+}
+
+/**
+ * Rank characters in index order
+ */
+const RANK_CHARS = '23456789TJQKA';
+
+/**
+ * Total two-card starting hands
+ */
+const STARTING_HAND_COMBOS = 1326;
+
+/**
+ * Sampled opponent hands and boards shared by every starting hand
+ * (fixed seed, so the table is stable)
+ */
+const TABLE_SCENARIOS = 5000;
+const TABLE_SEED = 169;
+
+/**
+ * Positions before the button, by table size (action order)
+ */
+const EARLY_POSITIONS: Record<number, PreflopPosition[]> = {
+  2: [],
+  3: [],
+  4: ['CO'],
+  5: ['HJ', 'CO'],
+  6: ['UTG', 'HJ', 'CO'],
+};
+
+/**
+ * Opening (raise first in) widths by position, as a percentage of all
+ * combos (fewer players behind: wider). The big blind checks instead.
+ */
+const OPENING_WIDTHS: Record<PreflopPosition, number> = {
+  UTG: 16,
+  HJ: 21,
+  CO: 28,
+  BTN: 45,
+  SB: 40,
+  BB: 0,
+};
+
+/**
+ * Widths facing a raise by position
+ */
+const FACING_RAISE_WIDTHS: Record<PreflopPosition, FacingRaiseWidths> = {
+  UTG: { threeBet: 4, call: 6 },
+  HJ: { threeBet: 5, call: 7 },
+  CO: { threeBet: 6, call: 9 },
+  BTN: { threeBet: 8, call: 12 },
+  SB: { threeBet: 9, call: 6 },
+  BB: { threeBet: 10, call: 30 },
+};
+
+/**
+ * Heads-up widths (the button is the small blind and acts first, so it
+ * only faces a raise after opening)
+ */
+const HEADS_UP_OPENING_WIDTHS: Partial<Record<PreflopPosition, number>> = {
+  BTN: 80,
+  BB: 0,
+};
+
+const HEADS_UP_FACING_RAISE_WIDTHS: Partial<Record<PreflopPosition, FacingRaiseWidths>> = {
+  BTN: { threeBet: 6, call: 24 },
+  BB: { threeBet: 14, call: 40 },
+};
+
+/**
+ * Starting Hand Table
+ * Ranks the 169 starting hands by all-in equity
+ */
+export class StartingHandTable {
+  private static hands: StartingHand[] | null = null;
+
+  /**
+   * Get all 169 starting hands, strongest first
+   * 
+   * @returns Starting hands
+   */
+  static getHands(): StartingHand[] {
+    if (!this.hands) {
+      this.hands = this.buildTable();
+    }
+    return this.hands;
+  }
+
+  /**
+   * Get a starting hand by name
+   * 
+   * @param name - Hand name (e.g. "AKs", "QQ", "72o")
+   * @returns Starting hand or undefined
+   */
+  static getHand(name: string): StartingHand | undefined {
+    return this.getHands().find(hand => hand.name === name);
+  }
+
+  /**
+   * Get the starting hand name for two hole cards
+   * 
+   * @param card1 - First card index
+   * @param card2 - Second card index
+   * @returns Hand name (e.g. "AKs")
+   */
+  static getHandName(card1: number, card2: number): string {
+    const rank1 = card1 % 13;
+    const rank2 = card2 % 13;
+    const high = RANK_CHARS[Math.max(rank1, rank2)];
+    const low = RANK_CHARS[Math.min(rank1, rank2)];
+
+    if (rank1 === rank2) return `${high}${low}`;
+    return `${high}${low}${Math.floor(card1 / 13) === Math.floor(card2 / 13) ? 's' : 'o'}`;
+  }
+
+  /**
+   * Get the strongest starting hands making up a percentage of all combos
+   * 
+   * @param percent - Percentage of combos (0-100)
+   * @returns Hole card combos
+   */
+  static getTopRange(percent: number): number[][] {
+    const combos: number[][] = [];
+
+    for (const hand of this.getHands()) {
+      const before = hand.percentile - (hand.combos.length / STARTING_HAND_COMBOS) * 100;
+      if (before >= percent) break;
+      combos.push(...hand.combos);
+    }
+
+    return combos;
+  }
+
+  /**
+   * Compute every starting hand's equity against a random hand with the
+   * evaluator, strongest first. This takes seconds, so the table is built
+   * from the precomputed STARTING_HAND_EQUITIES instead; this is what
+   * generated them.
+   *
+   * @returns Hand name and equity (%) pairs
+   */
+  static computeEquities(): [string, number][] {
+    const scenarios = this.buildScenarios();
+    const equities: [string, number][] = [];
+
+    for (let high = 12; high >= 0; high--) {
+      for (let low = high; low >= 0; low--) {
+        for (const suited of high === low ? [false] : [true, false]) {
+          const combos = this.getCombos(high, low, suited);
+          equities.push([this.getHandName(combos[0][0], combos[0][1]), this.getEquity(combos[0], scenarios)]);
+        }
+      }
+    }
+
+    return equities.sort((a, b) => b[1] - a[1]);
+  }
+
+  /**
+   * Build the table from the precomputed equities
+   */
+  private static buildTable(): StartingHand[] {
+    const hands = STARTING_HAND_EQUITIES.map(([name, equity]): StartingHand => {
+      const high = RANK_CHARS.indexOf(name[0]);
+      const low = RANK_CHARS.indexOf(name[1]);
+      const suited = name[2] === 's';
+
+      return {
+        name,
+        highRank: high,
+        lowRank: low,
+        suited,
+        pair: high === low,
+        combos: this.getCombos(high, low, suited),
+        equity,
+        rank: 0,
+        percentile: 0,
+      };
+    });
+
+    let cumulative = 0;
+    hands.forEach((hand, i) => {
+      cumulative += hand.combos.length;
+      hand.rank = i + 1;
+      hand.percentile = (cumulative / STARTING_HAND_COMBOS) * 100;
+    });
+
+    return hands;
+  }
+
+  /**
+   * Sample opponent hands with boards, evaluated once for every starting hand.
+   * Sharing the samples keeps sampling noise from reordering close hands.
+   */
+  private static buildScenarios(): { cards: number[]; board: number[]; opponent: number }[] {
+    const random = createSeededRandom(TABLE_SEED);
+    const deck = Array.from({ length: DECK_SIZE }, (_, card) => card);
+    const scenarios: { cards: number[]; board: number[]; opponent: number }[] = [];
+
+    for (let n = 0; n < TABLE_SCENARIOS; n++) {
+      for (let i = 0; i < 7; i++) {
+        const j = i + Math.floor(random() * (DECK_SIZE - i));
+        [deck[i], deck[j]] = [deck[j], deck[i]];
+      }
+      const cards = deck.slice(0, 7);
+      scenarios.push({ cards, board: cards.slice(2), opponent: LookupEvaluator.evaluate(cards) });
+    }
+
+    return scenarios;
+  }
+
+  /**
+   * Equity (%) of hole cards over the scenarios that do not use them
+   */
+  private static getEquity(
+    holeCards: number[],
+    scenarios: { cards: number[]; board: number[]; opponent: number }[]
+  ): number {
+    let share = 0;
+    let count = 0;
+
+    for (const scenario of scenarios) {
+      if (scenario.cards.includes(holeCards[0]) || scenario.cards.includes(holeCards[1])) continue;
+
+      const value = LookupEvaluator.evaluate(holeCards.concat(scenario.board));
+      share += value > scenario.opponent ? 1 : value === scenario.opponent ? 0.5 : 0;
+      count++;
+    }
+
+    return (share / count) * 100;
+  }
+
+  /**
+   * All combos of a starting hand class
+   */
+  private static getCombos(high: number, low: number, suited: boolean): number[][] {
+    const combos: number[][] = [];
+
+    for (let suit1 = 0; suit1 < 4; suit1++) {
+      for (let suit2 = 0; suit2 < 4; suit2++) {
+        if (high === low && suit2 <= suit1) continue;
+        if (high !== low && (suit1 === suit2) !== suited) continue;
+        combos.push([suit1 * 13 + high, suit2 * 13 + low]);
+      }
+    }
+
+    return combos;
+  }
+}
+
+/**
+ * Preflop Strategy
+ * Position-aware charts built on the starting hand table
+ */
+export class PreflopStrategy {
+  /**
+   * Get positions for a table size, in preflop action order
+   * 
+   * @param playerCount - Players at the table (2-6)
+   * @returns Positions
+   */
+  static getPositions(playerCount: number): PreflopPosition[] {
+    this.validatePlayerCount(playerCount);
+    if (playerCount === 2) return ['BTN', 'BB'];
+    return [...EARLY_POSITIONS[playerCount], 'BTN', 'SB', 'BB'];
+  }
+
+  /**
+   * Get the position for a seat relative to the dealer
+   * 
+   * @param relativePosition - Seats after the dealer (0 = dealer)
+   * @param playerCount - Players at the table (2-6)
+   * @returns Position
+   */
+  static getPosition(relativePosition: number, playerCount: number): PreflopPosition {
+    this.validatePlayerCount(playerCount);
+    const relative = ((relativePosition % playerCount) + playerCount) % playerCount;
+
+    if (relative === 0) return 'BTN';
+    if (playerCount === 2) return 'BB';
+    if (relative === 1) return 'SB';
+    if (relative === 2) return 'BB';
+    return EARLY_POSITIONS[playerCount][relative - 3];
+  }
+
+  /**
+   * Convert a PlayerStateManager.getPlayerPosition name to a chart position
+   * 
+   * @param positionName - "Dealer", "Dealer (Small Blind)", "Small Blind", "Big Blind", "Cutoff" or "Position N"
+   * @param playerCount - Players at the table (2-6)
+   * @returns Position, or null if unknown
+   */
+  static fromPositionName(positionName: string, playerCount: number): PreflopPosition | null {
+    // Heads-up the dealer is the small blind and the other seat the big blind
+    const headsUp = playerCount === 2;
+    const relative: Record<string, number> = {
+      'Dealer': 0,
+      'Dealer (Small Blind)': 0,
+      'Small Blind': headsUp ? 0 : 1,
+      'Big Blind': headsUp ? 1 : 2,
+      'Cutoff': playerCount - 1,
+    };
+
+    const match = positionName.match(/^Position (\d+)$/);
+    const index = match ? Number(match[1]) : relative[positionName];
+    if (index === undefined || playerCount < MIN_PLAYERS || playerCount > MAX_PLAYERS) {
+      return null;
+    }
+
+    return this.getPosition(index, playerCount);
+  }
+
+  /**
+   * Get the chart action for a hand
+   * 
+   * @param handName - Starting hand name (e.g. "AKs")
+   * @param position - Player position
+   * @param playerCount - Players at the table (2-6)
+   * @param facingRaise - Whether someone has already raised (picks the
+   *   facing-a-raise chart instead of the opening chart)
+   * @returns Chart action
+   */
+  static getAction(
+    handName: string,
+    position: PreflopPosition,
+    playerCount: number,
+    facingRaise = false
+  ): ChartAction {
+    const hand = StartingHandTable.getHand(handName);
+    if (!hand) {
+      throw new Error(`Unknown starting hand: ${handName}`);
+    }
+
+    if (facingRaise) {
+      const widths = this.getFacingRaiseWidths(position, playerCount);
+      if (hand.percentile <= widths.threeBet) return 'three-bet';
+      if (hand.percentile <= widths.threeBet + widths.call) return 'call';
+      return 'fold';
+    }
+
+    if (hand.percentile <= this.getOpeningWidth(position, playerCount)) return 'raise';
+    return position === 'BB' ? 'check' : 'fold';
+  }
+
+  /**
+   * Get the full chart for a position
+   * 
+   * @param position - Player position
+   * @param playerCount - Players at the table (2-6)
+   * @param facingRaise - Whether someone has already raised
+   * @returns Chart action by hand name
+   */
+  static getChart(
+    position: PreflopPosition,
+    playerCount: number,
+    facingRaise = false
+  ): Record<string, ChartAction> {
+    const chart: Record<string, ChartAction> = {};
+    for (const hand of StartingHandTable.getHands()) {
+      chart[hand.name] = this.getAction(hand.name, position, playerCount, facingRaise);
+    }
+    return chart;
+  }
+
+  /**
+   * Opening width for a position and table size
+   */
+  private static getOpeningWidth(position: PreflopPosition, playerCount: number): number {
+    this.validatePosition(position, playerCount);
+    return (playerCount === 2 ? HEADS_UP_OPENING_WIDTHS[position] : undefined) ?? OPENING_WIDTHS[position];
+  }
+
+  /**
+   * Widths facing a raise for a position and table size
+   */
+  private static getFacingRaiseWidths(position: PreflopPosition, playerCount: number): FacingRaiseWidths {
+    this.validatePosition(position, playerCount);
+    return (playerCount === 2 && HEADS_UP_FACING_RAISE_WIDTHS[position]) || FACING_RAISE_WIDTHS[position];
+  }
+
+  /**
+   * Check the position exists at the table size
+   */
+  private static validatePosition(position: PreflopPosition, playerCount: number): void {
+    if (!this.getPositions(playerCount).includes(position)) {
+      throw new Error(`No ${position} at a ${playerCount}-handed table`);
+    }
+  }
+
+  /**
+   * Check the table size is supported
+   */
+  private static validatePlayerCount(playerCount: number): void {
+    if (playerCount < MIN_PLAYERS || playerCount > MAX_PLAYERS) {
+      throw new Error(`Player count must be ${MIN_PLAYERS}-${MAX_PLAYERS}`);
+    }
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * Arcium Poker - Hand Ranges
+ *
+ * Parses standard range notation ("AKs, QQ+, A2s-A5s, 76o, AhKh:0.5") into
+ * weighted hole-card combos using DeckManager card indices (suit * 13 + rank).
+ */
+
+import { EquityCalculator, EquityResult } from './equity';
+
+/**
+ * A hole-card combo with its weight (0-1)
+ */
+export interface WeightedCombo {
+  cards: [number, number];
+  weight: number;
+}
+
+/**
+ * Range-vs-range equity options
+ */
+export interface RangeEquityOptions {
+  communityCards?: number[];
+  deadCards?: number[];
+  iterations?: number;
+  seed?: number;
+}
+
+/**
+ * Rank characters in index order (0 = two, 12 = ace)
+ */
+const RANK_CHARS = '23456789TJQKA';
+
+/**
+ * Suit characters in index order (hearts, diamonds, clubs, spades)
+ */
+const SUIT_CHARS = 'hdcs';
+
+/**
+ * Rank index for a rank character (-1 if invalid)
+ */
+const rankOf = (char: string): number => RANK_CHARS.indexOf(char.toUpperCase());
+
+/**
+ * Hand Range
+ * Parses and manipulates opponent ranges
+ */
+export class HandRange {
+  /**
+   * Parse range notation into weighted combos
+   * 
+   * Tokens are comma or space separated. Each token may end in ":weight"
+   * (0-1); a combo listed twice keeps its last weight.
+   * 
+   * @param notation - Range notation (e.g. "QQ+, AKs, A2s-A5s, 76o")
+   * @returns Weighted combos
+   */
+  static parse(notation: string): WeightedCombo[] {
+    const combos = new Map<string, WeightedCombo>();
+
+    for (const token of notation.split(/[\s,]+/).filter(Boolean)) {
+      const [hand, weightText] = token.split(':');
+      const weight = weightText === undefined ? 1 : Number(weightText);
+
+      if (!Number.isFinite(weight) || weight < 0 || weight > 1) {
+        throw new Error(`Invalid range weight: ${token}`);
+      }
+
+      for (const cards of this.parseToken(hand)) {
+        const sorted: [number, number] = cards[0] < cards[1] ? cards : [cards[1], cards[0]];
+        combos.set(sorted.join('-'), { cards: sorted, weight });
+      }
+    }
+
+    return [...combos.values()].filter(combo => combo.weight > 0);
+  }
+
+  /**
+   * Remove combos that use any of the given cards (board, known hands)
+   * 
+   * @param range - Weighted combos
+   * @param cards - Card indices no longer in the deck
+   * @returns Remaining combos
+   */
+  static removeCards(range: WeightedCombo[], cards: number[]): WeightedCombo[] {
+    const dead = new Set(cards);
+    return range.filter(combo => !combo.cards.some(card => dead.has(card)));
+  }
+
+  /**
+   * Count combos, counting each by its weight
+   * 
+   * @param range - Weighted combos
+   * @returns Weighted combo count
+   */
+  static countCombos(range: WeightedCombo[]): number {
+    return range.reduce((sum, combo) => sum + combo.weight, 0);
+  }
+
+  /**
+   * Calculate equity for each range against the others
+   * 
+   * @param ranges - One range per seat
+   * @param options - Board, dead cards and sampling options
+   * @returns Equity per seat
+   */
+  static calculateEquity(ranges: WeightedCombo[][], options: RangeEquityOptions = {}): EquityResult {
+    return EquityCalculator.calculate({
+      holeCards: ranges.map(() => null),
+      ranges: ranges.map(range => range.map(combo => combo.cards)),
+      rangeWeights: ranges.map(range => range.map(combo => combo.weight)),
+      ...options,
+    });
+  }
+
+  /**
+   * Expand one token (without weight) into combos
+   */
+  private static parseToken(token: string): [number, number][] {
+    let match: RegExpMatchArray | null;
+
+    // Specific combo: AhKh
+    if ((match = token.match(/^([2-9TJQKA])([hdcs])([2-9TJQKA])([hdcs])$/i))) {
+      const card1 = this.cardIndex(match[1], match[2]);
+      const card2 = this.cardIndex(match[3], match[4]);
+      if (card1 === card2) throw new Error(`Invalid range token: ${token}`);
+      return [[card1, card2]];
+    }
+
+    // Pairs: QQ, QQ+, 22-55
+    if ((match = token.match(/^([2-9TJQKA])\1(\+)?$/i))) {
+      const rank = rankOf(match[1]);
+      return this.rankSpan(rank, match[2] ? 12 : rank).flatMap(r => this.pairCombos(r));
+    }
+    if ((match = token.match(/^([2-9TJQKA])\1-([2-9TJQKA])\2$/i))) {
+      const [from, to] = [rankOf(match[1]), rankOf(match[2])];
+      return this.rankSpan(Math.min(from, to), Math.max(from, to)).flatMap(r => this.pairCombos(r));
+    }
+
+    // Non-pairs: AKs, AKo, AK, A2s+, A2s-A5s
+    if ((match = token.match(/^([2-9TJQKA])([2-9TJQKA])([so])?(\+)?$/i))) {
+      const [high, low] = this.orderRanks(match[1], match[2], token);
+      const kickers = match[4] ? this.rankSpan(low, high - 1) : [low];
+      return kickers.flatMap(kicker => this.nonPairCombos(high, kicker, match![3]));
+    }
+    if ((match = token.match(/^([2-9TJQKA])([2-9TJQKA])([so])?-([2-9TJQKA])([2-9TJQKA])([so])?$/i))) {
+      const [high, low1] = this.orderRanks(match[1], match[2], token);
+      const [high2, low2] = this.orderRanks(match[4], match[5], token);
+      if (high !== high2 || (match[3] ?? '').toLowerCase() !== (match[6] ?? '').toLowerCase()) {
+        throw new Error(`Invalid range token: ${token}`);
+      }
+      return this.rankSpan(Math.min(low1, low2), Math.max(low1, low2))
+        .flatMap(kicker => this.nonPairCombos(high, kicker, match![3]));
+    }
+
+    throw new Error(`Invalid range token: ${token}`);
+  }
+
+  /**
+   * Card index from rank and suit characters
+   */
+  private static cardIndex(rank: string, suit: string): number {
+    return SUIT_CHARS.indexOf(suit.toLowerCase()) * 13 + rankOf(rank);
+  }
+
+  /**
+   * Order two distinct rank characters high to low
+   */
+  private static orderRanks(rank1: string, rank2: string, token: string): [number, number] {
+    const [a, b] = [rankOf(rank1), rankOf(rank2)];
+    if (a === b) throw new Error(`Invalid range token: ${token}`);
+    return a > b ? [a, b] : [b, a];
+  }
+
+  /**
+   * Rank indices from low to high inclusive
+   */
+  private static rankSpan(low: number, high: number): number[] {
+    const ranks: number[] = [];
+    for (let rank = low; rank <= high; rank++) ranks.push(rank);
+    return ranks;
+  }
+
+  /**
+   * The 6 combos of a pocket pair
+   */
+  private static pairCombos(rank: number): [number, number][] {
+    const combos: [number, number][] = [];
+    for (let suit1 = 0; suit1 < 4; suit1++) {
+      for (let suit2 = suit1 + 1; suit2 < 4; suit2++) {
+        combos.push([suit1 * 13 + rank, suit2 * 13 + rank]);
+      }
+    }
+    return combos;
+  }
+
+  /**
+   * The 4 suited and/or 12 offsuit combos of two ranks
+   */
+  private static nonPairCombos(high: number, low: number, suitedness?: string): [number, number][] {
+    const combos: [number, number][] = [];
+    const kind = suitedness?.toLowerCase();
+
+    for (let suit1 = 0; suit1 < 4; suit1++) {
+      for (let suit2 = 0; suit2 < 4; suit2++) {
+        const suited = suit1 === suit2;
+        if ((kind === 's' && !suited) || (kind === 'o' && suited)) continue;
+        combos.push([suit1 * 13 + high, suit2 * 13 + low]);
+      }
+    }
+
+    return combos;
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * Arcium Poker - Starting Hand Equities
+ *
+ * Equity (%) of each of the 169 starting hands against one random hand,
+ * strongest first. Generated by StartingHandTable.computeEquities() and
+ * checked against it in the preflop tests; building the table at runtime
+ * would block the UI for seconds.
+ */
+
+export const STARTING_HAND_EQUITIES: [string, number][] = [
+  ['AA', 86.446], ['KK', 84.067], ['QQ', 80.830], ['JJ', 78.895], ['TT', 75.260], ['99', 72.141],
+  ['88', 70.125], ['AQs', 67.699], ['AKs', 67.401], ['77', 67.075], ['AKo', 65.969], ['AJs', 65.917],
+  ['AQo', 65.482], ['KQs', 64.811], ['AJo', 63.979], ['KJs', 63.604], ['ATs', 63.219], ['66', 62.934],
+  ['KQo', 62.715], ['KJo', 62.319], ['A9s', 62.312], ['QJs', 62.154], ['A8s', 62.049], ['KTs', 61.430],
+  ['ATo', 61.262], ['A7s', 61.088], ['55', 60.709], ['A9o', 60.273], ['KTo', 59.847], ['K9s', 59.667],
+  ['A5s', 59.554], ['QJo', 59.470], ['A6s', 59.401], ['A8o', 59.216], ['A4s', 58.998], ['QTs', 58.749],
+  ['A7o', 58.686], ['K8s', 58.679], ['A3s', 58.435], ['K9o', 58.220], ['44', 57.975], ['K7s', 57.934],
+  ['Q9s', 57.692], ['A6o', 57.555], ['A2s', 57.456], ['A5o', 57.358], ['K6s', 57.352], ['JTs', 57.216],
+  ['A4o', 56.991], ['Q8s', 56.944], ['QTo', 56.824], ['K5s', 56.131], ['K7o', 55.929], ['A3o', 55.691],
+  ['Q9o', 55.524], ['Q7s', 55.248], ['J9s', 55.163], ['K8o', 55.134], ['K4s', 55.121], ['JTo', 54.965],
+  ['K6o', 54.946], ['J8s', 54.936], ['A2o', 54.876], ['Q6s', 54.768], ['K3s', 54.096], ['K5o', 53.972],
+  ['Q5s', 53.875], ['33', 53.859], ['K2s', 53.647], ['Q8o', 53.646], ['J9o', 52.862], ['J7s', 52.849],
+  ['K4o', 52.770], ['Q4s', 52.699], ['Q7o', 52.296], ['Q3s', 52.107], ['K3o', 51.771], ['T9s', 51.600],
+  ['Q6o', 51.524], ['J5s', 51.522], ['K2o', 51.442], ['J8o', 51.304], ['T8s', 51.259], ['Q5o', 51.214],
+  ['J6s', 51.171], ['Q2s', 51.110], ['22', 50.255], ['Q4o', 49.853], ['98s', 49.694], ['T9o', 49.628],
+  ['J7o', 49.574], ['J4s', 49.512], ['Q3o', 49.085], ['T7s', 48.851], ['T6s', 48.241], ['J6o', 48.232],
+  ['J5o', 48.152], ['Q2o', 48.045], ['J3s', 47.956], ['J2s', 47.640], ['T8o', 47.592], ['97s', 47.369],
+  ['J4o', 46.894], ['87s', 46.888], ['86s', 46.483], ['T5s', 46.446], ['T7o', 46.210], ['96s', 45.985],
+  ['98o', 45.809], ['T6o', 45.632], ['85s', 45.390], ['J2o', 45.007], ['J3o', 44.980], ['95s', 44.781],
+  ['T4s', 44.757], ['T3s', 44.639], ['76s', 44.567], ['97o', 44.306], ['T5o', 43.914], ['T2s', 43.512],
+  ['87o', 43.464], ['96o', 43.311], ['75s', 43.223], ['86o', 42.905], ['84s', 42.830], ['65s', 42.684],
+  ['T4o', 42.489], ['94s', 42.311], ['93s', 42.290], ['95o', 42.010], ['83s', 41.829], ['T3o', 41.682],
+  ['76o', 41.592], ['85o', 41.527], ['92s', 41.213], ['82s', 40.783], ['T2o', 40.761], ['54s', 40.712],
+  ['53s', 40.372], ['64s', 40.278], ['73s', 39.888], ['75o', 39.543], ['65o', 39.503], ['74s', 39.363],
+  ['94o', 39.291], ['93o', 39.212], ['63s', 39.209], ['84o', 38.825], ['92o', 38.176], ['43s', 38.007],
+  ['54o', 37.976], ['83o', 37.894], ['52s', 37.598], ['72s', 37.203], ['64o', 37.124], ['82o', 36.858],
+  ['53o', 36.756], ['63o', 36.561], ['62s', 36.301], ['74o', 36.250], ['73o', 36.248], ['32s', 35.588],
+  ['42s', 35.526], ['43o', 34.953], ['52o', 34.439], ['72o', 33.709], ['62o', 33.253], ['42o', 32.722],
+  ['32o', 32.606],
+];
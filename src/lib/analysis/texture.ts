@@ -0,0 +1,196 @@
+/**
+ * Arcium Poker - Board Texture
+ *
+ * Classifies revealed community cards (paired, monotone, two-tone, rainbow,
+ * connected, high/low, wet/dry) with a numeric texture score.
+ */
+
+import { DECK_SIZE, FLOP_CARDS_COUNT, COMMUNITY_CARDS_COUNT } from '../shared/constants';
+
+/**
+ * Suit distribution of the board (monotone: three or more of one suit)
+ */
+export type BoardSuitedness = 'monotone' | 'two-tone' | 'rainbow';
+
+/**
+ * Board height by its top cards
+ */
+export type BoardHeight = 'high' | 'middle' | 'low';
+
+/**
+ * Overall wetness bucket
+ */
+export type BoardWetness = 'dry' | 'neutral' | 'wet';
+
+/**
+ * Board texture
+ */
+export interface BoardTextureResult {
+  paired: boolean;
+  trips: boolean; // Three or more of one rank
+  suitedness: BoardSuitedness;
+  flushPossible: boolean; // Three or more of one suit
+  connected: boolean; // Three or more ranks within a straight window
+  straightPossible: boolean;
+  height: BoardHeight;
+  wetness: BoardWetness;
+  score: number; // 0 (driest) to 100 (wettest)
+  labels: string[]; // Display labels, e.g. ["Two-Tone", "Connected", "High"]
+}
+
+/**
+ * Five-rank straight windows, wheel first (rank indices, 12 = ace)
+ */
+const STRAIGHT_WINDOWS: number[][] = [
+  [12, 0, 1, 2, 3],
+  ...Array.from({ length: 9 }, (_, low) => [low, low + 1, low + 2, low + 3, low + 4]),
+];
+
+/**
+ * Rank index of a ten (broadway starts here)
+ */
+const TEN_RANK = 8;
+
+/**
+ * Rank index of an eight (highest card on a low board)
+ */
+const EIGHT_RANK = 6;
+
+/**
+ * Board Texture
+ * Buckets boards for display and hand-history analytics
+ */
+export class BoardTexture {
+  /**
+   * Classify a flop, turn or river board
+   * 
+   * @param cards - Revealed community card indices (3-5)
+   * @returns Board texture
+   */
+  static classify(cards: number[]): BoardTextureResult {
+    if (cards.length < FLOP_CARDS_COUNT || cards.length > COMMUNITY_CARDS_COUNT) {
+      throw new Error('Board texture needs 3-5 community cards');
+    }
+    for (const card of cards) {
+      if (!Number.isInteger(card) || card < 0 || card >= DECK_SIZE) {
+        throw new Error(`Invalid card index: ${card}`);
+      }
+    }
+
+    const ranks = cards.map(card => card % 13);
+    const rankCounts = this.countBy(ranks);
+    const suitCounts = this.countBy(cards.map(card => Math.floor(card / 13)));
+    const maxRank = Math.max(...rankCounts.values());
+    const maxSuit = Math.max(...suitCounts.values());
+
+    const distinct = new Set(ranks);
+    const maxInWindow = Math.max(
+      ...STRAIGHT_WINDOWS.map(window => window.filter(rank => distinct.has(rank)).length)
+    );
+
+    const paired = maxRank >= 2;
+    const suitedness: BoardSuitedness =
+      maxSuit >= 3 ? 'monotone' : maxSuit === 2 ? 'two-tone' : 'rainbow';
+    const connected = maxInWindow >= 3;
+
+    const score = this.getScore(maxSuit, maxInWindow, paired, cards.length);
+
+    const result: BoardTextureResult = {
+      paired,
+      trips: maxRank >= 3,
+      suitedness,
+      flushPossible: maxSuit >= 3,
+      connected,
+      straightPossible: connected,
+      height: this.getHeight(ranks),
+      wetness: score >= 50 ? 'wet' : score <= 20 ? 'dry' : 'neutral',
+      score,
+      labels: [],
+    };
+    result.labels = this.getLabels(result);
+
+    return result;
+  }
+
+  /**
+   * Stable bucket key for grouping hands by board texture
+   * 
+   * @param cards - Revealed community card indices (3-5)
+   * @returns Bucket key, e.g. "two-tone:unpaired:connected:high"
+   */
+  static getBucket(cards: number[]): string {
+    const texture = this.classify(cards);
+    return [
+      texture.suitedness,
+      texture.paired ? 'paired' : 'unpaired',
+      texture.connected ? 'connected' : 'disconnected',
+      texture.height,
+    ].join(':');
+  }
+
+  /**
+   * Texture score: flush and straight potential raise it, pairs lower it
+   */
+  private static getScore(
+    maxSuit: number,
+    maxInWindow: number,
+    paired: boolean,
+    cardCount: number
+  ): number {
+    let score = 0;
+
+    // A two-tone river can no longer make a flush
+    if (maxSuit >= 3) score += 40;
+    else if (maxSuit === 2 && cardCount < COMMUNITY_CARDS_COUNT) score += 20;
+
+    if (maxInWindow >= 4) score += 45;
+    else if (maxInWindow === 3) score += 35;
+    else if (maxInWindow === 2) score += 15;
+
+    if (paired) score -= 10;
+
+    return Math.max(0, Math.min(100, score));
+  }
+
+  /**
+   * Board height from the two highest ranks
+   */
+  private static getHeight(ranks: number[]): BoardHeight {
+    const sorted = [...ranks].sort((a, b) => b - a);
+    if (sorted[0] <= EIGHT_RANK) return 'low';
+    if (sorted[1] >= TEN_RANK) return 'high';
+    return 'middle';
+  }
+
+  /**
+   * Display labels for a texture
+   */
+  private static getLabels(texture: BoardTextureResult): string[] {
+    const labels: string[] = [];
+
+    if (texture.trips) labels.push('Trips');
+    else if (texture.paired) labels.push('Paired');
+
+    labels.push(
+      texture.suitedness === 'monotone' ? 'Monotone' :
+      texture.suitedness === 'two-tone' ? 'Two-Tone' : 'Rainbow'
+    );
+
+    if (texture.connected) labels.push('Connected');
+    labels.push(texture.height === 'high' ? 'High' : texture.height === 'low' ? 'Low' : 'Middle');
+    labels.push(texture.wetness === 'wet' ? 'Wet' : texture.wetness === 'dry' ? 'Dry' : 'Neutral');
+
+    return labels;
+  }
+
+  /**
+   * Count occurrences of each value
+   */
+  private static countBy(values: number[]): Map<number, number> {
+    const counts = new Map<number, number>();
+    for (const value of values) {
+      counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+    return counts;
+  }
+}
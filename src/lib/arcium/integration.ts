@@ -8,7 +8,9 @@
 import { MPCShuffle } from './mpc-shuffle';
 import { MPCDeal } from './mpc-deal';
 import { MPCReveal } from './mpc-reveal';
-import { Card } from '../cards/deck';
+import { Card, DeckManager } from '../cards/deck';
+import { GameLogic } from '../game/logic';
+import { Game } from '../shared/types';
 
 /**
  * Arcium MPC Integration
@@ -31,30 +33,39 @@ export class ArciumMPC {
    * 
    * @param sessionId - MPC session ID
    * @param playerCount - Number of players
+   * @param game - Game account (the variant sets the deck and hole cards per player)
    * @returns Success status
    */
   static async shuffleAndDeal(
     sessionId: Uint8Array,
-    playerCount: number
+    playerCount: number,
+    game: Game
   ): Promise<boolean> {
     try {
-      // Shuffle deck
-      const shuffleResult = await MPCShuffle.shuffleDeck(sessionId, []);
+      // Shuffle the variant's deck (36 cards for short deck)
+      const deck = DeckManager.createDeck(GameLogic.isShortDeck(game));
+      const shuffleResult = await MPCShuffle.shuffleDeck(sessionId, deck);
       if (!shuffleResult.success) return false;
 
       // Verify shuffle
       const verified = await MPCShuffle.verifyShuffle(
         sessionId,
-        shuffleResult.encryptedDeck
+        shuffleResult.encryptedDeck,
+        shuffleResult.commitmentHash
       );
       if (!verified) return false;
 
       // Deal to players
-      const dealResult = await MPCDeal.dealToPlayers(sessionId, playerCount, 2);
+      const dealResult = await MPCDeal.dealToPlayers(
+        sessionId,
+        shuffleResult.encryptedDeck,
+        playerCount,
+        GameLogic.getHoleCardCount(game)
+      );
       if (!dealResult.success) return false;
 
       // Deal community cards
-      await MPCDeal.dealCommunityCards(sessionId, 5);
+      await MPCDeal.dealCommunityCards(sessionId, shuffleResult.encryptedDeck, 5);
 
       return true;
     } catch (error) {
@@ -68,11 +79,13 @@ export class ArciumMPC {
    * 
    * @param sessionId - MPC session ID
    * @param playerIndices - Indices of players to reveal
+   * @param game - Game account (the variant sets the hole cards per player)
    * @returns Revealed cards for each player
    */
   static async revealShowdown(
     sessionId: Uint8Array,
-    playerIndices: number[]
+    playerIndices: number[],
+    game: Game
   ): Promise<Map<number, Card[]>> {
     const reveals = new Map<number, Card[]>();
 
@@ -80,7 +93,7 @@ export class ArciumMPC {
       const cards = await MPCReveal.revealHoleCards(
         sessionId,
         playerIndex,
-        new Uint8Array(2)
+        new Uint8Array(GameLogic.getHoleCardCount(game))
       );
       reveals.set(playerIndex, cards);
     }
@@ -17,6 +17,7 @@
 
 import { MPCShuffle } from './mpc-shuffle';
 import { Card } from '../cards/deck';
+import { HOLE_CARDS_COUNT } from '../shared/constants';
 
 /**
  * MPC Deal Result
@@ -46,7 +47,7 @@ export class MPCDeal {
   /**
    * Deal encrypted hole cards to players
    * 
-   * Deals 2 cards to each player from the encrypted deck.
+   * Deals 2 cards (4 in Omaha) to each player from the encrypted deck.
    * Cards remain encrypted and are only revealed at showdown.
    * 
    * @param sessionId - MPC session ID
@@ -59,7 +60,7 @@ export class MPCDeal {
     sessionId: Uint8Array,
     encryptedDeck: Uint8Array,
     playerCount: number,
-    cardsPerPlayer: number = 2
+    cardsPerPlayer: number = HOLE_CARDS_COUNT
   ): Promise<MPCDealResult> {
     console.log(`🃏 Dealing ${cardsPerPlayer} encrypted cards to ${playerCount} players via MPC...`);
     
@@ -91,7 +92,7 @@ export class MPCDeal {
     // Update deck position
     this.deckPosition.set(sessionKey, position);
     
-    console.log(`✅ Dealt ${playerCount * cardsPerPlayer} encrypted cards. Deck position: ${position}/52`);
+    console.log(`✅ Dealt ${playerCount * cardsPerPlayer} encrypted cards. Deck position: ${position}/${encryptedDeck.length}`);
     
     return {
       encryptedCards,
@@ -145,7 +146,7 @@ export class MPCDeal {
     // Update deck position
     this.deckPosition.set(sessionKey, position);
     
-    console.log(`✅ Dealt ${count} community cards. Deck position: ${position}/52`);
+    console.log(`✅ Dealt ${count} community cards. Deck position: ${position}/${encryptedDeck.length}`);
     
     return {
       encryptedCards: communityCards,
@@ -17,6 +17,7 @@
 
 import { Connection, PublicKey, Transaction } from '@solana/web3.js';
 import { Card, DeckManager } from '../cards/deck';
+import { DECK_SIZE, SHORT_DECK_SIZE } from '../shared/constants';
 import crypto from 'crypto';
 
 /**
@@ -120,7 +121,7 @@ export class MPCShuffle {
    * - Result is deterministic given the inputs
    * 
    * @param sessionId - Shuffle session ID
-   * @param deck - Deck to shuffle (52 cards)
+   * @param deck - Deck to shuffle (52 cards, or 36 for short deck)
    * @returns Encrypted shuffled deck
    */
   static async shuffleDeck(
@@ -196,7 +197,7 @@ export class MPCShuffle {
     }
     
     // Verify deck size
-    if (encryptedDeck.length !== 52) {
+    if (encryptedDeck.length !== DECK_SIZE && encryptedDeck.length !== SHORT_DECK_SIZE) {
       console.error('❌ Shuffle verification failed: invalid deck size');
       return false;
     }
@@ -259,7 +260,7 @@ export class MPCShuffle {
    * In production, this would use Arcium's encryption scheme.
    */
   private static encryptDeck(deck: Card[], sessionId: Uint8Array): Uint8Array {
-    const encrypted = new Uint8Array(52);
+    const encrypted = new Uint8Array(deck.length);
     
     for (let i = 0; i < deck.length; i++) {
       const cardValue = DeckManager.encodeCard(deck[i]);
@@ -5,7 +5,7 @@
  */
 
 import BN from 'bn.js';
-import { Game, PlayerState } from '../shared/types';
+import { Game, PlayerState, BettingStructure } from '../shared/types';
 import { GameLogic } from '../game/logic';
 
 /**
@@ -37,7 +37,7 @@ export class BettingInstruction {
       actions.push('raise');
     }
 
-    if (playerState.chipStack.gt(new BN(0))) {
+    if (playerState.chipStack.gt(new BN(0)) && GameLogic.validateAllInAmount(game, playerState).valid) {
       actions.push('all-in');
     }
 
@@ -46,11 +46,32 @@ export class BettingInstruction {
 
   /**
    * Get suggested bet amounts
+   * With no bet: bet sizes as fractions of the pot. Facing a bet: totals
+   * to raise to, from the minimum raise up to a pot-sized raise. Sizes
+   * are kept within what the betting structure allows (a single size in
+   * fixed-limit).
    */
   static getSuggestedBets(game: Game, playerState: PlayerState): BN[] {
     const suggestions: BN[] = [];
     const pot = game.pot;
 
+    if (game.currentBet.gt(new BN(0))) {
+      if (!GameLogic.canRaise(game, playerState)) return [];
+
+      const minRaise = GameLogic.getMinimumRaise(game);
+      const maxRaise = GameLogic.getMaximumRaise(game, playerState);
+      // Pot after calling, which a pot-sized raise adds on top of the call
+      const potAfterCall = pot.add(GameLogic.getCallAmount(game, playerState));
+
+      suggestions.push(minRaise);
+      // 1/2 pot raise
+      suggestions.push(game.currentBet.add(potAfterCall.div(new BN(2))));
+      // Pot-sized raise
+      suggestions.push(game.currentBet.add(potAfterCall));
+
+      return this.uniqueInRange(suggestions, minRaise, maxRaise);
+    }
+
     // 1/3 pot
     suggestions.push(pot.div(new BN(3)));
     // 1/2 pot
@@ -60,7 +81,26 @@ export class BettingInstruction {
     // Full pot
     suggestions.push(pot);
 
-    // Filter by player's chip stack
-    return suggestions.filter(amount => amount.lte(playerState.chipStack));
+    // Fixed-limit bets come in one size
+    if (GameLogic.getBettingStructure(game) === BettingStructure.FixedLimit) {
+      suggestions.push(GameLogic.getMinimumBet(game));
+    }
+
+    // Filter by the betting structure and the player's chip stack
+    return this.uniqueInRange(
+      suggestions,
+      GameLogic.getMinimumBet(game),
+      GameLogic.getMaximumBet(game, playerState)
+    );
+  }
+
+  /**
+   * Keep amounts within [min, max], without duplicates, smallest first
+   */
+  private static uniqueInRange(amounts: BN[], min: BN, max: BN): BN[] {
+    return amounts
+      .filter(amount => amount.gte(min) && amount.lte(max))
+      .sort((a, b) => a.cmp(b))
+      .filter((amount, i, sorted) => i === 0 || !amount.eq(sorted[i - 1]));
   }
 }
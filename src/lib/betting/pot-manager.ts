@@ -5,7 +5,8 @@
  */
 
 import BN from 'bn.js';
-import { PlayerState } from '../shared/types';
+import { AnteType, Game, PlayerState } from '../shared/types';
+import { GameLogic } from '../game/logic';
 
 /**
  * Side pot information
@@ -16,6 +17,16 @@ export interface SidePot {
   capAmount: BN; // Max bet amount for this pot
 }
 
+/**
+ * Chips a player must put in before the cards are dealt
+ */
+export interface ForcedBet {
+  seat: number;
+  kind: 'ante' | 'smallBlind' | 'bigBlind' | 'straddle';
+  amount: BN;
+  live: boolean; // Live bets count toward the player's current bet; antes are dead
+}
+
 /**
  * Pot distribution result
  */
@@ -88,6 +99,99 @@ export class PotManager {
     };
   }
 
+  /**
+   * Calculate the pots contested at showdown
+   *
+   * Unlike calculatePots, every player's chips count toward the pots,
+   * folded players included, but only players still in the hand are
+   * eligible to win them. Chips a folded player put in above the largest
+   * remaining stake go to the last pot.
+   *
+   * @param playerStates - All player states of the hand
+   * @returns Pots, main pot first
+   */
+  static calculateShowdownPots(playerStates: PlayerState[]): SidePot[] {
+    const caps = [...new Set(
+      playerStates
+        .filter(ps => !ps.hasFolded && ps.totalBetThisHand.gt(new BN(0)))
+        .map(ps => ps.totalBetThisHand.toString())
+    )]
+      .map(cap => new BN(cap))
+      .sort((a, b) => a.cmp(b));
+
+    const pots: SidePot[] = [];
+    let previousCap = new BN(0);
+
+    for (const cap of caps) {
+      // Each player's chips between the previous cap and this one
+      const amount = playerStates.reduce(
+        (sum, ps) => sum.add(BN.min(ps.totalBetThisHand, cap).sub(BN.min(ps.totalBetThisHand, previousCap))),
+        new BN(0)
+      );
+      const eligiblePlayers = playerStates
+        .filter(ps => !ps.hasFolded && ps.totalBetThisHand.gte(cap))
+        .map(ps => ps.seatIndex);
+
+      pots.push({ amount, eligiblePlayers, capAmount: cap });
+      previousCap = cap;
+    }
+
+    if (pots.length > 0) {
+      const excess = playerStates.reduce(
+        (sum, ps) => ps.totalBetThisHand.gt(previousCap) ? sum.add(ps.totalBetThisHand.sub(previousCap)) : sum,
+        new BN(0)
+      );
+      const last = pots[pots.length - 1];
+      last.amount = last.amount.add(excess);
+    }
+
+    return pots;
+  }
+
+  /**
+   * Get the forced bets for a hand, in posting order: antes, then the
+   * blinds, then any straddle
+   * 
+   * @param game - Game account (with the dealer set for the hand)
+   * @param seats - Seats dealt into the hand
+   * @returns Forced bets
+   */
+  static getForcedBets(game: Game, seats: number[] = GameLogic.getSeats(game)): ForcedBet[] {
+    const bets: ForcedBet[] = [];
+    const blinds = GameLogic.getBlindSeats(game, seats);
+    const ante = game.config?.ante;
+
+    if (ante && ante.gt(new BN(0))) {
+      const anteSeats = game.config?.anteType === AnteType.BigBlind ? [blinds.bigBlind] : seats;
+      for (const seat of anteSeats) {
+        bets.push({ seat, kind: 'ante', amount: ante, live: false });
+      }
+    }
+
+    bets.push({ seat: blinds.smallBlind, kind: 'smallBlind', amount: game.smallBlind, live: true });
+    bets.push({ seat: blinds.bigBlind, kind: 'bigBlind', amount: game.bigBlind, live: true });
+
+    const straddleSeat = GameLogic.getStraddleSeat(game, seats);
+    if (straddleSeat !== null) {
+      bets.push({ seat: straddleSeat, kind: 'straddle', amount: GameLogic.getStraddleAmount(game), live: true });
+    }
+
+    return bets;
+  }
+
+  /**
+   * Get the dead money (antes) a hand starts with
+   * 
+   * @param game - Game account
+   * @param seats - Seats dealt into the hand
+   * @returns Total of the antes
+   */
+  static getAnteTotal(game: Game, seats: number[] = GameLogic.getSeats(game)): BN {
+    return this.getForcedBets(game, seats)
+      .filter(bet => !bet.live)
+      .reduce((sum, bet) => sum.add(bet.amount), new BN(0));
+  }
+
   /**
    * Distribute pot to winners
    * 
@@ -65,15 +65,15 @@ export class BetValidator {
   }
 
   /**
-   * Validate raise action
+   * Validate raise action (amount is the total to raise to)
    */
   static validateRaise(
     amount: BN,
     game: Game,
     playerState: PlayerState
   ): ValidationResult {
-    if (!GameLogic.canRaise(game, playerState)) {
-      return { valid: false, error: 'Cannot raise' };
+    if (game.currentBet.lte(new BN(0))) {
+      return { valid: false, error: 'Cannot raise - there is no bet (use bet instead)' };
     }
     
     return GameLogic.validateRaiseAmount(amount, game, playerState);
@@ -91,6 +91,6 @@ export class BetValidator {
       return { valid: false, error: 'Already all-in' };
     }
     
-    return { valid: true };
+    return GameLogic.validateAllInAmount(game, playerState);
   }
 }
@@ -6,6 +6,7 @@
  */
 
 import { Card, DeckManager } from './deck';
+import { HOLE_CARDS_COUNT } from '../shared/constants';
 
 /**
  * Dealing result
@@ -26,19 +27,18 @@ export class CardDealer {
    * 
    * @param playerCount - Number of players
    * @param deck - Shuffled deck (optional, creates new if not provided)
+   * @param cardsPerPlayer - Hole cards per player (2 for Hold'em, 4 for Omaha)
    * @returns Deal result
    */
-  static dealGame(playerCount: number, deck?: Card[]): DealResult {
+  static dealGame(
+    playerCount: number,
+    deck?: Card[],
+    cardsPerPlayer: number = HOLE_CARDS_COUNT
+  ): DealResult {
     const gameDeck = deck || DeckManager.shuffleDeck(DeckManager.createDeck());
-    let remaining = [...gameDeck];
 
-    // Deal 2 hole cards to each player
-    const holeCards: Card[][] = [];
-    for (let i = 0; i < playerCount; i++) {
-      const { dealt, remaining: newRemaining } = DeckManager.dealCards(remaining, 2);
-      holeCards.push(dealt);
-      remaining = newRemaining;
-    }
+    // Deal hole cards to each player
+    const { holeCards, remaining } = this.dealHoleCards(playerCount, gameDeck, cardsPerPlayer);
 
     // Deal 5 community cards
     const { dealt: communityCards, remaining: finalRemaining } = DeckManager.dealCards(remaining, 5);
@@ -55,17 +55,19 @@ export class CardDealer {
    * 
    * @param playerCount - Number of players
    * @param deck - Deck to deal from
+   * @param cardsPerPlayer - Hole cards per player (2 for Hold'em, 4 for Omaha)
    * @returns Hole cards and remaining deck
    */
   static dealHoleCards(
     playerCount: number,
-    deck: Card[]
+    deck: Card[],
+    cardsPerPlayer: number = HOLE_CARDS_COUNT
   ): { holeCards: Card[][]; remaining: Card[] } {
     let remaining = [...deck];
     const holeCards: Card[][] = [];
 
     for (let i = 0; i < playerCount; i++) {
-      const { dealt, remaining: newRemaining } = DeckManager.dealCards(remaining, 2);
+      const { dealt, remaining: newRemaining } = DeckManager.dealCards(remaining, cardsPerPlayer);
       holeCards.push(dealt);
       remaining = newRemaining;
     }
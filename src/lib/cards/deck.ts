@@ -1,7 +1,7 @@
 /**
  * Arcium Poker - Deck Management
  * 
- * Standard 52-card deck management.
+ * Standard 52-card deck management, plus the 36-card short deck (sixes and up).
  */
 
 /**
@@ -57,13 +57,15 @@ export class DeckManager {
   /**
    * Create a standard 52-card deck
    * 
-   * @returns Array of 52 cards
+   * @param shortDeck - Leave out the twos through fives (36-card short deck)
+   * @returns Array of 52 (or 36) cards
    */
-  static createDeck(): Card[] {
+  static createDeck(shortDeck: boolean = false): Card[] {
     const deck: Card[] = [];
+    const lowestRank = shortDeck ? this.RANKS.indexOf(Rank.Six) : 0;
     
     for (const suit of this.SUITS) {
-      for (let i = 0; i < this.RANKS.length; i++) {
+      for (let i = lowestRank; i < this.RANKS.length; i++) {
         deck.push({
           suit,
           rank: this.RANKS[i],
@@ -75,6 +77,17 @@ export class DeckManager {
     return deck;
   }
 
+  /**
+   * Get the encoded values (0-51) of every card in a deck
+   * Short-deck cards keep their standard indices so they decode the same way
+   * 
+   * @param shortDeck - Leave out the twos through fives (36-card short deck)
+   * @returns Card indices in deck order
+   */
+  static getCardIndices(shortDeck: boolean = false): number[] {
+    return this.createDeck(shortDeck).map(card => this.encodeCard(card));
+  }
+
   /**
    * Shuffle a deck (Fisher-Yates algorithm)
    * Note: In production, this would use MPC shuffle
@@ -4,33 +4,18 @@
  * Poker hand evaluation and rankings.
  */
 
-import { Card, Rank, Suit, DeckManager } from './deck';
+import { Card, Rank, DeckManager } from './deck';
+import { HandRank, HandEvaluation, HAND_RANK_NAMES } from '../shared/types';
+import { OMAHA_HOLE_CARDS_USED } from '../shared/constants';
 
-/**
- * Poker hand rankings
- */
-export enum HandRank {
-  HighCard = 0,
-  Pair = 1,
-  TwoPair = 2,
-  ThreeOfAKind = 3,
-  Straight = 4,
-  Flush = 5,
-  FullHouse = 6,
-  FourOfAKind = 7,
-  StraightFlush = 8,
-  RoyalFlush = 9,
-}
+// Hand ranks are defined once in shared/types
+export { HandRank };
 
 /**
  * Evaluated hand result
  */
-export interface HandResult {
-  rank: HandRank;
-  rankName: string;
-  cards: Card[]; // Best 5-card hand
-  value: number; // Numeric value for comparison
-  description: string;
+export interface HandResult extends HandEvaluation {
+  cards: Card[]; // Best 5-card hand, ordered by significance
 }
 
 /**
@@ -45,61 +30,120 @@ export class HandEvaluator {
    * @returns Hand result
    */
   static evaluateHand(cards: Card[]): HandResult {
+    return this.evaluate(cards, false);
+  }
+
+  /**
+   * Evaluate a 5-7 card short-deck (6+) hand: A-6-7-8-9 is the lowest
+   * straight and a flush beats a full house (the hand key ranks them so)
+   * 
+   * @param cards - Cards to evaluate (5-7 cards, sixes and up)
+   * @returns Hand result
+   */
+  static evaluateShortDeckHand(cards: Card[]): HandResult {
+    return this.evaluate(cards, true);
+  }
+
+  /**
+   * Evaluate a 5-7 card hand under standard or short-deck rankings
+   */
+  private static evaluate(cards: Card[], shortDeck: boolean): HandResult {
     if (cards.length < 5) {
       throw new Error('Need at least 5 cards to evaluate');
     }
 
     // If more than 5 cards, find best 5-card combination
     if (cards.length > 5) {
-      return this.findBestHand(cards);
+      return this.findBestHand(cards, shortDeck);
     }
 
     // Evaluate 5-card hand
     const sorted = DeckManager.sortCards(cards);
+    const groups = this.groupByValue(sorted);
+    const flush = this.isFlush(sorted);
+    const straightHigh = this.getStraightHigh(sorted, shortDeck);
+    const result = (rank: HandRank, ordered: Card[], tieBreakers: number[]) =>
+      this.createHandResult(rank, ordered, tieBreakers, shortDeck);
+
+    if (flush && straightHigh !== null) {
+      const ordered = this.orderStraight(sorted, straightHigh);
+      return straightHigh === 14
+        ? result(HandRank.RoyalFlush, ordered, [straightHigh])
+        : result(HandRank.StraightFlush, ordered, [straightHigh]);
+    }
 
-    if (this.isRoyalFlush(sorted)) {
-      return this.createHandResult(HandRank.RoyalFlush, sorted, 'Royal Flush');
+    // Cards grouped by count, then by value (e.g. trips before pair)
+    const grouped = groups.flatMap(group => group.cards);
+    const groupValues = groups.map(group => group.value);
+    const counts = groups.map(group => group.cards.length);
+
+    if (counts[0] === 4) {
+      return result(HandRank.FourOfAKind, grouped, groupValues);
     }
-    if (this.isStraightFlush(sorted)) {
-      return this.createHandResult(HandRank.StraightFlush, sorted, 'Straight Flush');
+    if (counts[0] === 3 && counts[1] === 2) {
+      return result(HandRank.FullHouse, grouped, groupValues);
     }
-    if (this.isFourOfAKind(sorted)) {
-      return this.createHandResult(HandRank.FourOfAKind, sorted, 'Four of a Kind');
+    if (flush) {
+      return result(HandRank.Flush, sorted, sorted.map(card => card.value));
     }
-    if (this.isFullHouse(sorted)) {
-      return this.createHandResult(HandRank.FullHouse, sorted, 'Full House');
+    if (straightHigh !== null) {
+      return result(HandRank.Straight, this.orderStraight(sorted, straightHigh), [straightHigh]);
     }
-    if (this.isFlush(sorted)) {
-      return this.createHandResult(HandRank.Flush, sorted, 'Flush');
+    if (counts[0] === 3) {
+      return result(HandRank.ThreeOfAKind, grouped, groupValues);
     }
-    if (this.isStraight(sorted)) {
-      return this.createHandResult(HandRank.Straight, sorted, 'Straight');
+    if (counts[0] === 2 && counts[1] === 2) {
+      return result(HandRank.TwoPair, grouped, groupValues);
     }
-    if (this.isThreeOfAKind(sorted)) {
-      return this.createHandResult(HandRank.ThreeOfAKind, sorted, 'Three of a Kind');
+    if (counts[0] === 2) {
+      return result(HandRank.OnePair, grouped, groupValues);
     }
-    if (this.isTwoPair(sorted)) {
-      return this.createHandResult(HandRank.TwoPair, sorted, 'Two Pair');
+
+    return result(HandRank.HighCard, sorted, sorted.map(card => card.value));
+  }
+
+  /**
+   * Evaluate an Omaha hand: the best five cards made of exactly two hole
+   * cards and three community cards
+   * 
+   * @param holeCards - Player's hole cards (at least 2)
+   * @param communityCards - Board cards (at least 3)
+   * @returns Hand result
+   */
+  static evaluateOmahaHand(holeCards: Card[], communityCards: Card[]): HandResult {
+    const boardCardsUsed = 5 - OMAHA_HOLE_CARDS_USED;
+    if (holeCards.length < OMAHA_HOLE_CARDS_USED || communityCards.length < boardCardsUsed) {
+      throw new Error(
+        `Omaha hands need ${OMAHA_HOLE_CARDS_USED} hole cards and ${boardCardsUsed} community cards`
+      );
     }
-    if (this.isPair(sorted)) {
-      return this.createHandResult(HandRank.Pair, sorted, 'Pair');
+
+    let bestHand: HandResult | null = null;
+
+    for (const hole of this.getCombinations(holeCards, OMAHA_HOLE_CARDS_USED)) {
+      for (const board of this.getCombinations(communityCards, boardCardsUsed)) {
+        const hand = this.evaluateHand([...hole, ...board]);
+        if (!bestHand || this.compareHands(hand, bestHand) > 0) {
+          bestHand = hand;
+        }
+      }
     }
 
-    return this.createHandResult(HandRank.HighCard, sorted, 'High Card');
+    return bestHand!;
   }
 
   /**
    * Find best 5-card hand from 6-7 cards
    */
-  private static findBestHand(cards: Card[]): HandResult {
+  private static findBestHand(cards: Card[], shortDeck: boolean): HandResult {
     let bestHand: HandResult | null = null;
 
     // Generate all 5-card combinations
     const combinations = this.getCombinations(cards, 5);
 
     for (const combo of combinations) {
-      const hand = this.evaluateHand(combo);
-      if (!bestHand || hand.value > bestHand.value) {
+      const hand = this.evaluate(combo, shortDeck);
+      if (!bestHand || this.compareHands(hand, bestHand) > 0) {
         bestHand = hand;
       }
     }
@@ -109,8 +153,12 @@ export class HandEvaluator {
 
   /**
    * Get all combinations of k cards from array
+   * 
+   * @param cards - Cards to choose from
+   * @param k - Cards per combination
+   * @returns Every k-card combination
    */
-  private static getCombinations(cards: Card[], k: number): Card[][] {
+  static getCombinations(cards: Card[], k: number): Card[][] {
     const result: Card[][] = [];
 
     const combine = (start: number, chosen: Card[]) => {
@@ -136,61 +184,62 @@ export class HandEvaluator {
   private static createHandResult(
     rank: HandRank,
     cards: Card[],
-    description: string
+    tieBreakers: number[],
+    shortDeck: boolean
   ): HandResult {
+    const key = [shortDeck ? this.getShortDeckCategory(rank) : rank, ...tieBreakers];
     return {
       rank,
       rankName: HandRank[rank],
       cards,
-      value: this.calculateHandValue(rank, cards),
-      description,
+      key,
+      value: this.calculateHandValue(key),
+      description: HAND_RANK_NAMES[rank],
     };
   }
 
   /**
-   * Calculate numeric hand value for comparison
+   * Get the key category of a short-deck hand (flushes and full houses
+   * trade places, as flushes are the rarer hand with 36 cards)
    */
-  private static calculateHandValue(rank: HandRank, cards: Card[]): number {
-    // Base value from rank (multiplied by large number)
-    let value = rank * 100000000;
-
-    // Add card values for tiebreaking
-    for (let i = 0; i < cards.length; i++) {
-      value += cards[i].value * Math.pow(100, 4 - i);
-    }
-
-    return value;
+  private static getShortDeckCategory(rank: HandRank): number {
+    if (rank === HandRank.Flush) return HandRank.FullHouse;
+    if (rank === HandRank.FullHouse) return HandRank.Flush;
+    return rank;
   }
 
   /**
-   * Check for Royal Flush
+   * Encode a hand key as a single number (base 15, so ordering matches the key)
+   * 
+   * @param key - Hand key
+   * @returns Numeric hand value
    */
-  private static isRoyalFlush(cards: Card[]): boolean {
-    return this.isStraightFlush(cards) && cards[0].rank === Rank.Ace;
-  }
+  static calculateHandValue(key: number[]): number {
+    let value = 0;
 
-  /**
-   * Check for Straight Flush
-   */
-  private static isStraightFlush(cards: Card[]): boolean {
-    return this.isFlush(cards) && this.isStraight(cards);
-  }
+    for (let i = 0; i < 6; i++) {
+      value = value * 15 + (key[i] ?? 0);
+    }
 
-  /**
-   * Check for Four of a Kind
-   */
-  private static isFourOfAKind(cards: Card[]): boolean {
-    const ranks = this.getRankCounts(cards);
-    return Object.values(ranks).includes(4);
+    return value;
   }
 
   /**
-   * Check for Full House
+   * Group cards by value, largest group first, then highest value first
    */
-  private static isFullHouse(cards: Card[]): boolean {
-    const ranks = this.getRankCounts(cards);
-    const counts = Object.values(ranks).sort((a, b) => b - a);
-    return counts[0] === 3 && counts[1] === 2;
+  private static groupByValue(sorted: Card[]): { value: number; cards: Card[] }[] {
+    const groups: { value: number; cards: Card[] }[] = [];
+
+    for (const card of sorted) {
+      const group = groups.find(g => g.value === card.value);
+      if (group) {
+        group.cards.push(card);
+      } else {
+        groups.push({ value: card.value, cards: [card] });
+      }
+    }
+
+    return groups.sort((a, b) => b.cards.length - a.cards.length || b.value - a.value);
   }
 
   /**
@@ -202,61 +251,54 @@ export class HandEvaluator {
   }
 
   /**
-   * Check for Straight
+   * Get the high card value of a straight, or null if not a straight.
+   * The wheel (A-2-3-4-5) is a five-high straight; in short deck the ace
+   * plays low below the six instead (A-6-7-8-9, nine high).
    */
-  private static isStraight(cards: Card[]): boolean {
-    const sorted = [...cards].sort((a, b) => a.value - b.value);
-
-    // Check regular straight
-    for (let i = 1; i < sorted.length; i++) {
-      if (sorted[i].value !== sorted[i - 1].value + 1) {
-        // Check for A-2-3-4-5 (wheel)
-        if (i === 4 && sorted[0].value === 2 && sorted[4].rank === Rank.Ace) {
-          return true;
-        }
-        return false;
-      }
+  private static getStraightHigh(sorted: Card[], shortDeck: boolean): number | null {
+    const values = sorted.map(card => card.value);
+    if (new Set(values).size !== 5) return null;
+
+    if (values[0] - values[4] === 4) {
+      return values[0];
     }
 
-    return true;
-  }
+    const lowStraightHigh = shortDeck ? 9 : 5;
+    if (values[0] === 14 && values[1] === lowStraightHigh && values[1] - values[4] === 3) {
+      return lowStraightHigh;
+    }
 
-  /**
-   * Check for Three of a Kind
-   */
-  private static isThreeOfAKind(cards: Card[]): boolean {
-    const ranks = this.getRankCounts(cards);
-    return Object.values(ranks).includes(3);
+    return null;
   }
 
   /**
-   * Check for Two Pair
+   * Order straight cards from high to low (ace last in a wheel)
    */
-  private static isTwoPair(cards: Card[]): boolean {
-    const ranks = this.getRankCounts(cards);
-    const pairs = Object.values(ranks).filter(count => count === 2);
-    return pairs.length === 2;
-  }
-
-  /**
-   * Check for Pair
-   */
-  private static isPair(cards: Card[]): boolean {
-    const ranks = this.getRankCounts(cards);
-    return Object.values(ranks).includes(2);
+  private static orderStraight(sorted: Card[], high: number): Card[] {
+    if (high !== 14 && sorted[0].rank === Rank.Ace) {
+      return [...sorted.slice(1), sorted[0]];
+    }
+    return sorted;
   }
 
   /**
-   * Get rank counts
+   * Compare two hand keys lexicographically
+   * 
+   * @param key1 - First hand key
+   * @param key2 - Second hand key
+   * @returns -1 if key1 < key2, 0 if equal, 1 if key1 > key2
    */
-  private static getRankCounts(cards: Card[]): Record<Rank, number> {
-    const counts: Partial<Record<Rank, number>> = {};
-
-    for (const card of cards) {
-      counts[card.rank] = (counts[card.rank] || 0) + 1;
+  static compareKeys(key1: number[], key2: number[]): number {
+    const length = Math.max(key1.length, key2.length);
+
+    for (let i = 0; i < length; i++) {
+      const a = key1[i] ?? 0;
+      const b = key2[i] ?? 0;
+      if (a < b) return -1;
+      if (a > b) return 1;
     }
 
-    return counts as Record<Rank, number>;
+    return 0;
   }
 
   /**
@@ -267,9 +309,7 @@ export class HandEvaluator {
    * @returns -1 if hand1 < hand2, 0 if equal, 1 if hand1 > hand2
    */
   static compareHands(hand1: HandResult, hand2: HandResult): number {
-    if (hand1.value < hand2.value) return -1;
-    if (hand1.value > hand2.value) return 1;
-    return 0;
+    return this.compareKeys(hand1.key, hand2.key);
   }
 
   /**
@@ -0,0 +1,238 @@
+/**
+ * Arcium Poker - Lookup Table Evaluator
+ * 
+ * Fast 5-7 card evaluation on card indices (0-51) using precomputed tables.
+ * Values match HandEvaluator.evaluateHand(...).value for the same cards.
+ */
+
+import { Card, Rank, Suit } from './deck';
+import { HandEvaluator } from './evaluator';
+import { HandRank } from '../shared/types';
+
+/**
+ * One prime per rank (2 through Ace); the product identifies a rank multiset
+ */
+const RANK_PRIMES = [2, 3, 5, 7, 11, 13, 17, 19, 23, 29, 31, 37, 41];
+
+/**
+ * Ranks in index order, used to build reference cards for the tables
+ */
+const RANKS = [
+  Rank.Two, Rank.Three, Rank.Four, Rank.Five, Rank.Six,
+  Rank.Seven, Rank.Eight, Rank.Nine, Rank.Ten,
+  Rank.Jack, Rank.Queen, Rank.King, Rank.Ace,
+];
+
+/**
+ * Suits used to build reference cards (never five of one suit)
+ */
+const SUITS = [Suit.Hearts, Suit.Diamonds, Suit.Clubs, Suit.Spades];
+
+/**
+ * Base of the hand value encoding (one digit per key entry)
+ */
+const RANK_DIVISOR = Math.pow(15, 5);
+
+/**
+ * Lookup Evaluator
+ * Evaluates hands by table lookup instead of enumerating 5-card combinations
+ */
+export class LookupEvaluator {
+  /** Best flush value for each 13-bit rank mask (0 if fewer than 5 ranks) */
+  private static flushTable: Uint32Array | null = null;
+
+  /** Best non-flush value for each rank multiset, keyed by prime product */
+  private static rankTable: Map<number, number> | null = null;
+
+  /**
+   * Evaluate 5-7 cards by index
+   * 
+   * @param cards - Card indices (0-51)
+   * @returns Hand value (higher is better)
+   */
+  static evaluate(cards: number[]): number {
+    if (cards.length < 5 || cards.length > 7) {
+      throw new Error('Need 5-7 cards to evaluate');
+    }
+
+    const { flushTable, rankTable } = this.getTables();
+    const suitMasks = [0, 0, 0, 0];
+    let product = 1;
+
+    for (const index of cards) {
+      if (!Number.isInteger(index) || index < 0 || index >= 52) {
+        throw new Error(`Invalid card index: ${index}`);
+      }
+      const rank = index % 13;
+      const suit = (index - rank) / 13;
+      if (suitMasks[suit] & (1 << rank)) {
+        throw new Error(`Duplicate card index: ${index}`);
+      }
+      product *= RANK_PRIMES[rank];
+      suitMasks[suit] |= 1 << rank;
+    }
+
+    // With at most 7 cards, a flush beats anything the other cards can make
+    for (const mask of suitMasks) {
+      const flushValue = flushTable[mask];
+      if (flushValue) return flushValue;
+    }
+
+    return rankTable.get(product)!;
+  }
+
+  /**
+   * Get hand rank from a hand value
+   * 
+   * @param value - Hand value from evaluate()
+   * @returns Hand rank
+   */
+  static getHandRank(value: number): HandRank {
+    return Math.floor(value / RANK_DIVISOR) as HandRank;
+  }
+
+  /**
+   * Compare two hands by index
+   * 
+   * @param cards1 - First hand card indices
+   * @param cards2 - Second hand card indices
+   * @returns -1 if hand1 < hand2, 0 if equal, 1 if hand1 > hand2
+   */
+  static compare(cards1: number[], cards2: number[]): number {
+    const value1 = this.evaluate(cards1);
+    const value2 = this.evaluate(cards2);
+    if (value1 < value2) return -1;
+    if (value1 > value2) return 1;
+    return 0;
+  }
+
+  /**
+   * Build lookup tables on first use
+   */
+  private static getTables(): { flushTable: Uint32Array; rankTable: Map<number, number> } {
+    if (!this.flushTable || !this.rankTable) {
+      this.flushTable = this.buildFlushTable();
+      this.rankTable = this.buildRankTable();
+    }
+    return { flushTable: this.flushTable, rankTable: this.rankTable };
+  }
+
+  /**
+   * Build the flush table for every rank mask with 5-7 bits
+   */
+  private static buildFlushTable(): Uint32Array {
+    const table = new Uint32Array(1 << 13);
+    const masksBySize: number[][] = [[], [], [], [], [], [], [], []];
+
+    for (let mask = 0; mask < 1 << 13; mask++) {
+      const size = this.countBits(mask);
+      if (size >= 5 && size <= 7) masksBySize[size].push(mask);
+    }
+
+    for (const mask of masksBySize[5]) {
+      const cards: Card[] = [];
+      for (let rank = 0; rank < 13; rank++) {
+        if (mask & (1 << rank)) {
+          cards.push({ suit: Suit.Hearts, rank: RANKS[rank], value: rank + 2 });
+        }
+      }
+      table[mask] = HandEvaluator.evaluateHand(cards).value;
+    }
+
+    // Larger masks: best of the masks with one rank removed
+    for (const size of [6, 7]) {
+      for (const mask of masksBySize[size]) {
+        let best = 0;
+        for (let rank = 0; rank < 13; rank++) {
+          if (mask & (1 << rank)) {
+            best = Math.max(best, table[mask & ~(1 << rank)]);
+          }
+        }
+        table[mask] = best;
+      }
+    }
+
+    return table;
+  }
+
+  /**
+   * Build the non-flush table for every rank multiset of 5-7 cards
+   */
+  private static buildRankTable(): Map<number, number> {
+    const table = new Map<number, number>();
+
+    for (const size of [5, 6, 7]) {
+      this.forEachRankMultiset(size, (counts, product) => {
+        if (size === 5) {
+          table.set(product, HandEvaluator.evaluateHand(this.buildReferenceCards(counts)).value);
+          return;
+        }
+
+        // Best of the multisets with one card removed
+        let best = 0;
+        for (let rank = 0; rank < 13; rank++) {
+          if (counts[rank] > 0) {
+            best = Math.max(best, table.get(product / RANK_PRIMES[rank])!);
+          }
+        }
+        table.set(product, best);
+      });
+    }
+
+    return table;
+  }
+
+  /**
+   * Visit every way to pick `size` ranks with at most four of each
+   */
+  private static forEachRankMultiset(
+    size: number,
+    visit: (counts: number[], product: number) => void
+  ): void {
+    const counts = new Array(13).fill(0);
+
+    const fill = (rank: number, remaining: number, product: number) => {
+      if (remaining === 0) {
+        visit(counts, product);
+        return;
+      }
+      if (rank === 13) return;
+
+      for (let count = 0; count <= Math.min(4, remaining); count++) {
+        counts[rank] = count;
+        fill(rank + 1, remaining - count, product * Math.pow(RANK_PRIMES[rank], count));
+      }
+      counts[rank] = 0;
+    };
+
+    fill(0, size, 1);
+  }
+
+  /**
+   * Build five unsuited reference cards for a rank multiset
+   */
+  private static buildReferenceCards(counts: number[]): Card[] {
+    const cards: Card[] = [];
+
+    for (let rank = 0; rank < 13; rank++) {
+      for (let i = 0; i < counts[rank]; i++) {
+        cards.push({
+          suit: SUITS[cards.length % SUITS.length],
+          rank: RANKS[rank],
+          value: rank + 2,
+        });
+      }
+    }
+
+    return cards;
+  }
+
+  /**
+   * Count set bits in a rank mask
+   */
+  private static countBits(mask: number): number {
+    let count = 0;
+    for (let m = mask; m; m &= m - 1) count++;
+    return count;
+  }
+}
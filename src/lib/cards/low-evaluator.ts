@@ -0,0 +1,118 @@
+/**
+ * Arcium Poker - Low Hand Evaluator
+ *
+ * Eight-or-better low hands for hi-lo split games. Lows are ranked
+ * ace-to-five: aces play low, and straights and flushes do not count.
+ */
+
+import { Card, Rank } from './deck';
+import { HandEvaluator } from './evaluator';
+import { OMAHA_HOLE_CARDS_USED } from '../shared/constants';
+
+/**
+ * Highest card a qualifying low may hold
+ */
+const LOW_QUALIFIER = 8;
+
+/**
+ * Evaluated low hand
+ */
+export interface LowHandResult {
+  cards: Card[]; // The five low cards, highest first
+  values: number[]; // Low values, highest first (ace = 1)
+  description: string; // e.g. "8-6-4-2-A"
+}
+
+/**
+ * Low Evaluator
+ * Finds and compares eight-or-better low hands
+ */
+export class LowEvaluator {
+  /**
+   * Find the best qualifying low using any five cards
+   *
+   * @param cards - Cards to evaluate (5-7 cards)
+   * @returns Best low, or null if no five cards make an eight-or-better low
+   */
+  static evaluateLow(cards: Card[]): LowHandResult | null {
+    if (cards.length < 5) {
+      throw new Error('Need at least 5 cards to evaluate');
+    }
+
+    // The best low is the five lowest distinct qualifying ranks
+    const lowest = new Map<number, Card>();
+    for (const card of cards) {
+      const value = this.getLowValue(card);
+      if (value <= LOW_QUALIFIER && !lowest.has(value)) {
+        lowest.set(value, card);
+      }
+    }
+
+    if (lowest.size < 5) return null;
+
+    const values = [...lowest.keys()].sort((a, b) => a - b).slice(0, 5);
+    return this.createLowResult(values.map(value => lowest.get(value)!));
+  }
+
+  /**
+   * Find the best qualifying Omaha low: exactly two hole cards and three
+   * community cards
+   *
+   * @param holeCards - Player's hole cards
+   * @param communityCards - Board cards (at least 3)
+   * @returns Best low, or null if the player has no eight-or-better low
+   */
+  static evaluateOmahaLow(holeCards: Card[], communityCards: Card[]): LowHandResult | null {
+    let bestLow: LowHandResult | null = null;
+
+    for (const hole of HandEvaluator.getCombinations(holeCards, OMAHA_HOLE_CARDS_USED)) {
+      for (const board of HandEvaluator.getCombinations(communityCards, 5 - OMAHA_HOLE_CARDS_USED)) {
+        const low = this.evaluateLow([...hole, ...board]);
+        if (low && (!bestLow || this.compareLows(low, bestLow) > 0)) {
+          bestLow = low;
+        }
+      }
+    }
+
+    return bestLow;
+  }
+
+  /**
+   * Compare two lows, highest card first
+   *
+   * @param low1 - First low
+   * @param low2 - Second low
+   * @returns 1 if low1 is the better (lower) hand, -1 if low2 is, 0 if tied
+   */
+  static compareLows(low1: LowHandResult, low2: LowHandResult): number {
+    for (let i = 0; i < 5; i++) {
+      if (low1.values[i] < low2.values[i]) return 1;
+      if (low1.values[i] > low2.values[i]) return -1;
+    }
+    return 0;
+  }
+
+  /**
+   * Get a card's value for low hands (ace = 1)
+   *
+   * @param card - Card
+   * @returns Low value (1-13)
+   */
+  static getLowValue(card: Card): number {
+    return card.rank === Rank.Ace ? 1 : card.value;
+  }
+
+  /**
+   * Create a low result from five cards of distinct low ranks
+   */
+  private static createLowResult(cards: Card[]): LowHandResult {
+    const ordered = [...cards].sort((a, b) => this.getLowValue(b) - this.getLowValue(a));
+    const values = ordered.map(card => this.getLowValue(card));
+
+    return {
+      cards: ordered,
+      values,
+      description: values.map(value => (value === 1 ? 'A' : String(value))).join('-'),
+    };
+  }
+}
@@ -62,18 +62,18 @@ export class CardReveal {
     if (reveals.length === 0) return [];
     if (reveals.length === 1) return [reveals[0].playerIndex];
 
-    // Find best hand value
-    let bestValue = reveals[0].bestHand.value;
+    // Find best hand
+    let bestHand = reveals[0].bestHand;
     for (const reveal of reveals) {
-      if (reveal.bestHand.value > bestValue) {
-        bestValue = reveal.bestHand.value;
+      if (HandEvaluator.compareHands(reveal.bestHand, bestHand) > 0) {
+        bestHand = reveal.bestHand;
       }
     }
 
     // Get all players with best hand (handles ties)
     const winners: number[] = [];
     for (const reveal of reveals) {
-      if (reveal.bestHand.value === bestValue) {
+      if (HandEvaluator.compareHands(reveal.bestHand, bestHand) === 0) {
         winners.push(reveal.playerIndex);
       }
     }
@@ -102,6 +102,6 @@ export class CardReveal {
    * @returns Sorted reveals
    */
   static sortByHandStrength(reveals: PlayerHandReveal[]): PlayerHandReveal[] {
-    return [...reveals].sort((a, b) => b.bestHand.value - a.bestHand.value);
+    return [...reveals].sort((a, b) => HandEvaluator.compareHands(b.bestHand, a.bestHand));
   }
 }
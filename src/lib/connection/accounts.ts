@@ -0,0 +1,140 @@
+/**
+ * Arcium Poker - Account Decoding
+ *
+ * Turns program accounts into the Game and PlayerState interfaces of
+ * shared/types: string GameStage and PlayerStatus enums, BN amounts and
+ * PublicKey seats. Reads either the raw account bytes, using the Borsh
+ * layout in the IDL, or accounts Anchor already decoded (enums as
+ * single-variant objects), so nothing past the program client sees
+ * Anchor's shapes.
+ */
+
+import { BorshAccountsCoder, Idl, IdlAccounts, ProgramAccount } from '@coral-xyz/anchor';
+import idl from '../../arcium_poker.json';
+import type { ArciumPoker } from '../../arcium_poker';
+import { Game, GameStage, PlayerState, PlayerStatus } from '../shared/types';
+
+/**
+ * Enum as Anchor decodes it, e.g. `{ preFlop: {} }`
+ */
+export type AnchorEnum = Partial<Record<string, Record<string, never>>>;
+
+/**
+ * Game account as Anchor decodes it
+ */
+export type RawGameAccount = IdlAccounts<ArciumPoker>['game'];
+
+/**
+ * Player state account as Anchor decodes it
+ */
+export type RawPlayerStateAccount = IdlAccounts<ArciumPoker>['playerState'];
+
+/**
+ * Program IDL and the Borsh coder for its accounts
+ */
+const IDL = idl as Idl;
+const accountsCoder = new BorshAccountsCoder(IDL);
+
+/**
+ * Account Decoder
+ * Converts program accounts into the shared Game and PlayerState types
+ */
+export class AccountDecoder {
+  /**
+   * Decode a game account as returned by Anchor
+   *
+   * @param account - Anchor-decoded game account
+   * @returns Game
+   */
+  static decodeGame(account: RawGameAccount): Game {
+    return {
+      ...account,
+      stage: this.decodeEnum(account.stage, 'GameStage', Object.values(GameStage)),
+    };
+  }
+
+  /**
+   * Decode a player state account as returned by Anchor
+   *
+   * @param account - Anchor-decoded player state account
+   * @returns Player state
+   */
+  static decodePlayerState(account: RawPlayerStateAccount): PlayerState {
+    return {
+      ...account,
+      status: this.decodeEnum(account.status, 'PlayerStatus', Object.values(PlayerStatus)),
+    };
+  }
+
+  /**
+   * Decode game account bytes
+   *
+   * @param data - Account data, including the discriminator
+   * @returns Game
+   * @throws Error if the data is not a game account
+   */
+  static decodeGameData(data: Buffer): Game {
+    return this.decodeGame(this.decodeData('Game', data) as RawGameAccount);
+  }
+
+  /**
+   * Decode player state account bytes
+   *
+   * @param data - Account data, including the discriminator
+   * @returns Player state
+   * @throws Error if the data is not a player state account
+   */
+  static decodePlayerStateData(data: Buffer): PlayerState {
+    return this.decodePlayerState(this.decodeData('PlayerState', data) as RawPlayerStateAccount);
+  }
+
+  /**
+   * Decode the accounts returned by an Anchor `all()` query
+   *
+   * @param accounts - Anchor program accounts
+   * @param decode - Decoder for each account
+   * @returns Accounts with decoded data
+   */
+  static decodeAll<R, T>(
+    accounts: ProgramAccount<R>[],
+    decode: (account: R) => T
+  ): ProgramAccount<T>[] {
+    return accounts.map(({ publicKey, account }) => ({ publicKey, account: decode(account) }));
+  }
+
+  /**
+   * Decode account bytes with the IDL layout, camel-casing field names the
+   * way Anchor's program namespace does
+   */
+  private static decodeData(name: string, data: Buffer): Record<string, unknown> {
+    const decoded = accountsCoder.decode<Record<string, unknown>>(name, data);
+    return Object.fromEntries(
+      Object.entries(decoded).map(([key, value]) => [
+        key.replace(/_([a-z])/g, (_, letter: string) => letter.toUpperCase()),
+        value,
+      ])
+    );
+  }
+
+  /**
+   * Map an Anchor enum to its string enum value. Variants are matched
+   * case-insensitively against the IDL, since Anchor camel-cases them.
+   */
+  private static decodeEnum<E extends string>(value: AnchorEnum, idlName: string, values: E[]): E {
+    const variant = Object.keys(value ?? {})[0]?.toLowerCase();
+    const name = this.getVariants(idlName).find(v => v.toLowerCase() === variant);
+    const decoded = values.find(v => v === name);
+    if (!decoded) {
+      throw new Error(`Unknown ${idlName} variant: ${JSON.stringify(value)}`);
+    }
+    return decoded;
+  }
+
+  /**
+   * Variant names of an IDL enum
+   */
+  private static getVariants(idlName: string): string[] {
+    const type = IDL.types?.find(t => t.name === idlName)?.type;
+    return type?.kind === 'enum' ? type.variants.map(v => v.name) : [];
+  }
+}
@@ -0,0 +1,474 @@
+/**
+ * Arcium Poker - RPC Endpoint Pool
+ *
+ * Spreads the app's cluster traffic over a list of RPC endpoints. One
+ * endpoint is active at a time; periodic health checks score every
+ * endpoint by slot lag, latency and recent error rate, and the pool fails
+ * over when the active one turns unhealthy. The pool hands out a single
+ * Connection that always talks to the active endpoint: requests that fail
+ * for endpoint reasons (rate limits, outages) are retried on the next
+ * endpoint, and account subscriptions move with the active endpoint.
+ */
+
+import { Commitment, Connection } from '@solana/web3.js';
+import {
+  COMMITMENT,
+  RPC_ERROR_WINDOW,
+  RPC_HEALTH_CHECK_TIMEOUT_MS,
+  RPC_MAX_ERROR_RATE,
+  RPC_MAX_LATENCY_MS,
+  RPC_MAX_SLOT_LAG,
+  TRANSACTION_TIMEOUT_MS,
+} from '../shared/constants';
+import { withTimeout } from '../shared/utils';
+
+/**
+ * HTTP endpoint, with the WebSocket endpoint for its subscriptions
+ * (derived from the HTTP one when omitted)
+ */
+export interface RpcEndpointConfig {
+  http: string;
+  ws?: string;
+}
+
+/**
+ * Health of one endpoint, as shown in the debug panel
+ */
+export interface EndpointHealth {
+  url: string;
+  label: string; // Host only, so API keys in the URL stay out of the UI
+  active: boolean;
+  healthy: boolean;
+  slot: number | null;
+  slotLag: number | null;
+  latencyMs: number | null;
+  errorRate: number;
+  lastCheckedAt: number | null;
+  lastError: string | null;
+}
+
+/**
+ * Pool tuning; thresholds default to the RPC_* constants
+ */
+export interface RpcEndpointPoolOptions {
+  commitment?: Commitment;
+  healthCheckTimeoutMs?: number;
+  maxSlotLag?: number;
+  maxLatencyMs?: number;
+  maxErrorRate?: number;
+  errorWindow?: number;
+  createConnection?: (endpoint: RpcEndpointConfig, config: { commitment: Commitment; rateLimitRetries: boolean }) => Connection;
+}
+
+/**
+ * Connection subscription methods, with the method that removes each.
+ * One-shot signature subscriptions stay on the endpoint that made them.
+ */
+const SUBSCRIPTION_METHODS: Record<string, { remove: string; persistent: boolean }> = {
+  onAccountChange: { remove: 'removeAccountChangeListener', persistent: true },
+  onProgramAccountChange: { remove: 'removeProgramAccountChangeListener', persistent: true },
+  onLogs: { remove: 'removeOnLogsListener', persistent: true },
+  onSlotChange: { remove: 'removeSlotChangeListener', persistent: true },
+  onSlotUpdate: { remove: 'removeSlotUpdateListener', persistent: true },
+  onRootChange: { remove: 'removeRootChangeListener', persistent: true },
+  onSignature: { remove: 'removeSignatureListener', persistent: false },
+  onSignatureWithOptions: { remove: 'removeSignatureListener', persistent: false },
+};
+
+const REMOVE_METHODS = new Set(Object.values(SUBSCRIPTION_METHODS).map(method => method.remove));
+
+/**
+ * Failures that say more about the endpoint than about the request
+ */
+const ENDPOINT_ERROR =
+  /\b(429|50[0-4])\b|too many requests|rate limit|fetch failed|failed to fetch|network|socket hang up|ECONNRESET|ECONNREFUSED|ENOTFOUND|ETIMEDOUT|timed out|node is behind/i;
+
+interface EndpointState {
+  config: RpcEndpointConfig;
+  connection: Connection;
+  outcomes: boolean[]; // Recent request results, newest last
+  reachable: boolean;
+  slot: number | null;
+  latencyMs: number | null;
+  lastCheckedAt: number | null;
+  lastError: string | null;
+}
+
+interface PoolSubscription {
+  method: string;
+  args: unknown[];
+  endpoint: number;
+  id: number; // ID on the endpoint's connection
+}
+
+type ConnectionMethod = (...args: unknown[]) => unknown;
+
+/**
+ * RPC Endpoint Pool
+ * Health-checks a list of endpoints and fails over between them
+ */
+export class RpcEndpointPool {
+  /** Connection that always uses the active endpoint */
+  readonly connection: Connection;
+
+  private readonly endpoints: EndpointState[];
+  private readonly options: Required<Omit<RpcEndpointPoolOptions, 'createConnection'>>;
+  private activeIndex = 0;
+  private subscriptions = new Map<number, PoolSubscription>();
+  private nextSubscriptionId = 1;
+  private listeners = new Set<() => void>();
+  private failoverListeners = new Set<(health: EndpointHealth) => void>();
+  private snapshot: EndpointHealth[] = [];
+  private healthTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(endpoints: RpcEndpointConfig[], options: RpcEndpointPoolOptions = {}) {
+    if (endpoints.length === 0) {
+      throw new Error('At least one RPC endpoint is required');
+    }
+
+    this.options = {
+      commitment: options.commitment ?? COMMITMENT,
+      healthCheckTimeoutMs: options.healthCheckTimeoutMs ?? RPC_HEALTH_CHECK_TIMEOUT_MS,
+      maxSlotLag: options.maxSlotLag ?? RPC_MAX_SLOT_LAG,
+      maxLatencyMs: options.maxLatencyMs ?? RPC_MAX_LATENCY_MS,
+      maxErrorRate: options.maxErrorRate ?? RPC_MAX_ERROR_RATE,
+      errorWindow: options.errorWindow ?? RPC_ERROR_WINDOW,
+    };
+
+    // With somewhere else to go, a rate-limited endpoint should fail fast
+    // rather than have web3.js wait out its backoff
+    const create = options.createConnection ?? RpcEndpointPool.createConnection;
+    const config = { commitment: this.options.commitment, rateLimitRetries: endpoints.length === 1 };
+
+    this.endpoints = endpoints.map(endpoint => ({
+      config: endpoint,
+      connection: create(endpoint, config),
+      outcomes: [],
+      reachable: true,
+      slot: null,
+      latencyMs: null,
+      lastCheckedAt: null,
+      lastError: null,
+    }));
+    this.connection = this.createFailoverConnection();
+    this.publish();
+  }
+
+  /**
+   * Check whether an error means the endpoint, not the request, failed
+   */
+  static isEndpointError(error: unknown): boolean {
+    const message = error instanceof Error ? error.message : String(error);
+    return ENDPOINT_ERROR.test(message);
+  }
+
+  /**
+   * Get the connection of the active endpoint
+   */
+  getActiveConnection(): Connection {
+    return this.endpoints[this.activeIndex].connection;
+  }
+
+  /**
+   * Get the HTTP URL of the active endpoint
+   */
+  getActiveEndpoint(): string {
+    return this.endpoints[this.activeIndex].config.http;
+  }
+
+  /**
+   * Health of every endpoint, in configured order
+   * The same array is returned until something changes.
+   */
+  getSnapshot(): EndpointHealth[] {
+    return this.snapshot;
+  }
+
+  /**
+   * Listen for health and failover changes
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Listen for the active endpoint changing
+   * @returns Function that removes the listener
+   */
+  onFailover(listener: (health: EndpointHealth) => void): () => void {
+    this.failoverListeners.add(listener);
+    return () => {
+      this.failoverListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Run a request on the active endpoint, moving on to the other
+   * endpoints when it fails for endpoint reasons
+   *
+   * @param call - Request to make on an endpoint's connection
+   * @returns Result from the first endpoint that answered
+   * @throws The request's own error, or the last endpoint error
+   */
+  async request<T>(call: (connection: Connection) => Promise<T>): Promise<T> {
+    let lastError: unknown;
+
+    for (const index of this.failoverOrder()) {
+      try {
+        const result = await call(this.endpoints[index].connection);
+        this.record(index, true);
+        return result;
+      } catch (error) {
+        if (!RpcEndpointPool.isEndpointError(error)) {
+          // The endpoint answered; the request itself was refused
+          this.record(index, true);
+          throw error;
+        }
+        this.record(index, false, error);
+        lastError = error;
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Check every endpoint's slot and latency, then fail over if the
+   * active endpoint is no longer healthy
+   *
+   * @returns Health of every endpoint
+   */
+  async checkHealth(): Promise<EndpointHealth[]> {
+    await Promise.all(this.endpoints.map(async endpoint => {
+      const started = Date.now();
+      try {
+        endpoint.slot = await withTimeout(
+          endpoint.connection.getSlot(this.options.commitment),
+          this.options.healthCheckTimeoutMs,
+          'Health check timed out'
+        );
+        endpoint.latencyMs = Date.now() - started;
+        endpoint.reachable = true;
+        endpoint.lastError = null;
+        this.pushOutcome(endpoint, true);
+      } catch (error) {
+        endpoint.latencyMs = null;
+        endpoint.reachable = false;
+        endpoint.lastError = error instanceof Error ? error.message : String(error);
+        this.pushOutcome(endpoint, false);
+      }
+      endpoint.lastCheckedAt = Date.now();
+    }));
+
+    this.publish();
+    this.selectActive();
+    return this.snapshot;
+  }
+
+  /**
+   * Check health now and then at an interval
+   * @param intervalMs - Time between checks
+   * @returns Function that stops the checks
+   */
+  startHealthChecks(intervalMs: number): () => void {
+    this.stopHealthChecks();
+    const check = () => {
+      this.checkHealth().catch(error => console.error('RPC health check failed:', error));
+    };
+    check();
+    this.healthTimer = setInterval(check, intervalMs);
+    return () => this.stopHealthChecks();
+  }
+
+  /**
+   * Stop periodic health checks
+   */
+  stopHealthChecks(): void {
+    if (this.healthTimer) {
+      clearInterval(this.healthTimer);
+      this.healthTimer = null;
+    }
+  }
+
+  /**
+   * Make an endpoint active, moving subscriptions over to it
+   */
+  private setActive(index: number): void {
+    if (index === this.activeIndex || !this.endpoints[index]) return;
+    this.activeIndex = index;
+
+    for (const subscription of this.subscriptions.values()) {
+      if (!SUBSCRIPTION_METHODS[subscription.method].persistent) continue;
+      void this.removeFromEndpoint(subscription.endpoint, subscription.method, subscription.id);
+      subscription.endpoint = index;
+      subscription.id = this.addToEndpoint(index, subscription.method, subscription.args);
+    }
+
+    this.publish();
+    const active = this.snapshot[index];
+    this.failoverListeners.forEach(listener => listener(active));
+  }
+
+  private static createConnection(
+    endpoint: RpcEndpointConfig,
+    config: { commitment: Commitment; rateLimitRetries: boolean }
+  ): Connection {
+    return new Connection(endpoint.http, {
+      commitment: config.commitment,
+      wsEndpoint: endpoint.ws,
+      confirmTransactionInitialTimeout: TRANSACTION_TIMEOUT_MS,
+      disableRetryOnRateLimit: !config.rateLimitRetries,
+    });
+  }
+
+  /**
+   * Connection whose requests and subscriptions go through the pool.
+   * Getters and internals read straight from the active endpoint.
+   */
+  private createFailoverConnection(): Connection {
+    return new Proxy(this.endpoints[0].connection, {
+      get: (_target, property) => {
+        const active = this.getActiveConnection();
+        const value: unknown = Reflect.get(active, property);
+
+        if (typeof value !== 'function') return value;
+        if (typeof property !== 'string' || property.startsWith('_') || property === 'constructor') {
+          return value.bind(active);
+        }
+        if (SUBSCRIPTION_METHODS[property]) {
+          return (...args: unknown[]) => this.addSubscription(property, args);
+        }
+        if (REMOVE_METHODS.has(property)) {
+          return (id: number) => this.removeSubscription(id);
+        }
+        return (...args: unknown[]) =>
+          this.request(connection => (Reflect.get(connection, property) as ConnectionMethod)
+            .apply(connection, args) as Promise<unknown>);
+      },
+    });
+  }
+
+  private addSubscription(method: string, args: unknown[]): number {
+    const id = this.nextSubscriptionId++;
+    this.subscriptions.set(id, {
+      method,
+      args,
+      endpoint: this.activeIndex,
+      id: this.addToEndpoint(this.activeIndex, method, args),
+    });
+    return id;
+  }
+
+  private async removeSubscription(id: number): Promise<void> {
+    const subscription = this.subscriptions.get(id);
+    if (!subscription) return;
+    this.subscriptions.delete(id);
+    await this.removeFromEndpoint(subscription.endpoint, subscription.method, subscription.id);
+  }
+
+  private addToEndpoint(index: number, method: string, args: unknown[]): number {
+    const connection = this.endpoints[index].connection;
+    return (Reflect.get(connection, method) as ConnectionMethod).apply(connection, args) as number;
+  }
+
+  private async removeFromEndpoint(index: number, method: string, id: number): Promise<void> {
+    const connection = this.endpoints[index].connection;
+    const remove = SUBSCRIPTION_METHODS[method].remove;
+    try {
+      await (Reflect.get(connection, remove) as ConnectionMethod).call(connection, id);
+    } catch {
+      // The endpoint being left may already have dropped its socket
+    }
+  }
+
+  /**
+   * Endpoints to try for a request: the active one, then the healthy
+   * ones, then the rest, each in configured order
+   */
+  private failoverOrder(): number[] {
+    const others = this.endpoints.map((_, index) => index).filter(index => index !== this.activeIndex);
+    return [
+      this.activeIndex,
+      ...others.filter(index => this.snapshot[index].healthy),
+      ...others.filter(index => !this.snapshot[index].healthy),
+    ];
+  }
+
+  /**
+   * Keep the most preferred healthy endpoint active: configured order
+   * is preference order, so a recovered primary takes over again
+   */
+  private selectActive(): void {
+    const healthy = this.snapshot.findIndex(endpoint => endpoint.healthy);
+    if (healthy !== -1) {
+      this.setActive(healthy);
+    }
+  }
+
+  private record(index: number, ok: boolean, error?: unknown): void {
+    const endpoint = this.endpoints[index];
+    this.pushOutcome(endpoint, ok);
+    if (!ok) {
+      endpoint.lastError = error instanceof Error ? error.message : String(error);
+    }
+    const wasHealthy = this.snapshot[index].healthy;
+    this.publish();
+    if (wasHealthy !== this.snapshot[index].healthy) {
+      this.selectActive();
+    }
+  }
+
+  private pushOutcome(endpoint: EndpointState, ok: boolean): void {
+    endpoint.outcomes.push(ok);
+    if (endpoint.outcomes.length > this.options.errorWindow) {
+      endpoint.outcomes.shift();
+    }
+  }
+
+  /**
+   * Rebuild the health snapshot and notify listeners
+   */
+  private publish(): void {
+    const slots = this.endpoints
+      .filter(endpoint => endpoint.reachable && endpoint.slot !== null)
+      .map(endpoint => endpoint.slot as number);
+    const highestSlot = slots.length > 0 ? Math.max(...slots) : null;
+
+    this.snapshot = this.endpoints.map((endpoint, index) => {
+      const failures = endpoint.outcomes.filter(ok => !ok).length;
+      const errorRate = endpoint.outcomes.length > 0 ? failures / endpoint.outcomes.length : 0;
+      const slotLag = endpoint.slot !== null && highestSlot !== null ? highestSlot - endpoint.slot : null;
+      const healthy = endpoint.reachable
+        && (slotLag === null || slotLag <= this.options.maxSlotLag)
+        && (endpoint.latencyMs === null || endpoint.latencyMs <= this.options.maxLatencyMs)
+        && errorRate <= this.options.maxErrorRate;
+
+      return {
+        url: endpoint.config.http,
+        label: RpcEndpointPool.label(endpoint.config.http),
+        active: index === this.activeIndex,
+        healthy,
+        slot: endpoint.slot,
+        slotLag,
+        latencyMs: endpoint.latencyMs,
+        errorRate,
+        lastCheckedAt: endpoint.lastCheckedAt,
+        lastError: endpoint.lastError,
+      };
+    });
+
+    this.listeners.forEach(listener => listener());
+  }
+
+  private static label(url: string): string {
+    try {
+      return new URL(url).host;
+    } catch {
+      return url;
+    }
+  }
+}
@@ -0,0 +1,618 @@
+/**
+ * Arcium Poker - Local Program
+ *
+ * In-memory stand-in for the Anchor program, for playing tables offline
+ * with local wallets. Exposes the parts of the Anchor API the app uses
+ * (account fetch/all/subscribe and the `.methods` builders) and applies
+ * instructions with the local game engine.
+ */
+
+import { PublicKey, SystemProgram } from '@solana/web3.js';
+import BN from 'bn.js';
+import {
+  Game,
+  GameConfig,
+  GameStage,
+  PlayerState,
+  PlayerStatus,
+  PlayerActionParam,
+} from '../shared/types';
+import { ErrorCode, PokerError } from '../shared/errors';
+import { DEFAULT_MAX_PLAYERS, MAX_PLAYERS, PROGRAM_ID } from '../shared/constants';
+import { deriveGamePDA, derivePlayerStatePDA, ensureBN } from '../shared/utils';
+import { GameEngine, EngineEvent, EngineState } from '../game/engine';
+import { GameInitializer } from '../game/initialize';
+import { PlayerJoin } from '../player/join';
+import { PlayerLeave } from '../player/leave';
+
+/**
+ * Key-value storage used to keep local tables across page loads
+ * (window.localStorage in the browser)
+ */
+export interface LocalStorageLike {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+}
+
+/**
+ * Local program options
+ */
+export interface LocalProgramOptions {
+  storage?: LocalStorageLike;
+  storageKey?: string;
+  now?: () => number; // Unix seconds (defaults to the system clock)
+}
+
+/**
+ * Decoded account data (Anchor shape: camelCase fields, enums as objects)
+ */
+export type LocalAccountData = Record<string, unknown>;
+
+/**
+ * Account as returned by Anchor's `all()`
+ */
+export interface LocalProgramAccount {
+  publicKey: PublicKey;
+  account: LocalAccountData;
+}
+
+/**
+ * Account change listener, called with the slot of the change
+ */
+export type LocalAccountListener = (account: LocalAccountData, slot: number) => void;
+
+/**
+ * Account filter as passed to Anchor's `all()`
+ */
+interface MemcmpFilter {
+  memcmp: { offset: number; bytes: string };
+}
+
+/**
+ * Instruction call collected by a method builder
+ */
+interface LocalInstruction {
+  name: string;
+  args: unknown[];
+  accounts: Record<string, PublicKey>;
+}
+
+/**
+ * Default storage key for persisted tables
+ */
+const DEFAULT_STORAGE_KEY = 'arcium-poker:local-program';
+
+/**
+ * Account fields at the memcmp offsets the app filters on
+ * (discriminator is 8 bytes, then 32-byte public keys)
+ */
+const GAME_FILTER_FIELDS: Record<number, string> = { 8: 'authority' };
+const PLAYER_STATE_FILTER_FIELDS: Record<number, string> = { 8: 'player', 40: 'game' };
+
+/**
+ * Player action shortcuts mapped to player_action parameters
+ */
+const ACTION_INSTRUCTIONS: Record<string, (args: unknown[]) => PlayerActionParam> = {
+  playerFold: () => ({ fold: {} }),
+  playerCheck: () => ({ check: {} }),
+  playerCall: () => ({ call: {} }),
+  playerBet: (args) => ({ bet: { amount: ensureBN(args[0] as BN) } }),
+  playerRaise: (args) => ({ raise: { amount: ensureBN(args[0] as BN) } }),
+  playerAllIn: () => ({ allIn: {} }),
+};
+
+/**
+ * Local Program
+ * Anchor-compatible program backed by in-memory accounts
+ */
+export class LocalProgram {
+  readonly programId: PublicKey = PROGRAM_ID;
+  readonly account: {
+    game: LocalAccountClient;
+    playerState: LocalAccountClient;
+  };
+  readonly methods: Record<string, (...args: unknown[]) => LocalMethodBuilder>;
+
+  private games = new Map<string, Game>();
+  private playerStates = new Map<string, PlayerState>();
+  private listeners = new Map<number, { address: string; callback: LocalAccountListener }>();
+  private nextSubscriptionId = 1;
+  private signatureCount = 0;
+  private slot = 0;
+  private readonly storage?: LocalStorageLike;
+  private readonly storageKey: string;
+  private readonly now: () => number;
+
+  constructor(options: LocalProgramOptions = {}) {
+    this.storage = options.storage;
+    this.storageKey = options.storageKey ?? DEFAULT_STORAGE_KEY;
+    this.now = options.now ?? (() => Math.floor(Date.now() / 1000));
+    this.load();
+
+    this.account = {
+      game: new LocalAccountClient(this, 'game'),
+      playerState: new LocalAccountClient(this, 'playerState'),
+    };
+
+    // Any instruction name gives a builder; unknown ones fail on rpc()
+    this.methods = new Proxy({}, {
+      get: (_, name: string) => (...args: unknown[]) =>
+        new LocalMethodBuilder(this, name, args),
+    });
+  }
+
+  /**
+   * Get a game in engine form
+   *
+   * @param gamePDA - Game address
+   * @returns Game or null
+   */
+  getGame(gamePDA: PublicKey): Game | null {
+    return this.games.get(gamePDA.toBase58()) ?? null;
+  }
+
+  /**
+   * Get the player states of a game in engine form, by seat
+   *
+   * @param gamePDA - Game address
+   * @returns Player states
+   */
+  getPlayerStates(gamePDA: PublicKey): PlayerState[] {
+    return this.getPlayerStateEntries(gamePDA).map(([, ps]) => ps);
+  }
+
+  /**
+   * Current slot (one per executed instruction)
+   */
+  getSlot(): number {
+    return this.slot;
+  }
+
+  /**
+   * Remove every game and player state
+   */
+  clear(): void {
+    this.games.clear();
+    this.playerStates.clear();
+    this.save();
+  }
+
+  /**
+   * Fetch a decoded account (Anchor shape)
+   */
+  fetchAccount(kind: 'game' | 'playerState', address: PublicKey): LocalAccountData | null {
+    const key = address.toBase58();
+    if (kind === 'game') {
+      const game = this.games.get(key);
+      return game ? this.toGameAccount(game) : null;
+    }
+    const ps = this.playerStates.get(key);
+    return ps ? this.toPlayerStateAccount(ps) : null;
+  }
+
+  /**
+   * All decoded accounts of a kind matching memcmp filters
+   */
+  allAccounts(kind: 'game' | 'playerState', filters: MemcmpFilter[] = []): LocalProgramAccount[] {
+    const entries: [string, LocalAccountData][] = kind === 'game'
+      ? [...this.games].map(([key, game]) => [key, this.toGameAccount(game)])
+      : [...this.playerStates].map(([key, ps]) => [key, this.toPlayerStateAccount(ps)]);
+    const fields = kind === 'game' ? GAME_FILTER_FIELDS : PLAYER_STATE_FILTER_FIELDS;
+
+    return entries
+      .filter(([, account]) => filters.every(filter => {
+        const field = fields[filter.memcmp?.offset];
+        return field !== undefined && (account[field] as PublicKey).toBase58() === filter.memcmp.bytes;
+      }))
+      .map(([key, account]) => ({ publicKey: new PublicKey(key), account }));
+  }
+
+  /**
+   * Listen for changes to an account
+   */
+  subscribe(address: PublicKey, callback: LocalAccountListener): number {
+    const id = this.nextSubscriptionId++;
+    this.listeners.set(id, { address: address.toBase58(), callback });
+    return id;
+  }
+
+  /**
+   * Stop listening for account changes
+   */
+  unsubscribe(subscriptionId: number): void {
+    this.listeners.delete(subscriptionId);
+  }
+
+  /**
+   * Apply an instruction and notify subscribers
+   *
+   * @returns Fake transaction signature
+   */
+  execute(instruction: LocalInstruction): string {
+    const changed = this.apply(instruction);
+
+    this.save();
+    this.slot++;
+    for (const address of changed) {
+      const key = address.toBase58();
+      const kind = this.games.has(key) ? 'game' : 'playerState';
+      const account = this.fetchAccount(kind, address);
+      for (const listener of [...this.listeners.values()]) {
+        if (listener.address === key && account) listener.callback(account, this.slot);
+      }
+    }
+
+    this.signatureCount++;
+    return `local-${instruction.name}-${this.signatureCount}`;
+  }
+
+  /**
+   * Run an instruction against the accounts, returning changed addresses
+   */
+  private apply({ name, args, accounts }: LocalInstruction): PublicKey[] {
+    switch (name) {
+      case 'initializeGame':
+        return this.initializeGame(accounts.authority, args);
+      case 'joinGame':
+        return this.joinGame(accounts.game, accounts.player, ensureBN(args[0] as BN));
+      case 'leaveGame':
+        return this.leaveGame(accounts.game, accounts.player);
+      case 'startGame':
+        return this.reduce(accounts.game, {
+          type: 'start_game',
+          authority: accounts.authority,
+          playerEntropy: (args[0] as number[][]).map(bytes => Uint8Array.from(bytes)),
+          timestamp: this.now(),
+        });
+      case 'playerAction':
+        return this.reduce(accounts.game, {
+          type: 'player_action',
+          player: accounts.player,
+          action: args[0] as PlayerActionParam,
+          timestamp: this.now(),
+        });
+      case 'advanceStage':
+        return this.reduce(accounts.game, { type: 'advance_stage', timestamp: this.now() });
+      case 'executeShowdown':
+        return this.reduce(accounts.game, { type: 'execute_showdown', timestamp: this.now() });
+      case 'newHand':
+        return this.reduce(accounts.game, {
+          type: 'new_hand', authority: accounts.authority, timestamp: this.now(),
+        });
+      case 'timeoutPlayer':
+        return this.reduce(accounts.game, {
+          type: 'timeout_player', player: accounts.player, timestamp: this.now(),
+        });
+      case 'chooseRuns':
+        return this.reduce(accounts.game, {
+          type: 'choose_runs', player: accounts.player, runs: args[0] as number, timestamp: this.now(),
+        });
+      default:
+        if (ACTION_INSTRUCTIONS[name]) {
+          return this.reduce(accounts.game, {
+            type: 'player_action',
+            player: accounts.player,
+            action: ACTION_INSTRUCTIONS[name](args),
+            timestamp: this.now(),
+          });
+        }
+        throw new PokerError(ErrorCode.InvalidAction, `Unsupported instruction: ${name}`);
+    }
+  }
+
+  /**
+   * initialize_game: create a game account for the authority
+   * Takes the table rules as an extra (local-only) argument
+   */
+  private initializeGame(authority: PublicKey, args: unknown[]): PublicKey[] {
+    this.requireAccount(authority, 'authority');
+    const [gameId, smallBlind, bigBlind, minBuyIn, maxBuyIn] = args as (BN | null)[];
+    const maxPlayers = args[5] as number | null;
+    const rules = (args[6] as Partial<GameConfig> | null | undefined) ?? {};
+    const defaults = GameInitializer.getDefaultParams();
+    const params = {
+      gameId: ensureBN(gameId!),
+      smallBlind: ensureBN(smallBlind ?? defaults.smallBlind!),
+      bigBlind: ensureBN(bigBlind ?? defaults.bigBlind!),
+      minBuyIn: ensureBN(minBuyIn ?? defaults.minBuyIn!),
+      maxBuyIn: ensureBN(maxBuyIn ?? defaults.maxBuyIn!),
+      maxPlayers: maxPlayers ?? DEFAULT_MAX_PLAYERS,
+    };
+
+    const validation = GameInitializer.validateGameParams({ ...params, ...rules });
+    if (!validation.valid) {
+      throw new PokerError(ErrorCode.InvalidGameConfig, validation.error);
+    }
+
+    const [gamePDA, bump] = deriveGamePDA(authority, params.gameId);
+    if (this.games.has(gamePDA.toBase58())) {
+      throw new PokerError(ErrorCode.InvalidGameConfig, 'Game already exists');
+    }
+
+    this.games.set(gamePDA.toBase58(), {
+      authority,
+      ...params,
+      stage: GameStage.Waiting,
+      playerCount: 0,
+      players: Array(MAX_PLAYERS).fill(PublicKey.default),
+      activePlayers: Array(MAX_PLAYERS).fill(false),
+      dealerPosition: 0,
+      currentPlayerIndex: 0,
+      pot: new BN(0),
+      currentBet: new BN(0),
+      playersActed: Array(MAX_PLAYERS).fill(false),
+      communityCards: [0, 0, 0, 0, 0],
+      communityCardsRevealed: 0,
+      encryptedDeck: Array(32).fill(0),
+      deckInitialized: false,
+      startedAt: new BN(0),
+      lastActionAt: new BN(this.now()),
+      shuffleSessionId: Array(32).fill(0),
+      bump,
+      config: GameInitializer.getGameConfig({ ...params, ...rules }),
+    });
+
+    return [gamePDA];
+  }
+
+  /**
+   * join_game: seat a player with their buy-in as chips
+   */
+  private joinGame(gamePDA: PublicKey, player: PublicKey, buyIn: BN): PublicKey[] {
+    const game = this.requireGame(gamePDA);
+    this.requireAccount(player, 'player');
+
+    const validation = PlayerJoin.validateJoin(game, buyIn, player);
+    if (!validation.valid) {
+      throw new PokerError(ErrorCode.InvalidAction, validation.error);
+    }
+
+    const [playerStatePDA, bump] = derivePlayerStatePDA(gamePDA, player);
+    const seatIndex = game.playerCount;
+    const now = new BN(this.now());
+
+    game.players[seatIndex] = player;
+    game.activePlayers[seatIndex] = true;
+    game.playerCount++;
+    this.playerStates.set(playerStatePDA.toBase58(), {
+      player,
+      game: gamePDA,
+      seatIndex,
+      status: PlayerStatus.Waiting,
+      chipStack: buyIn,
+      currentBet: new BN(0),
+      totalBetThisHand: new BN(0),
+      encryptedHoleCards: [0, 0],
+      hasCards: false,
+      hasFolded: false,
+      isAllIn: false,
+      joinedAt: now,
+      lastActionAt: now,
+      bump,
+    });
+
+    return [gamePDA, playerStatePDA];
+  }
+
+  /**
+   * leave_game: unseat a player before the game starts
+   */
+  private leaveGame(gamePDA: PublicKey, player: PublicKey): PublicKey[] {
+    const game = this.requireGame(gamePDA);
+    const [playerStatePDA] = derivePlayerStatePDA(gamePDA, player);
+    const ps = this.playerStates.get(playerStatePDA.toBase58());
+    if (!ps) {
+      throw new PokerError(ErrorCode.PlayerNotInGame);
+    }
+
+    const validation = PlayerLeave.validateLeave(game, ps);
+    if (!validation.valid) {
+      throw new PokerError(ErrorCode.CannotLeaveDuringHand, validation.error);
+    }
+
+    // Close up the seats behind the player
+    const players = game.players.slice(0, game.playerCount).filter(p => !p.equals(player));
+    game.playerCount = players.length;
+    game.players = game.players.map((_, seat) => players[seat] ?? PublicKey.default);
+    game.activePlayers = game.players.map((_, seat) => seat < players.length);
+    this.playerStates.delete(playerStatePDA.toBase58());
+    for (const [, other] of this.getPlayerStateEntries(gamePDA)) {
+      other.seatIndex = players.findIndex(p => p.equals(other.player));
+    }
+
+    return [gamePDA, ...this.getPlayerStateEntries(gamePDA).map(([key]) => new PublicKey(key))];
+  }
+
+  /**
+   * Apply an engine event to a game and its player states
+   */
+  private reduce(gamePDA: PublicKey, event: EngineEvent): PublicKey[] {
+    const game = this.requireGame(gamePDA);
+    const entries = this.getPlayerStateEntries(gamePDA);
+    const state: EngineState = { game, playerStates: entries.map(([, ps]) => ps) };
+
+    const next = GameEngine.reduce(state, event);
+
+    this.games.set(gamePDA.toBase58(), next.game);
+    entries.forEach(([key], i) => this.playerStates.set(key, next.playerStates[i]));
+
+    return [gamePDA, ...entries.map(([key]) => new PublicKey(key))];
+  }
+
+  /**
+   * Player states of a game with their addresses, by seat
+   */
+  private getPlayerStateEntries(gamePDA: PublicKey): [string, PlayerState][] {
+    return [...this.playerStates]
+      .filter(([, ps]) => ps.game.equals(gamePDA))
+      .sort(([, a], [, b]) => a.seatIndex - b.seatIndex);
+  }
+
+  private requireGame(gamePDA: PublicKey | undefined): Game {
+    const game = gamePDA && this.games.get(gamePDA.toBase58());
+    if (!game) {
+      throw new PokerError(ErrorCode.InvalidGameStage, 'Game not found');
+    }
+    return game;
+  }
+
+  private requireAccount(address: PublicKey | undefined, name: string): void {
+    if (!address || address.equals(SystemProgram.programId)) {
+      throw new PokerError(ErrorCode.InvalidAction, `Missing ${name} account`);
+    }
+  }
+
+  /**
+   * Convert a game to the shape Anchor decodes (enum variants as objects)
+   */
+  private toGameAccount(game: Game): LocalAccountData {
+    return { ...game, stage: this.toEnumVariant(game.stage) };
+  }
+
+  private toPlayerStateAccount(ps: PlayerState): LocalAccountData {
+    return { ...ps, status: this.toEnumVariant(ps.status) };
+  }
+
+  private toEnumVariant(value: string): Record<string, Record<string, never>> {
+    return { [value[0].toLowerCase() + value.slice(1)]: {} };
+  }
+
+  /**
+   * Restore persisted accounts
+   */
+  private load(): void {
+    const saved = this.storage?.getItem(this.storageKey);
+    if (!saved) return;
+
+    try {
+      const data = decodeValue(JSON.parse(saved)) as {
+        games: [string, Game][];
+        playerStates: [string, PlayerState][];
+      };
+      this.games = new Map(data.games);
+      this.playerStates = new Map(data.playerStates);
+    } catch (error) {
+      console.error('Error loading local tables:', error);
+    }
+  }
+
+  /**
+   * Persist accounts
+   */
+  private save(): void {
+    if (!this.storage) return;
+    const data = { games: [...this.games], playerStates: [...this.playerStates] };
+    this.storage.setItem(this.storageKey, JSON.stringify(encodeValue(data)));
+  }
+}
+
+/**
+ * Account namespace (`program.account.game` / `program.account.playerState`)
+ */
+export class LocalAccountClient {
+  constructor(
+    private readonly program: LocalProgram,
+    private readonly kind: 'game' | 'playerState'
+  ) {}
+
+  async fetch(address: PublicKey): Promise<LocalAccountData> {
+    const account = this.program.fetchAccount(this.kind, address);
+    if (!account) {
+      throw new Error(`Account does not exist or has no data ${address.toBase58()}`);
+    }
+    return account;
+  }
+
+  async fetchNullable(address: PublicKey): Promise<LocalAccountData | null> {
+    return this.program.fetchAccount(this.kind, address);
+  }
+
+  async all(filters?: MemcmpFilter[]): Promise<LocalProgramAccount[]> {
+    return this.program.allAccounts(this.kind, filters);
+  }
+
+  /**
+   * Subscribe to an account; `on('change', callback)` returns the subscription ID
+   */
+  subscribe(address: PublicKey) {
+    return {
+      on: (event: 'change', callback: LocalAccountListener): number => {
+        if (event !== 'change') {
+          throw new Error(`Unsupported account event: ${event}`);
+        }
+        return this.program.subscribe(address, callback);
+      },
+    };
+  }
+
+  async unsubscribe(subscriptionId: number): Promise<void> {
+    this.program.unsubscribe(subscriptionId);
+  }
+}
+
+/**
+ * Method builder (`program.methods.<instruction>(...args)`)
+ */
+export class LocalMethodBuilder {
+  private accountsMap: Record<string, PublicKey> = {};
+
+  constructor(
+    private readonly program: LocalProgram,
+    private readonly name: string,
+    private readonly args: unknown[]
+  ) {}
+
+  accounts(accounts: Record<string, PublicKey>): this {
+    this.accountsMap = { ...this.accountsMap, ...accounts };
+    return this;
+  }
+
+  accountsPartial(accounts: Record<string, PublicKey>): this {
+    return this.accounts(accounts);
+  }
+
+  // Player states are looked up by game and nothing is signed, so
+  // remaining accounts and signers are accepted and ignored
+  remainingAccounts(): this {
+    return this;
+  }
+
+  signers(): this {
+    return this;
+  }
+
+  async rpc(): Promise<string> {
+    return this.program.execute({ name: this.name, args: this.args, accounts: this.accountsMap });
+  }
+
+  async instruction(): Promise<never> {
+    throw new Error('Local program instructions cannot be sent in a transaction (use rpc())');
+  }
+}
+
+/**
+ * Encode BN and PublicKey values for JSON storage
+ */
+function encodeValue(value: unknown): unknown {
+  if (BN.isBN(value)) return { $bn: value.toString() };
+  if (value instanceof PublicKey) return { $pk: value.toBase58() };
+  if (Array.isArray(value)) return value.map(encodeValue);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, encodeValue(v)]));
+  }
+  return value;
+}
+
+/**
+ * Decode values written by encodeValue
+ */
+function decodeValue(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(decodeValue);
+  if (value && typeof value === 'object') {
+    const { $bn, $pk } = value as { $bn?: unknown; $pk?: unknown };
+    if (typeof $bn === 'string') return new BN($bn);
+    if (typeof $pk === 'string') return new PublicKey($pk);
+    return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, decodeValue(v)]));
+  }
+  return value;
+}
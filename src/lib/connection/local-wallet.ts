@@ -0,0 +1,95 @@
+/**
+ * Arcium Poker - Local Wallet
+ *
+ * Fake wallets for local table mode, so several players can sit at one
+ * table from a single browser. Each wallet has a fixed keypair derived
+ * from its seat number, so identities survive page reloads.
+ */
+
+import {
+  BaseSignerWalletAdapter,
+  isVersionedTransaction,
+  WalletName,
+  WalletNotConnectedError,
+  WalletReadyState,
+} from '@solana/wallet-adapter-base';
+import { Keypair, Transaction, TransactionVersion, VersionedTransaction } from '@solana/web3.js';
+
+/**
+ * Default number of local wallets offered
+ */
+const DEFAULT_LOCAL_WALLET_COUNT = 6;
+
+/**
+ * Wallet icon (plain chip glyph)
+ */
+const LOCAL_WALLET_ICON =
+  'data:image/svg+xml;base64,' +
+  'PHN2ZyB4bWxucz0iaHR0cDovL3d3dy53My5vcmcvMjAwMC9zdmciIHZpZXdCb3g9IjAgMCAzMiAzMiI+' +
+  'PGNpcmNsZSBjeD0iMTYiIGN5PSIxNiIgcj0iMTQiIGZpbGw9IiMwMGZmODgiLz48Y2lyY2xlIGN4PSIx' +
+  'NiIgY3k9IjE2IiByPSI4IiBmaWxsPSIjMDAwIi8+PC9zdmc+';
+
+/**
+ * Local Wallet Adapter
+ * Wallet adapter with a deterministic keypair, for local table mode only
+ */
+export class LocalWalletAdapter extends BaseSignerWalletAdapter {
+  readonly name: WalletName;
+  readonly url = 'https://github.com/anza-xyz/wallet-adapter#usage';
+  readonly icon = LOCAL_WALLET_ICON;
+  readonly supportedTransactionVersions: ReadonlySet<TransactionVersion> = new Set(['legacy', 0]);
+
+  private readonly keypair: Keypair;
+  private active = false;
+
+  /**
+   * @param index - Wallet number (0-based); the same index always gives the same key
+   */
+  constructor(index: number) {
+    super();
+    this.name = `Local Player ${index + 1}` as WalletName;
+    this.keypair = Keypair.fromSeed(new Uint8Array(32).fill(index + 1));
+  }
+
+  /**
+   * Create the local wallets offered in local table mode
+   * @param count - Number of wallets
+   */
+  static createAdapters(count: number = DEFAULT_LOCAL_WALLET_COUNT): LocalWalletAdapter[] {
+    return Array.from({ length: count }, (_, index) => new LocalWalletAdapter(index));
+  }
+
+  get connecting() {
+    return false;
+  }
+
+  get publicKey() {
+    return this.active ? this.keypair.publicKey : null;
+  }
+
+  get readyState() {
+    return WalletReadyState.Loadable;
+  }
+
+  async connect(): Promise<void> {
+    this.active = true;
+    this.emit('connect', this.keypair.publicKey);
+  }
+
+  async disconnect(): Promise<void> {
+    this.active = false;
+    this.emit('disconnect');
+  }
+
+  async signTransaction<T extends Transaction | VersionedTransaction>(transaction: T): Promise<T> {
+    if (!this.active) throw new WalletNotConnectedError();
+
+    if (isVersionedTransaction(transaction)) {
+      transaction.sign([this.keypair]);
+    } else {
+      transaction.partialSign(this.keypair);
+    }
+
+    return transaction;
+  }
+}
@@ -4,11 +4,18 @@
  * Central export point for all connection-related functionality.
  */
 
-// Export program client
+// Export program client and account decoding
 export * from './program';
+export * from './accounts';
 
-// Export RPC client
+// Export local table mode program and wallets
+export * from './local-program';
+export * from './local-wallet';
+
+// Export RPC client, endpoint failover and transaction pipeline
 export * from './rpc';
+export * from './endpoints';
+export * from './transaction';
 
 // Export wallet client
 export * from './wallet';
@@ -1,15 +1,20 @@
 /**
  * Arcium Poker - Program Client
  * 
- * Handles Anchor program initialization and PDA derivation.
+ * Handles Anchor program initialization and PDA derivation. Account reads
+ * are decoded into the shared Game and PlayerState types.
  */
 
-import { Program, AnchorProvider, Idl } from '@coral-xyz/anchor';
+import { Program, AnchorProvider, Idl, AccountNamespace, ProgramAccount } from '@coral-xyz/anchor';
 import { Connection, PublicKey } from '@solana/web3.js';
 import BN from 'bn.js';
 import { PROGRAM_ID } from '../shared/constants';
+import { Game, PlayerState } from '../shared/types';
 import { deriveGamePDA, derivePlayerStatePDA } from '../shared/utils';
 import idl from '../../arcium_poker.json';
+import type { ArciumPoker } from '../../arcium_poker';
+import { LocalAccountData, LocalProgram, LocalProgramOptions } from './local-program';
+import { AccountDecoder, RawGameAccount, RawPlayerStateAccount } from './accounts';
 
 /**
  * Arcium Poker Program type
@@ -22,6 +27,17 @@ export type ArciumPokerProgram = Program<Idl>;
  */
 let programInstance: ArciumPokerProgram | null = null;
 
+/**
+ * Whether the program was set up without a wallet, for reads only
+ */
+let readOnly = false;
+
+/**
+ * Account subscriptions by ID, with the function that cancels each
+ */
+const subscriptions = new Map<number, () => Promise<void>>();
+let nextSubscriptionId = 1;
+
 /**
  * Program Client
  * Manages Anchor program instance and PDA derivations
@@ -33,26 +49,61 @@ export class ProgramClient {
    * @returns Initialized program instance
    */
   static initialize(provider: AnchorProvider): ArciumPokerProgram {
-    if (!programInstance) {
+    // A read-only program gives way to the first one with a wallet
+    if (!programInstance || readOnly) {
+      readOnly = false;
       // In Anchor 0.32+, Program constructor is: new Program(idl, provider)
       // The program ID is read from idl.address field
-      // We need to ensure the IDL is properly structured
-      const programId = new PublicKey(idl.address);
-      
-      programInstance = new Program(
-        idl as any,
-        provider
-      );
-      
-      console.log('🔍 Program initialized');
-      console.log('🔍 Program ID from IDL:', programId.toBase58());
-      console.log('🔍 Program ID matches:', programId.equals(PROGRAM_ID));
-      console.log('🔍 Methods available:', Object.keys(programInstance.methods));
-      console.log('🔍 programInstance.programId:', programInstance.programId.toBase58());
+      programInstance = new Program(idl as Idl, provider);
+    }
+    return programInstance;
+  }
+
+  /**
+   * Initialize the program for reading accounts, without a wallet
+   * Replaced by the next call to initialize() with a wallet provider
+   * @param connection - Cluster connection
+   * @returns Program instance (the existing one if already initialized)
+   */
+  static initializeReadOnly(connection: Connection): ArciumPokerProgram {
+    if (!programInstance) {
+      // Reads need only the connection, not a wallet
+      programInstance = new Program(idl as Idl, { connection });
+      readOnly = true;
+    }
+    return programInstance;
+  }
+
+  /**
+   * Initialize the in-memory local program (local table mode)
+   * Tables persist in localStorage when running in the browser
+   * @param options - Local program options
+   * @returns Local program instance, typed as the Anchor program
+   */
+  static initializeLocal(options: LocalProgramOptions = {}): ArciumPokerProgram {
+    if (!programInstance) {
+      const storage = typeof window !== 'undefined' ? window.localStorage : undefined;
+      const local = new LocalProgram({ storage, ...options });
+      programInstance = local as unknown as ArciumPokerProgram;
     }
     return programInstance;
   }
 
+  /**
+   * Check if the program is the in-memory local program
+   */
+  static isLocal(): boolean {
+    return programInstance instanceof LocalProgram;
+  }
+
+  /**
+   * Get the local program in engine form (for local-only features)
+   * @returns Local program, or null when connected to a cluster
+   */
+  static getLocalProgram(): LocalProgram | null {
+    return programInstance instanceof LocalProgram ? programInstance : null;
+  }
+
   /**
    * Get program instance
    * @throws Error if program not initialized
@@ -75,7 +126,12 @@ export class ProgramClient {
    * Reset program instance (useful for testing)
    */
   static reset(): void {
+    for (const cancel of subscriptions.values()) {
+      cancel().catch(error => console.warn('Error removing account listener:', error));
+    }
+    subscriptions.clear();
     programInstance = null;
+    readOnly = false;
   }
 
   /**
@@ -85,6 +141,15 @@ export class ProgramClient {
     return PROGRAM_ID;
   }
 
+  /**
+   * Account clients typed from the IDL. Instruction builders stay untyped
+   * on ArciumPokerProgram, since call sites pass accounts Anchor can also
+   * resolve itself.
+   */
+  private static getAccounts(): AccountNamespace<ArciumPoker> {
+    return this.getProgram().account as unknown as AccountNamespace<ArciumPoker>;
+  }
+
   /**
    * Derive Game PDA
    * @param authority - Game creator's public key
@@ -134,21 +199,19 @@ export class ProgramClient {
   /**
    * Fetch Game account
    * @param gamePDA - Game PDA address
-   * @returns Game account data
+   * @returns Game
    */
-  static async fetchGame(gamePDA: PublicKey): Promise<any> {
-    const program = this.getProgram();
-    return await program.account.game.fetch(gamePDA);
+  static async fetchGame(gamePDA: PublicKey): Promise<Game> {
+    return AccountDecoder.decodeGame(await this.getAccounts().game.fetch(gamePDA));
   }
 
   /**
    * Fetch PlayerState account
    * @param playerStatePDA - PlayerState PDA address
-   * @returns PlayerState account data
+   * @returns Player state
    */
-  static async fetchPlayerState(playerStatePDA: PublicKey): Promise<any> {
-    const program = this.getProgram();
-    return await program.account.playerState.fetch(playerStatePDA);
+  static async fetchPlayerState(playerStatePDA: PublicKey): Promise<PlayerState> {
+    return AccountDecoder.decodePlayerState(await this.getAccounts().playerState.fetch(playerStatePDA));
   }
 
   /**
@@ -156,9 +219,8 @@ export class ProgramClient {
    * @param authority - Game creator's public key
    * @returns Array of game accounts
    */
-  static async fetchGamesByAuthority(authority: PublicKey): Promise<any[]> {
-    const program = this.getProgram();
-    return await program.account.game.all([
+  static async fetchGamesByAuthority(authority: PublicKey): Promise<ProgramAccount<Game>[]> {
+    const accounts = await this.getAccounts().game.all([
       {
         memcmp: {
           offset: 8, // Discriminator
@@ -166,6 +228,16 @@ export class ProgramClient {
         },
       },
     ]);
+    return AccountDecoder.decodeAll(accounts, account => AccountDecoder.decodeGame(account));
+  }
+
+  /**
+   * Fetch all game accounts
+   * @returns Array of game accounts
+   */
+  static async fetchAllGames(): Promise<ProgramAccount<Game>[]> {
+    const accounts = await this.getAccounts().game.all();
+    return AccountDecoder.decodeAll(accounts, account => AccountDecoder.decodeGame(account));
   }
 
   /**
@@ -173,9 +245,8 @@ export class ProgramClient {
    * @param game - Game account public key
    * @returns Array of player state accounts
    */
-  static async fetchPlayerStatesByGame(game: PublicKey): Promise<any[]> {
-    const program = this.getProgram();
-    return await program.account.playerState.all([
+  static async fetchPlayerStatesByGame(game: PublicKey): Promise<ProgramAccount<PlayerState>[]> {
+    const accounts = await this.getAccounts().playerState.all([
       {
         memcmp: {
           offset: 8 + 32, // Discriminator + player pubkey
@@ -183,34 +254,60 @@ export class ProgramClient {
         },
       },
     ]);
+    return AccountDecoder.decodeAll(accounts, account => AccountDecoder.decodePlayerState(account));
+  }
+
+  /**
+   * Get the current confirmed slot
+   */
+  static async getSlot(): Promise<number> {
+    const local = this.getLocalProgram();
+    if (local) {
+      return local.getSlot();
+    }
+    return this.getProgram().provider.connection.getSlot('confirmed');
   }
 
   /**
    * Subscribe to game account changes
    * @param gamePDA - Game PDA address
-   * @param callback - Callback function when account changes
+   * @param callback - Callback with the game and the slot of the change
+   * @param onError - Called when a change cannot be decoded
    * @returns Subscription ID
    */
   static subscribeToGame(
     gamePDA: PublicKey,
-    callback: (account: any) => void
+    callback: (game: Game, slot: number) => void,
+    onError?: (error: Error) => void
   ): number {
-    const program = this.getProgram();
-    return program.account.game.subscribe(gamePDA, 'confirmed').on('change', callback);
+    return this.subscribeToAccount(
+      gamePDA,
+      account => AccountDecoder.decodeGame(account as unknown as RawGameAccount),
+      data => AccountDecoder.decodeGameData(data),
+      callback,
+      onError
+    );
   }
 
   /**
    * Subscribe to player state account changes
    * @param playerStatePDA - PlayerState PDA address
-   * @param callback - Callback function when account changes
+   * @param callback - Callback with the player state and the slot of the change
+   * @param onError - Called when a change cannot be decoded
    * @returns Subscription ID
    */
   static subscribeToPlayerState(
     playerStatePDA: PublicKey,
-    callback: (account: any) => void
+    callback: (playerState: PlayerState, slot: number) => void,
+    onError?: (error: Error) => void
   ): number {
-    const program = this.getProgram();
-    return program.account.playerState.subscribe(playerStatePDA, 'confirmed').on('change', callback);
+    return this.subscribeToAccount(
+      playerStatePDA,
+      account => AccountDecoder.decodePlayerState(account as unknown as RawPlayerStateAccount),
+      data => AccountDecoder.decodePlayerStateData(data),
+      callback,
+      onError
+    );
   }
 
   /**
@@ -218,7 +315,59 @@ export class ProgramClient {
    * @param subscriptionId - Subscription ID to cancel
    */
   static async unsubscribe(subscriptionId: number): Promise<void> {
-    const program = this.getProgram();
-    await program.account.game.unsubscribe(subscriptionId);
+    const cancel = subscriptions.get(subscriptionId);
+    if (!cancel) return;
+    subscriptions.delete(subscriptionId);
+    await cancel();
+  }
+
+  /**
+   * Listen for changes to an account of any kind. On a cluster this uses
+   * the connection directly rather than Anchor's account clients, which
+   * key subscriptions by address and do not report slots.
+   */
+  private static subscribeToAccount<T>(
+    address: PublicKey,
+    decodeAccount: (account: LocalAccountData) => T,
+    decodeData: (data: Buffer) => T,
+    callback: (value: T, slot: number) => void,
+    onError: (error: Error) => void = error => console.error('Error decoding account change:', error)
+  ): number {
+    const local = this.getLocalProgram();
+    let cancel: () => Promise<void>;
+
+    // A change that fails to decode is reported, not thrown into the listener
+    const notify = (decode: () => T, slot: number) => {
+      let value: T;
+      try {
+        value = decode();
+      } catch (error) {
+        onError(error instanceof Error ? error : new Error(String(error)));
+        return;
+      }
+      callback(value, slot);
+    };
+
+    if (local) {
+      const id = local.subscribe(address, (account, slot) => notify(() => decodeAccount(account), slot));
+      cancel = async () => local.unsubscribe(id);
+    } else {
+      const connection = this.getProgram().provider.connection;
+      const id = connection.onAccountChange(
+        address,
+        (info, context) => {
+          // Closed accounts have no data left to decode
+          if (info.data.length > 0) {
+            notify(() => decodeData(info.data), context.slot);
+          }
+        },
+        'confirmed'
+      );
+      cancel = () => connection.removeAccountChangeListener(id);
+    }
+
+    const subscriptionId = nextSubscriptionId++;
+    subscriptions.set(subscriptionId, cancel);
+    return subscriptionId;
   }
 }
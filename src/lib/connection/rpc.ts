@@ -1,13 +1,13 @@
 /**
  * Arcium Poker - RPC Client
  * 
- * Manages Solana RPC connection and transaction handling.
+ * Manages Solana RPC connection and transaction handling. The connection
+ * fails over between the configured endpoints (see endpoints.ts).
  */
 
 import { 
   Connection, 
   Commitment, 
-  ConnectionConfig,
   PublicKey,
   Transaction,
   TransactionSignature,
@@ -17,18 +17,26 @@ import {
   SignatureResult,
 } from '@solana/web3.js';
 import { 
-  RPC_ENDPOINT, 
+  RPC_ENDPOINTS, 
   WS_ENDPOINT, 
   COMMITMENT, 
   TRANSACTION_TIMEOUT_MS,
   RPC_TIMEOUT_MS,
+  RPC_HEALTH_CHECK_INTERVAL_MS,
 } from '../shared/constants';
 import { retryWithBackoff, withTimeout } from '../shared/utils';
+import {
+  TransactionPipeline,
+  TransactionPipelineOptions,
+  TransactionRequest,
+  TransactionResult,
+} from './transaction';
+import { EndpointHealth, RpcEndpointConfig, RpcEndpointPool } from './endpoints';
 
 /**
- * RPC connection singleton
+ * RPC endpoint pool singleton
  */
-let connectionInstance: Connection | null = null;
+let poolInstance: RpcEndpointPool | null = null;
 
 /**
  * RPC Client
@@ -37,23 +45,22 @@ let connectionInstance: Connection | null = null;
 export class RPCClient {
   /**
    * Initialize connection
-   * @param endpoint - RPC endpoint URL (optional, uses env var by default)
+   * @param endpoints - RPC endpoint URL, or endpoints to fail over between
+   *   (optional, uses env vars by default)
    * @param commitment - Commitment level (optional, uses env var by default)
-   * @returns Connection instance
+   * @returns Connection that follows the active endpoint
    */
   static initialize(
-    endpoint: string = RPC_ENDPOINT,
+    endpoints: string | RpcEndpointConfig[] = RPC_ENDPOINTS,
     commitment: Commitment = COMMITMENT
   ): Connection {
-    if (!connectionInstance) {
-      const config: ConnectionConfig = {
-        commitment,
-        wsEndpoint: WS_ENDPOINT,
-        confirmTransactionInitialTimeout: TRANSACTION_TIMEOUT_MS,
-      };
-      connectionInstance = new Connection(endpoint, config);
+    if (!poolInstance) {
+      const configs = typeof endpoints === 'string'
+        ? [{ http: endpoints, ws: WS_ENDPOINT }]
+        : endpoints;
+      poolInstance = new RpcEndpointPool(configs, { commitment });
     }
-    return connectionInstance;
+    return poolInstance.connection;
   }
 
   /**
@@ -61,32 +68,66 @@ export class RPCClient {
    * @throws Error if connection not initialized
    */
   static getConnection(): Connection {
-    if (!connectionInstance) {
+    return this.getPool().connection;
+  }
+
+  /**
+   * Get the endpoint pool behind the connection
+   */
+  static getPool(): RpcEndpointPool {
+    if (!poolInstance) {
       // Auto-initialize with defaults
-      return this.initialize();
+      this.initialize();
     }
-    return connectionInstance;
+    return poolInstance!;
   }
 
   /**
    * Check if connection is initialized
    */
   static isInitialized(): boolean {
-    return connectionInstance !== null;
+    return poolInstance !== null;
   }
 
   /**
    * Reset connection (useful for testing)
    */
   static reset(): void {
-    connectionInstance = null;
+    poolInstance?.stopHealthChecks();
+    poolInstance = null;
   }
 
   /**
    * Get RPC endpoint URL
    */
   static getEndpoint(): string {
-    return this.getConnection().rpcEndpoint;
+    return this.getPool().getActiveEndpoint();
+  }
+
+  /**
+   * Get the health of every endpoint
+   */
+  static getEndpointHealth(): EndpointHealth[] {
+    return this.getPool().getSnapshot();
+  }
+
+  /**
+   * Check endpoint health periodically, failing over when the active
+   * endpoint turns unhealthy
+   * @param intervalMs - Time between checks
+   * @returns Function that stops the checks
+   */
+  static startHealthChecks(intervalMs: number = RPC_HEALTH_CHECK_INTERVAL_MS): () => void {
+    return this.getPool().startHealthChecks(intervalMs);
+  }
+
+  /**
+   * Listen for the connection failing over to another endpoint
+   * @param listener - Called with the newly active endpoint
+   * @returns Function that removes the listener
+   */
+  static onFailover(listener: (endpoint: EndpointHealth) => void): () => void {
+    return this.getPool().onFailover(listener);
   }
 
   /**
@@ -110,6 +151,9 @@ export class RPCClient {
 
   /**
    * Send and confirm transaction
+   *
+   * @deprecated Resends the same signed bytes, so it cannot outlive the
+   *   transaction's blockhash. Use sendInstructions.
    * @param transaction - Transaction to send
    * @param options - Send options
    * @returns Transaction signature
@@ -135,6 +179,20 @@ export class RPCClient {
     );
   }
 
+  /**
+   * Send instructions through the transaction pipeline: priority fees,
+   * rebroadcasts and blockhash refreshes
+   * @param request - Instructions, fee payer and signer
+   * @param options - Pipeline tuning
+   * @returns Signature and slot of the confirmed transaction
+   */
+  static async sendInstructions(
+    request: TransactionRequest,
+    options?: TransactionPipelineOptions
+  ): Promise<TransactionResult> {
+    return await TransactionPipeline.send(this.getConnection(), request, options);
+  }
+
   /**
    * Get account info with retry
    * @param pubkey - Account public key
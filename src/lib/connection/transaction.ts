@@ -0,0 +1,306 @@
+/**
+ * Arcium Poker - Transaction Pipeline
+ *
+ * Sends program instructions the way a busy cluster needs them sent:
+ * priced from recent prioritization fees, sized from a simulation,
+ * rebroadcast until confirmed or past their last valid block height, and
+ * re-signed with a fresh blockhash when they expire. Each step is
+ * reported as a status event so the UI can show where a transaction is.
+ */
+
+import {
+  ComputeBudgetProgram,
+  Connection,
+  PublicKey,
+  Transaction,
+  TransactionError,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction,
+} from '@solana/web3.js';
+import bs58 from 'bs58';
+import {
+  COMPUTE_UNIT_MARGIN,
+  DEFAULT_COMPUTE_UNIT_LIMIT,
+  MAX_BLOCKHASH_REFRESHES,
+  MAX_COMPUTE_UNIT_LIMIT,
+  MAX_PRIORITY_FEE_MICROLAMPORTS,
+  PRIORITY_FEE_PERCENTILE,
+  REBROADCAST_INTERVAL_MS,
+} from '../shared/constants';
+import { sleep } from '../shared/utils';
+
+/**
+ * Step a transaction has reached
+ */
+export type TransactionStatus = 'signed' | 'sent' | 'processed' | 'confirmed' | 'expired';
+
+/**
+ * Status update for one signed copy of a transaction
+ */
+export interface TransactionStatusEvent {
+  status: TransactionStatus;
+  signature: string;
+  /** 1 for the first signature, incremented each time the blockhash is refreshed */
+  attempt: number;
+  /** Slot the transaction landed in (processed and confirmed only) */
+  slot?: number;
+}
+
+/**
+ * Connection methods the pipeline uses
+ */
+export type PipelineConnection = Pick<
+  Connection,
+  | 'getRecentPrioritizationFees'
+  | 'simulateTransaction'
+  | 'getLatestBlockhash'
+  | 'getBlockHeight'
+  | 'sendRawTransaction'
+  | 'getSignatureStatuses'
+>;
+
+/**
+ * Transaction to send through the pipeline
+ */
+export interface TransactionRequest {
+  instructions: TransactionInstruction[];
+  feePayer: PublicKey;
+  signTransaction: (transaction: Transaction) => Promise<Transaction>;
+  onStatus?: (event: TransactionStatusEvent) => void;
+}
+
+/**
+ * Pipeline tuning, mostly for tests
+ */
+export interface TransactionPipelineOptions {
+  rebroadcastIntervalMs?: number;
+  maxBlockhashRefreshes?: number;
+}
+
+/**
+ * Confirmed transaction
+ */
+export interface TransactionResult {
+  signature: string;
+  slot: number;
+}
+
+/**
+ * Transaction that landed but failed on chain
+ */
+export class TransactionFailedError extends Error {
+  constructor(
+    public signature: string,
+    public err: TransactionError
+  ) {
+    super(`Transaction failed: ${JSON.stringify(err)}`);
+    this.name = 'TransactionFailedError';
+    Object.setPrototypeOf(this, TransactionFailedError.prototype);
+  }
+}
+
+/**
+ * Transaction Pipeline
+ * Prices, signs, broadcasts and confirms transactions
+ */
+export class TransactionPipeline {
+  /**
+   * Send instructions and wait until they are confirmed
+   *
+   * Failed transactions throw a TransactionFailedError carrying their
+   * status error (e.g. `{ InstructionError: [index, { Custom: code }] }`),
+   * which callers can decode with parseAnchorError.
+   *
+   * @param connection - RPC connection
+   * @param request - Instructions, fee payer and signer
+   * @param options - Pipeline tuning
+   * @returns Signature and slot of the confirmed transaction
+   */
+  static async send(
+    connection: PipelineConnection,
+    request: TransactionRequest,
+    options: TransactionPipelineOptions = {}
+  ): Promise<TransactionResult> {
+    const { instructions, feePayer, signTransaction, onStatus } = request;
+    const rebroadcastIntervalMs = options.rebroadcastIntervalMs ?? REBROADCAST_INTERVAL_MS;
+    const maxBlockhashRefreshes = options.maxBlockhashRefreshes ?? MAX_BLOCKHASH_REFRESHES;
+
+    const [microLamports, units] = await Promise.all([
+      this.getPriorityFee(connection, instructions),
+      this.getComputeUnitLimit(connection, instructions, feePayer),
+    ]);
+    const budget = [
+      ComputeBudgetProgram.setComputeUnitLimit({ units }),
+      ComputeBudgetProgram.setComputeUnitPrice({ microLamports }),
+    ];
+
+    let signature = '';
+    for (let attempt = 1; attempt <= maxBlockhashRefreshes + 1; attempt++) {
+      const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
+      const transaction = new Transaction({ feePayer, blockhash, lastValidBlockHeight })
+        .add(...budget, ...instructions);
+
+      const signed = await signTransaction(transaction);
+      if (!signed.signature) {
+        throw new Error('Transaction was not signed by the fee payer');
+      }
+      signature = bs58.encode(signed.signature);
+      onStatus?.({ status: 'signed', signature, attempt });
+
+      const raw = signed.serialize();
+      await connection.sendRawTransaction(raw, { skipPreflight: true, maxRetries: 0 });
+      onStatus?.({ status: 'sent', signature, attempt });
+
+      const result = await this.broadcast(
+        connection,
+        raw,
+        signature,
+        lastValidBlockHeight,
+        event => onStatus?.({ ...event, attempt }),
+        rebroadcastIntervalMs
+      );
+      if (result) return result;
+
+      onStatus?.({ status: 'expired', signature, attempt });
+    }
+
+    throw new Error(`Transaction expired before confirmation: ${signature}`);
+  }
+
+  /**
+   * Compute-unit price to pay, from recent fees on the accounts written
+   *
+   * @param connection - RPC connection
+   * @param instructions - Instructions whose writable accounts set the price
+   * @returns Price in micro-lamports, capped at MAX_PRIORITY_FEE_MICROLAMPORTS
+   */
+  static async getPriorityFee(
+    connection: PipelineConnection,
+    instructions: TransactionInstruction[]
+  ): Promise<number> {
+    const writable = new Map<string, PublicKey>();
+    for (const instruction of instructions) {
+      for (const key of instruction.keys) {
+        if (key.isWritable) writable.set(key.pubkey.toBase58(), key.pubkey);
+      }
+    }
+
+    try {
+      const fees = await connection.getRecentPrioritizationFees({
+        lockedWritableAccounts: [...writable.values()],
+      });
+      const fee = this.percentile(fees.map(f => f.prioritizationFee), PRIORITY_FEE_PERCENTILE);
+      return Math.min(fee, MAX_PRIORITY_FEE_MICROLAMPORTS);
+    } catch {
+      // Not every RPC serves fee history; send without a priority fee
+      return 0;
+    }
+  }
+
+  /**
+   * Compute-unit limit for the instructions, from a simulation
+   *
+   * @param connection - RPC connection
+   * @param instructions - Instructions to size
+   * @param feePayer - Fee payer of the transaction
+   * @returns Simulated units plus COMPUTE_UNIT_MARGIN, or
+   *   DEFAULT_COMPUTE_UNIT_LIMIT if the simulation fails
+   */
+  static async getComputeUnitLimit(
+    connection: PipelineConnection,
+    instructions: TransactionInstruction[],
+    feePayer: PublicKey
+  ): Promise<number> {
+    // The blockhash is replaced by the RPC node; the limit lets the
+    // simulation run as far as a real transaction could
+    const message = new TransactionMessage({
+      payerKey: feePayer,
+      recentBlockhash: PublicKey.default.toBase58(),
+      instructions: [
+        ComputeBudgetProgram.setComputeUnitLimit({ units: MAX_COMPUTE_UNIT_LIMIT }),
+        ...instructions,
+      ],
+    }).compileToV0Message();
+
+    try {
+      const { value } = await connection.simulateTransaction(new VersionedTransaction(message), {
+        sigVerify: false,
+        replaceRecentBlockhash: true,
+        commitment: 'confirmed',
+      });
+      if (value.err || !value.unitsConsumed) {
+        return DEFAULT_COMPUTE_UNIT_LIMIT;
+      }
+      return Math.min(Math.ceil(value.unitsConsumed * COMPUTE_UNIT_MARGIN), MAX_COMPUTE_UNIT_LIMIT);
+    } catch {
+      return DEFAULT_COMPUTE_UNIT_LIMIT;
+    }
+  }
+
+  /**
+   * Rebroadcast a signed transaction until it confirms or expires
+   *
+   * A transaction already processed may still confirm after its blockhash
+   * expires, so it is polled until it confirms or drops out of the
+   * status cache (e.g. its fork was abandoned).
+   *
+   * @returns The confirmed transaction, or null once the block height
+   *   passes lastValidBlockHeight without it landing
+   */
+  private static async broadcast(
+    connection: PipelineConnection,
+    raw: Buffer,
+    signature: string,
+    lastValidBlockHeight: number,
+    onStatus: (event: Omit<TransactionStatusEvent, 'attempt'>) => void,
+    rebroadcastIntervalMs: number
+  ): Promise<TransactionResult | null> {
+    let processed = false;
+
+    while (true) {
+      // Read the height first: a transaction that landed before it
+      // passed lastValidBlockHeight shows in the status read after
+      const blockHeight = await connection.getBlockHeight('confirmed');
+      const { value: [status] } = await connection.getSignatureStatuses([signature]);
+
+      if (status) {
+        if (status.err) {
+          throw new TransactionFailedError(signature, status.err);
+        }
+        if (status.confirmationStatus === 'confirmed' || status.confirmationStatus === 'finalized') {
+          onStatus({ status: 'confirmed', signature, slot: status.slot });
+          return { signature, slot: status.slot };
+        }
+        if (!processed) {
+          processed = true;
+          onStatus({ status: 'processed', signature, slot: status.slot });
+        }
+      }
+
+      if (blockHeight > lastValidBlockHeight) {
+        // Re-signing is only safe once this copy can no longer land
+        if (!status) return null;
+        await sleep(rebroadcastIntervalMs);
+        continue;
+      }
+
+      await sleep(rebroadcastIntervalMs);
+      try {
+        await connection.sendRawTransaction(raw, { skipPreflight: true, maxRetries: 0 });
+      } catch {
+        // Rebroadcasts are best effort; the status check decides
+      }
+    }
+  }
+
+  /**
+   * Value at a percentile of a list, 0 for an empty list
+   */
+  private static percentile(values: number[], percentile: number): number {
+    if (values.length === 0) return 0;
+    const sorted = [...values].sort((a, b) => a - b);
+    const index = Math.min(sorted.length - 1, Math.ceil((percentile / 100) * sorted.length) - 1);
+    return sorted[Math.max(0, index)];
+  }
+}
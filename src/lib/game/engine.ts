@@ -0,0 +1,626 @@
+/**
+ * Arcium Poker - Local Game Engine
+ *
+ * Pure reducer that applies program instructions to a game and its player
+ * states, following the same rules as the on-chain program. Used to play
+ * whole hands offline (tests, local tables) and for optimistic UI.
+ * Maps to: start_game, player_action, advance_stage, execute_showdown,
+ * new_hand and timeout_player instructions, plus the local-only choice to
+ * run an all-in board more than once
+ */
+
+import { PublicKey } from '@solana/web3.js';
+import BN from 'bn.js';
+import {
+  Game,
+  GameStage,
+  PlayerState,
+  PlayerStatus,
+  PlayerActionParam,
+} from '../shared/types';
+import { ErrorCode, PokerError } from '../shared/errors';
+import {
+  COMMUNITY_CARDS_COUNT,
+  FLOP_CARDS_COUNT,
+  PLAYER_TIMEOUT_SECONDS,
+} from '../shared/constants';
+import { createSeededRandom } from '../shared/utils';
+import { DeckManager } from '../cards/deck';
+import { GameLogic } from './logic';
+import { GameStarter } from './start';
+import { GameFlow } from './flow';
+import { PlayerActions } from '../player/actions';
+import { ShowdownWinner, Winner } from '../showdown/winner';
+import { PotManager } from '../betting/pot-manager';
+
+/**
+ * Game and player states the engine operates on
+ */
+export interface EngineState {
+  game: Game;
+  playerStates: PlayerState[];
+}
+
+/**
+ * Instruction applied by the engine. Timestamps are unix seconds
+ * (defaults to the game's last action time).
+ */
+export type EngineEvent =
+  | { type: 'start_game'; authority: PublicKey; playerEntropy: Uint8Array[]; timestamp?: number }
+  | { type: 'player_action'; player: PublicKey; action: PlayerActionParam; timestamp?: number }
+  | { type: 'advance_stage'; timestamp?: number }
+  | { type: 'execute_showdown'; timestamp?: number }
+  | { type: 'new_hand'; authority: PublicKey; timestamp?: number }
+  | { type: 'timeout_player'; player: PublicKey; timestamp: number }
+  | { type: 'choose_runs'; player: PublicKey; runs: number; timestamp?: number };
+
+/**
+ * Result of a reduced event
+ */
+export interface EngineResult extends EngineState {
+  winners?: Winner[]; // Set by execute_showdown
+}
+
+/**
+ * Community cards revealed at each stage
+ */
+const REVEALED_CARDS: Partial<Record<GameStage, number>> = {
+  [GameStage.PreFlop]: 0,
+  [GameStage.Flop]: FLOP_CARDS_COUNT,
+  [GameStage.Turn]: FLOP_CARDS_COUNT + 1,
+  [GameStage.River]: COMMUNITY_CARDS_COUNT,
+};
+
+/**
+ * Game Engine
+ * Deterministic state transitions for a poker hand
+ */
+export class GameEngine {
+  /**
+   * Apply an event to a game state
+   *
+   * The input state is never mutated. Invalid events throw a PokerError
+   * with the code the program would fail with.
+   *
+   * @param state - Current game and player states
+   * @param event - Instruction to apply
+   * @returns Next game and player states
+   */
+  static reduce(state: EngineState, event: EngineEvent): EngineResult {
+    const next = this.cloneState(state);
+
+    switch (event.type) {
+      case 'start_game':
+        return this.startGame(next, event.authority, event.playerEntropy, event.timestamp);
+      case 'player_action':
+        return this.playerAction(next, event.player, event.action, event.timestamp);
+      case 'advance_stage':
+        return this.advanceStage(next, event.timestamp);
+      case 'execute_showdown':
+        return this.executeShowdown(next, event.timestamp);
+      case 'new_hand':
+        return this.newHand(next, event.authority, event.timestamp);
+      case 'timeout_player':
+        return this.timeoutPlayer(next, event.player, event.timestamp);
+      case 'choose_runs':
+        return this.chooseRuns(next, event.player, event.runs, event.timestamp);
+      default:
+        throw new PokerError(ErrorCode.InvalidAction, 'Unknown engine event');
+    }
+  }
+
+  /**
+   * Check if the current betting round needs no more actions
+   *
+   * Complete when at most one player is left, or every player who can
+   * still act has acted and matched the current bet.
+   *
+   * @param state - Game and player states
+   * @returns True if the round is complete
+   */
+  static isBettingRoundComplete(state: EngineState): boolean {
+    const { game, playerStates } = state;
+    const live = playerStates.filter(ps => !ps.hasFolded);
+    if (live.length <= 1) return true;
+
+    const canAct = live.filter(ps => !ps.isAllIn);
+    return canAct.every(ps => {
+      const index = GameLogic.getPlayerIndex(game, ps.player);
+      const acted = game.playersActed[index] || canAct.length === 1;
+      return acted && ps.currentBet.gte(game.currentBet);
+    });
+  }
+
+  /**
+   * Shuffle a deck from a 32-byte shuffle session ID
+   *
+   * @param sessionId - Shuffle session ID
+   * @param shortDeck - Shuffle the 36-card short deck instead
+   * @returns Card indices in deal order
+   */
+  static shuffleDeck(sessionId: number[], shortDeck: boolean = false): number[] {
+    const random = createSeededRandom(this.hashSessionId(sessionId));
+    const deck = DeckManager.getCardIndices(shortDeck);
+
+    for (let i = deck.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [deck[i], deck[j]] = [deck[j], deck[i]];
+    }
+
+    return deck;
+  }
+
+  /**
+   * start_game: combine player entropy, shuffle, deal and post blinds
+   */
+  private static startGame(
+    state: EngineState,
+    authority: PublicKey,
+    playerEntropy: Uint8Array[],
+    timestamp?: number
+  ): EngineResult {
+    const { game } = state;
+
+    const validation = GameStarter.validateStart(game, authority);
+    if (!validation.valid) {
+      const code = game.stage !== GameStage.Waiting
+        ? ErrorCode.GameAlreadyStarted
+        : GameStarter.hasEnoughPlayers(game) ? ErrorCode.InvalidAction : ErrorCode.NotEnoughPlayers;
+      throw new PokerError(code, validation.error);
+    }
+
+    const entropyValidation = GameStarter.validateEntropy(playerEntropy, game.playerCount);
+    if (!entropyValidation.valid) {
+      throw new PokerError(ErrorCode.ArciumMpcFailed, entropyValidation.error);
+    }
+
+    // XOR every contribution so no single player controls the shuffle
+    const sessionId = Array(32).fill(0);
+    for (const entropy of playerEntropy) {
+      entropy.forEach((byte, i) => { sessionId[i] ^= byte; });
+    }
+
+    game.startedAt = new BN(timestamp ?? game.lastActionAt.toNumber());
+    return this.dealHand(state, sessionId, timestamp);
+  }
+
+  /**
+   * new_hand: move the button and deal the next hand from a derived session
+   */
+  private static newHand(
+    state: EngineState,
+    authority: PublicKey,
+    timestamp?: number
+  ): EngineResult {
+    const { game } = state;
+
+    if (!game.authority.equals(authority)) {
+      throw new PokerError(ErrorCode.InvalidAction, 'Only game authority can start a new hand');
+    }
+    if (game.stage !== GameStage.Finished) {
+      throw new PokerError(ErrorCode.GameNotFinished, `Cannot start a new hand from ${game.stage} stage`);
+    }
+
+    const funded = this.getFundedSeats(state);
+    if (funded.length < 2) {
+      throw new PokerError(ErrorCode.NotEnoughPlayers, 'Need at least 2 players with chips');
+    }
+
+    game.dealerPosition = GameLogic.getNextSeat(game.dealerPosition, funded, game.playerCount);
+
+    // Chain the next shuffle off the previous session
+    const random = createSeededRandom(this.hashSessionId(game.shuffleSessionId));
+    const sessionId = Array.from({ length: 32 }, () => Math.floor(random() * 256));
+
+    return this.dealHand(state, sessionId, timestamp);
+  }
+
+  /**
+   * Reset the hand, deal hole and community cards and post antes, blinds
+   * and any straddle
+   */
+  private static dealHand(
+    state: EngineState,
+    sessionId: number[],
+    timestamp?: number
+  ): EngineResult {
+    const { game } = state;
+    const funded = this.getFundedSeats(state);
+    if (funded.length < 2) {
+      throw new PokerError(ErrorCode.NotEnoughPlayers, 'Need at least 2 players with chips');
+    }
+
+    const deck = this.shuffleDeck(sessionId, GameLogic.isShortDeck(game));
+    const holeCardCount = GameLogic.getHoleCardCount(game);
+    let position = 0;
+
+    for (let seat = 0; seat < game.playerCount; seat++) {
+      const ps = this.getPlayerStateAtSeat(state, seat);
+      if (!ps) continue;
+
+      const dealt = funded.includes(seat);
+      ps.status = dealt ? PlayerStatus.Active : PlayerStatus.Folded;
+      ps.currentBet = new BN(0);
+      ps.totalBetThisHand = new BN(0);
+      ps.encryptedHoleCards = dealt
+        ? deck.slice(position, position + holeCardCount)
+        : new Array(holeCardCount).fill(0);
+      ps.hasCards = dealt;
+      ps.hasFolded = !dealt;
+      ps.isAllIn = false;
+      if (dealt) position += holeCardCount;
+    }
+
+    game.stage = GameStage.PreFlop;
+    game.shuffleSessionId = sessionId;
+    game.deckInitialized = true;
+    game.communityCards = deck.slice(position, position + COMMUNITY_CARDS_COUNT);
+    game.communityCardsRevealed = 0;
+    game.runVotes = undefined;
+    game.runBoards = undefined;
+    game.activePlayers = game.activePlayers.map((_, seat) => funded.includes(seat));
+    game.playersActed = game.playersActed.map(() => false);
+    game.pot = new BN(0);
+    game.currentBet = game.bigBlind;
+    game.lastRaiseSize = game.bigBlind;
+    game.betsThisRound = 1;
+    if (!funded.includes(game.dealerPosition)) {
+      game.dealerPosition = GameLogic.getNextSeat(game.dealerPosition, funded, game.playerCount);
+    }
+
+    const forcedBets = PotManager.getForcedBets(game, funded);
+    for (const bet of forcedBets) {
+      this.postChips(state, this.getPlayerStateAtSeat(state, bet.seat)!, bet.amount, bet.live);
+    }
+
+    // A straddle is the opening bet: raises are to at least twice it
+    const straddle = forcedBets.find(bet => bet.kind === 'straddle');
+    if (straddle) {
+      game.currentBet = BN.max(game.bigBlind, this.getPlayerStateAtSeat(state, straddle.seat)!.currentBet);
+      game.lastRaiseSize = game.currentBet;
+      game.betsThisRound = 2;
+    }
+
+    this.startBettingRound(state, funded);
+    this.touch(state, timestamp);
+
+    return state;
+  }
+
+  /**
+   * player_action: validate and apply a betting action
+   */
+  private static playerAction(
+    state: EngineState,
+    player: PublicKey,
+    action: PlayerActionParam,
+    timestamp?: number
+  ): EngineResult {
+    const { game } = state;
+    const ps = this.getPlayerState(state, player);
+    const seat = GameLogic.getPlayerIndex(game, player);
+
+    if (this.isBettingRoundComplete(state)) {
+      throw new PokerError(ErrorCode.InvalidAction, 'Betting round is complete');
+    }
+    if (seat !== game.currentPlayerIndex) {
+      throw new PokerError(ErrorCode.NotPlayerTurn);
+    }
+
+    const validation = PlayerActions.validateAction(game, ps, action);
+    if (!validation.valid) {
+      const code = game.stage === GameStage.Waiting || game.stage === GameStage.Finished
+        ? ErrorCode.InvalidGameStage
+        : ErrorCode.InvalidAction;
+      throw new PokerError(code, validation.error);
+    }
+    if (ps.isAllIn) {
+      throw new PokerError(ErrorCode.InvalidAction, 'Player is already all-in');
+    }
+
+    if ('fold' in action) {
+      ps.hasFolded = true;
+      ps.status = PlayerStatus.Folded;
+    } else if ('call' in action) {
+      this.postChips(state, ps, game.currentBet.sub(ps.currentBet));
+    } else if ('bet' in action || 'raise' in action) {
+      const amount = 'bet' in action ? action.bet.amount : action.raise.amount;
+      this.postChips(state, ps, amount.sub(ps.currentBet));
+    } else if ('allIn' in action) {
+      this.postChips(state, ps, ps.chipStack);
+    }
+
+    // A full bet or raise reopens the action for everyone else; a short
+    // all-in only raises the amount to call
+    if (ps.currentBet.gt(game.currentBet)) {
+      if (GameLogic.isFullRaise(game, ps.currentBet)) {
+        game.lastRaiseSize = BN.max(ps.currentBet.sub(game.currentBet), game.bigBlind);
+        game.betsThisRound = GameLogic.getBetsThisRound(game) + 1;
+        game.playersActed = game.playersActed.map(() => false);
+      }
+      game.currentBet = ps.currentBet;
+    }
+    game.playersActed[seat] = true;
+    ps.lastActionAt = new BN(timestamp ?? game.lastActionAt.toNumber());
+
+    if (!this.isBettingRoundComplete(state)) {
+      this.moveToNextPlayer(state);
+    }
+    this.touch(state, timestamp);
+
+    return state;
+  }
+
+  /**
+   * timeout_player: fold the current player once their time is up
+   */
+  private static timeoutPlayer(
+    state: EngineState,
+    player: PublicKey,
+    timestamp: number
+  ): EngineResult {
+    const { game } = state;
+
+    if (GameLogic.getPlayerIndex(game, player) !== game.currentPlayerIndex) {
+      throw new PokerError(ErrorCode.NotPlayerTurn, 'Only the player to act can time out');
+    }
+    if (timestamp - game.lastActionAt.toNumber() < PLAYER_TIMEOUT_SECONDS) {
+      throw new PokerError(ErrorCode.InvalidAction, 'Player has not timed out yet');
+    }
+
+    return this.playerAction(state, player, { fold: {} }, timestamp);
+  }
+
+  /**
+   * choose_runs: record how many times a player wants to run the board once
+   * everyone is all-in, dealing the extra boards when all players agree
+   */
+  private static chooseRuns(
+    state: EngineState,
+    player: PublicKey,
+    runs: number,
+    timestamp?: number
+  ): EngineResult {
+    const { game, playerStates } = state;
+    const ps = this.getPlayerState(state, player);
+
+    const validation = GameLogic.validateRunChoice(game, playerStates, ps, runs);
+    if (!validation.valid) {
+      throw new PokerError(ErrorCode.InvalidAction, validation.error);
+    }
+    if (!this.isBettingRoundComplete(state)) {
+      throw new PokerError(ErrorCode.InvalidAction, 'Betting round is not complete');
+    }
+    if (game.runBoards) {
+      throw new PokerError(
+        ErrorCode.InvalidAction,
+        `Players already agreed to run the board ${game.runBoards.length} times`
+      );
+    }
+
+    game.runVotes = game.runVotes ?? game.players.map(() => 0);
+    game.runVotes[GameLogic.getPlayerIndex(game, player)] = runs;
+
+    const agreed = GameLogic.getAgreedRuns(game, playerStates);
+    if (agreed > 1) {
+      game.runBoards = this.dealRunBoards(game, agreed);
+    }
+    this.touch(state, timestamp);
+
+    return state;
+  }
+
+  /**
+   * advance_stage: reveal the next street once betting is complete
+   */
+  private static advanceStage(state: EngineState, timestamp?: number): EngineResult {
+    const { game, playerStates } = state;
+
+    const validation = GameFlow.validateAdvance(game);
+    if (!validation.valid) {
+      throw new PokerError(ErrorCode.InvalidGameStage, validation.error);
+    }
+    if (game.stage === GameStage.Showdown) {
+      throw new PokerError(ErrorCode.InvalidGameStage, 'Hand is at showdown (execute the showdown instead)');
+    }
+    if (!this.isBettingRoundComplete(state)) {
+      throw new PokerError(ErrorCode.InvalidAction, 'Betting round is not complete');
+    }
+
+    // Folded down to one player: no more cards are needed
+    const live = playerStates.filter(ps => !ps.hasFolded);
+    game.stage = live.length <= 1 ? GameStage.Showdown : GameFlow.getNextStage(game.stage)!;
+    game.communityCardsRevealed = REVEALED_CARDS[game.stage] ?? game.communityCardsRevealed;
+
+    game.currentBet = new BN(0);
+    game.lastRaiseSize = game.bigBlind;
+    game.betsThisRound = 0;
+    game.playersActed = game.playersActed.map(() => false);
+    for (const ps of playerStates) {
+      ps.currentBet = new BN(0);
+    }
+
+    if (game.stage !== GameStage.Showdown) {
+      const dealtIn = game.activePlayers.flatMap((active, seat) => (active ? [seat] : []));
+      this.startBettingRound(state, dealtIn);
+    }
+    this.touch(state, timestamp);
+
+    return state;
+  }
+
+  /**
+   * execute_showdown: run out the board, award the pots and finish the hand
+   */
+  private static executeShowdown(state: EngineState, timestamp?: number): EngineResult {
+    const { game, playerStates } = state;
+
+    if (game.stage !== GameStage.Showdown) {
+      throw new PokerError(
+        ErrorCode.InvalidGameStage,
+        `Game must be in Showdown stage, currently in ${game.stage}`
+      );
+    }
+
+    const live = playerStates.filter(ps => !ps.hasFolded);
+    if (live.length > 1) {
+      game.communityCardsRevealed = COMMUNITY_CARDS_COUNT;
+    }
+
+    const winners = ShowdownWinner.determineWinners(game, playerStates);
+    for (const winner of winners) {
+      const ps = this.getPlayerState(state, winner.player);
+      ps.chipStack = ps.chipStack.add(winner.winAmount);
+      winner.playerState = ps;
+    }
+
+    game.stage = GameStage.Finished;
+    game.pot = new BN(0);
+    game.currentBet = new BN(0);
+    for (const ps of playerStates) {
+      ps.currentBet = new BN(0);
+    }
+    this.touch(state, timestamp);
+
+    return { ...state, winners };
+  }
+
+  /**
+   * Deal the boards for each run: every run keeps the revealed cards and
+   * completes the board from the deck left after the first board
+   */
+  private static dealRunBoards(game: Game, runs: number): number[][] {
+    const deck = this.shuffleDeck(game.shuffleSessionId, GameLogic.isShortDeck(game));
+    const remaining = deck.slice(deck.indexOf(game.communityCards[0]) + COMMUNITY_CARDS_COUNT);
+    const revealed = game.communityCards.slice(0, game.communityCardsRevealed);
+    const needed = COMMUNITY_CARDS_COUNT - revealed.length;
+
+    if (remaining.length < needed * (runs - 1)) {
+      throw new PokerError(ErrorCode.InvalidAction, `Not enough cards left to run the board ${runs} times`);
+    }
+
+    const boards = [[...game.communityCards]];
+    for (let run = 1; run < runs; run++) {
+      boards.push([...revealed, ...remaining.slice((run - 1) * needed, run * needed)]);
+    }
+    return boards;
+  }
+
+  /**
+   * Move chips from a player's stack into the pot (all-in if short)
+   * Dead chips (antes) are not part of the player's current bet
+   */
+  private static postChips(state: EngineState, ps: PlayerState, amount: BN, live: boolean = true): void {
+    const posted = BN.min(amount, ps.chipStack);
+
+    ps.chipStack = ps.chipStack.sub(posted);
+    if (live) ps.currentBet = ps.currentBet.add(posted);
+    ps.totalBetThisHand = ps.totalBetThisHand.add(posted);
+    state.game.pot = state.game.pot.add(posted);
+
+    if (ps.chipStack.isZero()) {
+      ps.isAllIn = true;
+      ps.status = PlayerStatus.AllIn;
+    }
+  }
+
+  /**
+   * Give the action to the first seat to act in the round, or the next
+   * player after it if that seat cannot act (folded or all-in)
+   */
+  private static startBettingRound(state: EngineState, seats: number[]): void {
+    const first = GameLogic.getFirstToActSeat(state.game, state.game.stage, seats);
+    const ps = this.getPlayerStateAtSeat(state, first);
+    state.game.currentPlayerIndex = first;
+    if (!ps || ps.hasFolded || ps.isAllIn) {
+      this.moveToNextPlayer(state);
+    }
+  }
+
+  /**
+   * Pass the action to the next player who can act
+   */
+  private static moveToNextPlayer(state: EngineState): void {
+    const next = GameLogic.getNextPlayerIndex(state.game, state.playerStates);
+    if (next !== -1) {
+      state.game.currentPlayerIndex = next;
+    }
+  }
+
+  /**
+   * Seats whose players can be dealt in (seated with chips)
+   */
+  private static getFundedSeats(state: EngineState): number[] {
+    const seats: number[] = [];
+    for (let seat = 0; seat < state.game.playerCount; seat++) {
+      const ps = this.getPlayerStateAtSeat(state, seat);
+      if (ps && ps.status !== PlayerStatus.Left && ps.chipStack.gt(new BN(0))) {
+        seats.push(seat);
+      }
+    }
+    return seats;
+  }
+
+  /**
+   * Find a player's state
+   */
+  private static getPlayerState(state: EngineState, player: PublicKey): PlayerState {
+    const ps = state.playerStates.find(p => p.player.equals(player));
+    if (!ps || GameLogic.getPlayerIndex(state.game, player) === -1) {
+      throw new PokerError(ErrorCode.PlayerNotInGame);
+    }
+    return ps;
+  }
+
+  /**
+   * Find the state of the player in a seat
+   */
+  private static getPlayerStateAtSeat(state: EngineState, seat: number): PlayerState | undefined {
+    const player = state.game.players[seat];
+    return state.playerStates.find(ps => ps.player.equals(player));
+  }
+
+  /**
+   * Record the time of the last action
+   */
+  private static touch(state: EngineState, timestamp?: number): void {
+    if (timestamp !== undefined) {
+      state.game.lastActionAt = new BN(timestamp);
+    }
+  }
+
+  /**
+   * 32-bit FNV-1a hash of a session ID, used as the shuffle seed
+   */
+  private static hashSessionId(sessionId: number[]): number {
+    let hash = 0x811c9dc5;
+    for (const byte of sessionId) {
+      hash = Math.imul(hash ^ byte, 0x01000193) >>> 0;
+    }
+    return hash;
+  }
+
+  /**
+   * Copy a state so reducing never mutates the caller's objects
+   */
+  private static cloneState(state: EngineState): EngineState {
+    const { game } = state;
+    return {
+      game: {
+        ...game,
+        players: [...game.players],
+        activePlayers: [...game.activePlayers],
+        playersActed: [...game.playersActed],
+        communityCards: [...game.communityCards],
+        encryptedDeck: [...game.encryptedDeck],
+        shuffleSessionId: [...game.shuffleSessionId],
+        runVotes: game.runVotes && [...game.runVotes],
+        runBoards: game.runBoards?.map(board => [...board]),
+      },
+      playerStates: state.playerStates.map(ps => ({
+        ...ps,
+        encryptedHoleCards: [...ps.encryptedHoleCards],
+      })),
+    };
+  }
+}
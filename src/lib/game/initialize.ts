@@ -15,6 +15,11 @@ import {
   TxResult,
   ValidationResult,
   Game,
+  GameConfig,
+  BettingStructure,
+  AnteType,
+  StraddleType,
+  GameVariant,
 } from '../shared/types';
 import {
   DEFAULT_SMALL_BLIND,
@@ -25,6 +30,7 @@ import {
   MIN_PLAYERS,
   MAX_PLAYERS,
   MIN_BUY_IN_BB_MULTIPLIER,
+  DEFAULT_FIXED_LIMIT_RAISE_CAP,
 } from '../shared/constants';
 import { ensureBN } from '../shared/utils';
 import { ErrorCode, PokerError } from '../shared/errors';
@@ -156,7 +162,7 @@ export class GameInitializer {
 
       console.log('🔵 Step 9: Fetching created game account...');
       // Fetch created game account with retry
-      let game = null;
+      let game: Game | undefined;
       let retries = 3;
       while (retries > 0 && !game) {
         try {
@@ -286,9 +292,171 @@ export class GameInitializer {
       };
     }
 
+    const structure = this.validateBettingStructure(params, bigBlind);
+    if (!structure.valid) {
+      return structure;
+    }
+
+    return this.validateForcedBets(params, bigBlind, maxPlayers);
+  }
+
+  /**
+   * Validate antes and straddles
+   * 
+   * @param params - Game initialization parameters
+   * @param bigBlind - Big blind (after defaults)
+   * @param maxPlayers - Table size (after defaults)
+   * @returns Validation result
+   */
+  static validateForcedBets(
+    params: Omit<InitGameParams, 'gameId'>,
+    bigBlind: BN,
+    maxPlayers: number
+  ): ValidationResult {
+    if (params.ante !== undefined) {
+      const ante = ensureBN(params.ante);
+      if (ante.lte(new BN(0))) {
+        return {
+          valid: false,
+          error: 'Ante must be greater than 0',
+        };
+      }
+
+      if (ante.gt(bigBlind)) {
+        return {
+          valid: false,
+          error: 'Ante cannot be more than the big blind',
+        };
+      }
+    }
+
+    if (params.anteType !== undefined && !Object.values(AnteType).includes(params.anteType)) {
+      return {
+        valid: false,
+        error: `Unknown ante type: ${params.anteType}`,
+      };
+    }
+
+    if (params.straddle !== undefined) {
+      if (!Object.values(StraddleType).includes(params.straddle)) {
+        return {
+          valid: false,
+          error: `Unknown straddle: ${params.straddle}`,
+        };
+      }
+
+      if (maxPlayers < 3) {
+        return {
+          valid: false,
+          error: 'Straddles need a table of at least 3 players',
+        };
+      }
+    }
+
     return { valid: true };
   }
 
+  /**
+   * Validate the game variant, betting structure and fixed-limit bet sizes
+   * 
+   * @param params - Game initialization parameters
+   * @param bigBlind - Big blind (after defaults)
+   * @returns Validation result
+   */
+  static validateBettingStructure(params: Omit<InitGameParams, 'gameId'>, bigBlind: BN): ValidationResult {
+    const variant = params.variant ?? GameVariant.Holdem;
+    if (!Object.values(GameVariant).includes(variant)) {
+      return {
+        valid: false,
+        error: `Unknown game variant: ${variant}`,
+      };
+    }
+
+    const structure = params.bettingStructure ?? this.getDefaultBettingStructure(variant);
+    if (!Object.values(BettingStructure).includes(structure)) {
+      return {
+        valid: false,
+        error: `Unknown betting structure: ${structure}`,
+      };
+    }
+
+    if (structure !== BettingStructure.FixedLimit) {
+      return { valid: true };
+    }
+
+    const config = this.getGameConfig({ ...params, bigBlind });
+    if (config.smallBet!.lt(bigBlind)) {
+      return {
+        valid: false,
+        error: 'Fixed-limit small bet must be at least the big blind',
+      };
+    }
+
+    if (config.bigBet!.lt(config.smallBet!)) {
+      return {
+        valid: false,
+        error: 'Fixed-limit big bet must be at least the small bet',
+      };
+    }
+
+    if (!Number.isInteger(config.raiseCap) || config.raiseCap! < 1) {
+      return {
+        valid: false,
+        error: 'Fixed-limit raise cap must be at least 1 bet',
+      };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Build the table rules for a new game
+   * Fixed-limit bet sizes default to the big blind and twice the big blind
+   * 
+   * @param params - Game initialization parameters
+   * @returns Game config
+   */
+  static getGameConfig(params: Omit<InitGameParams, 'gameId'>): GameConfig {
+    const variant = params.variant ?? GameVariant.Holdem;
+    const bettingStructure = params.bettingStructure ?? this.getDefaultBettingStructure(variant);
+    const config: GameConfig = { bettingStructure };
+
+    if (variant !== GameVariant.Holdem) {
+      config.variant = variant;
+    }
+
+    if (bettingStructure === BettingStructure.FixedLimit) {
+      const bigBlind = params.bigBlind !== undefined ? ensureBN(params.bigBlind) : new BN(DEFAULT_BIG_BLIND);
+      config.smallBet = params.smallBet !== undefined ? ensureBN(params.smallBet) : bigBlind;
+      config.bigBet = params.bigBet !== undefined ? ensureBN(params.bigBet) : config.smallBet.mul(new BN(2));
+      config.raiseCap = params.raiseCap ?? DEFAULT_FIXED_LIMIT_RAISE_CAP;
+    }
+
+    if (params.ante !== undefined) {
+      config.ante = ensureBN(params.ante);
+      config.anteType = params.anteType ?? AnteType.PerPlayer;
+    }
+
+    if (params.straddle !== undefined) {
+      config.straddle = params.straddle;
+    }
+
+    return config;
+  }
+
+  /**
+   * Get the betting structure a variant is usually played with
+   * (pot-limit for Omaha games, no-limit for Hold'em)
+   * 
+   * @param variant - Game variant
+   * @returns Betting structure
+   */
+  static getDefaultBettingStructure(variant: GameVariant): BettingStructure {
+    return variant === GameVariant.Omaha || variant === GameVariant.OmahaHiLo
+      ? BettingStructure.PotLimit
+      : BettingStructure.NoLimit;
+  }
+
   /**
    * Get default game parameters
    * 
@@ -301,6 +469,7 @@ export class GameInitializer {
       minBuyIn: DEFAULT_MIN_BUY_IN,
       maxBuyIn: DEFAULT_MAX_BUY_IN,
       maxPlayers: DEFAULT_MAX_PLAYERS,
+      bettingStructure: BettingStructure.NoLimit,
     };
   }
 
@@ -6,8 +6,24 @@
 
 import { PublicKey } from '@solana/web3.js';
 import BN from 'bn.js';
-import { Game, PlayerState, GameStage, ValidationResult } from '../shared/types';
-import { MIN_PLAYERS, MAX_PLAYERS } from '../shared/constants';
+import {
+  Game,
+  PlayerState,
+  GameStage,
+  ValidationResult,
+  BettingStructure,
+  BETTING_STRUCTURE_NAMES,
+  StraddleType,
+  GameVariant,
+} from '../shared/types';
+import {
+  MIN_PLAYERS,
+  MAX_PLAYERS,
+  DEFAULT_FIXED_LIMIT_RAISE_CAP,
+  HOLE_CARDS_COUNT,
+  OMAHA_HOLE_CARDS_COUNT,
+  MAX_BOARD_RUNS,
+} from '../shared/constants';
 
 /**
  * Game Logic
@@ -109,18 +125,331 @@ export class GameLogic {
   }
 
   /**
-   * Calculate minimum raise amount
+   * Check if a hand is heads-up (exactly two players dealt in)
    * 
    * @param game - Game account
-   * @returns Minimum raise amount
+   * @param seats - Seats dealt into the hand (defaults to every seated player)
+   * @returns True if heads-up
+   */
+  static isHeadsUp(game: Game, seats: number[] = this.getSeats(game)): boolean {
+    return seats.length === 2;
+  }
+
+  /**
+   * Get the blind seats for a hand
+   * Heads-up the dealer posts the small blind and the other player the big
+   * blind; otherwise the blinds are the two seats after the dealer
+   * 
+   * @param game - Game account
+   * @param seats - Seats dealt into the hand (defaults to every seated player)
+   * @returns Small blind and big blind seats
+   */
+  static getBlindSeats(
+    game: Game,
+    seats: number[] = this.getSeats(game)
+  ): { smallBlind: number; bigBlind: number } {
+    const dealer = this.getDealerSeat(game, seats);
+    const smallBlind = this.isHeadsUp(game, seats)
+      ? dealer
+      : this.getNextSeat(dealer, seats, game.playerCount);
+    const bigBlind = this.getNextSeat(smallBlind, seats, game.playerCount);
+
+    return { smallBlind, bigBlind };
+  }
+
+  /**
+   * Get the dealer seat for a hand (the next seat dealt in if the button
+   * seat is not)
+   * 
+   * @param game - Game account
+   * @param seats - Seats dealt into the hand (defaults to every seated player)
+   * @returns Dealer seat
+   */
+  static getDealerSeat(game: Game, seats: number[] = this.getSeats(game)): number {
+    return seats.includes(game.dealerPosition)
+      ? game.dealerPosition
+      : this.getNextSeat(game.dealerPosition, seats, game.playerCount);
+  }
+
+  /**
+   * Get the straddling seat for a hand
+   * The under-the-gun straddle is posted from the seat after the big blind,
+   * the button straddle by the dealer. There is no straddle heads-up.
+   * 
+   * @param game - Game account
+   * @param seats - Seats dealt into the hand (defaults to every seated player)
+   * @returns Straddle seat, or null if nobody straddles
+   */
+  static getStraddleSeat(game: Game, seats: number[] = this.getSeats(game)): number | null {
+    const straddle = game.config?.straddle;
+    if (!straddle || seats.length < 3) return null;
+
+    if (straddle === StraddleType.Button) {
+      return this.getDealerSeat(game, seats);
+    }
+    const { bigBlind } = this.getBlindSeats(game, seats);
+    return this.getNextSeat(bigBlind, seats, game.playerCount);
+  }
+
+  /**
+   * Get the straddle amount (twice the big blind)
+   * 
+   * @param game - Game account
+   * @returns Straddle amount
+   */
+  static getStraddleAmount(game: Game): BN {
+    return game.bigBlind.mul(new BN(2));
+  }
+
+  /**
+   * Get the seat that acts first in a betting round
+   * Preflop action starts after the big blind (the dealer, heads-up), or
+   * after the straddle, so the straddler acts last; postflop it starts
+   * after the dealer (the big blind, heads-up)
+   * 
+   * @param game - Game account
+   * @param stage - Betting round
+   * @param seats - Seats dealt into the hand (defaults to every seated player)
+   * @returns First seat to act
+   */
+  static getFirstToActSeat(
+    game: Game,
+    stage: GameStage,
+    seats: number[] = this.getSeats(game)
+  ): number {
+    if (stage === GameStage.PreFlop) {
+      const lastBlind = this.getStraddleSeat(game, seats) ?? this.getBlindSeats(game, seats).bigBlind;
+      return this.getNextSeat(lastBlind, seats, game.playerCount);
+    }
+    return this.getNextSeat(game.dealerPosition, seats, game.playerCount);
+  }
+
+  /**
+   * Get the next seat clockwise from a seat
+   * 
+   * @param from - Seat to start from
+   * @param seats - Seats to choose from
+   * @param playerCount - Number of seats at the table
+   * @returns Next seat, or `from` if there is none
+   */
+  static getNextSeat(from: number, seats: number[], playerCount: number): number {
+    for (let step = 1; step <= playerCount; step++) {
+      const seat = (from + step) % playerCount;
+      if (seats.includes(seat)) return seat;
+    }
+    return from;
+  }
+
+  /**
+   * Get the game played at the table (Hold'em unless configured)
+   * 
+   * @param game - Game account
+   * @returns Game variant
+   */
+  static getVariant(game: Game): GameVariant {
+    return game.config?.variant ?? GameVariant.Holdem;
+  }
+
+  /**
+   * Get the number of hole cards dealt to each player
+   * 
+   * @param game - Game account
+   * @returns Hole cards per player
+   */
+  static getHoleCardCount(game: Game): number {
+    return this.isOmaha(game) ? OMAHA_HOLE_CARDS_COUNT : HOLE_CARDS_COUNT;
+  }
+
+  /**
+   * Check if the table plays an Omaha game (high only or hi-lo)
+   * 
+   * @param game - Game account
+   * @returns True for Omaha and Omaha Hi-Lo
+   */
+  static isOmaha(game: Game): boolean {
+    const variant = this.getVariant(game);
+    return variant === GameVariant.Omaha || variant === GameVariant.OmahaHiLo;
+  }
+
+  /**
+   * Check if pots are split between the best high and the best low
+   * 
+   * @param game - Game account
+   * @returns True for hi-lo games
+   */
+  static isHiLo(game: Game): boolean {
+    return this.getVariant(game) === GameVariant.OmahaHiLo;
+  }
+
+  /**
+   * Check if the table plays with the 36-card short deck
+   * 
+   * @param game - Game account
+   * @returns True for short-deck Hold'em
+   */
+  static isShortDeck(game: Game): boolean {
+    return this.getVariant(game) === GameVariant.ShortDeck;
+  }
+
+  /**
+   * Get the table's betting structure (no-limit unless configured)
+   * 
+   * @param game - Game account
+   * @returns Betting structure
+   */
+  static getBettingStructure(game: Game): BettingStructure {
+    return game.config?.bettingStructure ?? BettingStructure.NoLimit;
+  }
+
+  /**
+   * Get the fixed-limit bet size for the current street
+   * Small bet pre-flop and on the flop, big bet on the turn and river
+   * 
+   * @param game - Game account
+   * @returns Bet and raise increment
+   */
+  static getFixedLimitBetSize(game: Game): BN {
+    const smallBet = game.config?.smallBet ?? game.bigBlind;
+    if (game.stage === GameStage.Turn || game.stage === GameStage.River) {
+      return game.config?.bigBet ?? smallBet.mul(new BN(2));
+    }
+    return smallBet;
+  }
+
+  /**
+   * Get the number of bets and raises made in this round
+   * Derived from the current bet when the game does not track it
+   * 
+   * @param game - Game account
+   * @returns Bets and raises this round (the big blind counts pre-flop)
+   */
+  static getBetsThisRound(game: Game): number {
+    return game.betsThisRound ?? game.currentBet.div(this.getFixedLimitBetSize(game)).toNumber();
+  }
+
+  /**
+   * Check if the fixed-limit raise cap has been reached this round
+   * 
+   * @param game - Game account
+   * @returns True if no more raises are allowed
+   */
+  static isRaiseCapped(game: Game): boolean {
+    if (this.getBettingStructure(game) !== BettingStructure.FixedLimit) return false;
+    const cap = game.config?.raiseCap ?? DEFAULT_FIXED_LIMIT_RAISE_CAP;
+    return this.getBetsThisRound(game) >= cap;
+  }
+
+  /**
+   * Get the size of the last full bet or raise in this round
+   * Falls back to the current bet (at least the big blind) when the game
+   * does not track it. Fixed-limit raises are always one bet.
+   * 
+   * @param game - Game account
+   * @returns Last full raise increment
+   */
+  static getLastRaiseSize(game: Game): BN {
+    if (this.getBettingStructure(game) === BettingStructure.FixedLimit) {
+      return this.getFixedLimitBetSize(game);
+    }
+    return game.lastRaiseSize ?? BN.max(game.currentBet, game.bigBlind);
+  }
+
+  /**
+   * Get the smallest opening bet
+   * 
+   * @param game - Game account
+   * @returns Minimum bet (the fixed bet size in fixed-limit)
+   */
+  static getMinimumBet(game: Game): BN {
+    if (this.getBettingStructure(game) === BettingStructure.FixedLimit) {
+      return this.getFixedLimitBetSize(game);
+    }
+    return game.bigBlind;
+  }
+
+  /**
+   * Get the largest opening bet a player can make
+   * No-limit: the whole stack; pot-limit: the pot; fixed-limit: one bet
+   * 
+   * @param game - Game account
+   * @param playerState - Player state
+   * @returns Maximum bet
+   */
+  static getMaximumBet(game: Game, playerState: PlayerState): BN {
+    switch (this.getBettingStructure(game)) {
+      case BettingStructure.PotLimit:
+        return BN.min(game.pot, playerState.chipStack);
+      case BettingStructure.FixedLimit:
+        return BN.min(this.getFixedLimitBetSize(game), playerState.chipStack);
+      default:
+        return playerState.chipStack;
+    }
+  }
+
+  /**
+   * Get the largest raise a player can make (total to raise to)
+   * Pot-limit: calling and then raising by the pot after the call
+   * 
+   * @param game - Game account
+   * @param playerState - Player state
+   * @returns Maximum raise-to amount
+   */
+  static getMaximumRaise(game: Game, playerState: PlayerState): BN {
+    const allIn = playerState.chipStack.add(playerState.currentBet);
+    switch (this.getBettingStructure(game)) {
+      case BettingStructure.PotLimit: {
+        const callAmount = this.getCallAmount(game, playerState);
+        return BN.min(game.currentBet.add(game.pot).add(callAmount), allIn);
+      }
+      case BettingStructure.FixedLimit:
+        return BN.min(game.currentBet.add(this.getFixedLimitBetSize(game)), allIn);
+      default:
+        return allIn;
+    }
+  }
+
+  /**
+   * Calculate minimum raise amount (total to raise to)
+   * No-limit: the current bet plus the last full raise increment. A
+   * straddle is the opening bet, so pre-flop raises are to at least twice
+   * the straddle.
+   * 
+   * @param game - Game account
+   * @returns Minimum raise-to amount
    */
   static getMinimumRaise(game: Game): BN {
-    // Minimum raise is 2x the current bet
-    return game.currentBet.mul(new BN(2));
+    return game.currentBet.add(this.getLastRaiseSize(game));
+  }
+
+  /**
+   * Check if a raise completes a full raise (and so reopens the action)
+   * 
+   * @param game - Game account before the raise
+   * @param raiseTo - Total bet after the raise
+   * @returns True if the raise is at least the last full raise increment
+   */
+  static isFullRaise(game: Game, raiseTo: BN): boolean {
+    if (game.currentBet.isZero()) return raiseTo.gt(new BN(0));
+    return raiseTo.sub(game.currentBet).gte(this.getLastRaiseSize(game));
+  }
+
+  /**
+   * Check if the betting is open to a player
+   * A player who already acted is only facing more because of a short
+   * all-in, which lets them call or fold but not raise
+   * 
+   * @param game - Game account
+   * @param playerState - Player state
+   * @returns True if the player may raise
+   */
+  static isActionReopened(game: Game, playerState: PlayerState): boolean {
+    const playerIndex = this.getPlayerIndex(game, playerState.player);
+    return playerIndex === -1 || !game.playersActed[playerIndex];
   }
 
   /**
    * Calculate call amount for player
+   * Antes are dead money and never part of a player's current bet
    * 
    * @param game - Game account
    * @param playerState - Player state
@@ -173,7 +502,10 @@ export class GameLogic {
    */
   static canRaise(game: Game, playerState: PlayerState): boolean {
     const minRaise = this.getMinimumRaise(game);
-    return game.currentBet.gt(new BN(0)) && playerState.chipStack.gte(minRaise);
+    return game.currentBet.gt(new BN(0))
+      && this.isActionReopened(game, playerState)
+      && !this.isRaiseCapped(game)
+      && playerState.chipStack.add(playerState.currentBet).gte(minRaise);
   }
 
   /**
@@ -196,7 +528,17 @@ export class GameLogic {
       };
     }
 
-    if (amount.lt(game.bigBlind)) {
+    const structure = this.getBettingStructure(game);
+    const minBet = this.getMinimumBet(game);
+    if (structure === BettingStructure.FixedLimit) {
+      // A player short of a full bet may only bet all their chips
+      if (!amount.eq(minBet) && !(amount.eq(playerState.chipStack) && amount.lt(minBet))) {
+        return {
+          valid: false,
+          error: `Fixed-limit bets on this street are ${minBet.toString()}`,
+        };
+      }
+    } else if (amount.lt(minBet)) {
       return {
         valid: false,
         error: `Bet must be at least the big blind (${game.bigBlind.toString()})`,
@@ -210,13 +552,21 @@ export class GameLogic {
       };
     }
 
+    if (structure === BettingStructure.PotLimit && amount.gt(game.pot)) {
+      return {
+        valid: false,
+        error: `Pot-limit bets cannot be more than the pot (${game.pot.toString()})`,
+      };
+    }
+
     return { valid: true };
   }
 
   /**
    * Validate raise amount
+   * A raise for all of a player's chips may be short of the minimum
    * 
-   * @param amount - Raise amount
+   * @param amount - Total to raise to
    * @param game - Game account
    * @param playerState - Player state
    * @returns Validation result
@@ -226,25 +576,112 @@ export class GameLogic {
     game: Game,
     playerState: PlayerState
   ): ValidationResult {
-    const minRaise = this.getMinimumRaise(game);
+    if (amount.lte(game.currentBet)) {
+      return {
+        valid: false,
+        error: `Raise must be to more than the current bet (${game.currentBet.toString()})`,
+      };
+    }
 
-    if (amount.lt(minRaise)) {
+    if (!this.isActionReopened(game, playerState)) {
       return {
         valid: false,
-        error: `Raise must be at least ${minRaise.toString()} (2x current bet)`,
+        error: 'Betting was not reopened (the last all-in was less than a full raise) - call or fold',
       };
     }
 
-    if (amount.gt(playerState.chipStack)) {
+    if (this.isRaiseCapped(game)) {
+      return {
+        valid: false,
+        error: 'Betting is capped for this round - call or fold',
+      };
+    }
+
+    const chipsNeeded = amount.sub(playerState.currentBet);
+    if (chipsNeeded.gt(playerState.chipStack)) {
       return {
         valid: false,
         error: 'Insufficient chips',
       };
     }
 
+    const minRaise = this.getMinimumRaise(game);
+    if (amount.lt(minRaise) && chipsNeeded.lt(playerState.chipStack)) {
+      return {
+        valid: false,
+        error: `Raise must be to at least ${minRaise.toString()} (current bet ${game.currentBet.toString()} plus the last raise of ${this.getLastRaiseSize(game).toString()})`,
+      };
+    }
+
+    const maxRaise = this.getMaximumRaise(game, playerState);
+    if (amount.gt(maxRaise)) {
+      const structure = BETTING_STRUCTURE_NAMES[this.getBettingStructure(game)];
+      return {
+        valid: false,
+        error: `${structure} raises can be to at most ${maxRaise.toString()}`,
+      };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Validate going all-in
+   * All-ins for more than the call are bets or raises, so they must fit
+   * the betting structure; calling all-in for less is always allowed
+   * 
+   * @param game - Game account
+   * @param playerState - Player state
+   * @returns Validation result
+   */
+  static validateAllInAmount(game: Game, playerState: PlayerState): ValidationResult {
+    const allInTo = playerState.chipStack.add(playerState.currentBet);
+    if (allInTo.lte(game.currentBet)) {
+      return { valid: true };
+    }
+
+    if (game.currentBet.isZero()) {
+      const maxBet = this.getMaximumBet(game, playerState);
+      if (playerState.chipStack.gt(maxBet)) {
+        const structure = BETTING_STRUCTURE_NAMES[this.getBettingStructure(game)];
+        return {
+          valid: false,
+          error: `${structure} bets can be at most ${maxBet.toString()} (use bet instead)`,
+        };
+      }
+      return { valid: true };
+    }
+
+    const maxRaise = this.getMaximumRaise(game, playerState);
+    if (allInTo.gt(maxRaise)) {
+      return this.validateRaiseAmount(allInTo, game, playerState);
+    }
+    if (!this.isActionReopened(game, playerState)) {
+      return {
+        valid: false,
+        error: 'Betting was not reopened (the last all-in was less than a full raise) - call or fold',
+      };
+    }
+    if (this.isRaiseCapped(game)) {
+      return {
+        valid: false,
+        error: 'Betting is capped for this round - call or fold',
+      };
+    }
+
     return { valid: true };
   }
 
+  /**
+   * Get every seated player's seat
+   * 
+   * @param game - Game account
+   * @returns Seat indices
+   */
+  static getSeats(game: Game): number[] {
+    return Array.from({ length: game.playerCount }, (_, seat) => seat);
+  }
+
   /**
    * Get player index in game
    * 
@@ -327,6 +764,77 @@ export class GameLogic {
     return false;
   }
 
+  /**
+   * Check if the players can agree to run the rest of the board more than
+   * once: before the river, with no more betting possible because every
+   * live player is all-in (one player covering everyone may have chips
+   * behind once they have called)
+   *
+   * @param game - Game account
+   * @param playerStates - Array of player states
+   * @returns True if the board can be run more than once
+   */
+  static canRunItMultipleTimes(game: Game, playerStates: PlayerState[]): boolean {
+    const stages = [GameStage.PreFlop, GameStage.Flop, GameStage.Turn];
+    if (!stages.includes(game.stage)) return false;
+
+    const live = playerStates.filter(ps => !ps.hasFolded);
+    if (live.length < 2) return false;
+
+    const covering = live.filter(ps => !ps.isAllIn && ps.chipStack.gt(new BN(0)));
+    if (covering.length > 1) return false;
+    if (covering.length === 1 && covering[0].currentBet.lt(game.currentBet)) return false;
+
+    return this.areAllPlayersAllIn(live.filter(ps => !covering.includes(ps)));
+  }
+
+  /**
+   * Validate a player's choice of how many times to run the board
+   *
+   * @param game - Game account
+   * @param playerStates - Array of player states
+   * @param playerState - Player choosing
+   * @param runs - Times to run the board (1 declines)
+   * @returns Validation result
+   */
+  static validateRunChoice(
+    game: Game,
+    playerStates: PlayerState[],
+    playerState: PlayerState,
+    runs: number
+  ): ValidationResult {
+    if (!Number.isInteger(runs) || runs < 1 || runs > MAX_BOARD_RUNS) {
+      return { valid: false, error: `The board can be run 1 to ${MAX_BOARD_RUNS} times` };
+    }
+
+    if (playerState.hasFolded) {
+      return { valid: false, error: 'Only players in the hand can choose' };
+    }
+
+    if (!this.canRunItMultipleTimes(game, playerStates)) {
+      return { valid: false, error: 'The board can only be run again when everyone is all-in before the river' };
+    }
+
+    return { valid: true };
+  }
+
+  /**
+   * Get the times the board will be run: the count every live player
+   * chose, or once if anyone declined or has not chosen
+   *
+   * @param game - Game account
+   * @param playerStates - Array of player states
+   * @returns Number of runs
+   */
+  static getAgreedRuns(game: Game, playerStates: PlayerState[]): number {
+    const votes = playerStates
+      .filter(ps => !ps.hasFolded)
+      .map(ps => game.runVotes?.[ps.seatIndex] ?? 0);
+
+    if (votes.length < 2 || votes.some(runs => runs !== votes[0])) return 1;
+    return Math.max(votes[0], 1);
+  }
+
   /**
    * Validate game configuration
    * 
@@ -0,0 +1,513 @@
+/**
+ * Arcium Poker - Table State Store
+ *
+ * Live state of one table: the game account and the player state of every
+ * seated player. Each store fetches the table once, subscribes to every
+ * account through the program client and merges updates by slot, so a
+ * late fetch never overwrites a newer notification. Stores are shared per
+ * game, only stay subscribed while something is listening, and fetch and
+ * subscribe again when the browser comes back online or the RPC connection
+ * fails over.
+ */
+
+import { PublicKey } from '@solana/web3.js';
+import type { ProgramAccount } from '@coral-xyz/anchor';
+import { ProgramClient } from '../connection/program';
+import { RPCClient } from '../connection/rpc';
+import { Game, PlayerActionParam, PlayerState } from '../shared/types';
+import { ErrorCode, PokerError } from '../shared/errors';
+import { derivePlayerStatePDA } from '../shared/utils';
+import { GameEngine } from './engine';
+
+/**
+ * Player action shown before its transaction is confirmed
+ */
+export interface PendingAction {
+  id: number;
+  player: PublicKey;
+  action: PlayerActionParam;
+  signature: string | null; // Set once the transaction is sent
+}
+
+/**
+ * Table state at a point in time. Game and players include the
+ * predicted result of pending actions.
+ */
+export interface TableSnapshot {
+  game: Game | null;
+  players: ProgramAccount<PlayerState>[]; // By seat
+  pending: PendingAction[]; // Oldest first
+  slot: number; // Highest slot applied
+  loading: boolean;
+  error: string | null;
+  connected: boolean; // Subscribed to every account
+}
+
+/**
+ * Pending action with the slot of the game it was predicted from and
+ * the slot its transaction was confirmed at
+ */
+interface PendingEntry extends PendingAction {
+  baseSlot: number;
+  confirmedSlot: number | null;
+}
+
+/**
+ * Table store options
+ */
+export interface TableStoreOptions {
+  retryDelayMs?: number; // First delay before reconnecting after a failure
+  maxRetryDelayMs?: number;
+}
+
+/**
+ * Default reconnect delays (doubling up to the maximum)
+ */
+const DEFAULT_RETRY_DELAY_MS = 1000;
+const DEFAULT_MAX_RETRY_DELAY_MS = 30000;
+
+/**
+ * Shared stores by game PDA
+ */
+const stores = new Map<string, TableStore>();
+
+/**
+ * Table Store
+ * Subscribed, slot-ordered state of a game and its players
+ */
+export class TableStore {
+  readonly gamePDA: PublicKey;
+
+  private snapshot: TableSnapshot = {
+    game: null,
+    players: [],
+    pending: [],
+    slot: 0,
+    loading: true,
+    error: null,
+    connected: false,
+  };
+  private confirmed: Pick<TableSnapshot, 'game' | 'players'> = { game: null, players: [] };
+  private pending: PendingEntry[] = [];
+  private nextPendingId = 1;
+  private listeners = new Set<() => void>();
+  private slots = new Map<string, number>(); // Last slot applied per account
+  private gameSubscription: number | null = null;
+  private playerSubscriptions = new Map<string, number>(); // By PlayerState PDA
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private retryDelayMs: number;
+  private readonly options: Required<TableStoreOptions>;
+  private generation = 0; // Bumped on stop, to drop stale async results
+
+  // Catch up after the network comes back, the tab wakes up or the RPC
+  // connection fails over to another endpoint
+  private readonly handleOnline = () => void this.reconnect();
+  private readonly handleFailover = () => void this.reconnect();
+  private unwatchFailover: (() => void) | null = null;
+  private readonly handleVisibility = () => {
+    if (document.visibilityState === 'visible') void this.reconnect();
+  };
+  private readonly handleDecodeError = (error: Error) => {
+    console.error('Error decoding account change:', error);
+    this.update({ error: error.message });
+  };
+
+  constructor(gamePDA: PublicKey, options: TableStoreOptions = {}) {
+    this.gamePDA = gamePDA;
+    this.options = {
+      retryDelayMs: options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS,
+      maxRetryDelayMs: options.maxRetryDelayMs ?? DEFAULT_MAX_RETRY_DELAY_MS,
+    };
+    this.retryDelayMs = this.options.retryDelayMs;
+  }
+
+  /**
+   * Get the shared store of a game
+   *
+   * @param gamePDA - Game address
+   * @returns Table store
+   */
+  static forGame(gamePDA: PublicKey): TableStore {
+    const key = gamePDA.toBase58();
+    let store = stores.get(key);
+    if (!store) {
+      store = new TableStore(gamePDA);
+      stores.set(key, store);
+    }
+    return store;
+  }
+
+  /**
+   * Stop and forget every shared store (useful for testing)
+   */
+  static reset(): void {
+    for (const store of stores.values()) {
+      store.watchConnectivity(false);
+      store.stop();
+    }
+    stores.clear();
+  }
+
+  /**
+   * Get the current table state
+   */
+  getSnapshot(): TableSnapshot {
+    return this.snapshot;
+  }
+
+  /**
+   * Listen for state changes. The first listener starts the
+   * subscriptions and the last one to leave stops them.
+   *
+   * @param listener - Called after every change
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    if (this.listeners.size === 1) {
+      this.watchConnectivity(true);
+      void this.start();
+    }
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) {
+        this.watchConnectivity(false);
+        this.stop();
+      }
+    };
+  }
+
+  /**
+   * Get a player's state by wallet
+   *
+   * @param player - Player's wallet
+   * @returns Player state account, or undefined if not seated
+   */
+  getPlayer(player: PublicKey): ProgramAccount<PlayerState> | undefined {
+    return this.snapshot.players.find(p => p.account.player.equals(player));
+  }
+
+  /**
+   * Show a player action before it is confirmed, using the engine's
+   * prediction of the next state
+   *
+   * @param player - Acting player's wallet
+   * @param action - Action as sent to the program
+   * @returns Pending action ID, or null if the table is not loaded yet or
+   *   the engine rejects the action. The transaction is still sent either
+   *   way; the program has the final say.
+   */
+  addPending(player: PublicKey, action: PlayerActionParam): number | null {
+    if (!this.snapshot.game) return null;
+
+    try {
+      this.reduce({ game: this.snapshot.game, players: this.snapshot.players }, { player, action });
+    } catch (error) {
+      // The local state may be stale or the engine out of step with the
+      // program; show nothing rather than block the action
+      console.warn('Not predicting player action:', error);
+      return null;
+    }
+
+    const id = this.nextPendingId++;
+    const baseSlot = this.slots.get(this.gamePDA.toBase58()) ?? -1;
+    this.pending.push({ id, player, action, signature: null, baseSlot, confirmedSlot: null });
+    this.setConfirmed({}, this.snapshot.slot);
+    return id;
+  }
+
+  /**
+   * Tag a pending action with its transaction signature
+   *
+   * @param id - Pending action ID
+   * @param signature - Transaction signature
+   */
+  setPendingSignature(id: number, signature: string): void {
+    const entry = this.pending.find(p => p.id === id);
+    if (!entry) return;
+    entry.signature = signature;
+    this.setConfirmed({}, this.snapshot.slot);
+  }
+
+  /**
+   * Mark a pending action's transaction as confirmed. The prediction
+   * stays until the accounts from that slot arrive.
+   *
+   * @param id - Pending action ID
+   * @param slot - Slot the transaction was confirmed at
+   */
+  confirmPending(id: number, slot: number): void {
+    const entry = this.pending.find(p => p.id === id);
+    if (!entry) return;
+    entry.confirmedSlot = slot;
+    this.setConfirmed({}, this.snapshot.slot);
+  }
+
+  /**
+   * Drop a pending action whose transaction failed, going back to the
+   * confirmed state
+   *
+   * @param id - Pending action ID
+   */
+  rollbackPending(id: number): void {
+    const count = this.pending.length;
+    this.pending = this.pending.filter(p => p.id !== id);
+    if (this.pending.length !== count) {
+      this.setConfirmed({}, this.snapshot.slot);
+    }
+  }
+
+  /**
+   * Fetch the table again, keeping any newer updates
+   */
+  async refresh(): Promise<void> {
+    const generation = this.generation;
+    // Read the slot first: the fetched accounts are at least this recent
+    const slot = await ProgramClient.getSlot();
+    const [game, players] = await Promise.all([
+      ProgramClient.fetchGame(this.gamePDA),
+      ProgramClient.fetchPlayerStatesByGame(this.gamePDA),
+    ]);
+    if (generation !== this.generation) return;
+
+    this.applyGame(game, slot);
+    for (const { publicKey, account } of players) {
+      this.applyPlayerState(publicKey, account, slot);
+    }
+    this.syncPlayerSubscriptions();
+    this.update({ loading: false, error: null });
+  }
+
+  /**
+   * Drop every subscription, fetch the table and subscribe again
+   * (after the connection drops or the page wakes up)
+   */
+  async reconnect(): Promise<void> {
+    if (this.listeners.size === 0) return;
+    this.stop();
+    await this.start();
+  }
+
+  /**
+   * Subscribe to the game and fetch the table, retrying on failure
+   */
+  private async start(): Promise<void> {
+    const generation = this.generation;
+    try {
+      this.gameSubscription = ProgramClient.subscribeToGame(this.gamePDA, (game, slot) => {
+        if (this.applyGame(game, slot)) {
+          this.syncPlayerSubscriptions();
+        }
+      }, this.handleDecodeError);
+      await this.refresh();
+      if (generation !== this.generation) return;
+
+      this.retryDelayMs = this.options.retryDelayMs;
+      this.update({ connected: true });
+    } catch (error) {
+      if (generation !== this.generation) return;
+
+      console.error('Error loading table:', error);
+      this.update({
+        loading: false,
+        connected: false,
+        error: error instanceof Error ? error.message : 'Failed to load game',
+      });
+      this.scheduleReconnect();
+    }
+  }
+
+  /**
+   * Cancel every subscription and pending reconnect
+   */
+  private stop(): void {
+    this.generation++;
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    if (this.gameSubscription !== null) {
+      void ProgramClient.unsubscribe(this.gameSubscription);
+      this.gameSubscription = null;
+    }
+    for (const subscriptionId of this.playerSubscriptions.values()) {
+      void ProgramClient.unsubscribe(subscriptionId);
+    }
+    this.playerSubscriptions.clear();
+    this.update({ connected: false });
+  }
+
+  private watchConnectivity(watch: boolean): void {
+    if (typeof window === 'undefined') return;
+    if (watch) {
+      window.addEventListener('online', this.handleOnline);
+      document.addEventListener('visibilitychange', this.handleVisibility);
+      if (!ProgramClient.isLocal()) {
+        this.unwatchFailover = RPCClient.onFailover(this.handleFailover);
+      }
+    } else {
+      window.removeEventListener('online', this.handleOnline);
+      document.removeEventListener('visibilitychange', this.handleVisibility);
+      this.unwatchFailover?.();
+      this.unwatchFailover = null;
+    }
+  }
+
+  private scheduleReconnect(): void {
+    const delay = this.retryDelayMs;
+    this.retryDelayMs = Math.min(delay * 2, this.options.maxRetryDelayMs);
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      void this.reconnect();
+    }, delay);
+  }
+
+  /**
+   * Subscribe to the player state of every seated player, dropping
+   * players who left. New players are fetched once subscribed.
+   */
+  private syncPlayerSubscriptions(): void {
+    const game = this.confirmed.game;
+    if (!game || this.listeners.size === 0) return;
+
+    const seated = new Map<string, PublicKey>();
+    for (const player of game.players) {
+      if (!player.equals(PublicKey.default)) {
+        const [playerStatePDA] = derivePlayerStatePDA(this.gamePDA, player);
+        seated.set(playerStatePDA.toBase58(), playerStatePDA);
+      }
+    }
+
+    for (const [key, subscriptionId] of this.playerSubscriptions) {
+      if (!seated.has(key)) {
+        void ProgramClient.unsubscribe(subscriptionId);
+        this.playerSubscriptions.delete(key);
+      }
+    }
+
+    const joined: PublicKey[] = [];
+    for (const [key, playerStatePDA] of seated) {
+      if (this.playerSubscriptions.has(key)) continue;
+      this.playerSubscriptions.set(key, ProgramClient.subscribeToPlayerState(
+        playerStatePDA,
+        (playerState, slot) => this.applyPlayerState(playerStatePDA, playerState, slot),
+        this.handleDecodeError
+      ));
+      if (!this.confirmed.players.some(p => p.publicKey.equals(playerStatePDA))) {
+        joined.push(playerStatePDA);
+      }
+    }
+
+    const players = this.confirmed.players.filter(p => seated.has(p.publicKey.toBase58()));
+    if (players.length !== this.confirmed.players.length) {
+      this.setConfirmed({ players }, this.snapshot.slot);
+    }
+    if (joined.length > 0) {
+      void this.fetchPlayers(joined);
+    }
+  }
+
+  private async fetchPlayers(playerStatePDAs: PublicKey[]): Promise<void> {
+    const generation = this.generation;
+    try {
+      const slot = await ProgramClient.getSlot();
+      const states = await Promise.all(playerStatePDAs.map(pda => ProgramClient.fetchPlayerState(pda)));
+      if (generation !== this.generation) return;
+      states.forEach((playerState, i) => this.applyPlayerState(playerStatePDAs[i], playerState, slot));
+    } catch (error) {
+      // The subscription delivers the account once it lands
+      console.warn('Error fetching new players:', error);
+    }
+  }
+
+  /**
+   * Apply a game update unless a newer one was already applied
+   *
+   * @returns Whether the update was applied
+   */
+  private applyGame(game: Game, slot: number): boolean {
+    if (!this.claimSlot(this.gamePDA, slot)) return false;
+    this.setConfirmed({ game }, slot);
+    return true;
+  }
+
+  /**
+   * Apply a player state update unless a newer one was already applied
+   */
+  private applyPlayerState(address: PublicKey, playerState: PlayerState, slot: number): void {
+    if (!playerState.game.equals(this.gamePDA) || !this.claimSlot(address, slot)) return;
+
+    const players = this.confirmed.players
+      .filter(p => !p.publicKey.equals(address))
+      .concat({ publicKey: address, account: playerState })
+      .sort((a, b) => a.account.seatIndex - b.account.seatIndex);
+    this.setConfirmed({ players }, slot);
+  }
+
+  /**
+   * Update the confirmed accounts and show them with the pending actions
+   * on top. Actions confirmed at or before the latest slot are settled.
+   * Predictions are only shown on the game they were made from: once the
+   * game account changes, the action is either in it or was overtaken.
+   */
+  private setConfirmed(changes: Partial<Pick<TableSnapshot, 'game' | 'players'>>, slot: number): void {
+    this.confirmed = { ...this.confirmed, ...changes };
+    const latestSlot = Math.max(this.snapshot.slot, slot);
+    const gameSlot = this.slots.get(this.gamePDA.toBase58()) ?? -1;
+    this.pending = this.pending.filter(p => p.confirmedSlot === null || p.confirmedSlot > gameSlot);
+
+    let shown = this.confirmed;
+    for (const entry of this.pending.filter(p => p.baseSlot === gameSlot)) {
+      try {
+        shown = this.reduce(shown, entry);
+      } catch {
+        // No longer applies to the player states; wait for the transaction
+      }
+    }
+
+    this.update({
+      ...shown,
+      pending: this.pending.map(({ id, player, action, signature }) => ({ id, player, action, signature })),
+      slot: latestSlot,
+    });
+  }
+
+  /**
+   * Predict the table after a player action
+   *
+   * @throws PokerError if the engine rejects the action
+   */
+  private reduce(
+    table: Pick<TableSnapshot, 'game' | 'players'>,
+    { player, action }: Pick<PendingAction, 'player' | 'action'>
+  ): Pick<TableSnapshot, 'game' | 'players'> {
+    if (!table.game) {
+      throw new PokerError(ErrorCode.InvalidGameStage, 'Game not loaded');
+    }
+    const next = GameEngine.reduce(
+      { game: table.game, playerStates: table.players.map(p => p.account) },
+      { type: 'player_action', player, action, timestamp: Math.floor(Date.now() / 1000) }
+    );
+    return {
+      game: next.game,
+      players: table.players.map((p, i) => ({ publicKey: p.publicKey, account: next.playerStates[i] })),
+    };
+  }
+
+  /**
+   * Record the slot of an account update, rejecting older ones
+   */
+  private claimSlot(address: PublicKey, slot: number): boolean {
+    const key = address.toBase58();
+    if (slot < (this.slots.get(key) ?? -1)) return false;
+    this.slots.set(key, slot);
+    return true;
+  }
+
+  private update(changes: Partial<TableSnapshot>): void {
+    this.snapshot = { ...this.snapshot, ...changes };
+    for (const listener of [...this.listeners]) {
+      listener();
+    }
+  }
+}
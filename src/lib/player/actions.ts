@@ -21,6 +21,7 @@ import {
 } from '../shared/types';
 import { ensureBN } from '../shared/utils';
 import { ErrorCode, PokerError } from '../shared/errors';
+import { GameLogic } from '../game/logic';
 
 /**
  * Result of player action
@@ -230,7 +231,7 @@ export class PlayerActions {
     }
 
     if ('allIn' in action) {
-      return this.validateAllIn(playerState);
+      return this.validateAllIn(playerState, game);
     }
 
     return {
@@ -288,32 +289,11 @@ export class PlayerActions {
       };
     }
 
-    if (amount.lte(new BN(0))) {
-      return {
-        valid: false,
-        error: 'Bet amount must be greater than 0',
-      };
-    }
-
-    if (amount.lt(game.bigBlind)) {
-      return {
-        valid: false,
-        error: `Bet must be at least the big blind (${game.bigBlind.toString()})`,
-      };
-    }
-
-    if (amount.gt(playerState.chipStack)) {
-      return {
-        valid: false,
-        error: 'Insufficient chips',
-      };
-    }
-
-    return { valid: true };
+    return GameLogic.validateBetAmount(amount, game, playerState);
   }
 
   /**
-   * Validate raise action
+   * Validate raise action (amount is the total to raise to)
    */
   static validateRaise(
     game: Game,
@@ -327,34 +307,25 @@ export class PlayerActions {
       };
     }
 
-    const minRaise = game.currentBet.mul(new BN(2));
-    if (amount.lt(minRaise)) {
-      return {
-        valid: false,
-        error: `Raise must be at least ${minRaise.toString()} (2x current bet)`,
-      };
-    }
-
-    if (amount.gt(playerState.chipStack)) {
-      return {
-        valid: false,
-        error: 'Insufficient chips',
-      };
-    }
-
-    return { valid: true };
+    return GameLogic.validateRaiseAmount(amount, game, playerState);
   }
 
   /**
    * Validate all-in action
    */
-  static validateAllIn(playerState: PlayerState): ValidationResult {
+  static validateAllIn(playerState: PlayerState, game?: Game): ValidationResult {
     if (playerState.chipStack.lte(new BN(0))) {
       return {
         valid: false,
         error: 'No chips to go all-in',
       };
     }
+
+    // Going all-in for more than the call is a bet or raise
+    if (game) {
+      return GameLogic.validateAllInAmount(game, playerState);
+    }
+
     return { valid: true };
   }
 
@@ -402,7 +373,10 @@ export class PlayerActions {
    * Check if player can raise
    */
   static canRaise(game: Game, playerState: PlayerState): boolean {
-    return game.currentBet.gt(new BN(0)) && playerState.chipStack.gt(new BN(0));
+    return game.currentBet.gt(new BN(0))
+      && playerState.chipStack.gt(this.getCallAmount(game, playerState))
+      && GameLogic.isActionReopened(game, playerState)
+      && !GameLogic.isRaiseCapped(game);
   }
 
   /**
@@ -430,7 +404,7 @@ export class PlayerActions {
       actions.push('raise');
     }
 
-    if (playerState.chipStack.gt(new BN(0))) {
+    if (this.validateAllIn(playerState, game).valid) {
       actions.push('allIn');
     }
 
@@ -8,6 +8,7 @@ import { PublicKey } from '@solana/web3.js';
 import BN from 'bn.js';
 import { ProgramClient } from '../connection/program';
 import { PlayerState, PlayerStatus, Game } from '../shared/types';
+import { GameLogic } from '../game/logic';
 
 /**
  * Player information for UI display
@@ -216,6 +217,11 @@ export class PlayerStateManager {
     const dealerIndex = game.dealerPosition;
     const relativePosition = (playerIndex - dealerIndex + game.playerCount) % game.playerCount;
 
+    // Heads-up the dealer posts the small blind
+    if (GameLogic.isHeadsUp(game)) {
+      return relativePosition === 0 ? 'Dealer (Small Blind)' : 'Big Blind';
+    }
+
     if (relativePosition === 0) return 'Dealer';
     if (relativePosition === 1) return 'Small Blind';
     if (relativePosition === 2) return 'Big Blind';
@@ -41,6 +41,20 @@ export const RPC_ENDPOINT =
 export const WS_ENDPOINT = 
   process.env.NEXT_PUBLIC_WS_ENDPOINT || 'wss://api.devnet.solana.com';
 
+/**
+ * RPC endpoints to fail over between, in order of preference
+ * Comma-separated NEXT_PUBLIC_RPC_ENDPOINTS and NEXT_PUBLIC_WS_ENDPOINTS,
+ * paired by position; defaults to RPC_ENDPOINT and WS_ENDPOINT alone
+ */
+export const RPC_ENDPOINTS: { http: string; ws?: string }[] = (() => {
+  const list = (value?: string) => (value || '').split(',').map(url => url.trim()).filter(Boolean);
+  const http = list(process.env.NEXT_PUBLIC_RPC_ENDPOINTS);
+  const ws = list(process.env.NEXT_PUBLIC_WS_ENDPOINTS);
+  return http.length > 0
+    ? http.map((url, i) => ({ http: url, ws: ws[i] }))
+    : [{ http: RPC_ENDPOINT, ws: WS_ENDPOINT }];
+})();
+
 /**
  * Solana Explorer base URL
  */
@@ -131,6 +145,11 @@ export const MIN_PLAYERS = 2;
  */
 export const MIN_BUY_IN_BB_MULTIPLIER = 50;
 
+/**
+ * Default fixed-limit cap on bets and raises per round (a bet and 3 raises)
+ */
+export const DEFAULT_FIXED_LIMIT_RAISE_CAP = 4;
+
 // ==============================================
 // Timeout Configuration
 // ==============================================
@@ -152,6 +171,78 @@ export const TRANSACTION_TIMEOUT_MS =
  */
 export const RPC_TIMEOUT_MS = 30000;
 
+/**
+ * Interval between RPC endpoint health checks (in milliseconds)
+ */
+export const RPC_HEALTH_CHECK_INTERVAL_MS =
+  Number(process.env.NEXT_PUBLIC_RPC_HEALTH_CHECK_INTERVAL_MS) || 15000;
+
+/**
+ * Time an endpoint has to answer a health check (in milliseconds)
+ */
+export const RPC_HEALTH_CHECK_TIMEOUT_MS = 5000;
+
+/**
+ * Slots an endpoint may fall behind the most current one and stay healthy
+ */
+export const RPC_MAX_SLOT_LAG = 25;
+
+/**
+ * Slowest health check response an endpoint may give and stay healthy
+ * (in milliseconds)
+ */
+export const RPC_MAX_LATENCY_MS = 3000;
+
+/**
+ * Recent requests per endpoint counted toward its error rate
+ */
+export const RPC_ERROR_WINDOW = 20;
+
+/**
+ * Share of recent requests an endpoint may fail and stay healthy
+ */
+export const RPC_MAX_ERROR_RATE = 0.5;
+
+// ==============================================
+// Transaction Configuration
+// ==============================================
+
+/**
+ * Compute-unit limit used when simulation cannot size a transaction
+ */
+export const DEFAULT_COMPUTE_UNIT_LIMIT = 200000;
+
+/**
+ * Largest compute-unit limit a transaction may request
+ */
+export const MAX_COMPUTE_UNIT_LIMIT = 1400000;
+
+/**
+ * Headroom added to simulated compute units
+ */
+export const COMPUTE_UNIT_MARGIN = 1.2;
+
+/**
+ * Percentile of recent prioritization fees to pay
+ */
+export const PRIORITY_FEE_PERCENTILE = 75;
+
+/**
+ * Highest compute-unit price to pay (in micro-lamports)
+ */
+export const MAX_PRIORITY_FEE_MICROLAMPORTS =
+  Number(process.env.NEXT_PUBLIC_MAX_PRIORITY_FEE_MICROLAMPORTS) || 1000000;
+
+/**
+ * Interval between rebroadcasts of a pending transaction (in milliseconds)
+ */
+export const REBROADCAST_INTERVAL_MS = 2000;
+
+/**
+ * Times a transaction is re-signed with a fresh blockhash after expiring
+ */
+export const MAX_BLOCKHASH_REFRESHES = 2;
+
 // ==============================================
 // Arcium MPC Configuration
 // ==============================================
@@ -207,11 +298,26 @@ export const MPC_CALLBACK_URL =
  */
 export const DECK_SIZE = 52;
 
+/**
+ * Number of cards in a short deck (sixes through aces)
+ */
+export const SHORT_DECK_SIZE = 36;
+
 /**
  * Number of hole cards per player
  */
 export const HOLE_CARDS_COUNT = 2;
 
+/**
+ * Number of hole cards per player in Omaha
+ */
+export const OMAHA_HOLE_CARDS_COUNT = 4;
+
+/**
+ * Hole cards an Omaha hand must use (the other three come from the board)
+ */
+export const OMAHA_HOLE_CARDS_USED = 2;
+
 /**
  * Number of community cards
  */
@@ -232,6 +338,11 @@ export const TURN_CARDS_COUNT = 1;
  */
 export const RIVER_CARDS_COUNT = 1;
 
+/**
+ * Most times an all-in board can be run
+ */
+export const MAX_BOARD_RUNS = 3;
+
 // ==============================================
 // Feature Flags
 // ==============================================
@@ -260,6 +371,15 @@ export const ENABLE_LEADERBOARD =
 export const ENABLE_CHAT = 
   process.env.NEXT_PUBLIC_ENABLE_CHAT === 'true' || false;
 
+/**
+ * Local table mode
+ *
+ * When true, the lobby and tables run against an in-memory program with
+ * local wallets instead of Solana RPC (no devnet SOL or validator needed).
+ */
+export const LOCAL_MODE = 
+  process.env.NEXT_PUBLIC_LOCAL_MODE === 'true' || false;
+
 // ==============================================
 // UI Configuration
 // ==============================================
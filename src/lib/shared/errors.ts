@@ -135,6 +135,14 @@ export function parseAnchorError(error: any): PokerError {
     }
   }
 
+  // Failed transaction status: { InstructionError: [index, { Custom: code }] },
+  // bare or wrapped in a TransactionFailedError
+  const status = error?.err ?? error;
+  const customCode = status?.InstructionError?.[1]?.Custom;
+  if (!errorCode && typeof customCode === 'number' && ErrorCode[customCode] !== undefined) {
+    errorCode = customCode;
+  }
+
   // Check for custom program error
   if (!errorCode && error?.code) {
     errorCode = error.code;
@@ -36,6 +36,62 @@ export enum PlayerStatus {
   Left = 'Left',
 }
 
+/**
+ * Poker game played at a table
+ * Only local tables play variants other than Hold'em: the program deals two
+ * hole cards from a full deck and awards each pot to the best high hand
+ */
+export enum GameVariant {
+  Holdem = 'Holdem', // Two hole cards, any five of seven
+  Omaha = 'Omaha', // Four hole cards, exactly two with three from the board
+  ShortDeck = 'ShortDeck', // Hold'em with a 36-card deck (sixes and up)
+  OmahaHiLo = 'OmahaHiLo', // Omaha with the pot split between high and eight-or-better low
+}
+
+/**
+ * Display names for each game variant
+ */
+export const GAME_VARIANT_NAMES: Record<GameVariant, string> = {
+  [GameVariant.Holdem]: "Texas Hold'em",
+  [GameVariant.Omaha]: 'Omaha',
+  [GameVariant.ShortDeck]: "Short Deck Hold'em",
+  [GameVariant.OmahaHiLo]: 'Omaha Hi-Lo',
+};
+
+/**
+ * Betting structure (limit type) of a table
+ */
+export enum BettingStructure {
+  NoLimit = 'NoLimit',
+  PotLimit = 'PotLimit',
+  FixedLimit = 'FixedLimit',
+}
+
+/**
+ * Display names for each betting structure
+ */
+export const BETTING_STRUCTURE_NAMES: Record<BettingStructure, string> = {
+  [BettingStructure.NoLimit]: 'No-Limit',
+  [BettingStructure.PotLimit]: 'Pot-Limit',
+  [BettingStructure.FixedLimit]: 'Fixed-Limit',
+};
+
+/**
+ * How antes are posted
+ */
+export enum AnteType {
+  PerPlayer = 'PerPlayer', // Every player dealt in posts the ante
+  BigBlind = 'BigBlind', // The big blind posts one ante for the table
+}
+
+/**
+ * Optional straddle (a voluntary blind of twice the big blind)
+ */
+export enum StraddleType {
+  UnderTheGun = 'UnderTheGun',
+  Button = 'Button',
+}
+
 // ==============================================
 // Player Action Types
 // ==============================================
@@ -110,6 +166,37 @@ export interface Game {
   
   /** Current bet amount in this round */
   currentBet: BN;
+
+  /**
+   * Size of the last full bet or raise in this round, which the next raise
+   * must at least match (tracked by the local engine; when absent the
+   * current bet is used)
+   */
+  lastRaiseSize?: BN;
+  
+  /**
+   * Bets and raises made in this round, counting the big blind pre-flop
+   * (tracked by the local engine for the fixed-limit cap)
+   */
+  betsThisRound?: number;
+
+  /**
+   * Table rules chosen at creation. Not part of the on-chain account: only
+   * the local program keeps them on the game. Absent means no-limit.
+   */
+  config?: GameConfig;
+
+  /**
+   * Times each seat agreed to run the board once everyone is all-in
+   * (0 = no choice yet). Local tables only.
+   */
+  runVotes?: number[];
+
+  /**
+   * Complete boards, one per run, once the players agreed to run the board
+   * more than once. The first is always `communityCards`.
+   */
+  runBoards?: number[][];
   
   /** Players who have acted in current betting round */
   playersActed: boolean[];
@@ -139,6 +226,34 @@ export interface Game {
   bump: number;
 }
 
+/**
+ * Table rules chosen when a game is created
+ */
+export interface GameConfig {
+  bettingStructure: BettingStructure;
+
+  /** Game played (Hold'em unless set) */
+  variant?: GameVariant;
+
+  /** Fixed-limit bet size pre-flop and on the flop */
+  smallBet?: BN;
+
+  /** Fixed-limit bet size on the turn and river */
+  bigBet?: BN;
+
+  /** Fixed-limit maximum number of bets and raises per round */
+  raiseCap?: number;
+
+  /** Ante amount (dead money, not part of the player's bet) */
+  ante?: BN;
+
+  /** How the ante is posted (per player unless set) */
+  anteType?: AnteType;
+
+  /** Straddle posted before the cards, if any */
+  straddle?: StraddleType;
+}
+
 /**
  * Player state account (from IDL lines 1357-1473)
  * PDA per player per game
@@ -201,6 +316,14 @@ export interface InitGameParams {
   minBuyIn?: number | BN;
   maxBuyIn?: number | BN;
   maxPlayers?: number;
+  variant?: GameVariant;
+  bettingStructure?: BettingStructure; // Defaults to pot-limit for Omaha, no-limit otherwise
+  smallBet?: number | BN; // Fixed-limit only (defaults to the big blind)
+  bigBet?: number | BN; // Fixed-limit only (defaults to twice the small bet)
+  raiseCap?: number; // Fixed-limit only
+  ante?: number | BN;
+  anteType?: AnteType;
+  straddle?: StraddleType;
 }
 
 /**
@@ -255,6 +378,8 @@ export interface Payout {
 
 /**
  * Hand rank for poker evaluation
+ * Shared by the evaluator, card reveal, showdown and UI. Values match the
+ * on-chain u8 hand rank.
  */
 export enum HandRank {
   HighCard = 0,
@@ -269,12 +394,30 @@ export enum HandRank {
   RoyalFlush = 9,
 }
 
+/**
+ * Display names for each hand rank
+ */
+export const HAND_RANK_NAMES: Record<HandRank, string> = {
+  [HandRank.HighCard]: 'High Card',
+  [HandRank.OnePair]: 'Pair',
+  [HandRank.TwoPair]: 'Two Pair',
+  [HandRank.ThreeOfAKind]: 'Three of a Kind',
+  [HandRank.Straight]: 'Straight',
+  [HandRank.Flush]: 'Flush',
+  [HandRank.FullHouse]: 'Full House',
+  [HandRank.FourOfAKind]: 'Four of a Kind',
+  [HandRank.StraightFlush]: 'Straight Flush',
+  [HandRank.RoyalFlush]: 'Royal Flush',
+};
+
 /**
  * Hand evaluation result
  */
 export interface HandEvaluation {
   rank: HandRank;
-  value: number;
+  rankName: string;
+  key: number[]; // Lexicographic key: [rank, ...tie-break card values]
+  value: number; // Numeric encoding of key for sorting
   description: string;
 }
 
@@ -365,3 +508,38 @@ export function pubkeyToString(pubkey: PublicKey): string {
 export function stringToPubkey(str: string): PublicKey {
   return new PublicKey(str);
 }
+
+/**
+ * Convert on-chain hand rank (u8 or Anchor enum object) to HandRank
+ */
+export function handRankFromOnChain(value: number | Record<string, unknown>): HandRank {
+  if (typeof value === 'number') {
+    if (!isHandRank(value)) {
+      throw new Error(`Invalid hand rank: ${value}`);
+    }
+    return value;
+  }
+
+  // Anchor encodes enums as { variantName: {} }
+  const variant = Object.keys(value)[0] ?? '';
+  const name = variant.charAt(0).toUpperCase() + variant.slice(1);
+  const rank = HandRank[name as keyof typeof HandRank];
+  if (rank === undefined) {
+    throw new Error(`Invalid hand rank: ${variant}`);
+  }
+  return rank;
+}
+
+/**
+ * Convert HandRank to on-chain u8
+ */
+export function handRankToOnChain(rank: HandRank): number {
+  return rank;
+}
+
+/**
+ * Get display name for a hand rank
+ */
+export function getHandRankName(rank: HandRank): string {
+  return HAND_RANK_NAMES[rank] ?? 'Unknown';
+}
@@ -297,6 +297,25 @@ export function getPrevIndex(current: number, length: number): number {
   return (current - 1 + length) % length;
 }
 
+// ==============================================
+// Random Utilities
+// ==============================================
+
+/**
+ * Create a seeded pseudo-random generator (mulberry32)
+ * Returns numbers in [0, 1); the same seed always gives the same sequence.
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
 // ==============================================
 // Crypto Utilities
 // ==============================================
@@ -6,7 +6,13 @@
 
 import { PublicKey } from '@solana/web3.js';
 import BN from 'bn.js';
-import { Game, PlayerState } from '../shared/types';
+import { Game, PlayerState, HandRank, HandEvaluation, GameVariant } from '../shared/types';
+import { ErrorCode, PokerError } from '../shared/errors';
+import { Card, DeckManager } from '../cards/deck';
+import { HandEvaluator, HandResult } from '../cards/evaluator';
+import { LowEvaluator, LowHandResult } from '../cards/low-evaluator';
+import { PotManager } from '../betting/pot-manager';
+import { GameLogic } from '../game/logic';
 
 /**
  * Winner information
@@ -15,7 +21,9 @@ export interface Winner {
   player: PublicKey;
   playerState: PlayerState;
   winAmount: BN;
-  handRank?: number;
+  handRank?: HandRank;
+  hand?: HandEvaluation;
+  lowHand?: LowHandResult; // Qualifying low, in hi-lo games
 }
 
 /**
@@ -26,18 +34,27 @@ export class ShowdownWinner {
   /**
    * Determine winners from active players
    * 
+   * Every non-folded hand is ranked with the HandEvaluator against the
+   * community cards (using exactly two hole cards in Omaha and short-deck
+   * rankings in short deck), then each main/side pot is awarded to the best
+   * eligible hand(s). In hi-lo games each pot is halved between the best
+   * high and the best eight-or-better low (odd chip to the high half), and
+   * the high hand scoops when no one qualifies for low. Folded players'
+   * chips count toward the pots they reached, but they cannot win them.
+   * When the board was run more than once, the winnings of every run are
+   * added up (see determineRunWinners).
+   * 
    * @param game - Game account
    * @param playerStates - All player states
+   * @param revealedHoleCards - Revealed card indices by seat (defaults to each player's hole cards)
    * @returns Array of winners
    */
   static determineWinners(
     game: Game,
-    playerStates: PlayerState[]
+    playerStates: PlayerState[],
+    revealedHoleCards?: Map<number, number[]>
   ): Winner[] {
-    // Filter active players who haven't folded
-    const activePlayers = playerStates.filter(
-      (ps) => !ps.hasFolded && (ps.chipStack.gt(new BN(0)) || ps.totalBetThisHand.gt(new BN(0)))
-    );
+    const activePlayers = this.getActivePlayers(playerStates);
 
     if (activePlayers.length === 0) {
       return [];
@@ -54,15 +71,214 @@ export class ShowdownWinner {
       ];
     }
 
-    // In a real implementation, this would evaluate poker hands
-    // For now, we'll split the pot equally among active players
-    const winAmount = game.pot.div(new BN(activePlayers.length));
+    const runs = this.determineRunWinners(game, playerStates, revealedHoleCards);
+    if (runs.length === 1) {
+      return runs[0];
+    }
+
+    // Add up every run, keeping the hand of the first run each player won
+    const winners: Winner[] = [];
+    for (const run of runs) {
+      for (const runWinner of run) {
+        const winner = winners.find((w) => w.player.equals(runWinner.player));
+        if (winner) {
+          winner.winAmount = winner.winAmount.add(runWinner.winAmount);
+        } else {
+          winners.push({ ...runWinner });
+        }
+      }
+    }
+
+    return winners;
+  }
+
+  /**
+   * Determine the winners of each run of the board
+   * 
+   * Each main/side pot is split evenly between the runs (odd chips to the
+   * first runs) and each share is awarded to the best eligible hand(s) on
+   * that run's board. Without extra runs this is a single run on the
+   * community cards.
+   * 
+   * @param game - Game account
+   * @param playerStates - All player states
+   * @param revealedHoleCards - Revealed card indices by seat (defaults to each player's hole cards)
+   * @returns Winners of each run, in run order
+   */
+  static determineRunWinners(
+    game: Game,
+    playerStates: PlayerState[],
+    revealedHoleCards?: Map<number, number[]>
+  ): Winner[][] {
+    const activePlayers = this.getActivePlayers(playerStates);
+    if (activePlayers.length <= 1) {
+      return [this.determineWinners(game, playerStates, revealedHoleCards)];
+    }
+
+    // Build pots from every player's chips, folded players included, and
+    // add anything the pot holds beyond them to the main pot
+    const pots = PotManager.calculateShowdownPots(playerStates);
+    const potTotal = pots.reduce((sum, pot) => sum.add(pot.amount), new BN(0));
+    const deadMoney = game.pot.sub(potTotal);
+    if (pots.length === 0) {
+      pots.push({ amount: game.pot, eligiblePlayers: activePlayers.map((ps) => ps.seatIndex), capAmount: new BN(0) });
+    } else if (deadMoney.gt(new BN(0))) {
+      pots[0].amount = pots[0].amount.add(deadMoney);
+    }
+
+    const holeCards = new Map<number, Card[]>();
+    for (const ps of activePlayers) {
+      holeCards.set(
+        ps.seatIndex,
+        this.decodeCards(revealedHoleCards?.get(ps.seatIndex) ?? ps.encryptedHoleCards)
+      );
+    }
+
+    const boards = game.runBoards && game.runBoards.length > 1 ? game.runBoards : [game.communityCards];
+    return boards.map((board, run) => {
+      const shares = pots.map((pot) => ({
+        eligiblePlayers: pot.eligiblePlayers,
+        amount: PotManager.distributePot(pot.amount, boards.map((_, i) => i)).get(run)!,
+      }));
+      return this.awardPots(game, activePlayers, holeCards, this.decodeCards(board), shares);
+    });
+  }
+
+  /**
+   * Award pots to the best eligible hand(s) on one board
+   */
+  private static awardPots(
+    game: Game,
+    activePlayers: PlayerState[],
+    holeCards: Map<number, Card[]>,
+    communityCards: Card[],
+    pots: { amount: BN; eligiblePlayers: number[] }[]
+  ): Winner[] {
+    // Rank every remaining hand
+    const hands = new Map<number, HandResult>();
+    const lows = new Map<number, LowHandResult>();
+    const hiLo = GameLogic.isHiLo(game);
+    for (const ps of activePlayers) {
+      const cards = holeCards.get(ps.seatIndex)!;
+      hands.set(ps.seatIndex, this.evaluateHand(game, cards, communityCards));
+
+      const low = hiLo ? LowEvaluator.evaluateOmahaLow(cards, communityCards) : null;
+      if (low) lows.set(ps.seatIndex, low);
+    }
 
-    return activePlayers.map((ps) => ({
-      player: ps.player,
-      playerState: ps,
-      winAmount,
-    }));
+    // Award each pot to its best eligible hand(s), splitting hi-lo pots
+    const winnings = new Map<number, BN>();
+    const award = (amount: BN, seats: number[]) => {
+      PotManager.distributePot(amount, seats).forEach((share, seatIndex) => {
+        winnings.set(seatIndex, (winnings.get(seatIndex) ?? new BN(0)).add(share));
+      });
+    };
+    for (const pot of pots) {
+      const highWinners = this.getBestSeats(
+        pot.eligiblePlayers, hands, (a, b) => HandEvaluator.compareHands(a, b), game
+      );
+      const lowWinners = this.getBestSeats(
+        pot.eligiblePlayers, lows, (a, b) => LowEvaluator.compareLows(a, b), game
+      );
+      if (lowWinners.length === 0) {
+        award(pot.amount, highWinners);
+        continue;
+      }
+
+      const lowHalf = pot.amount.div(new BN(2));
+      award(pot.amount.sub(lowHalf), highWinners);
+      award(lowHalf, lowWinners);
+    }
+
+    const winners: Winner[] = [];
+    for (const ps of activePlayers) {
+      const winAmount = winnings.get(ps.seatIndex);
+      if (!winAmount) continue;
+      const hand = hands.get(ps.seatIndex)!;
+      winners.push({
+        player: ps.player,
+        playerState: ps,
+        winAmount,
+        handRank: hand.rank,
+        hand,
+        lowHand: lows.get(ps.seatIndex),
+      });
+    }
+
+    return winners;
+  }
+
+  /**
+   * Players still in the hand (not folded, with chips or chips in the pot)
+   */
+  private static getActivePlayers(playerStates: PlayerState[]): PlayerState[] {
+    return playerStates.filter(
+      (ps) => !ps.hasFolded && (ps.chipStack.gt(new BN(0)) || ps.totalBetThisHand.gt(new BN(0)))
+    );
+  }
+
+  /**
+   * Rank a player's hand under the table's game variant
+   */
+  private static evaluateHand(game: Game, holeCards: Card[], communityCards: Card[]): HandResult {
+    switch (GameLogic.getVariant(game)) {
+      case GameVariant.Omaha:
+      case GameVariant.OmahaHiLo:
+        return HandEvaluator.evaluateOmahaHand(holeCards, communityCards);
+      case GameVariant.ShortDeck:
+        return HandEvaluator.evaluateShortDeckHand([...holeCards, ...communityCards]);
+      default:
+        return HandEvaluator.evaluateHand([...holeCards, ...communityCards]);
+    }
+  }
+
+  /**
+   * Get the seats holding the best hand (high or low) among eligible seats.
+   * Tied seats are ordered clockwise from the dealer so the odd chip
+   * goes to the first player left of the button.
+   */
+  private static getBestSeats<T>(
+    eligibleSeats: number[],
+    hands: Map<number, T>,
+    compare: (hand1: T, hand2: T) => number,
+    game: Game
+  ): number[] {
+    let best: number[] = [];
+
+    for (const seat of eligibleSeats) {
+      const hand = hands.get(seat);
+      if (!hand) continue;
+      if (best.length === 0) {
+        best = [seat];
+        continue;
+      }
+
+      const cmp = compare(hand, hands.get(best[0])!);
+      if (cmp > 0) {
+        best = [seat];
+      } else if (cmp === 0) {
+        best.push(seat);
+      }
+    }
+
+    const seats = Math.max(game.maxPlayers, 1);
+    const distanceFromButton = (seat: number) =>
+      (seat - game.dealerPosition - 1 + seats) % seats;
+
+    return best.sort((a, b) => distanceFromButton(a) - distanceFromButton(b));
+  }
+
+  /**
+   * Decode card indices (0-51) into cards
+   */
+  private static decodeCards(indices: number[]): Card[] {
+    return indices.map((index) => {
+      const card = DeckManager.decodeCard(index);
+      if (!card) {
+        throw new PokerError(ErrorCode.InvalidCardIndex, `Invalid card index: ${index}`);
+      }
+      return card;
+    });
   }
 
   /**
@@ -1,10 +1,12 @@
 'use client';
 
-import { FC, ReactNode, useMemo } from 'react';
-import { ConnectionProvider, WalletProvider as SolanaWalletProvider } from '@solana/wallet-adapter-react';
+import { FC, ReactNode, useEffect, useMemo } from 'react';
+import { ConnectionContext, WalletProvider as SolanaWalletProvider } from '@solana/wallet-adapter-react';
 import { WalletModalProvider } from '@solana/wallet-adapter-react-ui';
 import { PhantomWalletAdapter, SolflareWalletAdapter } from '@solana/wallet-adapter-wallets';
-import { RPC_ENDPOINT } from '@/lib/shared/constants';
+import { LOCAL_MODE } from '@/lib/shared/constants';
+import { LocalWalletAdapter } from '@/lib/connection/local-wallet';
+import { RPCClient } from '@/lib/connection/rpc';
 
 // Import wallet adapter CSS
 import '@solana/wallet-adapter-react-ui/styles.css';
@@ -14,22 +16,33 @@ interface WalletProviderProps {
 }
 
 export const WalletProvider: FC<WalletProviderProps> = ({ children }) => {
-  // Configure wallets
+  // Configure wallets (fake local players in local table mode)
   const wallets = useMemo(
-    () => [
-      new PhantomWalletAdapter(),
-      new SolflareWalletAdapter(),
-    ],
+    () => LOCAL_MODE
+      ? LocalWalletAdapter.createAdapters()
+      : [
+        new PhantomWalletAdapter(),
+        new SolflareWalletAdapter(),
+      ],
     []
   );
 
+  // One connection for the whole app, failing over between the
+  // configured RPC endpoints
+  const connection = useMemo(() => ({ connection: RPCClient.getConnection() }), []);
+
+  useEffect(() => {
+    if (LOCAL_MODE) return;
+    return RPCClient.startHealthChecks();
+  }, []);
+
   return (
-    <ConnectionProvider endpoint={RPC_ENDPOINT}>
+    <ConnectionContext.Provider value={connection}>
       <SolanaWalletProvider wallets={wallets} autoConnect>
         <WalletModalProvider>
           {children}
         </WalletModalProvider>
       </SolanaWalletProvider>
-    </ConnectionProvider>
+    </ConnectionContext.Provider>
   );
 };